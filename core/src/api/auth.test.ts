@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { appApiKey } from '../services/appApiKey';
+import { requireApiKey, _resetRateLimitForTesting } from './auth';
+
+// Mock the app API key store
+vi.mock('../services/appApiKey', () => ({
+  appApiKey: {
+    verify: vi.fn((apiKey: string) => apiKey === 'valid-key'),
+    verifyDownloadToken: vi.fn(
+      (token: string, path: string) => token === 'valid-token' && path === '/download'
+    ),
+    isBootstrapOpen: vi.fn(() => false),
+    closeBootstrapWindow: vi.fn(),
+  },
+}));
+
+// Mock the database logger
+vi.mock('../utils/logger', () => ({
+  writeLog: vi.fn(),
+}));
+
+const mockedAppApiKey = vi.mocked(appApiKey);
+
+describe('requireApiKey', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    app = Fastify();
+    app.addHook('preHandler', requireApiKey);
+    app.get('/private', async () => ({ ok: true }));
+    app.get('/public', { config: { public: true } }, async () => ({ ok: true }));
+    app.get('/download', { config: { download: true } }, async () => ({ ok: true }));
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    _resetRateLimitForTesting();
+    vi.clearAllMocks();
+  });
+
+  it('should reject requests without a key', async () => {
+    const response = await app.inject({ method: 'GET', url: '/private' });
+
+    expect(response.statusCode).toBe(401);
+    expect(JSON.parse(response.payload)).toEqual({ error: 'Invalid or missing API key' });
+  });
+
+  it('should reject requests with a wrong key', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/private',
+      headers: { authorization: 'Bearer wrong-key' },
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should accept a bearer token', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/private',
+      headers: { authorization: 'Bearer valid-key' },
+    });
+
+    expect(response.statusCode).toBe(200);
+  });
+
+  it('should not accept the key in the query string', async () => {
+    const response = await app.inject({ method: 'GET', url: '/private?apiKey=valid-key' });
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should accept a download token on download routes only', async () => {
+    const download = await app.inject({ method: 'GET', url: '/download?token=valid-token' });
+    const forged = await app.inject({ method: 'GET', url: '/download?token=forged' });
+    const elsewhere = await app.inject({ method: 'GET', url: '/private?token=valid-token' });
+
+    expect(download.statusCode).toBe(200);
+    expect(mockedAppApiKey.verifyDownloadToken).toHaveBeenCalledWith('valid-token', '/download');
+    expect(forged.statusCode).toBe(401);
+    expect(elsewhere.statusCode).toBe(401);
+  });
+
+  it('should let public routes through without a key', async () => {
+    const response = await app.inject({ method: 'GET', url: '/public' });
+
+    expect(response.statusCode).toBe(200);
+    expect(mockedAppApiKey.verify).not.toHaveBeenCalled();
+  });
+
+  it('should close the bootstrap window once a key is used', async () => {
+    mockedAppApiKey.isBootstrapOpen.mockReturnValueOnce(true);
+
+    await app.inject({
+      method: 'GET',
+      url: '/private',
+      headers: { authorization: 'Bearer valid-key' },
+    });
+
+    expect(mockedAppApiKey.closeBootstrapWindow).toHaveBeenCalled();
+  });
+
+  it('should rate limit an IP after 10 rejected keys', async () => {
+    for (let i = 0; i < 10; i++) {
+      await app.inject({
+        method: 'GET',
+        url: '/private',
+        headers: { authorization: 'Bearer guess' },
+      });
+    }
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/private',
+      headers: { authorization: 'Bearer another-guess' },
+    });
+
+    expect(response.statusCode).toBe(429);
+  });
+
+  it('should let a valid key through while its IP is rate limited', async () => {
+    for (let i = 0; i < 11; i++) {
+      await app.inject({
+        method: 'GET',
+        url: '/private',
+        headers: { authorization: 'Bearer guess' },
+      });
+    }
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/private',
+      headers: { authorization: 'Bearer valid-key' },
+    });
+
+    expect(response.statusCode).toBe(200);
+  });
+
+  it('should not count requests without credentials', async () => {
+    for (let i = 0; i < 20; i++) {
+      await app.inject({ method: 'GET', url: '/private' });
+    }
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/private',
+      headers: { authorization: 'Bearer guess' },
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+});
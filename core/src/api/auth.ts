@@ -0,0 +1,113 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { appApiKey } from '../services/appApiKey';
+import { writeLog } from '../utils/logger';
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    public?: boolean; // Skip API key authentication (webhooks, OAuth callback, bootstrap)
+    download?: boolean; // Also accept a ?token= issued by POST /api/export/tokens for this path
+  }
+}
+
+// Constants
+const MAX_FAILED_ATTEMPTS = 10;
+const FAILED_ATTEMPT_WINDOW_MS = 60_000;
+
+const failedAttempts = new Map<string, { count: number; windowStart: number }>();
+
+/**
+ * Pull the presented key from `Authorization: Bearer <key>`. Keys are never read from the
+ * query string, where they would end up in logs, browser history and Referer headers.
+ */
+function extractApiKey(request: FastifyRequest): string | null {
+  const header = request.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim() || null;
+  }
+  return null;
+}
+
+/**
+ * The `?token=` of a download route, which stands in for the key on that path only
+ */
+function extractDownloadToken(request: FastifyRequest): string | null {
+  if (!request.routeOptions.config?.download) {
+    return null;
+  }
+  const { token } = (request.query ?? {}) as { token?: unknown };
+  return typeof token === 'string' && token ? token : null;
+}
+
+/**
+ * The request path without its query string
+ */
+export function stripQueryString(url: string): string {
+  const queryStart = url.indexOf('?');
+  return queryStart === -1 ? url : url.slice(0, queryStart);
+}
+
+function isRateLimited(ip: string, now: number): boolean {
+  const entry = failedAttempts.get(ip);
+  if (!entry || now - entry.windowStart >= FAILED_ATTEMPT_WINDOW_MS) {
+    failedAttempts.delete(ip);
+    return false;
+  }
+  return entry.count >= MAX_FAILED_ATTEMPTS;
+}
+
+function recordFailedAttempt(ip: string, now: number): void {
+  const entry = failedAttempts.get(ip);
+  if (!entry || now - entry.windowStart >= FAILED_ATTEMPT_WINDOW_MS) {
+    failedAttempts.set(ip, { count: 1, windowStart: now });
+  } else {
+    entry.count++;
+  }
+}
+
+/**
+ * preHandler enforcing the app API key on every /api route not marked `config: { public: true }`
+ */
+export async function requireApiKey(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+  if (request.routeOptions.config?.public) {
+    return;
+  }
+
+  // A valid credential always gets through, so the limiter can't lock out the operator
+  const apiKey = extractApiKey(request);
+  const downloadToken = apiKey ? null : extractDownloadToken(request);
+  const authorized = apiKey
+    ? appApiKey.verify(apiKey)
+    : !!downloadToken &&
+      appApiKey.verifyDownloadToken(downloadToken, stripQueryString(request.url));
+  if (!authorized) {
+    console.warn(`🚫 Rejected API request to ${request.routeOptions.url} from ${request.ip}`);
+    writeLog('warn', 'Rejected API request: invalid or missing API key', {
+      method: request.method,
+      url: request.routeOptions.url,
+      keyPresent: !!apiKey,
+      downloadTokenPresent: !!downloadToken,
+      ip: request.ip,
+    });
+
+    // Only presented-and-rejected credentials count; keyless calls (e.g. the SPA before it has
+    // a key) are not guesses
+    if (apiKey || downloadToken) {
+      const now = Date.now();
+      if (isRateLimited(request.ip, now)) {
+        return reply.code(429).send({ error: 'Too many failed authentication attempts' });
+      }
+      recordFailedAttempt(request.ip, now);
+    }
+    return reply.code(401).send({ error: 'Invalid or missing API key' });
+  }
+
+  // A key is in use, so the one-time bootstrap retrieval is no longer needed
+  if (appApiKey.isBootstrapOpen()) {
+    appApiKey.closeBootstrapWindow();
+  }
+}
+
+// Test helper function to reset the failed attempt counters
+export function _resetRateLimitForTesting(): void {
+  failedAttempts.clear();
+}
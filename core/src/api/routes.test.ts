@@ -1,7 +1,27 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { FastifyInstance } from 'fastify';
-import { apiRoutes } from './routes';
+import { apiRoutes, payRoutes } from './routes';
+import { _resetRateLimitForTesting } from './auth';
 import { btcpayClient } from '../services/btcpay';
+import { quickbooksProvider } from '../services/quickbooks';
+import { quickbooksAuth } from '../services/quickbooksAuth';
+import { xeroAuth } from '../services/xeroAuth';
+import { appApiKey } from '../services/appApiKey';
+import { writeLog } from '../utils/logger';
+import { signBTCPayPayload } from '../utils/signing';
+import { backfillSync } from '../jobs/backfill';
+import { getConfigValue, setConfigValue } from '../models/config';
+import { getDeliveryHealth } from '../models/webhookDeliveries';
+import { setupStateMachine } from '../services/setupState';
+import {
+  getReconciliationSettings,
+  saveReconciliationSettings,
+} from '../services/reconciliationSettings';
+import { AccountingProvider, getAccountingProvider } from '../services/accounting';
+import { payLinkService } from '../services/payLinks';
+import { retryQueue } from '../services/retryQueue';
+import { renderJournal, saveJournalAccounts } from '../services/journalExport';
+import { streamReport } from '../services/reportExport';
 
 // Mock database interface
 interface MockStatement {
@@ -28,13 +48,183 @@ vi.mock('../services/btcpay', () => ({
     isAuthenticated: vi.fn(),
     getServerInfo: vi.fn(),
     registerWebhook: vi.fn(),
+    ensureWebhook: vi.fn(),
+    updateWebhook: vi.fn(),
+    rotateWebhookSecret: vi.fn(),
+    deleteWebhook: vi.fn(),
     getWebhooks: vi.fn(),
     getApiKey: vi.fn(),
     setApiKey: vi.fn(),
+    getWebhookSecret: vi.fn(),
+    getStores: vi.fn(),
+    getSelectedStoreId: vi.fn(),
+    setSelectedStoreId: vi.fn(),
+    configure: vi.fn(),
+    discover: vi.fn(),
+    getUrl: vi.fn(),
+    getAuthorizeUrl: vi.fn(),
+    checkPermissions: vi.fn(),
   },
+  normalizeBTCPayUrl: vi.fn((url: string) =>
+    /^https?:\/\/[^/]/.test(url) ? url.replace(/\/+$/, '') : null
+  ),
+  getWebhookCallbackUrl: vi.fn(() => 'http://localhost:3000/api/webhooks/btcpay'),
+}));
+
+// Mock the backfill job
+vi.mock('../jobs/backfill', () => ({
+  backfillSync: {
+    runNow: vi.fn(),
+  },
+}));
+
+// Mock the QuickBooks provider
+vi.mock('../services/quickbooks', () => ({
+  quickbooksProvider: {
+    isConfigured: vi.fn(() => false),
+  },
+}));
+
+// Mock the QuickBooks OAuth service
+vi.mock('../services/quickbooksAuth', () => ({
+  quickbooksAuth: {
+    setClientCredentials: vi.fn(),
+    getRedirectUri: vi.fn(() => 'http://localhost:3000/api/config/qbo/callback'),
+    createAuthorizationUrl: vi.fn(),
+    consumeState: vi.fn(),
+    exchangeCode: vi.fn(),
+    getConnection: vi.fn(() => ({ environment: 'production' })),
+  },
+}));
+
+// Mock the Xero OAuth service
+vi.mock('../services/xeroAuth', () => ({
+  xeroAuth: {
+    setClientId: vi.fn(),
+    getRedirectUri: vi.fn(() => 'http://localhost:3000/api/config/xero/callback'),
+    createAuthorizationUrl: vi.fn(),
+    consumeState: vi.fn(),
+    exchangeCode: vi.fn(),
+    getConnection: vi.fn(() => ({ tenantId: null, tenantName: null })),
+    listTenants: vi.fn(),
+    selectTenant: vi.fn(),
+  },
+}));
+
+// Mock the app API key store
+vi.mock('../services/appApiKey', () => ({
+  appApiKey: {
+    verify: vi.fn((apiKey: string) => apiKey === 'test-api-key'),
+    isBootstrapOpen: vi.fn(() => false),
+    closeBootstrapWindow: vi.fn(),
+    claimInitialKey: vi.fn(),
+    rotate: vi.fn(),
+    issueDownloadToken: vi.fn(),
+    verifyDownloadToken: vi.fn(),
+  },
+}));
+
+// Mock the database logger
+// Mock the config store
+vi.mock('../models/config', () => ({
+  getConfigValue: vi.fn(),
+  setConfigValue: vi.fn(),
+}));
+
+vi.mock('../services/setupState', () => ({
+  SETUP_EVENTS: ['DISCOVER', 'SELECT_PROVIDER', 'SELECT_MODE', 'REFRESH'],
+  setupStateMachine: {
+    evaluate: vi.fn(),
+    transition: vi.fn(),
+  },
+}));
+
+vi.mock('../services/reconciliationSettings', () => ({
+  RECONCILIATION_MODES: ['deposit', 'invoicing'],
+  DEFAULT_RECONCILIATION_MODE: 'deposit',
+  ACCOUNT_MAPPING_FIELDS: [
+    'depositAccountId',
+    'incomeAccountId',
+    'itemId',
+    'customerId',
+    'paymentMethodId',
+    'taxCodeId',
+  ],
+  getReconciliationSettings: vi.fn(() => ({ mode: null, accounts: {} })),
+  saveReconciliationSettings: vi.fn(),
+}));
+
+vi.mock('../services/accounting', () => ({
+  ACCOUNTING_PROVIDERS: ['quickbooks', 'xero'],
+  getAccountingProvider: vi.fn(),
+}));
+
+vi.mock('../services/payLinks', () => ({
+  payLinkService: {
+    createLink: vi.fn(),
+    resolve: vi.fn(),
+  },
+}));
+
+vi.mock('../services/retryQueue', () => ({
+  retryQueue: {
+    retryNow: vi.fn(),
+    retryAllFailed: vi.fn(),
+  },
+}));
+
+vi.mock('../services/journalExport', () => ({
+  JOURNAL_FORMATS: ['beancount', 'ledger', 'hledger'],
+  JOURNAL_FILE_EXTENSIONS: { beancount: 'beancount', ledger: 'ledger', hledger: 'journal' },
+  JOURNAL_ACCOUNT_FIELDS: ['bitcoinAccount', 'incomeAccount', 'overpaymentAccount'],
+  isValidAccountName: vi.fn((name: string) => /^(Assets|Income|Liabilities):[A-Z]\w*$/.test(name)),
+  getJournalAccounts: vi.fn(() => ({
+    bitcoinAccount: 'Assets:Bitcoin',
+    incomeAccount: 'Income:Sales',
+    overpaymentAccount: 'Liabilities:Overpayments',
+  })),
+  saveJournalAccounts: vi.fn(),
+  renderJournal: vi.fn(),
+}));
+
+vi.mock('../services/reportExport', () => ({
+  REPORT_TYPES: ['invoices', 'payments', 'reconciliations', 'errors'],
+  REPORT_FORMATS: ['csv', 'xlsx'],
+  REPORT_CONTENT_TYPES: {
+    csv: 'text/csv; charset=utf-8',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+  REPORT_STATUSES: {
+    invoices: ['settled'],
+    payments: ['paid'],
+    reconciliations: ['full', 'failed'],
+    errors: ['dead'],
+  },
+  streamReport: vi.fn(),
+}));
+
+vi.mock('../models/webhookDeliveries', () => ({
+  getDeliveryHealth: vi.fn(),
+}));
+
+vi.mock('../utils/logger', () => ({
+  writeLog: vi.fn(),
 }));
 
 const mockedBTCPayClient = vi.mocked(btcpayClient);
+const mockedQuickBooksAuth = vi.mocked(quickbooksAuth);
+const mockedXeroAuth = vi.mocked(xeroAuth);
+const mockedAppApiKey = vi.mocked(appApiKey);
+const mockedBackfillSync = vi.mocked(backfillSync);
+const mockedSetupStateMachine = vi.mocked(setupStateMachine);
+const mockedGetReconciliationSettings = vi.mocked(getReconciliationSettings);
+const mockedSaveReconciliationSettings = vi.mocked(saveReconciliationSettings);
+const mockedGetAccountingProvider = vi.mocked(getAccountingProvider);
+const mockedPayLinkService = vi.mocked(payLinkService);
+const mockedRetryQueue = vi.mocked(retryQueue);
+const mockedRenderJournal = vi.mocked(renderJournal);
+const mockedSaveJournalAccounts = vi.mocked(saveJournalAccounts);
+const mockedStreamReport = vi.mocked(streamReport);
 
 describe('API Routes', () => {
   let app: FastifyInstance;
@@ -42,6 +232,10 @@ describe('API Routes', () => {
   beforeEach(async () => {
     // Create a test Fastify instance
     const fastify = (await import('fastify')).default();
+    // Authenticate requests by default - tests that send their own header keep it
+    fastify.addHook('onRequest', async (request) => {
+      request.headers.authorization ??= 'Bearer test-api-key';
+    });
     await apiRoutes(fastify, {});
     await fastify.ready();
     app = fastify;
@@ -51,6 +245,7 @@ describe('API Routes', () => {
     if (app) {
       await app.close();
     }
+    _resetRateLimitForTesting();
     vi.clearAllMocks();
   });
 
@@ -142,17 +337,240 @@ describe('API Routes', () => {
     });
   });
 
+  describe('/btcpay/api-key', () => {
+    const authorizeUrl =
+      'https://btcpay.example.com/api-keys/authorize?applicationName=Sovereign+Merchant';
+
+    it('should offer an authorize link alongside the masked key status', async () => {
+      mockedBTCPayClient.getApiKey.mockResolvedValue(undefined);
+      mockedBTCPayClient.getAuthorizeUrl.mockReturnValue(authorizeUrl);
+
+      const response = await app.inject({ method: 'GET', url: '/btcpay/api-key' });
+
+      expect(JSON.parse(response.payload)).toEqual({
+        configured: false,
+        key: null,
+        authorizeUrl,
+      });
+    });
+
+    it('should list the permissions the saved key is missing', async () => {
+      mockedBTCPayClient.checkPermissions.mockResolvedValue({
+        permissions: ['btcpay.store.canviewinvoices:store_1'],
+        missing: ['btcpay.store.webhooks.canmodifywebhooks', 'btcpay.store.canviewstoresettings'],
+        storeId: 'store_1',
+        authorizeUrl,
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/btcpay/api-key',
+        payload: { apiKey: 'key_123' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockedBTCPayClient.setApiKey).toHaveBeenCalledWith('key_123');
+      expect(JSON.parse(response.payload)).toMatchObject({
+        success: true,
+        permissions: ['btcpay.store.canviewinvoices:store_1'],
+        missingPermissions: [
+          'btcpay.store.webhooks.canmodifywebhooks',
+          'btcpay.store.canviewstoresettings',
+        ],
+        authorizeUrl,
+      });
+    });
+
+    it('should still save the key when its permissions cannot be read', async () => {
+      mockedBTCPayClient.checkPermissions.mockResolvedValue(null);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/btcpay/api-key',
+        payload: { apiKey: 'key_123' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toMatchObject({
+        success: true,
+        missingPermissions: null,
+      });
+    });
+  });
+
+  describe('GET /btcpay/stores', () => {
+    it('should list stores and flag the selected one', async () => {
+      mockedBTCPayClient.getStores.mockResolvedValue([
+        { id: 'store_1', name: 'Coffee Shop' },
+        { id: 'store_2', name: 'Online Shop' },
+      ]);
+      mockedBTCPayClient.getSelectedStoreId.mockReturnValue('store_2');
+
+      const response = await app.inject({ method: 'GET', url: '/btcpay/stores' });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({
+        stores: [
+          { id: 'store_1', name: 'Coffee Shop', selected: false },
+          { id: 'store_2', name: 'Online Shop', selected: true },
+        ],
+        selectedStoreId: 'store_2',
+      });
+    });
+
+    it('should return 502 when BTCPayServer cannot be reached', async () => {
+      mockedBTCPayClient.getStores.mockRejectedValue(new Error('BTCPayServer not connected'));
+
+      const response = await app.inject({ method: 'GET', url: '/btcpay/stores' });
+
+      expect(response.statusCode).toBe(502);
+    });
+  });
+
+  describe('PUT /btcpay/stores/selected', () => {
+    beforeEach(() => {
+      mockedBTCPayClient.getStores.mockResolvedValue([
+        { id: 'store_1', name: 'Coffee Shop' },
+        { id: 'store_2', name: 'Online Shop' },
+      ]);
+    });
+
+    it('should persist the selected store', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/btcpay/stores/selected',
+        payload: { storeId: 'store_2' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload).store).toEqual({
+        id: 'store_2',
+        name: 'Online Shop',
+        selected: true,
+      });
+      expect(mockedBTCPayClient.setSelectedStoreId).toHaveBeenCalledWith('store_2');
+    });
+
+    it('should reject stores that do not exist on the server', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/btcpay/stores/selected',
+        payload: { storeId: 'store_9' },
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(mockedBTCPayClient.setSelectedStoreId).not.toHaveBeenCalled();
+    });
+
+    it('should require a store ID', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/btcpay/stores/selected',
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('/btcpay/stores/:storeId/payment-tolerance', () => {
+    beforeEach(() => {
+      mockedBTCPayClient.getStores.mockResolvedValue([
+        { id: 'store_1', name: 'Main Street Shop' },
+        { id: 'store_2', name: 'Online Shop' },
+      ]);
+    });
+
+    it('should default to a 1% tolerance', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/btcpay/stores/store_1/payment-tolerance',
+      });
+
+      expect(JSON.parse(response.payload)).toEqual({ storeId: 'store_1', tolerancePercent: 1 });
+    });
+
+    it('should report the stored tolerance', async () => {
+      vi.mocked(getConfigValue).mockReturnValueOnce('2.5');
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/btcpay/stores/store_1/payment-tolerance',
+      });
+
+      expect(JSON.parse(response.payload).tolerancePercent).toBe(2.5);
+      expect(getConfigValue).toHaveBeenCalledWith('payment_tolerance_percent:store_1');
+    });
+
+    it('should store a tolerance per store', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/btcpay/stores/store_2/payment-tolerance',
+        payload: { tolerancePercent: 0.5 },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(setConfigValue).toHaveBeenCalledWith('payment_tolerance_percent:store_2', '0.5');
+    });
+
+    it.each([-1, 50, '1', null])('should reject a tolerance of %s', async (tolerancePercent) => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/btcpay/stores/store_2/payment-tolerance',
+        payload: { tolerancePercent },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(setConfigValue).not.toHaveBeenCalled();
+    });
+
+    it('should reject stores that are not in BTCPayServer', async () => {
+      const read = await app.inject({
+        method: 'GET',
+        url: '/btcpay/stores/store_typo/payment-tolerance',
+      });
+      const write = await app.inject({
+        method: 'PUT',
+        url: '/btcpay/stores/store_typo/payment-tolerance',
+        payload: { tolerancePercent: 2 },
+      });
+
+      expect(read.statusCode).toBe(404);
+      expect(write.statusCode).toBe(404);
+      expect(JSON.parse(write.payload)).toEqual({
+        error: 'Store store_typo not found in BTCPayServer',
+      });
+      expect(setConfigValue).not.toHaveBeenCalled();
+    });
+
+    it('should not guess when the stores cannot be listed', async () => {
+      mockedBTCPayClient.getStores.mockRejectedValue(new Error('BTCPayServer not connected'));
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/btcpay/stores/store_2/payment-tolerance',
+        payload: { tolerancePercent: 2 },
+      });
+
+      expect(response.statusCode).toBe(502);
+      expect(setConfigValue).not.toHaveBeenCalled();
+    });
+  });
+
   describe('POST /btcpay/webhook/register', () => {
-    it('should successfully register webhook', async () => {
-      const mockWebhook = {
-        id: 'webhook_123',
-        url: 'http://umbrel.local/api/webhooks/btcpay',
-        events: ['invoice_created', 'invoice_paid'],
-        active: true,
-        secret: 'webhook_secret_123',
-      };
+    const webhook = {
+      id: 'webhook_123',
+      url: 'http://localhost:3000/api/webhooks/btcpay',
+      events: ['InvoicePaymentSettled', 'InvoiceExpired', 'InvoiceInvalid'],
+      active: true,
+    };
 
-      mockedBTCPayClient.registerWebhook.mockResolvedValue(mockWebhook);
+    it('should successfully register webhook', async () => {
+      mockedBTCPayClient.ensureWebhook.mockResolvedValue({
+        webhook: { ...webhook, secret: 'webhook_secret_123' },
+        action: 'created',
+        removed: [],
+      });
 
       const response = await app.inject({
         method: 'POST',
@@ -162,11 +580,35 @@ describe('API Routes', () => {
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.payload);
       expect(body.success).toBe(true);
-      expect(body.webhook).toEqual(mockWebhook);
+      // The secret never leaves the server
+      expect(body.webhook).toEqual(webhook);
+      expect(mockedBTCPayClient.ensureWebhook).toHaveBeenCalledWith(
+        'http://localhost:3000/api/webhooks/btcpay'
+      );
+    });
+
+    it('should report duplicates it cleaned up instead of registering another webhook', async () => {
+      mockedBTCPayClient.ensureWebhook.mockResolvedValue({
+        webhook,
+        action: 'unchanged',
+        removed: ['webhook_456'],
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/btcpay/webhook/register',
+      });
+
+      expect(JSON.parse(response.payload)).toMatchObject({
+        success: true,
+        action: 'unchanged',
+        removed: ['webhook_456'],
+      });
+      expect(mockedBTCPayClient.registerWebhook).not.toHaveBeenCalled();
     });
 
     it('should handle webhook registration failure', async () => {
-      mockedBTCPayClient.registerWebhook.mockResolvedValue(null);
+      mockedBTCPayClient.ensureWebhook.mockResolvedValue(null);
 
       const response = await app.inject({
         method: 'POST',
@@ -180,140 +622,540 @@ describe('API Routes', () => {
     });
   });
 
-  describe('GET /btcpay/webhooks', () => {
-    it('should return list of webhooks', async () => {
-      const mockWebhooks = [
-        {
-          id: 'webhook_123',
-          url: 'http://umbrel.local/api/webhooks/btcpay',
-          events: ['invoice_created'],
-          active: true,
-        },
-      ];
-
-      mockedBTCPayClient.getWebhooks.mockResolvedValue(mockWebhooks);
+  describe('PUT /btcpay/webhooks/:webhookId', () => {
+    it('should update the webhook', async () => {
+      const webhook = { id: 'webhook_123', url: 'http://x', events: [], active: false };
+      mockedBTCPayClient.updateWebhook.mockResolvedValue(webhook);
 
       const response = await app.inject({
-        method: 'GET',
-        url: '/btcpay/webhooks',
+        method: 'PUT',
+        url: '/btcpay/webhooks/webhook_123',
+        payload: { active: false },
       });
 
       expect(response.statusCode).toBe(200);
-      const body = JSON.parse(response.payload);
-      expect(body.webhooks).toEqual(mockWebhooks);
+      expect(JSON.parse(response.payload)).toEqual({ success: true, webhook });
+      expect(mockedBTCPayClient.updateWebhook).toHaveBeenCalledWith('webhook_123', {
+        url: undefined,
+        events: undefined,
+        active: false,
+      });
     });
-  });
 
-  describe('GET /settled-invoices', () => {
-    it('should return list of settled invoices', async () => {
-      const mockSettledInvoices = [
-        {
-          id: 'webhook_123',
-          invoice_id: 'invoice_456',
-          store_id: 'store_789',
-          payload: JSON.stringify({
-            metadata: {
-              amount: '100.00',
-              currency: 'USD',
-              buyerEmail: 'customer@example.com',
-            },
-          }),
-          created_at: '2024-01-15T10:30:00.000Z',
-          quickbooks_status: 'pending',
-          quickbooks_transaction_id: null,
-        },
-      ];
+    it('should reject malformed updates', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/btcpay/webhooks/webhook_123',
+        payload: { active: 'yes', events: 'InvoiceExpired' },
+      });
 
-      // Mock the database query
-      const mockDb: MockDatabase = {
-        prepare: vi.fn(() => ({
-          all: vi.fn(() => mockSettledInvoices),
-        })),
-      };
-      const { getDatabase } = await import('../models/database');
-      vi.mocked(getDatabase).mockReturnValue(mockDb);
+      expect(response.statusCode).toBe(400);
+      expect(mockedBTCPayClient.updateWebhook).not.toHaveBeenCalled();
+    });
+
+    it('should report failures from BTCPayServer', async () => {
+      mockedBTCPayClient.updateWebhook.mockResolvedValue(null);
 
       const response = await app.inject({
-        method: 'GET',
-        url: '/settled-invoices',
+        method: 'PUT',
+        url: '/btcpay/webhooks/webhook_123',
+        payload: { active: true },
       });
 
-      expect(response.statusCode).toBe(200);
-      const body = JSON.parse(response.payload);
-      expect(body.invoices).toBeDefined();
-      expect(body.invoices.length).toBe(1);
-      expect(body.invoices[0].invoiceId).toBe('invoice_456');
-      expect(body.invoices[0].quickbooksData).toBeDefined();
+      expect(response.statusCode).toBe(502);
     });
+  });
 
-    it('should handle database query errors', async () => {
-      // Mock the database to throw an error
-      const { getDatabase } = await import('../models/database');
-      vi.mocked(getDatabase).mockImplementation(() => {
-        throw new Error('Database connection failed');
+  describe('POST /btcpay/webhooks/:webhookId/rotate-secret', () => {
+    it('should rotate the secret without returning it', async () => {
+      const webhook = { id: 'webhook_123', url: 'http://x', events: [], active: true };
+      mockedBTCPayClient.rotateWebhookSecret.mockResolvedValue(webhook);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/btcpay/webhooks/webhook_123/rotate-secret',
       });
 
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({ success: true, webhook });
+      expect(mockedBTCPayClient.rotateWebhookSecret).toHaveBeenCalledWith('webhook_123');
+    });
+
+    it('should report failures from BTCPayServer', async () => {
+      mockedBTCPayClient.rotateWebhookSecret.mockResolvedValue(null);
+
       const response = await app.inject({
-        method: 'GET',
-        url: '/settled-invoices',
+        method: 'POST',
+        url: '/btcpay/webhooks/webhook_123/rotate-secret',
       });
 
+      expect(response.statusCode).toBe(502);
+    });
+  });
+
+  describe('DELETE /btcpay/webhooks/:webhookId', () => {
+    it('should delete the webhook', async () => {
+      mockedBTCPayClient.deleteWebhook.mockResolvedValue(true);
+
+      const response = await app.inject({ method: 'DELETE', url: '/btcpay/webhooks/webhook_123' });
+
       expect(response.statusCode).toBe(200);
-      const body = JSON.parse(response.payload);
-      expect(body.invoices).toEqual([]);
-      expect(body.error).toBe('Database connection failed');
+      expect(mockedBTCPayClient.deleteWebhook).toHaveBeenCalledWith('webhook_123');
     });
 
-    it('should handle malformed JSON in webhook payload', async () => {
-      const mockSettledInvoices = [
+    it('should report failures from BTCPayServer', async () => {
+      mockedBTCPayClient.deleteWebhook.mockResolvedValue(false);
+
+      const response = await app.inject({ method: 'DELETE', url: '/btcpay/webhooks/webhook_123' });
+
+      expect(response.statusCode).toBe(502);
+    });
+  });
+
+  describe('GET /btcpay/webhooks', () => {
+    it('should return list of webhooks with their delivery health and no secrets', async () => {
+      const health = {
+        lastSuccessAt: '2024-01-15T10:30:00.000Z',
+        lastFailureAt: '2024-01-15T12:00:00.000Z',
+        failureCount: 2,
+        lastError: 'HTTP 502',
+      };
+      vi.mocked(getDeliveryHealth).mockReturnValue(health);
+      const mockWebhooks = [
         {
           id: 'webhook_123',
-          invoice_id: 'invoice_456',
-          store_id: 'store_789',
-          payload: 'invalid json',
-          created_at: '2024-01-15T10:30:00.000Z',
-          quickbooks_status: 'pending',
-          quickbooks_transaction_id: null,
+          url: 'http://umbrel.local/api/webhooks/btcpay',
+          events: ['invoice_created'],
+          active: true,
         },
       ];
 
-      // Mock the database query
-      const mockDb: MockDatabase = {
-        prepare: vi.fn(() => ({
-          all: vi.fn(() => mockSettledInvoices),
-        })),
-      };
-      const { getDatabase } = await import('../models/database');
-      vi.mocked(getDatabase).mockReturnValue(mockDb);
+      mockedBTCPayClient.getWebhooks.mockResolvedValue([
+        { ...mockWebhooks[0], secret: 'webhook_secret_123' },
+      ]);
 
       const response = await app.inject({
         method: 'GET',
-        url: '/settled-invoices',
+        url: '/btcpay/webhooks',
       });
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.payload);
-      expect(body.invoices).toBeDefined();
-      expect(body.invoices.length).toBe(1);
-      expect(body.invoices[0].amount).toBe('Parse Error');
-      expect(body.invoices[0].quickbooksData).toBeNull();
+      expect(body.webhooks).toEqual([{ ...mockWebhooks[0], health }]);
+      expect(response.payload).not.toContain('webhook_secret_123');
+      expect(getDeliveryHealth).toHaveBeenCalledWith('webhook_123');
     });
   });
 
-  describe('GET /config', () => {
-    it('should return configuration status', async () => {
-      mockedBTCPayClient.isConnected.mockResolvedValue(true);
+  describe('POST /webhooks/btcpay', () => {
+    const secret = 'webhook_secret_123';
+    const payload = JSON.stringify({
+      deliveryId: 'delivery_1',
+      webhookId: 'webhook_123',
+      type: 'InvoiceSettled',
+      invoiceId: 'invoice_456',
+      storeId: 'store_789',
+    });
+
+    let run: ReturnType<typeof vi.fn>;
+    let get: ReturnType<typeof vi.fn>;
+
+    beforeEach(async () => {
+      run = vi.fn(() => ({ changes: 1 }));
+      get = vi.fn();
+      const { getDatabase } = await import('../models/database');
+      vi.mocked(getDatabase).mockReturnValue({
+        prepare: vi.fn(() => ({ all: vi.fn(), run, get })),
+      } as unknown as MockDatabase);
+    });
+
+    it('should store events with a valid BTCPay-Sig header', async () => {
+      mockedBTCPayClient.getWebhookSecret.mockReturnValue(secret);
 
       const response = await app.inject({
-        method: 'GET',
-        url: '/config',
+        method: 'POST',
+        url: '/webhooks/btcpay',
+        headers: {
+          'content-type': 'application/json',
+          'btcpay-sig': signBTCPayPayload(payload, secret),
+        },
+        payload,
       });
 
       expect(response.statusCode).toBe(200);
-      const body = JSON.parse(response.payload);
-      expect(body.btcpayConfigured).toBe(true);
-      expect(body.quickbooksConfigured).toBe(false);
-      expect(body.setupComplete).toBe(true);
+      expect(JSON.parse(response.payload).stored).toBe(true);
+      expect(mockedBTCPayClient.getWebhookSecret).toHaveBeenCalledWith('webhook_123');
+      expect(run).toHaveBeenCalled();
+      // Keyed on the BTCPay delivery, not a generated ID
+      expect(run.mock.calls[0][0]).toBe('webhook_123:delivery_1');
+    });
+
+    it('should acknowledge redeliveries as duplicates without storing them again', async () => {
+      mockedBTCPayClient.getWebhookSecret.mockReturnValue(secret);
+      run.mockReturnValue({ changes: 0 });
+      get.mockReturnValue({ id: 'webhook_123:delivery_1' });
+      const redelivery = JSON.stringify({
+        ...JSON.parse(payload),
+        deliveryId: 'delivery_2',
+        originalDeliveryId: 'delivery_1',
+        isRedelivery: true,
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/webhooks/btcpay',
+        headers: {
+          'content-type': 'application/json',
+          'btcpay-sig': signBTCPayPayload(redelivery, secret),
+        },
+        payload: redelivery,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toMatchObject({
+        duplicate: true,
+        stored: false,
+        webhookId: 'webhook_123:delivery_1',
+      });
+      expect(run.mock.calls[0][0]).toBe('webhook_123:delivery_1');
+    });
+
+    it('should reject and log events with a mismatched signature', async () => {
+      mockedBTCPayClient.getWebhookSecret.mockReturnValue(secret);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/webhooks/btcpay',
+        headers: {
+          'content-type': 'application/json',
+          'btcpay-sig': signBTCPayPayload(payload, 'attacker_secret'),
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(run).not.toHaveBeenCalled();
+      expect(writeLog).toHaveBeenCalledWith(
+        'warn',
+        'Rejected BTCPay webhook: signature mismatch',
+        expect.objectContaining({ webhookId: 'webhook_123', signaturePresent: true })
+      );
+    });
+
+    it('should reject events without a signature', async () => {
+      mockedBTCPayClient.getWebhookSecret.mockReturnValue(secret);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/webhooks/btcpay',
+        headers: { 'content-type': 'application/json' },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(run).not.toHaveBeenCalled();
+    });
+
+    it('should reject events for webhooks we did not register', async () => {
+      mockedBTCPayClient.getWebhookSecret.mockReturnValue(null);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/webhooks/btcpay',
+        headers: {
+          'content-type': 'application/json',
+          'btcpay-sig': signBTCPayPayload(payload, secret),
+        },
+        payload,
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(writeLog).toHaveBeenCalledWith(
+        'warn',
+        'Rejected BTCPay webhook: unknown webhook',
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('GET /settled-invoices', () => {
+    const eventRow = (overrides: Record<string, unknown> = {}) => ({
+      id: 'webhook_123:delivery_1',
+      event_type: 'InvoicePaymentSettled',
+      invoice_id: 'invoice_456',
+      store_id: 'store_789',
+      payload: JSON.stringify({
+        metadata: {
+          amount: '100.00',
+          currency: 'USD',
+          buyerEmail: 'customer@example.com',
+        },
+      }),
+      created_at: '2024-01-15 10:30:00',
+      reconciliation_id: null,
+      reconciliation_status: null,
+      payment_status: null,
+      amount_sats: null,
+      amount_fiat: null,
+      reconciliation_currency: null,
+      accounting_transaction_id: null,
+      accounting_provider: null,
+      error_message: null,
+      retry_status: null,
+      retry_attempts: null,
+      retry_next_attempt_at: null,
+      retry_error_kind: null,
+      refunded_fiat: null,
+      reversal_status: null,
+      reversal_method: null,
+      reversal_transaction_id: null,
+      reversal_transaction_type: null,
+      ...overrides,
+    });
+
+    async function mockEventRows(rows: unknown[]) {
+      const mockDb: MockDatabase = {
+        prepare: vi.fn(() => ({
+          all: vi.fn(() => rows),
+        })),
+      };
+      const { getDatabase } = await import('../models/database');
+      vi.mocked(getDatabase).mockReturnValue(mockDb);
+    }
+
+    it('should return list of settled invoices', async () => {
+      await mockEventRows([eventRow()]);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/settled-invoices',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.payload);
+      expect(body.invoices).toBeDefined();
+      expect(body.invoices.length).toBe(1);
+      expect(body.invoices[0].invoiceId).toBe('invoice_456');
+      expect(body.invoices[0].quickbooksData).toBeDefined();
+    });
+
+    it('should preview the QuickBooks data with the configured mode and accounts', async () => {
+      mockedGetReconciliationSettings.mockReturnValueOnce({
+        mode: 'deposit',
+        accounts: { depositAccountId: '35', customerId: '58' },
+      });
+      await mockEventRows([eventRow()]);
+
+      const response = await app.inject({ method: 'GET', url: '/settled-invoices' });
+
+      expect(JSON.parse(response.payload).invoices[0].quickbooksData).toEqual({
+        amount: 100,
+        currency: 'USD',
+        date: '2024-01-15',
+        description: 'BTCPayServer Invoice invoice_456',
+        mode: 'deposit',
+        accounts: { depositAccountId: '35', customerId: '58' },
+        billEmail: 'customer@example.com',
+      });
+    });
+
+    it('should collapse the events of an invoice into one lifecycle entry', async () => {
+      const reconciled = {
+        reconciliation_status: 'partial',
+        payment_status: 'partial',
+        amount_sats: 120000,
+        amount_fiat: 6000,
+        reconciliation_currency: 'USD',
+        accounting_transaction_id: 'qbo_txn_1',
+        accounting_provider: 'quickbooks',
+      };
+      await mockEventRows([
+        eventRow({ ...reconciled }),
+        eventRow({ id: 'other:1', invoice_id: 'invoice_999', created_at: '2024-01-15 11:00:00' }),
+        eventRow({
+          ...reconciled,
+          id: 'webhook_123:delivery_2',
+          event_type: 'InvoiceExpired',
+          created_at: '2024-01-15 12:00:00',
+        }),
+      ]);
+
+      const response = await app.inject({ method: 'GET', url: '/settled-invoices' });
+
+      const { invoices } = JSON.parse(response.payload);
+      expect(invoices.map((invoice: { invoiceId: string }) => invoice.invoiceId)).toEqual([
+        'invoice_456',
+        'invoice_999',
+      ]);
+      expect(invoices[0]).toMatchObject({
+        status: 'expired',
+        events: [
+          { type: 'InvoicePaymentSettled', receivedAt: '2024-01-15 10:30:00' },
+          { type: 'InvoiceExpired', receivedAt: '2024-01-15 12:00:00' },
+        ],
+        settledAt: '2024-01-15 10:30:00',
+        reconciliation: {
+          status: 'partial',
+          amountSats: 120000,
+          transactionId: 'qbo_txn_1',
+          provider: 'quickbooks',
+        },
+        quickbooksStatus: 'sent_to_quickbooks',
+        amount: 60,
+        currency: 'USD',
+      });
+      expect(invoices[1]).toMatchObject({ status: 'paying', reconciliation: null });
+    });
+
+    it('should include the retry state of a failed reconciliation', async () => {
+      await mockEventRows([
+        eventRow({
+          reconciliation_id: 'rec_1',
+          reconciliation_status: 'failed',
+          error_message: 'QuickBooks API returned HTTP 503',
+          retry_status: 'scheduled',
+          retry_attempts: 2,
+          retry_next_attempt_at: '2024-01-15T10:35:00.000Z',
+          retry_error_kind: 'transient',
+        }),
+      ]);
+
+      const response = await app.inject({ method: 'GET', url: '/settled-invoices' });
+
+      expect(JSON.parse(response.payload).invoices[0].reconciliation).toMatchObject({
+        id: 'rec_1',
+        status: 'failed',
+        error: 'QuickBooks API returned HTTP 503',
+        retry: {
+          status: 'scheduled',
+          attempts: 2,
+          nextAttemptAt: '2024-01-15T10:35:00.000Z',
+          errorKind: 'transient',
+        },
+      });
+    });
+
+    it('should report refunded invoices with the amount refunded', async () => {
+      await mockEventRows([
+        eventRow({
+          event_type: 'InvoiceSettled',
+          reconciliation_id: 'rec_1',
+          reconciliation_status: 'full',
+          refunded_fiat: 2500,
+        }),
+      ]);
+
+      const response = await app.inject({ method: 'GET', url: '/settled-invoices' });
+
+      const [invoice] = JSON.parse(response.payload).invoices;
+      expect(invoice.status).toBe('refunded');
+      expect(invoice.reconciliation.refundedFiat).toBe(2500);
+    });
+
+    it('should include the reversal of an invalidated invoice', async () => {
+      await mockEventRows([
+        eventRow({
+          event_type: 'InvoiceInvalid',
+          reconciliation_id: 'rec_1',
+          reconciliation_status: 'invalidated',
+          reversal_status: 'reversed',
+          reversal_method: 'journal_entry',
+          reversal_transaction_id: 'je_1',
+          reversal_transaction_type: 'JournalEntry',
+        }),
+      ]);
+
+      const response = await app.inject({ method: 'GET', url: '/settled-invoices' });
+
+      const [invoice] = JSON.parse(response.payload).invoices;
+      expect(invoice.status).toBe('invalid');
+      expect(invoice.reconciliation.reversal).toEqual({
+        status: 'reversed',
+        method: 'journal_entry',
+        transactionId: 'je_1',
+        transactionType: 'JournalEntry',
+      });
+    });
+
+    it.each([
+      ['InvoiceInvalid', null, 'invalid'],
+      ['InvoiceExpired', 'invalidated', 'invalid'],
+      ['InvoicePaymentSettled', 'full', 'settled'],
+      ['InvoiceSettled', null, 'settled'],
+    ])(
+      'should report a %s event with a %s reconciliation as %s',
+      async (eventType, reconciliationStatus, status) => {
+        await mockEventRows([
+          eventRow({ event_type: eventType, reconciliation_status: reconciliationStatus }),
+        ]);
+
+        const response = await app.inject({ method: 'GET', url: '/settled-invoices' });
+
+        expect(JSON.parse(response.payload).invoices[0].status).toBe(status);
+      }
+    );
+
+    it('should handle database query errors', async () => {
+      // Mock the database to throw an error
+      const { getDatabase } = await import('../models/database');
+      vi.mocked(getDatabase).mockImplementation(() => {
+        throw new Error('Database connection failed');
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/settled-invoices',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.payload);
+      expect(body.invoices).toEqual([]);
+      expect(body.error).toBe('Database connection failed');
+    });
+
+    it('should handle malformed JSON in webhook payload', async () => {
+      await mockEventRows([eventRow({ payload: 'invalid json' })]);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/settled-invoices',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.payload);
+      expect(body.invoices).toBeDefined();
+      expect(body.invoices.length).toBe(1);
+      expect(body.invoices[0].amount).toBe('Parse Error');
+      expect(body.invoices[0].quickbooksData).toBeNull();
+    });
+  });
+
+  describe('GET /config', () => {
+    it('should return configuration status', async () => {
+      mockedBTCPayClient.isConnected.mockResolvedValue(true);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/config',
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.payload);
+      expect(body.btcpayConfigured).toBe(true);
+      expect(body.quickbooksConfigured).toBe(false);
+      expect(body.setupComplete).toBe(true);
+    });
+
+    it('should report QuickBooks as configured once it has credentials', async () => {
+      mockedBTCPayClient.isConnected.mockResolvedValue(true);
+      vi.mocked(quickbooksProvider.isConfigured).mockReturnValueOnce(true);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/config',
+      });
+
+      expect(JSON.parse(response.payload).quickbooksConfigured).toBe(true);
     });
 
     it('should show incomplete setup when BTCPayServer is not connected', async () => {
@@ -330,4 +1172,926 @@ describe('API Routes', () => {
       expect(body.setupComplete).toBe(false);
     });
   });
+
+  describe('POST /config/btcpay', () => {
+    const probe = { url: 'https://btcpay.example.com', source: 'custom' };
+
+    it('should save a working URL and key and set up the webhook', async () => {
+      mockedBTCPayClient.configure.mockResolvedValue({
+        ...probe,
+        reachable: true,
+        authenticated: true,
+        version: '1.13.5',
+      });
+      mockedBTCPayClient.ensureWebhook.mockResolvedValue({
+        webhook: { id: 'webhook_123', url: '', events: [], active: true },
+        action: 'created',
+        removed: [],
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/config/btcpay',
+        payload: { url: 'https://btcpay.example.com/', apiKey: ' key_123 ' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({
+        success: true,
+        url: 'https://btcpay.example.com',
+        version: '1.13.5',
+        webhookRegistered: true,
+        webhookId: 'webhook_123',
+      });
+      expect(mockedBTCPayClient.configure).toHaveBeenCalledWith(
+        'https://btcpay.example.com',
+        'key_123'
+      );
+    });
+
+    it.each([
+      [{ url: 'ftp://btcpay.example.com', apiKey: 'key_123' }],
+      [{ url: 'https://btcpay.example.com' }],
+      [{ apiKey: 'key_123' }],
+    ])('should reject %j', async (payload) => {
+      const response = await app.inject({ method: 'POST', url: '/config/btcpay', payload });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockedBTCPayClient.configure).not.toHaveBeenCalled();
+    });
+
+    it('should report an unreachable server', async () => {
+      mockedBTCPayClient.configure.mockResolvedValue({
+        ...probe,
+        reachable: false,
+        authenticated: false,
+        error: 'getaddrinfo ENOTFOUND btcpay.example.com',
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/config/btcpay',
+        payload: { url: 'https://btcpay.example.com', apiKey: 'key_123' },
+      });
+
+      expect(response.statusCode).toBe(502);
+      expect(JSON.parse(response.payload).detail).toContain('ENOTFOUND');
+    });
+
+    it('should report a rejected API key', async () => {
+      mockedBTCPayClient.configure.mockResolvedValue({
+        ...probe,
+        reachable: true,
+        authenticated: false,
+        error: 'API key rejected',
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/config/btcpay',
+        payload: { url: 'https://btcpay.example.com', apiKey: 'key_123' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.payload).error).toBe('BTCPayServer rejected the API key');
+      expect(mockedBTCPayClient.ensureWebhook).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /config/btcpay/auto-discover', () => {
+    it('should report every candidate and the best one found', async () => {
+      const candidates = [
+        {
+          url: 'http://btcpay-server_web_1:49392',
+          source: 'umbrel',
+          reachable: false,
+          authenticated: false,
+          error: 'getaddrinfo ENOTFOUND btcpay-server_web_1',
+        },
+        {
+          url: 'http://umbrel.local:3003',
+          source: 'umbrel',
+          reachable: true,
+          authenticated: false,
+          error: 'API key required',
+        },
+      ];
+      mockedBTCPayClient.discover.mockResolvedValue(candidates);
+      mockedBTCPayClient.getUrl.mockReturnValue(null);
+
+      const response = await app.inject({ method: 'GET', url: '/config/btcpay/auto-discover' });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({
+        url: 'http://umbrel.local:3003',
+        discovered: true,
+        currentUrl: null,
+        candidates,
+      });
+    });
+
+    it('should report when nothing was found', async () => {
+      mockedBTCPayClient.discover.mockResolvedValue([]);
+
+      const response = await app.inject({ method: 'GET', url: '/config/btcpay/auto-discover' });
+
+      expect(JSON.parse(response.payload)).toMatchObject({ url: null, discovered: false });
+    });
+  });
+
+  describe('POST /config/qbo/credentials', () => {
+    it('should save the Intuit app credentials', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/config/qbo/credentials',
+        payload: { clientId: ' client_id ', clientSecret: 'client_secret' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload).redirectUri).toBe(
+        'http://localhost:3000/api/config/qbo/callback'
+      );
+      expect(mockedQuickBooksAuth.setClientCredentials).toHaveBeenCalledWith({
+        clientId: 'client_id',
+        clientSecret: 'client_secret',
+        environment: 'production',
+      });
+    });
+
+    it('should reject missing credentials', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/config/qbo/credentials',
+        payload: { clientId: 'client_id' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockedQuickBooksAuth.setClientCredentials).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /config/qbo/url', () => {
+    it('should return the authorization URL', async () => {
+      mockedQuickBooksAuth.createAuthorizationUrl.mockReturnValue(
+        'https://appcenter.intuit.com/connect/oauth2?state=abc'
+      );
+
+      const response = await app.inject({ method: 'GET', url: '/config/qbo/url' });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({
+        authUrl: 'https://appcenter.intuit.com/connect/oauth2?state=abc',
+      });
+    });
+
+    it('should return 400 when no Intuit app is configured', async () => {
+      mockedQuickBooksAuth.createAuthorizationUrl.mockReturnValue(null);
+
+      const response = await app.inject({ method: 'GET', url: '/config/qbo/url' });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('/config/reconciliation', () => {
+    it('should return the current settings', async () => {
+      mockedGetReconciliationSettings.mockReturnValueOnce({
+        mode: 'invoicing',
+        accounts: { depositAccountId: '35' },
+      });
+
+      const response = await app.inject({ method: 'GET', url: '/config/reconciliation' });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({
+        mode: 'invoicing',
+        accounts: { depositAccountId: '35' },
+      });
+    });
+
+    it('should save the mode and account mapping', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/config/reconciliation',
+        payload: {
+          mode: 'deposit',
+          depositAccountId: '35',
+          incomeAccountId: ' 79 ',
+          customerId: '',
+          paymentMethodId: null,
+          taxCodeId: 'NON',
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockedSaveReconciliationSettings).toHaveBeenCalledWith('deposit', {
+        depositAccountId: '35',
+        incomeAccountId: '79',
+        taxCodeId: 'NON',
+      });
+    });
+
+    it.each([[{}], [{ mode: 'cash' }], [{ mode: 'deposit', depositAccountId: 35 }]])(
+      'should reject %j',
+      async (payload) => {
+        const response = await app.inject({
+          method: 'POST',
+          url: '/config/reconciliation',
+          payload,
+        });
+
+        expect(response.statusCode).toBe(400);
+        expect(mockedSaveReconciliationSettings).not.toHaveBeenCalled();
+      }
+    );
+  });
+
+  describe('/config/journal', () => {
+    it('should update only the account names sent', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/config/journal',
+        payload: { incomeAccount: ' Income:Bitcoin ' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockedSaveJournalAccounts).toHaveBeenCalledWith({
+        bitcoinAccount: 'Assets:Bitcoin',
+        incomeAccount: 'Income:Bitcoin',
+        overpaymentAccount: 'Liabilities:Overpayments',
+      });
+    });
+
+    it.each([[{ bitcoinAccount: 'bitcoin' }], [{ incomeAccount: 42 }]])(
+      'should reject %j',
+      async (payload) => {
+        const response = await app.inject({ method: 'POST', url: '/config/journal', payload });
+
+        expect(response.statusCode).toBe(400);
+        expect(mockedSaveJournalAccounts).not.toHaveBeenCalled();
+      }
+    );
+  });
+
+  describe('GET /config/reconciliation/accounts', () => {
+    const chart = {
+      accounts: [{ id: '35', name: 'Checking', type: 'Bank' }],
+      customers: [{ id: '58', name: 'Walk-in Customer' }],
+      paymentMethods: [],
+      taxCodes: [],
+    };
+
+    function mockProvider(getChartOfAccounts: AccountingProvider['getChartOfAccounts']) {
+      mockedGetAccountingProvider.mockReturnValue({
+        name: 'QuickBooks Online',
+        getChartOfAccounts,
+      } as AccountingProvider);
+    }
+
+    it("should return the provider's chart of accounts", async () => {
+      mockProvider(vi.fn().mockResolvedValue(chart));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/config/reconciliation/accounts',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({ provider: 'QuickBooks Online', ...chart });
+    });
+
+    it('should return 400 when no accounting provider is connected', async () => {
+      mockedGetAccountingProvider.mockReturnValue(null);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/config/reconciliation/accounts',
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 502 when the provider cannot be reached', async () => {
+      mockProvider(vi.fn().mockResolvedValue(null));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/config/reconciliation/accounts',
+      });
+
+      expect(response.statusCode).toBe(502);
+    });
+  });
+
+  describe('GET /config/qbo/callback', () => {
+    it('should exchange the code when the state is valid', async () => {
+      mockedQuickBooksAuth.consumeState.mockReturnValue(true);
+      mockedQuickBooksAuth.exchangeCode.mockResolvedValue(true);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/config/qbo/callback?code=auth_code&state=abc&realmId=1234567890',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toContain('text/html');
+      expect(response.payload).toContain('Connected to QuickBooks');
+      expect(mockedQuickBooksAuth.consumeState).toHaveBeenCalledWith('abc');
+      expect(mockedQuickBooksAuth.exchangeCode).toHaveBeenCalledWith('auth_code', '1234567890');
+    });
+
+    it('should reject callbacks with an unknown or replayed state', async () => {
+      mockedQuickBooksAuth.consumeState.mockReturnValue(false);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/config/qbo/callback?code=auth_code&state=forged&realmId=1234567890',
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.payload).toContain('invalid or has expired');
+      expect(mockedQuickBooksAuth.exchangeCode).not.toHaveBeenCalled();
+      expect(writeLog).toHaveBeenCalledWith(
+        'warn',
+        expect.stringContaining('invalid or expired state'),
+        expect.any(Object)
+      );
+    });
+
+    it('should reject callbacks without a state', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/config/qbo/callback?code=auth_code&realmId=1234567890',
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockedQuickBooksAuth.consumeState).not.toHaveBeenCalled();
+    });
+
+    it('should warn about sandbox companies', async () => {
+      mockedQuickBooksAuth.consumeState.mockReturnValue(true);
+      mockedQuickBooksAuth.exchangeCode.mockResolvedValue(true);
+      mockedQuickBooksAuth.getConnection.mockReturnValueOnce({
+        environment: 'sandbox',
+      } as ReturnType<typeof quickbooksAuth.getConnection>);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/config/qbo/callback?code=auth_code&state=abc&realmId=1234567890',
+      });
+
+      expect(response.payload).toContain('Sandbox company');
+    });
+
+    it('should report a failed token exchange', async () => {
+      mockedQuickBooksAuth.consumeState.mockReturnValue(true);
+      mockedQuickBooksAuth.exchangeCode.mockResolvedValue(false);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/config/qbo/callback?code=auth_code&state=abc&realmId=1234567890',
+      });
+
+      expect(response.statusCode).toBe(502);
+    });
+  });
+
+  describe('GET /config/xero/callback', () => {
+    it('should exchange the code with the verifier stored for the state', async () => {
+      mockedXeroAuth.consumeState.mockReturnValue('verifier_1');
+      mockedXeroAuth.exchangeCode.mockResolvedValue(true);
+      mockedXeroAuth.getConnection.mockReturnValueOnce({
+        tenantId: 'tenant_1',
+        tenantName: 'Demo Company (US)',
+      } as ReturnType<typeof xeroAuth.getConnection>);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/config/xero/callback?code=auth_code&state=abc',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.payload).toContain('Connected to Demo Company (US) in Xero');
+      expect(response.payload).toContain('xero-oauth');
+      expect(mockedXeroAuth.exchangeCode).toHaveBeenCalledWith('auth_code', 'verifier_1');
+    });
+
+    it('should reject callbacks with an unknown or replayed state', async () => {
+      mockedXeroAuth.consumeState.mockReturnValue(null);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/config/xero/callback?code=auth_code&state=forged',
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.payload).toContain('invalid or has expired');
+      expect(mockedXeroAuth.exchangeCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('/config/xero/tenant', () => {
+    it('should list the authorized organisations', async () => {
+      mockedXeroAuth.listTenants.mockResolvedValue([
+        { tenantId: 'tenant_1', tenantName: 'Demo Company (US)', tenantType: 'ORGANISATION' },
+      ]);
+
+      const response = await app.inject({ method: 'GET', url: '/config/xero/tenants' });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({
+        tenants: [
+          { tenantId: 'tenant_1', tenantName: 'Demo Company (US)', tenantType: 'ORGANISATION' },
+        ],
+        selectedTenantId: null,
+      });
+    });
+
+    it('should select an authorized organisation and refuse others', async () => {
+      mockedXeroAuth.selectTenant.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+      const selected = await app.inject({
+        method: 'POST',
+        url: '/config/xero/tenant',
+        payload: { tenantId: 'tenant_1' },
+      });
+      const refused = await app.inject({
+        method: 'POST',
+        url: '/config/xero/tenant',
+        payload: { tenantId: 'tenant_other' },
+      });
+
+      expect(selected.statusCode).toBe(200);
+      expect(mockedXeroAuth.selectTenant).toHaveBeenCalledWith('tenant_1');
+      expect(refused.statusCode).toBe(400);
+    });
+  });
+
+  describe('API key authentication', () => {
+    it('should reject requests with an invalid API key', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/btcpay/api-key',
+        headers: { authorization: 'Bearer wrong-key' },
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(JSON.parse(response.payload)).toEqual({ error: 'Invalid or missing API key' });
+      expect(mockedBTCPayClient.getApiKey).not.toHaveBeenCalled();
+    });
+
+    it('should not let an unauthenticated caller replace the BTCPay API key', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/btcpay/api-key',
+        headers: { authorization: 'Bearer wrong-key' },
+        payload: { apiKey: 'attacker_key' },
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(mockedBTCPayClient.setApiKey).not.toHaveBeenCalled();
+    });
+
+    it('should keep BTCPay webhooks reachable without an API key', async () => {
+      mockedBTCPayClient.getWebhookSecret.mockReturnValue(null);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/webhooks/btcpay',
+        headers: { authorization: 'Bearer wrong-key' },
+        payload: { type: 'InvoiceSettled', webhookId: 'webhook_123' },
+      });
+
+      // Rejected by the signature check, not the API key check
+      expect(response.statusCode).toBe(401);
+      expect(JSON.parse(response.payload).error).toBe('Invalid webhook signature');
+    });
+  });
+
+  describe('GET /config/api-key/initial', () => {
+    it('should return the initial key during the bootstrap window', async () => {
+      mockedAppApiKey.claimInitialKey.mockReturnValue('initial-key');
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/config/api-key/initial',
+        headers: { authorization: '' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({ apiKey: 'initial-key' });
+    });
+
+    it('should return 403 once the key has been claimed or the window closed', async () => {
+      mockedAppApiKey.claimInitialKey.mockReturnValue(null);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/config/api-key/initial',
+        headers: { authorization: '' },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe('POST /config/api-key/rotate', () => {
+    it('should return a new key', async () => {
+      mockedAppApiKey.rotate.mockReturnValue('rotated-key');
+
+      const response = await app.inject({ method: 'POST', url: '/config/api-key/rotate' });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({ apiKey: 'rotated-key' });
+    });
+
+    it('should require the current key', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/config/api-key/rotate',
+        headers: { authorization: 'Bearer wrong-key' },
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(mockedAppApiKey.rotate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /sync/now', () => {
+    it('should run the backfill and return its summary', async () => {
+      mockedBackfillSync.runNow.mockResolvedValue({
+        storeId: 'store_789',
+        found: 3,
+        enqueued: 1,
+        highWaterMark: 1700000000,
+      });
+
+      const response = await app.inject({ method: 'POST', url: '/sync/now' });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({
+        success: true,
+        storeId: 'store_789',
+        found: 3,
+        enqueued: 1,
+        highWaterMark: 1700000000,
+      });
+    });
+
+    it('should return 409 while a sync is already running', async () => {
+      mockedBackfillSync.runNow.mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'POST', url: '/sync/now' });
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('should return 502 when BTCPay could not be queried', async () => {
+      mockedBackfillSync.runNow.mockResolvedValue({
+        storeId: 'store_789',
+        found: 0,
+        enqueued: 0,
+        highWaterMark: null,
+        error: 'Failed to list invoices from BTCPayServer',
+      });
+
+      const response = await app.inject({ method: 'POST', url: '/sync/now' });
+
+      expect(response.statusCode).toBe(502);
+      expect(JSON.parse(response.payload).success).toBe(false);
+    });
+  });
+
+  describe('/setup/state', () => {
+    const status = {
+      state: 'MODE_PENDING' as const,
+      reasons: ['Choose how payments are recorded: deposit or invoicing'],
+      btcpay: {
+        url: 'http://umbrel.local:3003',
+        connected: true,
+        authenticated: true,
+        storeId: 'store_1',
+      },
+      accounting: { provider: 'quickbooks' as const, connected: true },
+      quickbooks: { connected: true, realmId: '1234567890' },
+      xero: { connected: false, tenantId: null, tenantName: null },
+      mode: null,
+    };
+
+    it('should return the current state', async () => {
+      mockedSetupStateMachine.evaluate.mockResolvedValue(status);
+
+      const response = await app.inject({ method: 'GET', url: '/setup/state' });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual(status);
+    });
+
+    it('should apply a transition', async () => {
+      const ready = { ...status, state: 'READY' as const, reasons: [], mode: 'deposit' as const };
+      mockedSetupStateMachine.transition.mockResolvedValue({ status: ready });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/setup/state',
+        payload: { event: 'SELECT_MODE', mode: 'deposit' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({ status: ready });
+      expect(mockedSetupStateMachine.transition).toHaveBeenCalledWith({
+        type: 'SELECT_MODE',
+        mode: 'deposit',
+      });
+    });
+
+    it('should pass the chosen accounting provider along', async () => {
+      mockedSetupStateMachine.transition.mockResolvedValue({ status });
+
+      await app.inject({
+        method: 'POST',
+        url: '/setup/state',
+        payload: { event: 'SELECT_PROVIDER', provider: 'xero' },
+      });
+
+      expect(mockedSetupStateMachine.transition).toHaveBeenCalledWith({
+        type: 'SELECT_PROVIDER',
+        provider: 'xero',
+      });
+    });
+
+    it.each([
+      [{ event: 'FINISH' }],
+      [{ event: 'SELECT_MODE', mode: 'cash' }],
+      [{ event: 'SELECT_PROVIDER', provider: 'sage' }],
+      [{}],
+    ])('should reject %j', async (payload) => {
+      const response = await app.inject({ method: 'POST', url: '/setup/state', payload });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockedSetupStateMachine.transition).not.toHaveBeenCalled();
+    });
+
+    it('should refuse transitions the current state does not allow', async () => {
+      mockedSetupStateMachine.transition.mockResolvedValue({
+        status,
+        error: 'Cannot DISCOVER while setup is MODE_PENDING',
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/setup/state',
+        payload: { event: 'DISCOVER' },
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.payload).error).toBe(
+        'Cannot DISCOVER while setup is MODE_PENDING'
+      );
+    });
+  });
+
+  describe('POST /reconciliations/:id/retry', () => {
+    it('should schedule the reconciliation to be retried', async () => {
+      const job = {
+        reconciliationId: 'rec_1',
+        invoiceId: 'invoice_456',
+        storeId: 'store_789',
+        status: 'scheduled' as const,
+        attempts: 0,
+        nextAttemptAt: '2024-01-15T10:30:00.000Z',
+        lastError: 'QuickBooks API returned HTTP 503',
+        errorKind: 'transient' as const,
+      };
+      mockedRetryQueue.retryNow.mockReturnValue({ status: 'scheduled', job });
+
+      const response = await app.inject({ method: 'POST', url: '/reconciliations/rec_1/retry' });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({ success: true, job });
+      expect(mockedRetryQueue.retryNow).toHaveBeenCalledWith('rec_1');
+    });
+
+    it.each([
+      ['not_found' as const, 404],
+      ['nothing_to_retry' as const, 409],
+    ])('should answer %s with %i', async (status, statusCode) => {
+      mockedRetryQueue.retryNow.mockReturnValue({ status });
+
+      const response = await app.inject({ method: 'POST', url: '/reconciliations/rec_1/retry' });
+
+      expect(response.statusCode).toBe(statusCode);
+      expect(JSON.parse(response.payload).success).toBe(false);
+    });
+
+    it('should retry every failed reconciliation', async () => {
+      mockedRetryQueue.retryAllFailed.mockReturnValue(3);
+
+      const response = await app.inject({ method: 'POST', url: '/reconciliations/retry-failed' });
+
+      expect(JSON.parse(response.payload)).toEqual({ success: true, retried: 3 });
+    });
+  });
+
+  describe('GET /export/journal', () => {
+    it('should download the journal in the requested format and date range', async () => {
+      mockedRenderJournal.mockReturnValue('2024-01-15 * "BTCPay" "Invoice inv_1"\n');
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/export/journal?format=hledger&from=2024-01-01&to=2024-01-31',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe('text/plain; charset=utf-8');
+      expect(response.headers['content-disposition']).toBe(
+        'attachment; filename="reconciliations.journal"'
+      );
+      expect(response.payload).toBe('2024-01-15 * "BTCPay" "Invoice inv_1"\n');
+      expect(mockedRenderJournal).toHaveBeenCalledWith('hledger', {
+        from: '2024-01-01',
+        to: '2024-01-31',
+      });
+    });
+
+    it.each([
+      '',
+      '?format=gnucash',
+      '?format=ledger&from=yesterday',
+      '?format=ledger&to=2024-13-45',
+    ])('should reject %s', async (query) => {
+      const response = await app.inject({ method: 'GET', url: `/export/journal${query}` });
+
+      expect(response.statusCode).toBe(400);
+      expect(mockedRenderJournal).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /export/tokens', () => {
+    it('should issue a download token for an export path', async () => {
+      mockedAppApiKey.issueDownloadToken.mockReturnValue({
+        token: '1761912060.signature',
+        expiresAt: '2025-10-31T12:01:00.000Z',
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/export/tokens',
+        payload: { path: '/export/payments' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload).token).toBe('1761912060.signature');
+      expect(mockedAppApiKey.issueDownloadToken).toHaveBeenCalledWith('/export/payments');
+    });
+
+    it.each([undefined, '/config/api-key/rotate', '/export/payments?format=csv'])(
+      'should refuse to sign %s',
+      async (path) => {
+        const response = await app.inject({
+          method: 'POST',
+          url: '/export/tokens',
+          payload: { path },
+        });
+
+        expect(response.statusCode).toBe(400);
+        expect(mockedAppApiKey.issueDownloadToken).not.toHaveBeenCalled();
+      }
+    );
+  });
+
+  describe('GET /export/:report', () => {
+    it('should stream the report as a download with the filters applied', async () => {
+      const { Readable } = await import('stream');
+      mockedStreamReport.mockReturnValue(
+        Readable.from(['Invoice ID,Status\r\n', 'inv_1,full\r\n'])
+      );
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/export/reconciliations?format=csv&from=2024-01-01&storeId=store_789&status=full',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe('text/csv; charset=utf-8');
+      expect(response.headers['content-disposition']).toBe(
+        'attachment; filename="reconciliations.csv"'
+      );
+      expect(response.payload).toBe('Invoice ID,Status\r\ninv_1,full\r\n');
+      expect(mockedStreamReport).toHaveBeenCalledWith('reconciliations', 'csv', {
+        from: '2024-01-01',
+        to: undefined,
+        storeId: 'store_789',
+        status: 'full',
+      });
+    });
+
+    it.each([
+      ['/export/customers?format=csv', 404],
+      ['/export/payments', 400],
+      ['/export/payments?format=pdf', 400],
+      ['/export/payments?format=xlsx&to=last-week', 400],
+      ['/export/errors?format=xlsx&status=full', 400],
+    ])('should reject %s with %i', async (url, statusCode) => {
+      const response = await app.inject({ method: 'GET', url });
+
+      expect(response.statusCode).toBe(statusCode);
+      expect(mockedStreamReport).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /pay-links', () => {
+    it('should return a signed link for the invoice', async () => {
+      mockedGetAccountingProvider.mockReturnValue({
+        name: 'QuickBooks Online',
+      } as AccountingProvider);
+      mockedPayLinkService.createLink.mockResolvedValue({
+        token: 'MTMw.signature',
+        url: 'http://localhost:3000/pay/MTMw.signature',
+      });
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/pay-links',
+        payload: { invoiceId: ' 130 ' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload).url).toBe('http://localhost:3000/pay/MTMw.signature');
+      expect(mockedPayLinkService.createLink).toHaveBeenCalledWith('130');
+    });
+
+    it('should return 404 for an unknown invoice', async () => {
+      mockedGetAccountingProvider.mockReturnValue({
+        name: 'QuickBooks Online',
+      } as AccountingProvider);
+      mockedPayLinkService.createLink.mockResolvedValue(null);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/pay-links',
+        payload: { invoiceId: '999' },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+
+    it('should reject a missing invoice ID or missing provider', async () => {
+      const missingId = await app.inject({ method: 'POST', url: '/pay-links', payload: {} });
+      expect(missingId.statusCode).toBe(400);
+
+      mockedGetAccountingProvider.mockReturnValue(null);
+      const noProvider = await app.inject({
+        method: 'POST',
+        url: '/pay-links',
+        payload: { invoiceId: '130' },
+      });
+      expect(noProvider.statusCode).toBe(400);
+      expect(mockedPayLinkService.createLink).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('Pay link routes', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    // Served outside /api, so no API key is involved
+    app = (await import('fastify')).default();
+    await app.register(payRoutes, { prefix: '/pay' });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    vi.clearAllMocks();
+  });
+
+  it('should redirect to the BTCPay checkout', async () => {
+    mockedPayLinkService.resolve.mockResolvedValue({
+      status: 'checkout',
+      checkoutLink: 'https://btcpay.example.com/i/btc_1',
+      btcpayInvoiceId: 'btc_1',
+    });
+
+    const response = await app.inject({ method: 'GET', url: '/pay/MTMw.signature' });
+
+    expect(response.statusCode).toBe(302);
+    expect(response.headers.location).toBe('https://btcpay.example.com/i/btc_1');
+    expect(mockedPayLinkService.resolve).toHaveBeenCalledWith('MTMw.signature');
+  });
+
+  it.each([
+    ['paid', { status: 'paid' as const }, 200, 'already been paid'],
+    ['invalid', { status: 'invalid' as const }, 404, 'not valid'],
+    ['unavailable', { status: 'unavailable' as const, error: 'No BTCPay store' }, 503, 'try again'],
+  ])('should show a page for %s links', async (_, resolution, statusCode, text) => {
+    mockedPayLinkService.resolve.mockResolvedValue(resolution);
+
+    const response = await app.inject({ method: 'GET', url: '/pay/MTMw.signature' });
+
+    expect(response.statusCode).toBe(statusCode);
+    expect(response.headers['content-type']).toContain('text/html');
+    expect(response.payload).toContain(text);
+  });
 });
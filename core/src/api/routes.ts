@@ -1,17 +1,91 @@
-import { FastifyPluginAsync } from 'fastify';
-import { btcpayClient } from '../services/btcpay';
+import { FastifyPluginAsync, FastifyReply } from 'fastify';
+import {
+  btcpayClient,
+  BTCPayStore,
+  getWebhookCallbackUrl,
+  normalizeBTCPayUrl,
+  WebhookData,
+} from '../services/btcpay';
+import { quickbooksProvider } from '../services/quickbooks';
+import { quickbooksAuth } from '../services/quickbooksAuth';
+import { xeroAuth } from '../services/xeroAuth';
+import { appApiKey } from '../services/appApiKey';
+import {
+  DEFAULT_TOLERANCE_PERCENT,
+  MAX_TOLERANCE_PERCENT,
+  TOLERANCE_CONFIG_KEY_PREFIX,
+} from '../services/paymentClassification';
+import {
+  SETUP_EVENTS,
+  SetupEvent,
+  SetupEventType,
+  setupStateMachine,
+} from '../services/setupState';
+import {
+  ACCOUNT_MAPPING_FIELDS,
+  DEFAULT_RECONCILIATION_MODE,
+  getReconciliationSettings,
+  RECONCILIATION_MODES,
+  ReconciliationSettings,
+  saveReconciliationSettings,
+} from '../services/reconciliationSettings';
+import {
+  ACCOUNTING_PROVIDERS,
+  AccountingProviderId,
+  AccountMapping,
+  getAccountingProvider,
+  ReconciliationMode,
+} from '../services/accounting';
+import { payLinkService } from '../services/payLinks';
+import { getLifecycleStatus } from '../services/invoiceLifecycle';
+import {
+  REPORT_CONTENT_TYPES,
+  REPORT_FORMATS,
+  REPORT_STATUSES,
+  REPORT_TYPES,
+  ReportFormat,
+  ReportType,
+  streamReport,
+} from '../services/reportExport';
+import {
+  getJournalAccounts,
+  isValidAccountName,
+  JOURNAL_ACCOUNT_FIELDS,
+  JOURNAL_FILE_EXTENSIONS,
+  JOURNAL_FORMATS,
+  JournalFormat,
+  renderJournal,
+  saveJournalAccounts,
+} from '../services/journalExport';
+import { retryQueue } from '../services/retryQueue';
 import { getDatabase } from '../models/database';
+import { getConfigValue, setConfigValue } from '../models/config';
+import { storeWebhookEvent } from '../models/webhookEvents';
+import { getDeliveryHealth } from '../models/webhookDeliveries';
+import { backfillSync } from '../jobs/backfill';
+import { writeLog } from '../utils/logger';
+import { verifyBTCPaySignature } from '../utils/signing';
+import { requireApiKey } from './auth';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    rawBody?: string;
+  }
+}
 
 interface BTCPayWebhookPayload {
   type?: string;
   invoiceId?: string;
   storeId?: string;
+  webhookId?: string;
+  deliveryId?: string;
+  originalDeliveryId?: string;
   [key: string]: unknown;
 }
 
 // Health and status routes
 const statusRoutes: FastifyPluginAsync = async (fastify) => {
-  fastify.get('/status', async () => {
+  fastify.get('/status', { config: { public: true } }, async () => {
     return {
       status: 'ok',
       message: 'Sovereign Merchant API is running',
@@ -24,7 +98,8 @@ const statusRoutes: FastifyPluginAsync = async (fastify) => {
 
     return {
       btcpayConfigured: btcpayConnected,
-      quickbooksConfigured: false, // TODO: Implement QuickBooks connection check
+      quickbooksConfigured: quickbooksProvider.isConfigured(),
+      accountingConfigured: !!getAccountingProvider(),
       setupComplete: btcpayConnected, // For now, just require BTCPay connection
     };
   });
@@ -80,6 +155,7 @@ const btcpayRoutes: FastifyPluginAsync = async (fastify) => {
     return {
       configured: !!apiKey,
       key: apiKey ? 'configured' : null, // Mask the actual key
+      authorizeUrl: btcpayClient.getAuthorizeUrl(btcpayClient.getSelectedStoreId()),
     };
   });
 
@@ -94,9 +170,14 @@ const btcpayRoutes: FastifyPluginAsync = async (fastify) => {
 
     try {
       await btcpayClient.setApiKey(apiKey.trim());
+      // Null when the permissions couldn't be read (e.g. BTCPay unreachable or key rejected)
+      const check = await btcpayClient.checkPermissions();
       return reply.code(200).send({
         success: true,
         message: 'BTCPayServer API key saved successfully',
+        permissions: check?.permissions ?? null,
+        missingPermissions: check?.missing ?? null,
+        authorizeUrl: check?.authorizeUrl ?? null,
       });
     } catch (error) {
       console.error('Failed to save API key:', error);
@@ -106,18 +187,92 @@ const btcpayRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
-  // Webhook management
-  fastify.post('/webhook/register', async (request, reply) => {
-    const baseUrl =
-      process.env.APP_HIDDEN_SERVICE || `http://localhost:${process.env.PORT || 3000}`;
-    const webhookUrl = `${baseUrl}/api/webhooks/btcpay`;
+  // Store selection (a BTCPayServer instance can host several stores)
+  fastify.get('/stores', async (request, reply) => {
+    try {
+      const stores = await btcpayClient.getStores();
+      const selectedStoreId = btcpayClient.getSelectedStoreId();
+      return {
+        stores: stores.map((store) => ({
+          id: store.id,
+          name: store.name,
+          selected: store.id === selectedStoreId,
+        })),
+        selectedStoreId,
+      };
+    } catch (error) {
+      console.error('Failed to list BTCPayServer stores:', error);
+      return reply.code(502).send({ error: 'Failed to fetch stores from BTCPayServer' });
+    }
+  });
 
-    const webhook = await btcpayClient.registerWebhook(webhookUrl);
+  fastify.put('/stores/selected', async (request, reply) => {
+    const { storeId } = (request.body ?? {}) as { storeId?: unknown };
+    if (!storeId || typeof storeId !== 'string') {
+      return reply.code(400).send({ error: 'storeId is required' });
+    }
+
+    const store = await findStore(storeId, reply);
+    if (!store) {
+      return reply;
+    }
+
+    btcpayClient.setSelectedStoreId(store.id);
+    writeLog('info', 'Selected BTCPayServer store', { storeId: store.id, name: store.name });
+    return { success: true, store: { id: store.id, name: store.name, selected: true } };
+  });
 
-    if (webhook) {
+  // Payment tolerance: how far from the invoice price a payment still counts as paid in full
+  fastify.get('/stores/:storeId/payment-tolerance', async (request, reply) => {
+    const { storeId } = request.params as { storeId: string };
+    if (!(await findStore(storeId, reply))) {
+      return reply;
+    }
+    const stored = parseFloat(getConfigValue(`${TOLERANCE_CONFIG_KEY_PREFIX}${storeId}`) ?? '');
+    return {
+      storeId,
+      tolerancePercent: Number.isNaN(stored) ? DEFAULT_TOLERANCE_PERCENT : stored,
+    };
+  });
+
+  fastify.put('/stores/:storeId/payment-tolerance', async (request, reply) => {
+    const { storeId } = request.params as { storeId: string };
+    const { tolerancePercent } = (request.body ?? {}) as { tolerancePercent?: unknown };
+    if (
+      typeof tolerancePercent !== 'number' ||
+      !Number.isFinite(tolerancePercent) ||
+      tolerancePercent < 0 ||
+      tolerancePercent > MAX_TOLERANCE_PERCENT
+    ) {
+      return reply.code(400).send({
+        error: `tolerancePercent must be a number between 0 and ${MAX_TOLERANCE_PERCENT}`,
+      });
+    }
+    if (!(await findStore(storeId, reply))) {
+      return reply;
+    }
+
+    setConfigValue(`${TOLERANCE_CONFIG_KEY_PREFIX}${storeId}`, String(tolerancePercent));
+    writeLog('info', 'Updated payment tolerance', { storeId, tolerancePercent });
+    return { success: true, storeId, tolerancePercent };
+  });
+
+  // Webhook management. Registering is idempotent: it repairs our webhook instead of
+  // adding another one, and removes duplicates pointing at our URL.
+  fastify.post('/webhook/register', async (request, reply) => {
+    const result = await btcpayClient.ensureWebhook(getWebhookCallbackUrl());
+
+    if (result) {
+      writeLog('info', 'Ensured BTCPayServer webhook', {
+        webhookId: result.webhook.id,
+        action: result.action,
+        removed: result.removed,
+      });
       reply.code(200).send({
         success: true,
-        webhook: webhook,
+        webhook: withoutSecret(result.webhook),
+        action: result.action,
+        removed: result.removed,
       });
     } else {
       reply.code(500).send({
@@ -130,14 +285,524 @@ const btcpayRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get('/webhooks', async () => {
     const webhooks = await btcpayClient.getWebhooks();
     return {
-      webhooks: webhooks,
+      webhooks: webhooks.map((webhook) => ({
+        ...withoutSecret(webhook),
+        health: getDeliveryHealth(webhook.id),
+      })),
     };
   });
+
+  fastify.put('/webhooks/:webhookId', async (request, reply) => {
+    const { webhookId } = request.params as { webhookId: string };
+    const { url, events, active } = (request.body ?? {}) as {
+      url?: unknown;
+      events?: unknown;
+      active?: unknown;
+    };
+    if (
+      (url !== undefined && typeof url !== 'string') ||
+      (events !== undefined &&
+        !(Array.isArray(events) && events.every((event) => typeof event === 'string'))) ||
+      (active !== undefined && typeof active !== 'boolean')
+    ) {
+      return reply.code(400).send({
+        error: 'url must be a string, events an array of strings and active a boolean',
+      });
+    }
+
+    const webhook = await btcpayClient.updateWebhook(webhookId, {
+      url,
+      events: events as string[] | undefined,
+      active,
+    });
+    if (!webhook) {
+      return reply.code(502).send({ success: false, error: 'Failed to update webhook' });
+    }
+    writeLog('info', 'Updated BTCPayServer webhook', { webhookId, url, events, active });
+    return { success: true, webhook };
+  });
+
+  fastify.post('/webhooks/:webhookId/rotate-secret', async (request, reply) => {
+    const { webhookId } = request.params as { webhookId: string };
+    const webhook = await btcpayClient.rotateWebhookSecret(webhookId);
+    if (!webhook) {
+      return reply.code(502).send({ success: false, error: 'Failed to rotate webhook secret' });
+    }
+    writeLog('info', 'Rotated BTCPayServer webhook secret', { webhookId });
+    return { success: true, webhook };
+  });
+
+  fastify.delete('/webhooks/:webhookId', async (request, reply) => {
+    const { webhookId } = request.params as { webhookId: string };
+    if (!(await btcpayClient.deleteWebhook(webhookId))) {
+      return reply.code(502).send({ success: false, error: 'Failed to delete webhook' });
+    }
+    writeLog('info', 'Deleted BTCPayServer webhook', { webhookId });
+    return { success: true };
+  });
+};
+
+/**
+ * The BTCPay store with this ID, or null once the reply says why it can't be used
+ */
+async function findStore(storeId: string, reply: FastifyReply): Promise<BTCPayStore | null> {
+  let stores;
+  try {
+    stores = await btcpayClient.getStores();
+  } catch (error) {
+    console.error('Failed to list BTCPayServer stores:', error);
+    reply.code(502).send({ error: 'Failed to fetch stores from BTCPayServer' });
+    return null;
+  }
+
+  const store = stores.find((candidate) => candidate.id === storeId);
+  if (!store) {
+    reply.code(404).send({ error: `Store ${storeId} not found in BTCPayServer` });
+    return null;
+  }
+  return store;
+}
+
+/**
+ * Webhook details safe to send to the browser
+ */
+function withoutSecret(webhook: WebhookData): WebhookData {
+  return { id: webhook.id, url: webhook.url, events: webhook.events, active: webhook.active };
+}
+
+// Title of each provider's OAuth popup and the message type it posts to the SPA
+const OAUTH_RESULT_PAGES: Record<AccountingProviderId, { title: string; messageType: string }> = {
+  quickbooks: { title: 'QuickBooks connection', messageType: 'qbo-oauth' },
+  xero: { title: 'Xero connection', messageType: 'xero-oauth' },
+};
+
+/**
+ * Minimal page shown in the OAuth popup - tells the SPA how it went and closes itself
+ */
+function renderOAuthResultPage(
+  provider: AccountingProviderId,
+  success: boolean,
+  message: string
+): string {
+  const { title, messageType } = OAUTH_RESULT_PAGES[provider];
+  const escaped = message.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+  const result = JSON.stringify({ type: messageType, success, message }).replace(/</g, '\\u003c');
+  return `<!DOCTYPE html>
+<html>
+  <head><title>${title}</title></head>
+  <body>
+    <p>${success ? '✅' : '❌'} ${escaped}</p>
+    <script>
+      if (window.opener) {
+        window.opener.postMessage(${result}, window.location.origin);
+        setTimeout(function () { window.close(); }, 1500);
+      }
+    </script>
+  </body>
+</html>`;
+}
+
+// App configuration routes
+const configRoutes: FastifyPluginAsync = async (fastify) => {
+  // One-time retrieval of the key generated on first boot
+  fastify.get('/api-key/initial', { config: { public: true } }, async (request, reply) => {
+    try {
+      const apiKey = appApiKey.claimInitialKey();
+      if (!apiKey) {
+        return reply.code(403).send({ error: 'Initial API key is no longer available' });
+      }
+      console.log(`🔑 Initial app API key retrieved from ${request.ip}`);
+      return { apiKey };
+    } catch (error) {
+      console.error('Failed to retrieve initial API key:', error);
+      return reply.code(500).send({ error: 'Failed to retrieve initial API key' });
+    }
+  });
+
+  fastify.post('/api-key/rotate', async (request, reply) => {
+    try {
+      return { apiKey: appApiKey.rotate() };
+    } catch (error) {
+      console.error('Failed to rotate API key:', error);
+      return reply.code(500).send({ error: 'Failed to rotate API key' });
+    }
+  });
+
+  // BTCPay Server connection: validated against the server before anything is saved
+  fastify.post('/btcpay', async (request, reply) => {
+    const { url, apiKey } = (request.body ?? {}) as { url?: unknown; apiKey?: unknown };
+
+    const normalizedUrl = typeof url === 'string' ? normalizeBTCPayUrl(url) : null;
+    if (!normalizedUrl) {
+      return reply.code(400).send({ error: 'A valid http(s) BTCPayServer URL is required' });
+    }
+    if (!apiKey || typeof apiKey !== 'string' || !apiKey.trim()) {
+      return reply.code(400).send({ error: 'Valid API key is required' });
+    }
+
+    const result = await btcpayClient.configure(normalizedUrl, apiKey.trim());
+    if (!result.reachable) {
+      return reply.code(502).send({
+        error: `BTCPayServer is not reachable at ${normalizedUrl}`,
+        detail: result.error,
+      });
+    }
+    if (!result.authenticated) {
+      return reply.code(400).send({ error: 'BTCPayServer rejected the API key' });
+    }
+
+    writeLog('info', 'BTCPayServer connection configured', { url: normalizedUrl });
+    const ensured = await btcpayClient.ensureWebhook(getWebhookCallbackUrl());
+    return {
+      success: true,
+      url: normalizedUrl,
+      version: result.version ?? null,
+      webhookRegistered: !!ensured,
+      webhookId: ensured?.webhook.id ?? null,
+    };
+  });
+
+  // Probe the usual Umbrel/Start9/HTTPS/onion locations and report each result
+  fastify.get('/btcpay/auto-discover', async () => {
+    const candidates = await btcpayClient.discover();
+    const found =
+      candidates.find((candidate) => candidate.authenticated) ??
+      candidates.find((candidate) => candidate.reachable);
+    return {
+      url: found?.url ?? null,
+      discovered: !!found,
+      currentUrl: btcpayClient.getUrl(),
+      candidates,
+    };
+  });
+
+  // Merchant's own Intuit app credentials (BYO client ID/secret)
+  fastify.post('/qbo/credentials', async (request, reply) => {
+    const { clientId, clientSecret, environment } = (request.body ?? {}) as {
+      clientId?: string;
+      clientSecret?: string;
+      environment?: string;
+    };
+
+    if (!clientId || typeof clientId !== 'string' || !clientId.trim()) {
+      return reply.code(400).send({ error: 'Valid client ID is required' });
+    }
+    if (!clientSecret || typeof clientSecret !== 'string' || !clientSecret.trim()) {
+      return reply.code(400).send({ error: 'Valid client secret is required' });
+    }
+    if (environment !== undefined && environment !== 'production' && environment !== 'sandbox') {
+      return reply.code(400).send({ error: 'Environment must be production or sandbox' });
+    }
+
+    try {
+      quickbooksAuth.setClientCredentials({
+        clientId: clientId.trim(),
+        clientSecret: clientSecret.trim(),
+        environment: environment ?? 'production',
+      });
+      return {
+        success: true,
+        redirectUri: quickbooksAuth.getRedirectUri(),
+      };
+    } catch (error) {
+      console.error('Failed to save QuickBooks credentials:', error);
+      return reply.code(500).send({ error: 'Failed to save QuickBooks credentials' });
+    }
+  });
+
+  // Start the OAuth flow - the SPA opens authUrl in a popup
+  fastify.get('/qbo/url', async (request, reply) => {
+    try {
+      const authUrl = quickbooksAuth.createAuthorizationUrl();
+      if (!authUrl) {
+        return reply.code(400).send({
+          error: 'QuickBooks client credentials are not configured',
+        });
+      }
+      return { authUrl };
+    } catch (error) {
+      console.error('Failed to create QuickBooks authorization URL:', error);
+      return reply.code(500).send({ error: 'Failed to start QuickBooks authorization' });
+    }
+  });
+
+  // Intuit redirects here after consent - protected by the state token, not the API key
+  fastify.get('/qbo/callback', { config: { public: true } }, async (request, reply) => {
+    const { code, state, realmId, error } = request.query as {
+      code?: string;
+      state?: string;
+      realmId?: string;
+      error?: string;
+    };
+    reply.type('text/html');
+
+    if (!state || !quickbooksAuth.consumeState(state)) {
+      console.warn(`🚫 Rejected QuickBooks OAuth callback with invalid state from ${request.ip}`);
+      writeLog('warn', 'Rejected QuickBooks OAuth callback: invalid or expired state', {
+        ip: request.ip,
+      });
+      return reply
+        .code(400)
+        .send(
+          renderOAuthResultPage(
+            'quickbooks',
+            false,
+            'This authorization link is invalid or has expired.'
+          )
+        );
+    }
+
+    if (error) {
+      return reply
+        .code(400)
+        .send(
+          renderOAuthResultPage(
+            'quickbooks',
+            false,
+            `QuickBooks authorization was declined (${error}).`
+          )
+        );
+    }
+
+    if (!code || !realmId) {
+      return reply
+        .code(400)
+        .send(
+          renderOAuthResultPage(
+            'quickbooks',
+            false,
+            'QuickBooks did not return an authorization code.'
+          )
+        );
+    }
+
+    const connected = await quickbooksAuth.exchangeCode(code, realmId);
+    if (!connected) {
+      return reply
+        .code(502)
+        .send(
+          renderOAuthResultPage(
+            'quickbooks',
+            false,
+            'Failed to connect to QuickBooks. Please try again.'
+          )
+        );
+    }
+
+    const { environment } = quickbooksAuth.getConnection();
+    const message =
+      environment === 'sandbox'
+        ? 'You connected to a Sandbox company. This is fine for testing, but it will not affect your real QuickBooks.'
+        : 'Connected to QuickBooks. You can close this window.';
+    return reply.code(200).send(renderOAuthResultPage('quickbooks', true, message));
+  });
+
+  // Connection status (never returns tokens)
+  fastify.get('/qbo/status', async () => {
+    return quickbooksAuth.getConnection();
+  });
+
+  // Merchant's own Xero app (PKCE, so only the client ID is needed)
+  fastify.post('/xero/credentials', async (request, reply) => {
+    const { clientId } = (request.body ?? {}) as { clientId?: string };
+    if (!clientId || typeof clientId !== 'string' || !clientId.trim()) {
+      return reply.code(400).send({ error: 'Valid client ID is required' });
+    }
+
+    try {
+      xeroAuth.setClientId(clientId.trim());
+      return { success: true, redirectUri: xeroAuth.getRedirectUri() };
+    } catch (error) {
+      console.error('Failed to save Xero credentials:', error);
+      return reply.code(500).send({ error: 'Failed to save Xero credentials' });
+    }
+  });
+
+  fastify.get('/xero/url', async (request, reply) => {
+    try {
+      const authUrl = xeroAuth.createAuthorizationUrl();
+      if (!authUrl) {
+        return reply.code(400).send({ error: 'Xero client ID is not configured' });
+      }
+      return { authUrl };
+    } catch (error) {
+      console.error('Failed to create Xero authorization URL:', error);
+      return reply.code(500).send({ error: 'Failed to start Xero authorization' });
+    }
+  });
+
+  // Xero redirects here after consent - the state token also carries the PKCE code verifier
+  fastify.get('/xero/callback', { config: { public: true } }, async (request, reply) => {
+    const { code, state, error } = request.query as {
+      code?: string;
+      state?: string;
+      error?: string;
+    };
+    reply.type('text/html');
+
+    const codeVerifier = state ? xeroAuth.consumeState(state) : null;
+    if (!codeVerifier) {
+      console.warn(`🚫 Rejected Xero OAuth callback with invalid state from ${request.ip}`);
+      writeLog('warn', 'Rejected Xero OAuth callback: invalid or expired state', {
+        ip: request.ip,
+      });
+      return reply
+        .code(400)
+        .send(
+          renderOAuthResultPage('xero', false, 'This authorization link is invalid or has expired.')
+        );
+    }
+
+    if (error) {
+      return reply
+        .code(400)
+        .send(renderOAuthResultPage('xero', false, `Xero authorization was declined (${error}).`));
+    }
+
+    if (!code) {
+      return reply
+        .code(400)
+        .send(renderOAuthResultPage('xero', false, 'Xero did not return an authorization code.'));
+    }
+
+    const connected = await xeroAuth.exchangeCode(code, codeVerifier);
+    if (!connected) {
+      return reply
+        .code(502)
+        .send(renderOAuthResultPage('xero', false, 'Failed to connect to Xero. Please try again.'));
+    }
+
+    const { tenantName } = xeroAuth.getConnection();
+    const message = tenantName
+      ? `Connected to ${tenantName} in Xero. You can close this window.`
+      : 'Connected to Xero. Close this window and choose the organisation to reconcile.';
+    return reply.code(200).send(renderOAuthResultPage('xero', true, message));
+  });
+
+  fastify.get('/xero/status', async () => {
+    return xeroAuth.getConnection();
+  });
+
+  // Organisations the merchant authorized, for choosing the one to reconcile
+  fastify.get('/xero/tenants', async (request, reply) => {
+    const tenants = await xeroAuth.listTenants();
+    if (!tenants) {
+      return reply.code(502).send({ error: 'Failed to list Xero organisations' });
+    }
+    return { tenants, selectedTenantId: xeroAuth.getConnection().tenantId };
+  });
+
+  fastify.post('/xero/tenant', async (request, reply) => {
+    const { tenantId } = (request.body ?? {}) as { tenantId?: unknown };
+    if (typeof tenantId !== 'string' || !tenantId.trim()) {
+      return reply.code(400).send({ error: 'Valid tenant ID is required' });
+    }
+
+    const selected = await xeroAuth.selectTenant(tenantId.trim());
+    if (!selected) {
+      return reply.code(400).send({ error: 'Xero has not authorized access to that organisation' });
+    }
+    return { success: true, ...xeroAuth.getConnection() };
+  });
+
+  // Reconciliation mode and where payments land in the books
+  fastify.get('/reconciliation', async () => {
+    return getReconciliationSettings();
+  });
+
+  fastify.post('/reconciliation', async (request, reply) => {
+    const body = (request.body ?? {}) as Record<string, unknown>;
+    const mode = body.mode as ReconciliationMode;
+    if (!RECONCILIATION_MODES.includes(mode)) {
+      return reply
+        .code(400)
+        .send({ error: `mode must be one of ${RECONCILIATION_MODES.join(', ')}` });
+    }
+
+    const accounts: AccountMapping = {};
+    for (const field of ACCOUNT_MAPPING_FIELDS) {
+      const value = body[field];
+      if (value === undefined || value === null || value === '') {
+        continue;
+      }
+      if (typeof value !== 'string') {
+        return reply.code(400).send({ error: `${field} must be a string` });
+      }
+      accounts[field] = value.trim();
+    }
+
+    try {
+      saveReconciliationSettings(mode, accounts);
+      writeLog('info', 'Reconciliation settings updated', { mode, ...accounts });
+      return { success: true, ...getReconciliationSettings() };
+    } catch (error) {
+      console.error('Failed to save reconciliation settings:', error);
+      return reply.code(500).send({ error: 'Failed to save reconciliation settings' });
+    }
+  });
+
+  // Accounts, customers, payment methods and tax codes for the mapping dropdowns
+  fastify.get('/reconciliation/accounts', async (request, reply) => {
+    const provider = getAccountingProvider();
+    if (!provider) {
+      return reply.code(400).send({ error: 'No accounting provider is connected' });
+    }
+    const chart = await provider.getChartOfAccounts();
+    if (!chart) {
+      return reply
+        .code(502)
+        .send({ error: `Failed to load the chart of accounts from ${provider.name}` });
+    }
+    return { provider: provider.name, ...chart };
+  });
+
+  // Account names used by the plain-text journal export
+  fastify.get('/journal', async () => {
+    return getJournalAccounts();
+  });
+
+  fastify.post('/journal', async (request, reply) => {
+    const body = (request.body ?? {}) as Record<string, unknown>;
+    const accounts = getJournalAccounts();
+    for (const field of JOURNAL_ACCOUNT_FIELDS) {
+      const value = body[field];
+      if (value === undefined) {
+        continue;
+      }
+      if (typeof value !== 'string' || !isValidAccountName(value.trim())) {
+        return reply.code(400).send({
+          error: `${field} must be an account name like Assets:Bitcoin (Assets, Liabilities, Equity, Income or Expenses, then capitalised components)`,
+        });
+      }
+      accounts[field] = value.trim();
+    }
+
+    try {
+      saveJournalAccounts(accounts);
+      writeLog('info', 'Journal accounts updated', { ...accounts });
+      return { success: true, ...accounts };
+    } catch (error) {
+      console.error('Failed to save journal accounts:', error);
+      return reply.code(500).send({ error: 'Failed to save journal accounts' });
+    }
+  });
 };
 
 // Webhook processing routes
 const webhookRoutes: FastifyPluginAsync = async (fastify) => {
-  fastify.post('/btcpay', async (request, reply) => {
+  // Keep the raw body around - the BTCPay-Sig HMAC is computed over the exact bytes sent
+  fastify.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+    request.rawBody = body as string;
+    try {
+      done(null, JSON.parse(body as string));
+    } catch (error) {
+      const parseError = error as Error & { statusCode?: number };
+      parseError.statusCode = 400;
+      done(parseError, undefined);
+    }
+  });
+
+  fastify.post('/btcpay', { config: { public: true } }, async (request, reply) => {
     const payload = request.body as unknown;
 
     // Basic validation - check if it's a valid webhook payload
@@ -149,34 +814,56 @@ const webhookRoutes: FastifyPluginAsync = async (fastify) => {
 
     const webhookPayload = payload as BTCPayWebhookPayload;
 
-    try {
-      const db = getDatabase();
+    // Verify the delivery was signed with the secret we generated for this webhook
+    const signature = request.headers['btcpay-sig'] as string | undefined;
+    const secret = webhookPayload.webhookId
+      ? btcpayClient.getWebhookSecret(webhookPayload.webhookId)
+      : null;
 
-      // Generate a unique ID for this webhook event
-      const webhookId = `webhook_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-      // Store the webhook event in database
-      const insertStmt = db.prepare(`
-        INSERT INTO webhook_events (id, event_type, invoice_id, store_id, payload)
-        VALUES (?, ?, ?, ?, ?)
-      `);
-
-      insertStmt.run(
-        webhookId,
-        webhookPayload.type || 'unknown',
-        webhookPayload.invoiceId || null,
-        webhookPayload.storeId || null,
-        JSON.stringify(payload)
-      );
+    if (!secret || !verifyBTCPaySignature(request.rawBody ?? '', signature, secret)) {
+      const reason = !secret ? 'unknown webhook' : 'signature mismatch';
+      console.warn(`🚫 Rejected BTCPay webhook (${reason}) from ${request.ip}`);
+      writeLog('warn', `Rejected BTCPay webhook: ${reason}`, {
+        webhookId: webhookPayload.webhookId || null,
+        eventType: webhookPayload.type || null,
+        invoiceId: webhookPayload.invoiceId || null,
+        signaturePresent: !!signature,
+        ip: request.ip,
+      });
+      return reply.code(401).send({
+        error: 'Invalid webhook signature',
+      });
+    }
+
+    try {
+      const payment = webhookPayload.payment as { id?: string } | undefined;
+      const stored = storeWebhookEvent({
+        eventType: webhookPayload.type || 'unknown',
+        invoiceId: webhookPayload.invoiceId || null,
+        storeId: webhookPayload.storeId || null,
+        payload,
+        webhookId: webhookPayload.webhookId,
+        deliveryId: webhookPayload.deliveryId,
+        originalDeliveryId: webhookPayload.originalDeliveryId,
+        paymentId: payment?.id,
+      });
 
-      console.log(`✅ Stored BTCPay webhook event: ${webhookId} (${webhookPayload.type})`);
+      if (stored.duplicate) {
+        console.log(
+          `♻️ Ignored duplicate BTCPay webhook event: ${stored.id} (${webhookPayload.type})`
+        );
+      } else {
+        console.log(`✅ Stored BTCPay webhook event: ${stored.id} (${webhookPayload.type})`);
+      }
 
+      // Always 200 on replays, otherwise BTCPay keeps redelivering
       reply.code(200).send({
         received: true,
         eventType: webhookPayload.type || 'unknown',
         invoiceId: webhookPayload.invoiceId || null,
-        stored: true,
-        webhookId: webhookId,
+        stored: !stored.duplicate,
+        duplicate: stored.duplicate,
+        webhookId: stored.id,
       });
     } catch (error) {
       console.error('❌ Failed to store webhook event:', error);
@@ -217,96 +904,468 @@ const webhookRoutes: FastifyPluginAsync = async (fastify) => {
   });
 };
 
+// Sync routes
+const syncRoutes: FastifyPluginAsync = async (fastify) => {
+  // Backfill missed settled invoices right away instead of waiting for the next scheduled run
+  fastify.post('/now', async (request, reply) => {
+    const summary = await backfillSync.runNow();
+    if (!summary) {
+      return reply.code(409).send({ error: 'A sync is already running' });
+    }
+    if (summary.error) {
+      return reply.code(502).send({ success: false, ...summary });
+    }
+    return { success: true, ...summary };
+  });
+};
+
+// Setup wizard: the current step and the transitions between steps
+const setupRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.get('/state', async (request, reply) => {
+    try {
+      return await setupStateMachine.evaluate();
+    } catch (error) {
+      console.error('Failed to evaluate setup state:', error);
+      return reply.code(500).send({ error: 'Failed to evaluate setup state' });
+    }
+  });
+
+  fastify.post('/state', async (request, reply) => {
+    const { event, mode, provider } = (request.body ?? {}) as {
+      event?: unknown;
+      mode?: unknown;
+      provider?: unknown;
+    };
+    if (typeof event !== 'string' || !SETUP_EVENTS.includes(event as SetupEventType)) {
+      return reply.code(400).send({ error: `event must be one of ${SETUP_EVENTS.join(', ')}` });
+    }
+    if (
+      event === 'SELECT_PROVIDER' &&
+      (typeof provider !== 'string' ||
+        !ACCOUNTING_PROVIDERS.includes(provider as AccountingProviderId))
+    ) {
+      return reply
+        .code(400)
+        .send({ error: `provider must be one of ${ACCOUNTING_PROVIDERS.join(', ')}` });
+    }
+    if (
+      event === 'SELECT_MODE' &&
+      (typeof mode !== 'string' || !RECONCILIATION_MODES.includes(mode as ReconciliationMode))
+    ) {
+      return reply
+        .code(400)
+        .send({ error: `mode must be one of ${RECONCILIATION_MODES.join(', ')}` });
+    }
+
+    try {
+      const result = await setupStateMachine.transition({
+        type: event,
+        mode,
+        provider,
+      } as SetupEvent);
+      if (result.error) {
+        return reply.code(409).send(result);
+      }
+      return result;
+    } catch (error) {
+      console.error('Failed to apply setup event:', error);
+      return reply.code(500).send({ error: 'Failed to apply setup event' });
+    }
+  });
+};
+
+// Retrying reconciliations that failed to post
+const reconciliationRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.post('/:id/retry', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const result = retryQueue.retryNow(id);
+    if (result.status === 'not_found') {
+      return reply.code(404).send({ success: false, error: `Reconciliation ${id} not found` });
+    }
+    if (result.status === 'nothing_to_retry') {
+      return reply
+        .code(409)
+        .send({ success: false, error: `Reconciliation ${id} has nothing to retry` });
+    }
+    writeLog('info', 'Reconciliation retry requested', { reconciliationId: id });
+    return { success: true, job: result.job };
+  });
+
+  fastify.post('/retry-failed', async () => {
+    const retried = retryQueue.retryAllFailed();
+    writeLog('info', 'Retry of all failed reconciliations requested', { retried });
+    return { success: true, retried };
+  });
+};
+
+/**
+ * Whether a query parameter is a calendar date (YYYY-MM-DD)
+ */
+function isIsoDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+}
+
+// Downloads of the reconciliation history for other bookkeeping tools
+const exportRoutes: FastifyPluginAsync = async (fastify) => {
+  // A short-lived token for a plain download link, so the key never goes into a URL
+  fastify.post('/tokens', async (request, reply) => {
+    const { path } = (request.body ?? {}) as { path?: unknown };
+    if (typeof path !== 'string' || !path.startsWith(`${fastify.prefix}/`) || path.includes('?')) {
+      return reply
+        .code(400)
+        .send({ error: `path must be an export path under ${fastify.prefix}/, without a query` });
+    }
+    const issued = appApiKey.issueDownloadToken(path);
+    if (!issued) {
+      return reply.code(500).send({ error: 'Failed to issue download token' });
+    }
+    return issued;
+  });
+
+  fastify.get('/journal', { config: { download: true } }, async (request, reply) => {
+    const { format, from, to } = request.query as { format?: string; from?: string; to?: string };
+    if (!JOURNAL_FORMATS.includes(format as JournalFormat)) {
+      return reply.code(400).send({ error: `format must be one of ${JOURNAL_FORMATS.join(', ')}` });
+    }
+    for (const [name, value] of Object.entries({ from, to })) {
+      if (value !== undefined && !isIsoDate(value)) {
+        return reply.code(400).send({ error: `${name} must be a date (YYYY-MM-DD)` });
+      }
+    }
+
+    try {
+      const journal = renderJournal(format as JournalFormat, { from, to });
+      const filename = `reconciliations.${JOURNAL_FILE_EXTENSIONS[format as JournalFormat]}`;
+      return reply
+        .type('text/plain; charset=utf-8')
+        .header('Content-Disposition', `attachment; filename="${filename}"`)
+        .send(journal);
+    } catch (error) {
+      console.error('Failed to export journal:', error);
+      return reply.code(500).send({ error: 'Failed to export journal' });
+    }
+  });
+
+  // Invoices, payments, reconciliations or errors as a CSV or XLSX download
+  fastify.get('/:report', { config: { download: true } }, async (request, reply) => {
+    const { report } = request.params as { report: string };
+    const { format, from, to, storeId, status } = request.query as Record<
+      string,
+      string | undefined
+    >;
+    if (!REPORT_TYPES.includes(report as ReportType)) {
+      return reply.code(404).send({ error: `Unknown export ${report}` });
+    }
+    if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+      return reply.code(400).send({ error: `format must be one of ${REPORT_FORMATS.join(', ')}` });
+    }
+    for (const [name, value] of Object.entries({ from, to })) {
+      if (value !== undefined && !isIsoDate(value)) {
+        return reply.code(400).send({ error: `${name} must be a date (YYYY-MM-DD)` });
+      }
+    }
+    const statuses = REPORT_STATUSES[report as ReportType];
+    if (status && !statuses.includes(status)) {
+      return reply
+        .code(400)
+        .send({ error: `status must be one of ${statuses.join(', ')} for ${report}` });
+    }
+
+    writeLog('info', 'Report exported', { report, format, from, to, storeId, status });
+    return reply
+      .type(REPORT_CONTENT_TYPES[format as ReportFormat])
+      .header('Content-Disposition', `attachment; filename="${report}.${format}"`)
+      .send(
+        streamReport(report as ReportType, format as ReportFormat, {
+          from,
+          to,
+          storeId: storeId || undefined,
+          status: status || undefined,
+        })
+      );
+  });
+};
+
+// Pay links for accounting invoices (the links themselves are served by payRoutes)
+const payLinkRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.post('/', async (request, reply) => {
+    const { invoiceId } = (request.body ?? {}) as { invoiceId?: unknown };
+    if (typeof invoiceId !== 'string' || !invoiceId.trim()) {
+      return reply.code(400).send({ error: 'invoiceId is required' });
+    }
+    if (!getAccountingProvider()) {
+      return reply.code(400).send({ error: 'No accounting provider is connected' });
+    }
+
+    const link = await payLinkService.createLink(invoiceId.trim());
+    if (!link) {
+      return reply.code(404).send({ error: `Invoice ${invoiceId.trim()} not found` });
+    }
+    return link;
+  });
+};
+
+/**
+ * Page shown to a customer whose pay link can't be sent on to a checkout
+ */
+function renderPayLinkPage(title: string, message: string): string {
+  const escape = (text: string) => text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+  return `<!DOCTYPE html>
+<html>
+  <head><title>${escape(title)}</title></head>
+  <body>
+    <h1>${escape(title)}</h1>
+    <p>${escape(message)}</p>
+  </body>
+</html>`;
+}
+
+// Customer-facing "Pay in Bitcoin" links, served outside /api and without the app API key
+export const payRoutes: FastifyPluginAsync = async (fastify) => {
+  fastify.get('/:token', async (request, reply) => {
+    const { token } = request.params as { token: string };
+    reply.header('Cache-Control', 'no-store');
+
+    try {
+      const resolution = await payLinkService.resolve(token);
+      switch (resolution.status) {
+        case 'checkout':
+          return reply.redirect(302, resolution.checkoutLink);
+        case 'paid':
+          return reply
+            .type('text/html')
+            .send(renderPayLinkPage('Invoice paid', 'This invoice has already been paid.'));
+        case 'invalid':
+          return reply
+            .code(404)
+            .type('text/html')
+            .send(renderPayLinkPage('Link not found', 'This payment link is not valid.'));
+        case 'unavailable':
+          console.error(`Pay link unavailable: ${resolution.error}`);
+          return reply
+            .code(503)
+            .type('text/html')
+            .send(
+              renderPayLinkPage(
+                'Payment unavailable',
+                'Bitcoin payment is not available right now. Please try again later.'
+              )
+            );
+      }
+    } catch (error) {
+      console.error('Failed to resolve pay link:', error);
+      return reply
+        .code(500)
+        .type('text/html')
+        .send(renderPayLinkPage('Payment unavailable', 'Something went wrong. Please try again.'));
+    }
+  });
+};
+
+// Webhook event joined with its invoice's reconciliation, for the lifecycle view
+interface InvoiceEventRow {
+  id: string;
+  event_type: string;
+  invoice_id: string;
+  store_id: string | null;
+  payload: string;
+  created_at: string;
+  reconciliation_id: string | null;
+  reconciliation_status: string | null;
+  payment_status: string | null;
+  amount_sats: number | null;
+  amount_fiat: number | null;
+  reconciliation_currency: string | null;
+  accounting_transaction_id: string | null;
+  accounting_provider: string | null;
+  error_message: string | null;
+  retry_status: string | null; // Set while a retry job exists for the reconciliation
+  retry_attempts: number | null;
+  retry_next_attempt_at: string | null;
+  retry_error_kind: string | null;
+  refunded_fiat: number | null; // Cents refunded and posted to the books
+  reversal_status: string | null; // Set once the transaction of an invalidated invoice is reversed
+  reversal_method: string | null;
+  reversal_transaction_id: string | null;
+  reversal_transaction_type: string | null;
+}
+
+/**
+ * Collapse an invoice's events (oldest first) into one lifecycle entry
+ */
+function buildInvoiceLifecycle(events: InvoiceEventRow[], settings: ReconciliationSettings) {
+  const first = events[0];
+  const last = events[events.length - 1];
+  const settled = [...events]
+    .reverse()
+    .find((event) => ['InvoiceSettled', 'InvoicePaymentSettled'].includes(event.event_type));
+
+  // Metadata (buyer, amount) travels on the webhook payloads; the earliest parseable one wins
+  let metadata: Record<string, unknown> | null = null;
+  for (const event of events) {
+    try {
+      metadata = (JSON.parse(event.payload)?.metadata as Record<string, unknown>) ?? {};
+      break;
+    } catch (error) {
+      console.warn(`Failed to parse webhook payload for invoice ${event.invoice_id}:`, error);
+    }
+  }
+
+  const reconciled = last.amount_fiat !== null && !!last.reconciliation_currency;
+  const amount = reconciled ? (last.amount_fiat as number) / 100 : metadata?.amount;
+  const currency = reconciled ? last.reconciliation_currency : metadata?.currency;
+  const customer = metadata?.buyerEmail;
+  const settledAt = settled?.created_at ?? last.created_at;
+
+  return {
+    id: first.invoice_id,
+    invoiceId: first.invoice_id,
+    storeId: first.store_id,
+    status: getLifecycleStatus(
+      events.map((event) => event.event_type),
+      last.reconciliation_status,
+      last.refunded_fiat ?? 0
+    ),
+    events: events.map((event) => ({
+      id: event.id,
+      type: event.event_type,
+      receivedAt: event.created_at,
+    })),
+    firstSeenAt: first.created_at,
+    lastEventAt: last.created_at,
+    settledAt: settled?.created_at ?? null,
+    reconciliation: last.reconciliation_status
+      ? {
+          status: last.reconciliation_status,
+          paymentStatus: last.payment_status,
+          amountSats: last.amount_sats,
+          amountFiat: last.amount_fiat,
+          currency: last.reconciliation_currency,
+          id: last.reconciliation_id,
+          transactionId: last.accounting_transaction_id,
+          provider: last.accounting_provider,
+          error: last.error_message,
+          refundedFiat: last.refunded_fiat ?? 0,
+          reversal: last.reversal_status
+            ? {
+                status: last.reversal_status,
+                method: last.reversal_method,
+                transactionId: last.reversal_transaction_id,
+                transactionType: last.reversal_transaction_type,
+              }
+            : null,
+          retry: last.retry_status
+            ? {
+                status: last.retry_status,
+                attempts: last.retry_attempts,
+                nextAttemptAt: last.retry_next_attempt_at,
+                errorKind: last.retry_error_kind,
+              }
+            : null,
+        }
+      : null,
+    quickbooksStatus: last.accounting_transaction_id ? 'sent_to_quickbooks' : 'pending',
+    quickbooksTransactionId: last.accounting_transaction_id,
+    amount: metadata ? (amount ?? 'Unknown') : 'Parse Error',
+    currency: currency || 'Unknown',
+    customerInfo: metadata ? customer || 'Unknown' : 'Parse Error',
+    // What is (or would be) sent to QuickBooks, with the configured mode and account mapping
+    quickbooksData: metadata
+      ? {
+          amount: typeof amount === 'number' ? amount : parseFloat(String(amount ?? 0)) || 0,
+          currency: currency || 'USD',
+          date: new Date(settledAt).toISOString().split('T')[0],
+          description: `BTCPayServer Invoice ${first.invoice_id}`,
+          mode: metadata.qboInvoiceId
+            ? 'invoicing'
+            : (settings.mode ?? DEFAULT_RECONCILIATION_MODE),
+          accounts: settings.accounts,
+          billEmail: typeof customer === 'string' ? customer : null,
+        }
+      : null,
+  };
+}
+
 // Main API routes - register all route groups
 export const apiRoutes: FastifyPluginAsync = async (fastify) => {
+  // Everything below requires the app API key unless the route is marked public
+  fastify.addHook('preHandler', requireApiKey);
+
   await fastify.register(statusRoutes);
   await fastify.register(btcpayRoutes, { prefix: '/btcpay' });
+  await fastify.register(configRoutes, { prefix: '/config' });
   await fastify.register(webhookRoutes, { prefix: '/webhooks' });
+  await fastify.register(syncRoutes, { prefix: '/sync' });
+  await fastify.register(setupRoutes, { prefix: '/setup' });
+  await fastify.register(payLinkRoutes, { prefix: '/pay-links' });
+  await fastify.register(reconciliationRoutes, { prefix: '/reconciliations' });
+  await fastify.register(exportRoutes, { prefix: '/export' });
 
-  // Get settled invoices (InvoiceSettled events)
+  // Per-invoice lifecycle: every BTCPay event received for an invoice plus its reconciliation
   fastify.get('/settled-invoices', async () => {
     try {
-      const db = getDatabase();
-      const settledInvoices = db
+      const rows = getDatabase()
         .prepare(
           `
         SELECT
           we.id,
+          we.event_type,
           we.invoice_id,
           we.store_id,
           we.payload,
-          we.created_at as settled_at,
-          CASE WHEN r.id IS NOT NULL THEN 'sent_to_quickbooks' ELSE 'pending' END as quickbooks_status,
-          r.quickbooks_transaction_id
+          we.created_at,
+          r.id AS reconciliation_id,
+          r.status AS reconciliation_status,
+          r.payment_status,
+          r.amount_sats,
+          r.amount_fiat,
+          r.currency AS reconciliation_currency,
+          r.accounting_transaction_id,
+          r.accounting_provider,
+          r.error_message,
+          j.status AS retry_status,
+          j.attempts AS retry_attempts,
+          j.next_attempt_at AS retry_next_attempt_at,
+          j.error_kind AS retry_error_kind,
+          (
+            SELECT SUM(rf.amount_fiat) FROM refunds rf
+            WHERE rf.reconciliation_id = r.id AND rf.status = 'posted'
+          ) AS refunded_fiat,
+          rv.status AS reversal_status,
+          rv.method AS reversal_method,
+          rv.reversal_transaction_id,
+          rv.reversal_transaction_type
         FROM webhook_events we
         LEFT JOIN reconciliations r ON we.invoice_id = r.btcpay_invoice_id
-        WHERE we.event_type = 'InvoiceSettled'
-        ORDER BY we.created_at DESC
-        LIMIT 100
+        LEFT JOIN reconciliation_jobs j ON j.reconciliation_id = r.id
+        LEFT JOIN reversals rv ON rv.reconciliation_id = r.id
+        WHERE we.invoice_id IN (
+          SELECT invoice_id FROM webhook_events
+          WHERE invoice_id IS NOT NULL
+          GROUP BY invoice_id
+          ORDER BY MAX(created_at) DESC
+          LIMIT 100
+        )
+        ORDER BY we.created_at ASC, we.rowid ASC
       `
         )
-        .all();
+        .all() as InvoiceEventRow[];
 
-      // Database row interface
-      interface SettledInvoiceRow {
-        id: number;
-        invoice_id: string;
-        store_id: string;
-        payload: string;
-        settled_at: string;
-        quickbooks_status: 'sent_to_quickbooks' | 'pending';
-        quickbooks_transaction_id: string | null;
+      const byInvoice = new Map<string, InvoiceEventRow[]>();
+      for (const row of rows) {
+        byInvoice.set(row.invoice_id, [...(byInvoice.get(row.invoice_id) ?? []), row]);
       }
 
-      // Parse the payload to extract relevant invoice info
-      const formattedInvoices = (settledInvoices as SettledInvoiceRow[]).map((invoice) => {
-        try {
-          const payload = JSON.parse(invoice.payload);
-
-          // Extract relevant info from the webhook payload
-          // Note: The exact structure depends on BTCPayServer's webhook format
-          return {
-            id: invoice.id,
-            invoiceId: invoice.invoice_id,
-            storeId: invoice.store_id,
-            settledAt: invoice.settled_at,
-            quickbooksStatus: invoice.quickbooks_status,
-            quickbooksTransactionId: invoice.quickbooks_transaction_id,
-            // Extract what we can from the payload - may need to adjust based on actual BTCPay webhook format
-            amount: payload?.metadata?.amount || 'Unknown',
-            currency: payload?.metadata?.currency || 'Unknown',
-            customerInfo: payload?.metadata?.buyerEmail || 'Unknown',
-            // This would be what we send to QuickBooks
-            quickbooksData: {
-              amount: payload?.metadata?.amount || 0,
-              currency: payload?.metadata?.currency || 'USD',
-              date: new Date(invoice.settled_at).toISOString().split('T')[0],
-              description: `BTCPayServer Invoice ${invoice.invoice_id}`,
-              customer: payload?.metadata?.buyerEmail || 'Unknown Customer',
-            },
-          };
-        } catch (error) {
-          console.warn(`Failed to parse webhook payload for invoice ${invoice.invoice_id}:`, error);
-          return {
-            id: invoice.id,
-            invoiceId: invoice.invoice_id,
-            storeId: invoice.store_id,
-            settledAt: invoice.settled_at,
-            quickbooksStatus: invoice.quickbooks_status,
-            quickbooksTransactionId: invoice.quickbooks_transaction_id,
-            amount: 'Parse Error',
-            currency: 'Unknown',
-            customerInfo: 'Parse Error',
-            quickbooksData: null,
-          };
-        }
-      });
+      const settings = getReconciliationSettings();
+      const invoices = [...byInvoice.values()]
+        .map((events) => buildInvoiceLifecycle(events, settings))
+        .sort((a, b) => b.lastEventAt.localeCompare(a.lastEventAt));
 
       return {
-        invoices: formattedInvoices,
+        invoices,
       };
     } catch (error) {
-      console.error('Failed to fetch settled invoices:', error);
+      console.error('Failed to fetch invoice lifecycles:', error);
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
         invoices: [],
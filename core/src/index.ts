@@ -3,12 +3,65 @@ import cors from '@fastify/cors';
 import staticPlugin from '@fastify/static';
 import path from 'path';
 import fs from 'fs';
-import { apiRoutes } from './api/routes';
+import { apiRoutes, payRoutes } from './api/routes';
+import { stripQueryString } from './api/auth';
 import { initializeDatabase } from './models/database';
+import { encryptPlaintextConfigRows } from './models/config';
+import { initializeEncryption } from './utils/crypto';
+import { appApiKey } from './services/appApiKey';
+import { syncWorker } from './jobs/syncWorker';
+import { tokenRefreshScheduler } from './jobs/tokenRefresh';
+import { backfillSync } from './jobs/backfill';
+import { webhookDeliveryMonitor } from './jobs/deliveryMonitor';
+import { refundSync } from './jobs/refundSync';
+import { btcpayClient, getWebhookCallbackUrl } from './services/btcpay';
+
+/**
+ * Leave BTCPayServer with exactly one healthy webhook pointing at us (once it is configured)
+ */
+async function ensureBTCPayWebhook(): Promise<void> {
+  if (!(await btcpayClient.isAuthenticated())) {
+    console.log('⏭️ Skipping webhook check: BTCPayServer is not set up yet');
+    return;
+  }
+  const result = await btcpayClient.ensureWebhook(getWebhookCallbackUrl());
+  if (result) {
+    console.log(
+      `🪝 BTCPay webhook ${result.webhook.id} ${result.action}` +
+        (result.removed.length ? `, removed ${result.removed.length} duplicate(s)` : '')
+    );
+  }
+}
+
+/**
+ * TRUST_PROXY as Fastify's trustProxy: a hop count, true/false, or comma-separated proxy addresses.
+ * Behind a reverse proxy this makes request.ip the real client, which the auth rate limit keys on.
+ */
+function parseTrustProxy(value: string | undefined): boolean | number | string {
+  if (!value || value === 'false') {
+    return false;
+  }
+  if (value === 'true') {
+    return true;
+  }
+  return /^\d+$/.test(value) ? parseInt(value) : value;
+}
 
 async function startServer() {
   const fastify = Fastify({
-    logger: true,
+    trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
+    logger: {
+      serializers: {
+        // Query strings can carry download tokens, so only the path is logged
+        req: (request) => ({
+          method: request.method,
+          url: stripQueryString(request.url),
+          hostname: request.hostname,
+          remoteAddress: request.ip,
+          remotePort: request.socket?.remotePort,
+        }),
+      },
+    },
   });
 
   // Register plugins
@@ -25,9 +78,27 @@ async function startServer() {
   // Initialize database first
   await initializeDatabase();
 
+  // Load the master key and encrypt any secrets left in plaintext by older versions
+  try {
+    const migrated = encryptPlaintextConfigRows();
+    initializeEncryption();
+    if (migrated > 0) {
+      console.log(`🔐 Encrypted ${migrated} plaintext config value(s)`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to initialize encryption:', error);
+    process.exit(1);
+  }
+
+  // Generate the app API key on first boot
+  appApiKey.initialize();
+
   // Register API routes
   await fastify.register(apiRoutes, { prefix: '/api' });
 
+  // Public "Pay in Bitcoin" links for accounting invoices
+  await fastify.register(payRoutes, { prefix: '/pay' });
+
   // Health check endpoint
   fastify.get('/health', async () => {
     return { status: 'ok', timestamp: new Date().toISOString() };
@@ -67,6 +138,25 @@ async function startServer() {
   try {
     await fastify.listen({ port, host });
     console.log(`🚀 Sovereign Merchant server listening on http://${host}:${port}`);
+
+    ensureBTCPayWebhook().catch((error) => {
+      console.error('❌ Failed to check BTCPay webhook:', error);
+    });
+
+    // Start draining webhook events into reconciliations
+    syncWorker.start(parseInt(process.env.SYNC_WORKER_INTERVAL_MS || '5000'));
+
+    // Catch settled invoices whose webhooks never arrived
+    backfillSync.start(parseInt(process.env.BACKFILL_INTERVAL_MS || '900000'));
+
+    // Record BTCPay refunds of reconciled invoices in the books
+    refundSync.start(parseInt(process.env.REFUND_SYNC_INTERVAL_MS || '900000'));
+
+    // Notice failing webhook deliveries and have BTCPay send them again
+    webhookDeliveryMonitor.start(parseInt(process.env.WEBHOOK_MONITOR_INTERVAL_MS || '300000'));
+
+    // Keep the QuickBooks access token from expiring
+    tokenRefreshScheduler.start();
   } catch (err) {
     fastify.log.error(err);
     process.exit(1);
@@ -0,0 +1,286 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { initializeDatabase, getDatabase, closeDatabase } from '../models/database';
+import { getConfigValue, setConfigValue } from '../models/config';
+import { btcpayClient, BTCPayInvoice } from '../services/btcpay';
+import { setupStateMachine } from '../services/setupState';
+import { BackfillSync } from './backfill';
+
+// Mock the BTCPayServer client
+vi.mock('../services/btcpay', () => ({
+  btcpayClient: {
+    resolveStoreId: vi.fn(),
+    listInvoices: vi.fn(),
+  },
+}));
+
+// Mock the setup state (setup completed just before the invoices below)
+vi.mock('../services/setupState', () => ({
+  setupStateMachine: {
+    getCompletedAt: vi.fn(),
+  },
+}));
+
+const mockedBTCPayClient = vi.mocked(btcpayClient);
+const mockedSetupStateMachine = vi.mocked(setupStateMachine);
+const SETUP_COMPLETED_AT = 1699990000;
+
+function settledInvoice(id: string, createdTime: number, status = 'Settled'): BTCPayInvoice {
+  return {
+    id,
+    storeId: 'store_789',
+    status,
+    amount: '100.00',
+    currency: 'USD',
+    checkoutLink: `https://btcpay.example.com/i/${id}`,
+    createdTime,
+    monitoringExpiration: createdTime + 3600,
+    metadata: { buyerEmail: 'buyer@example.com' },
+  };
+}
+
+function queuedEvents() {
+  return getDatabase()
+    .prepare('SELECT id, event_type, invoice_id, store_id, payload FROM webhook_events')
+    .all() as {
+    id: string;
+    event_type: string;
+    invoice_id: string;
+    store_id: string;
+    payload: string;
+  }[];
+}
+
+describe('BackfillSync', () => {
+  let backfill: BackfillSync;
+
+  beforeEach(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await initializeDatabase();
+    backfill = new BackfillSync();
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    mockedBTCPayClient.resolveStoreId.mockResolvedValue('store_789');
+    mockedSetupStateMachine.getCompletedAt.mockReturnValue(new Date(SETUP_COMPLETED_AT * 1000));
+  });
+
+  afterEach(() => {
+    backfill.stop();
+    closeDatabase();
+    vi.restoreAllMocks();
+  });
+
+  it('should enqueue settled invoices that have no reconciliation', async () => {
+    getDatabase()
+      .prepare(
+        `INSERT INTO reconciliations (id, btcpay_invoice_id, amount_sats, amount_fiat, currency, status)
+         VALUES ('rec-1', 'invoice_known', 1000, 100, 'USD', 'completed')`
+      )
+      .run();
+    mockedBTCPayClient.listInvoices.mockResolvedValueOnce([
+      settledInvoice('invoice_missed', 1700000500),
+      settledInvoice('invoice_known', 1700000000),
+    ]);
+
+    const summary = await backfill.runOnce();
+
+    expect(summary).toEqual({
+      storeId: 'store_789',
+      found: 2,
+      enqueued: 1,
+      highWaterMark: 1700000500,
+    });
+    const events = queuedEvents();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      event_type: 'InvoiceSettled',
+      invoice_id: 'invoice_missed',
+      store_id: 'store_789',
+    });
+    expect(JSON.parse(events[0].payload)).toMatchObject({
+      source: 'backfill',
+      metadata: { buyerEmail: 'buyer@example.com' },
+    });
+  });
+
+  it('should enqueue expired invoices that were paid, partially or late', async () => {
+    getDatabase()
+      .prepare(
+        `INSERT INTO reconciliations (id, btcpay_invoice_id, amount_sats, amount_fiat, currency, status)
+         VALUES ('rec-1', 'invoice_late', 0, 0, 'USD', 'expired')`
+      )
+      .run();
+    mockedBTCPayClient.listInvoices.mockResolvedValueOnce([
+      { ...settledInvoice('invoice_late', 1700000300, 'Expired'), additionalStatus: 'PaidLate' },
+      {
+        ...settledInvoice('invoice_partial', 1700000200, 'Expired'),
+        additionalStatus: 'PaidPartial',
+      },
+      { ...settledInvoice('invoice_unpaid', 1700000100, 'Expired'), additionalStatus: 'None' },
+    ]);
+
+    const summary = await backfill.runOnce();
+
+    expect(summary).toMatchObject({ found: 2, enqueued: 2 });
+    expect(
+      queuedEvents().map(({ event_type, invoice_id }) => ({ event_type, invoice_id }))
+    ).toEqual([
+      { event_type: 'InvoiceExpired', invoice_id: 'invoice_late' },
+      { event_type: 'InvoiceExpired', invoice_id: 'invoice_partial' },
+    ]);
+  });
+
+  it('should not enqueue invoices whose webhook is still waiting to be processed', async () => {
+    getDatabase()
+      .prepare(
+        `INSERT INTO webhook_events (id, event_type, invoice_id, store_id, payload)
+         VALUES ('delivery_1', 'InvoiceSettled', 'invoice_1', 'store_789', '{}')`
+      )
+      .run();
+    mockedBTCPayClient.listInvoices.mockResolvedValueOnce([
+      settledInvoice('invoice_1', 1700000000),
+    ]);
+
+    const summary = await backfill.runOnce();
+
+    expect(summary.enqueued).toBe(0);
+    expect(queuedEvents()).toHaveLength(1);
+  });
+
+  it('should page through every invoice', async () => {
+    const firstPage = Array.from({ length: 50 }, (_, i) =>
+      settledInvoice(`invoice_${i}`, 1700000000 + i)
+    );
+    mockedBTCPayClient.listInvoices
+      .mockResolvedValueOnce(firstPage)
+      .mockResolvedValueOnce([settledInvoice('invoice_50', 1699999999)]);
+
+    const summary = await backfill.runOnce();
+
+    expect(summary.found).toBe(51);
+    expect(summary.enqueued).toBe(51);
+    expect(mockedBTCPayClient.listInvoices).toHaveBeenNthCalledWith(2, 'store_789', {
+      status: ['New', 'Processing', 'Settled', 'Expired'],
+      startDate: SETUP_COMPLETED_AT,
+      skip: 50,
+      take: 50,
+    });
+  });
+
+  it('should persist the high-water mark and resume from it', async () => {
+    mockedBTCPayClient.listInvoices.mockResolvedValueOnce([
+      settledInvoice('invoice_1', 1700200000),
+    ]);
+    await backfill.runOnce();
+    expect(getConfigValue('backfill_high_water_mark:store_789')).toBe('1700200000');
+
+    mockedBTCPayClient.listInvoices.mockResolvedValueOnce([]);
+    const summary = await backfill.runOnce();
+
+    expect(summary).toMatchObject({ found: 0, enqueued: 0, highWaterMark: 1700200000 });
+    expect(mockedBTCPayClient.listInvoices).toHaveBeenLastCalledWith('store_789', {
+      status: ['New', 'Processing', 'Settled', 'Expired'],
+      startDate: 1700200000,
+      skip: 0,
+      take: 50,
+    });
+  });
+
+  it('should start from setup completion instead of the whole history', async () => {
+    mockedBTCPayClient.listInvoices.mockResolvedValueOnce([]);
+
+    const summary = await backfill.runOnce();
+
+    expect(summary.highWaterMark).toBe(SETUP_COMPLETED_AT);
+    expect(mockedBTCPayClient.listInvoices).toHaveBeenCalledWith(
+      'store_789',
+      expect.objectContaining({ startDate: SETUP_COMPLETED_AT })
+    );
+    expect(getConfigValue('backfill_high_water_mark:store_789')).toBe(String(SETUP_COMPLETED_AT));
+  });
+
+  it('should not run before setup is complete', async () => {
+    mockedSetupStateMachine.getCompletedAt.mockReturnValue(null);
+
+    const summary = await backfill.runOnce();
+
+    expect(summary.error).toBe('Setup is not complete yet');
+    expect(mockedBTCPayClient.listInvoices).not.toHaveBeenCalled();
+  });
+
+  it('should hold the mark at the oldest invoice that can still settle', async () => {
+    mockedBTCPayClient.listInvoices.mockResolvedValueOnce([
+      settledInvoice('invoice_new', 1700300000, 'New'),
+      settledInvoice('invoice_confirming', 1700100000, 'Processing'),
+      settledInvoice('invoice_expired', 1700000000, 'Expired'),
+    ]);
+    const first = await backfill.runOnce();
+    expect(first).toMatchObject({ found: 0, enqueued: 0, highWaterMark: 1700100000 });
+
+    // Hours later the confirming invoice settles, long after it was created
+    mockedBTCPayClient.listInvoices.mockResolvedValueOnce([
+      settledInvoice('invoice_new', 1700300000, 'Expired'),
+      settledInvoice('invoice_confirming', 1700100000),
+    ]);
+    const second = await backfill.runOnce();
+
+    expect(mockedBTCPayClient.listInvoices).toHaveBeenLastCalledWith(
+      'store_789',
+      expect.objectContaining({ startDate: 1700100000 })
+    );
+    expect(second).toMatchObject({ found: 1, enqueued: 1, highWaterMark: 1700300000 });
+    expect(queuedEvents().map((event) => event.invoice_id)).toEqual(['invoice_confirming']);
+  });
+
+  it('should not enqueue the same invoice twice across runs', async () => {
+    mockedBTCPayClient.listInvoices.mockResolvedValue([settledInvoice('invoice_1', 1700000000)]);
+
+    await backfill.runOnce();
+    // The sync worker picked it up and processed the event, but failed to post it
+    getDatabase().prepare('UPDATE webhook_events SET processed = 1').run();
+    getDatabase()
+      .prepare(
+        `INSERT INTO reconciliations (id, btcpay_invoice_id, amount_sats, amount_fiat, currency, status)
+         VALUES ('rec-1', 'invoice_1', 0, 0, '', 'failed')`
+      )
+      .run();
+    const summary = await backfill.runOnce();
+
+    expect(summary.enqueued).toBe(0);
+    expect(queuedEvents()).toHaveLength(1);
+  });
+
+  it('should keep the old high-water mark when BTCPay cannot be queried', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    setConfigValue('backfill_high_water_mark:store_789', '1700000000');
+    mockedBTCPayClient.listInvoices.mockResolvedValueOnce(null);
+
+    const summary = await backfill.runOnce();
+
+    expect(summary.error).toBe('Failed to list invoices from BTCPayServer');
+    expect(getConfigValue('backfill_high_water_mark:store_789')).toBe('1700000000');
+  });
+
+  it('should report when no store is selected', async () => {
+    mockedBTCPayClient.resolveStoreId.mockResolvedValueOnce(null);
+
+    const summary = await backfill.runOnce();
+
+    expect(summary.error).toBe('No BTCPayServer store selected');
+    expect(mockedBTCPayClient.listInvoices).not.toHaveBeenCalled();
+  });
+
+  it('should not start a second run while one is in progress', async () => {
+    let finishListing: (invoices: BTCPayInvoice[]) => void = () => {};
+    mockedBTCPayClient.listInvoices.mockReturnValueOnce(
+      new Promise((resolve) => {
+        finishListing = resolve;
+      })
+    );
+
+    const first = backfill.runNow();
+    expect(await backfill.runNow()).toBeNull();
+
+    finishListing([]);
+    expect(await first).toMatchObject({ storeId: 'store_789', found: 0 });
+  });
+});
@@ -0,0 +1,226 @@
+import { getDatabase } from '../models/database';
+import { getConfigValue, setConfigValue } from '../models/config';
+import { storeWebhookEvent } from '../models/webhookEvents';
+import { btcpayClient, BTCPayInvoice } from '../services/btcpay';
+import { setupStateMachine } from '../services/setupState';
+import { writeLog } from '../utils/logger';
+
+// Constants
+const DEFAULT_BACKFILL_INTERVAL = 15 * 60 * 1000;
+const PAGE_SIZE = 50;
+const HIGH_WATER_MARK_KEY_PREFIX = 'backfill_high_water_mark:';
+// Invoices that can still settle; the high-water mark never moves past one of these, since
+// BTCPay only filters by creation time. They leave this set once paid or expired.
+const OPEN_STATUSES = ['New', 'Processing'];
+// Expired invoices that were still paid, partially or after they expired
+const PAID_EXPIRED_STATUSES = ['PaidPartial', 'PaidLate', 'PaidOver'];
+
+export interface BackfillSummary {
+  storeId: string | null;
+  found: number; // Paid invoices (settled, or expired with a payment) returned since the mark
+  enqueued: number; // Of those, invoices we had never seen and queued for the sync worker
+  highWaterMark: number | null; // Creation time (unix seconds) the next run starts from
+  error?: string;
+}
+
+/**
+ * Safety net for missed webhooks (app offline, delivery dropped).
+ * Periodically lists settled invoices from BTCPay, and expired ones that were still paid, and
+ * queues any invoice without a reconciliation as a synthetic InvoiceSettled (or InvoiceExpired)
+ * event for the sync worker to process.
+ */
+export class BackfillSync {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: boolean = false;
+
+  /**
+   * Start the periodic backfill
+   */
+  start(intervalMs: number = DEFAULT_BACKFILL_INTERVAL): void {
+    if (this.timer) {
+      return;
+    }
+    console.log(`🧹 Backfill sync started (every ${intervalMs}ms)`);
+    this.timer = setInterval(() => {
+      void this.runNow();
+    }, intervalMs);
+    void this.runNow();
+  }
+
+  /**
+   * Stop the periodic backfill
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('🛑 Backfill sync stopped');
+    }
+  }
+
+  /**
+   * Run a backfill unless one is already in progress (returns null in that case)
+   */
+  async runNow(): Promise<BackfillSummary | null> {
+    if (this.running) {
+      return null;
+    }
+    this.running = true;
+    try {
+      return await this.runOnce();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('❌ Backfill sync failed:', errorMessage);
+      return { storeId: null, found: 0, enqueued: 0, highWaterMark: null, error: errorMessage };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Page through invoices created since the high-water mark and enqueue the settled ones we
+   * are missing. The mark then advances to the newest invoice, or the oldest one still open.
+   */
+  async runOnce(): Promise<BackfillSummary> {
+    const storeId = await btcpayClient.resolveStoreId();
+    if (!storeId) {
+      return {
+        storeId: null,
+        found: 0,
+        enqueued: 0,
+        highWaterMark: null,
+        error: 'No BTCPayServer store selected',
+      };
+    }
+
+    // Without a mark, start from setup completion rather than posting the whole history
+    const storedMark = this.getHighWaterMark(storeId);
+    const setupCompletedAt = setupStateMachine.getCompletedAt();
+    const previousMark =
+      storedMark ?? (setupCompletedAt ? Math.floor(setupCompletedAt.getTime() / 1000) : null);
+    if (previousMark === null) {
+      return {
+        storeId,
+        found: 0,
+        enqueued: 0,
+        highWaterMark: null,
+        error: 'Setup is not complete yet',
+      };
+    }
+
+    let newest = previousMark;
+    let oldestOpen: number | null = null;
+    let found = 0;
+    let enqueued = 0;
+
+    for (let skip = 0; ; skip += PAGE_SIZE) {
+      const invoices = await btcpayClient.listInvoices(storeId, {
+        status: [...OPEN_STATUSES, 'Settled', 'Expired'],
+        startDate: previousMark,
+        skip,
+        take: PAGE_SIZE,
+      });
+      if (!invoices) {
+        // Keep the old mark so the next run retries this window
+        const summary = { storeId, found, enqueued, highWaterMark: previousMark };
+        writeLog('warn', 'Backfill sync aborted: failed to list invoices', summary);
+        return { ...summary, error: 'Failed to list invoices from BTCPayServer' };
+      }
+
+      for (const invoice of invoices) {
+        const createdTime = invoice.createdTime || 0;
+        newest = Math.max(newest, createdTime);
+        if (OPEN_STATUSES.includes(invoice.status)) {
+          oldestOpen = Math.min(oldestOpen ?? createdTime, createdTime);
+        }
+        if (!isPaid(invoice)) {
+          continue;
+        }
+        found++;
+        if (this.enqueueIfMissing(storeId, invoice)) {
+          enqueued++;
+        }
+      }
+
+      if (invoices.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    const highWaterMark = Math.max(previousMark, Math.min(newest, oldestOpen ?? newest));
+    if (highWaterMark !== storedMark) {
+      setConfigValue(`${HIGH_WATER_MARK_KEY_PREFIX}${storeId}`, String(highWaterMark));
+    }
+
+    const summary: BackfillSummary = { storeId, found, enqueued, highWaterMark };
+    console.log(
+      `🧹 Backfill sync for store ${storeId}: ${found} paid invoice(s) found, ${enqueued} enqueued`
+    );
+    writeLog('info', 'Backfill sync complete', { ...summary });
+    return summary;
+  }
+
+  /**
+   * Queue a synthetic event unless the invoice is already reconciled or queued. An invoice that
+   * expired unpaid is not reconciled yet, so a payment that arrived late is still queued.
+   */
+  private enqueueIfMissing(storeId: string, invoice: BTCPayInvoice): boolean {
+    const db = getDatabase();
+    const known = db
+      .prepare(
+        `
+        SELECT 1 FROM reconciliations WHERE btcpay_invoice_id = ? AND status != 'expired'
+        UNION ALL
+        SELECT 1 FROM webhook_events WHERE invoice_id = ? AND processed = 0
+        LIMIT 1
+      `
+      )
+      .get(invoice.id, invoice.id);
+    if (known) {
+      return false;
+    }
+
+    const eventType = invoice.status === 'Expired' ? 'InvoiceExpired' : 'InvoiceSettled';
+    const stored = storeWebhookEvent({
+      id: `backfill_${invoice.id}`,
+      eventType,
+      invoiceId: invoice.id,
+      storeId,
+      payload: {
+        type: eventType,
+        storeId,
+        invoiceId: invoice.id,
+        timestamp: invoice.createdTime,
+        metadata: invoice.metadata ?? {},
+        source: 'backfill',
+      },
+    });
+
+    if (stored.duplicate) {
+      return false;
+    }
+    console.log(`📥 Backfill enqueued missed invoice ${invoice.id}`);
+    return true;
+  }
+
+  private getHighWaterMark(storeId: string): number | null {
+    const value = getConfigValue(`${HIGH_WATER_MARK_KEY_PREFIX}${storeId}`);
+    const mark = value ? parseInt(value, 10) : NaN;
+    return Number.isNaN(mark) ? null : mark;
+  }
+}
+
+/**
+ * Whether BTCPay received money for an invoice that may need posting
+ */
+function isPaid(invoice: BTCPayInvoice): boolean {
+  if (invoice.status === 'Settled') {
+    return true;
+  }
+  return (
+    invoice.status === 'Expired' && PAID_EXPIRED_STATUSES.includes(invoice.additionalStatus ?? '')
+  );
+}
+
+// Singleton instance
+export const backfillSync = new BackfillSync();
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { initializeDatabase, closeDatabase } from '../models/database';
+import { getDeliveryHealth } from '../models/webhookDeliveries';
+import { btcpayClient, WebhookDelivery } from '../services/btcpay';
+import { WebhookDeliveryMonitor } from './deliveryMonitor';
+
+const callbackUrl = 'http://localhost:3000/api/webhooks/btcpay';
+
+// Mock the BTCPayServer client
+vi.mock('../services/btcpay', () => ({
+  btcpayClient: {
+    resolveStoreId: vi.fn(),
+    getWebhooks: vi.fn(),
+    getWebhookDeliveries: vi.fn(),
+    redeliverWebhook: vi.fn(),
+  },
+  getWebhookCallbackUrl: vi.fn(() => 'http://localhost:3000/api/webhooks/btcpay'),
+}));
+
+const mockedBTCPayClient = vi.mocked(btcpayClient);
+
+const webhook = (id: string, url: string = callbackUrl) => ({
+  id,
+  url,
+  events: ['InvoicePaymentSettled'],
+  active: true,
+});
+
+const delivery = (id: string, status: string, timestamp: number): WebhookDelivery => ({
+  id,
+  timestamp,
+  httpCode: status === 'HttpSuccess' ? 200 : 500,
+  errorMessage: null,
+  status,
+});
+
+describe('WebhookDeliveryMonitor', () => {
+  let monitor: WebhookDeliveryMonitor;
+
+  beforeEach(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await initializeDatabase();
+    monitor = new WebhookDeliveryMonitor();
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    mockedBTCPayClient.resolveStoreId.mockResolvedValue('store_789');
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    closeDatabase();
+    vi.restoreAllMocks();
+  });
+
+  it('should record deliveries and redeliver our failures', async () => {
+    mockedBTCPayClient.getWebhooks.mockResolvedValueOnce([webhook('webhook_123')]);
+    mockedBTCPayClient.getWebhookDeliveries.mockResolvedValueOnce([
+      delivery('delivery_2', 'HttpError', 1700000200),
+      delivery('delivery_1', 'HttpSuccess', 1700000100),
+    ]);
+    mockedBTCPayClient.redeliverWebhook.mockResolvedValueOnce('delivery_3');
+
+    const summary = await monitor.runOnce();
+
+    expect(summary).toEqual({ storeId: 'store_789', webhooks: 1, failing: 1, redelivered: 1 });
+    expect(mockedBTCPayClient.redeliverWebhook).toHaveBeenCalledWith(
+      'webhook_123',
+      'delivery_2',
+      'store_789'
+    );
+    expect(getDeliveryHealth('webhook_123')).toMatchObject({
+      lastSuccessAt: new Date(1700000100 * 1000).toISOString(),
+      failureCount: 1,
+      lastError: 'HTTP 500',
+    });
+
+    // The redelivery went through on the next check
+    mockedBTCPayClient.getWebhooks.mockResolvedValueOnce([webhook('webhook_123')]);
+    mockedBTCPayClient.getWebhookDeliveries.mockResolvedValueOnce([
+      delivery('delivery_3', 'HttpSuccess', 1700000300),
+      delivery('delivery_2', 'HttpError', 1700000200),
+      delivery('delivery_1', 'HttpSuccess', 1700000100),
+    ]);
+
+    expect(await monitor.runOnce()).toMatchObject({ failing: 0, redelivered: 0 });
+    expect(mockedBTCPayClient.redeliverWebhook).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report on other apps' webhooks without redelivering them", async () => {
+    mockedBTCPayClient.getWebhooks.mockResolvedValueOnce([
+      webhook('webhook_other', 'https://shop.example.com/btcpay'),
+    ]);
+    mockedBTCPayClient.getWebhookDeliveries.mockResolvedValueOnce([
+      delivery('delivery_1', 'Failed', 1700000100),
+    ]);
+
+    expect(await monitor.runOnce()).toMatchObject({ failing: 1, redelivered: 0 });
+    expect(mockedBTCPayClient.redeliverWebhook).not.toHaveBeenCalled();
+  });
+
+  it('should keep going when one webhook cannot be checked', async () => {
+    mockedBTCPayClient.getWebhooks.mockResolvedValueOnce([
+      webhook('webhook_broken'),
+      webhook('webhook_123'),
+    ]);
+    mockedBTCPayClient.getWebhookDeliveries
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce([delivery('delivery_1', 'HttpSuccess', 1700000100)]);
+
+    expect(await monitor.runOnce()).toEqual({
+      storeId: 'store_789',
+      webhooks: 1,
+      failing: 0,
+      redelivered: 0,
+      error: 'Failed to fetch webhook deliveries from BTCPayServer',
+    });
+  });
+
+  it('should do nothing without a selected store', async () => {
+    mockedBTCPayClient.resolveStoreId.mockResolvedValueOnce(null);
+
+    expect((await monitor.runOnce()).error).toBe('No BTCPayServer store selected');
+    expect(mockedBTCPayClient.getWebhooks).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  getDeliveriesToRedeliver,
+  getDeliveryHealth,
+  recordDeliveries,
+  recordRedelivery,
+} from '../models/webhookDeliveries';
+import { btcpayClient, getWebhookCallbackUrl } from '../services/btcpay';
+import { writeLog } from '../utils/logger';
+
+// Constants
+const DEFAULT_MONITOR_INTERVAL = 5 * 60 * 1000;
+// BTCPay already retries on its own; we only step in a few times per event after that
+const MAX_REDELIVERIES = 3;
+
+export interface DeliveryMonitorSummary {
+  storeId: string | null;
+  webhooks: number; // Webhooks whose deliveries were checked
+  failing: number; // Events whose deliveries have all failed so far, across those webhooks
+  redelivered: number; // Failed deliveries sent again during this run
+  error?: string;
+}
+
+/**
+ * Watches BTCPay's delivery log so failing webhooks are noticed within minutes rather than
+ * once the books are wrong. Records every delivery's outcome and asks BTCPay to redeliver
+ * failures to our own endpoint.
+ */
+export class WebhookDeliveryMonitor {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: boolean = false;
+
+  /**
+   * Start polling deliveries
+   */
+  start(intervalMs: number = DEFAULT_MONITOR_INTERVAL): void {
+    if (this.timer) {
+      return;
+    }
+    console.log(`📬 Webhook delivery monitor started (every ${intervalMs}ms)`);
+    this.timer = setInterval(() => {
+      void this.runNow();
+    }, intervalMs);
+    void this.runNow();
+  }
+
+  /**
+   * Stop polling deliveries
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('🛑 Webhook delivery monitor stopped');
+    }
+  }
+
+  /**
+   * Check deliveries unless a check is already in progress (returns null in that case)
+   */
+  async runNow(): Promise<DeliveryMonitorSummary | null> {
+    if (this.running) {
+      return null;
+    }
+    this.running = true;
+    try {
+      return await this.runOnce();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('❌ Webhook delivery monitor failed:', errorMessage);
+      return { storeId: null, webhooks: 0, failing: 0, redelivered: 0, error: errorMessage };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Record the latest deliveries of every webhook in the store and redeliver our failures
+   */
+  async runOnce(): Promise<DeliveryMonitorSummary> {
+    const storeId = await btcpayClient.resolveStoreId();
+    if (!storeId) {
+      return {
+        storeId: null,
+        webhooks: 0,
+        failing: 0,
+        redelivered: 0,
+        error: 'No BTCPayServer store selected',
+      };
+    }
+
+    const callbackUrl = getWebhookCallbackUrl();
+    const summary: DeliveryMonitorSummary = { storeId, webhooks: 0, failing: 0, redelivered: 0 };
+
+    for (const webhook of await btcpayClient.getWebhooks(storeId)) {
+      const deliveries = await btcpayClient.getWebhookDeliveries(webhook.id, storeId);
+      if (!deliveries) {
+        summary.error = 'Failed to fetch webhook deliveries from BTCPayServer';
+        continue;
+      }
+      recordDeliveries(webhook.id, storeId, deliveries);
+      summary.webhooks++;
+
+      // Other apps' webhooks are only reported on, never redelivered
+      if (webhook.active && webhook.url === callbackUrl) {
+        for (const deliveryId of getDeliveriesToRedeliver(webhook.id, MAX_REDELIVERIES)) {
+          const newDeliveryId = await btcpayClient.redeliverWebhook(
+            webhook.id,
+            deliveryId,
+            storeId
+          );
+          if (newDeliveryId) {
+            recordRedelivery(webhook.id, storeId, deliveryId, newDeliveryId);
+            summary.redelivered++;
+            console.log(`🔁 Redelivered failed webhook delivery ${deliveryId}`);
+          }
+        }
+      }
+
+      const health = getDeliveryHealth(webhook.id);
+      if (health.failureCount > 0) {
+        summary.failing += health.failureCount;
+        writeLog('warn', 'BTCPayServer webhook deliveries are failing', {
+          webhookId: webhook.id,
+          url: webhook.url,
+          ...health,
+        });
+      }
+    }
+
+    console.log(
+      `📬 Webhook delivery check for store ${storeId}: ${summary.failing} failing, ${summary.redelivered} redelivered`
+    );
+    return summary;
+  }
+}
+
+// Singleton instance
+export const webhookDeliveryMonitor = new WebhookDeliveryMonitor();
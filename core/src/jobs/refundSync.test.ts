@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { initializeDatabase, getDatabase, closeDatabase } from '../models/database';
+import { getRefund } from '../models/refunds';
+import { insertReconciliation } from '../models/testFixtures';
+import { btcpayClient, BTCPayInvoice, BTCPayPayout } from '../services/btcpay';
+import { AccountingProvider, getAccountingProvider } from '../services/accounting';
+import { RefundSync } from './refundSync';
+
+// Mock the BTCPayServer client
+vi.mock('../services/btcpay', () => ({
+  btcpayClient: {
+    resolveStoreId: vi.fn(),
+    listPullPayments: vi.fn(),
+    getPullPaymentPayouts: vi.fn(),
+    getInvoice: vi.fn(),
+  },
+}));
+
+// Mock the accounting provider registry
+vi.mock('../services/accounting', () => ({
+  getAccountingProvider: vi.fn(),
+}));
+
+const mockedBTCPayClient = vi.mocked(btcpayClient);
+
+const mockProvider = {
+  name: 'Mock Books',
+  findInvoice: vi.fn(),
+  reconcileRefund: vi.fn(),
+};
+
+const INVOICE_ID = 'Hq4mGzCkXyWp7RsTn2Va9B';
+
+function btcpayInvoice(metadata: Record<string, unknown> = {}): BTCPayInvoice {
+  return {
+    id: INVOICE_ID,
+    storeId: 'store_789',
+    status: 'Settled',
+    amount: '60.00',
+    currency: 'USD',
+    checkoutLink: `https://btcpay.example.com/i/${INVOICE_ID}`,
+    createdTime: 1700000000,
+    monitoringExpiration: 1700003600,
+    metadata,
+  };
+}
+
+const payout = (state: string, amount = '25', currency = 'USD'): BTCPayPayout => ({
+  id: `payout_${state}`,
+  date: 1700100000,
+  originalAmount: amount,
+  originalCurrency: currency,
+  state,
+});
+
+describe('RefundSync', () => {
+  let refundSync: RefundSync;
+
+  beforeEach(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await initializeDatabase();
+    refundSync = new RefundSync();
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    insertReconciliation({
+      id: `rec_${INVOICE_ID}`,
+      invoiceId: INVOICE_ID,
+      sats: 100000,
+      cents: 6000,
+    });
+    vi.mocked(getAccountingProvider).mockReturnValue(mockProvider as unknown as AccountingProvider);
+    mockProvider.reconcileRefund.mockResolvedValue({
+      success: true,
+      transactionId: '301',
+      transactionType: 'RefundReceipt',
+    });
+    mockedBTCPayClient.resolveStoreId.mockResolvedValue('store_789');
+    mockedBTCPayClient.listPullPayments.mockResolvedValue([
+      { id: 'pp_1', name: `Refund ${INVOICE_ID}`, currency: 'USD', amount: '25' },
+      { id: 'pp_other', name: 'Payroll', currency: 'USD', amount: '500' },
+    ]);
+    mockedBTCPayClient.getPullPaymentPayouts.mockResolvedValue([payout('Completed')]);
+    mockedBTCPayClient.getInvoice.mockResolvedValue(btcpayInvoice());
+  });
+
+  afterEach(() => {
+    refundSync.stop();
+    closeDatabase();
+    vi.restoreAllMocks();
+  });
+
+  it('should post completed refunds of reconciled invoices once', async () => {
+    const summary = await refundSync.runOnce();
+
+    expect(summary).toEqual({ storeId: 'store_789', checked: 1, posted: 1, failed: 0 });
+    expect(mockedBTCPayClient.getPullPaymentPayouts).toHaveBeenCalledWith('pp_1');
+    expect(mockProvider.reconcileRefund).toHaveBeenCalledWith(
+      expect.objectContaining({
+        refundId: 'pp_1',
+        invoiceId: INVOICE_ID,
+        amount: 25,
+        currency: 'USD',
+        refundedAt: new Date(1700100000 * 1000).toISOString(),
+        accountingInvoiceId: undefined,
+      })
+    );
+    expect(getRefund('pp_1')).toMatchObject({
+      reconciliationId: `rec_${INVOICE_ID}`,
+      amountFiat: 2500,
+      status: 'posted',
+      transactionId: '301',
+      transactionType: 'RefundReceipt',
+    });
+
+    expect(await refundSync.runOnce()).toMatchObject({ checked: 0, posted: 0 });
+    expect(mockProvider.reconcileRefund).toHaveBeenCalledTimes(1);
+  });
+
+  it('should credit the accounting invoice the payment was applied to', async () => {
+    mockedBTCPayClient.getInvoice.mockResolvedValueOnce(btcpayInvoice({ qboInvoiceId: '130' }));
+
+    await refundSync.runOnce();
+
+    expect(mockProvider.reconcileRefund).toHaveBeenCalledWith(
+      expect.objectContaining({ accountingInvoiceId: '130' })
+    );
+  });
+
+  it('should value bitcoin refunds at the rate the invoice was paid at', async () => {
+    // 100,000 sats were worth $60.00, so 0.0005 BTC is $30.00
+    mockedBTCPayClient.getPullPaymentPayouts.mockResolvedValueOnce([
+      payout('Completed', '0.0005', 'BTC'),
+    ]);
+
+    await refundSync.runOnce();
+
+    expect(mockProvider.reconcileRefund).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 30 })
+    );
+  });
+
+  it('should wait until every payout has completed', async () => {
+    mockedBTCPayClient.getPullPaymentPayouts.mockResolvedValueOnce([
+      payout('Completed'),
+      payout('AwaitingPayment'),
+    ]);
+
+    const summary = await refundSync.runOnce();
+
+    expect(summary).toMatchObject({ checked: 1, posted: 0, failed: 0 });
+    expect(mockProvider.reconcileRefund).not.toHaveBeenCalled();
+    expect(getRefund('pp_1')).toBeNull();
+  });
+
+  it('should ignore refunds of invoices that were never posted', async () => {
+    getDatabase().prepare(`UPDATE reconciliations SET status = 'failed'`).run();
+
+    expect(await refundSync.runOnce()).toMatchObject({ checked: 0 });
+    expect(mockedBTCPayClient.getPullPaymentPayouts).not.toHaveBeenCalled();
+  });
+
+  it('should retry transient failures but not permanent ones', async () => {
+    mockProvider.reconcileRefund.mockResolvedValueOnce({
+      success: false,
+      error: 'QuickBooks API returned HTTP 503',
+      errorKind: 'transient',
+    });
+    expect(await refundSync.runOnce()).toMatchObject({ failed: 1 });
+    expect(getRefund('pp_1')).toMatchObject({ status: 'failed', errorKind: 'transient' });
+
+    mockProvider.reconcileRefund.mockResolvedValueOnce({
+      success: false,
+      error: 'Map a deposit account to record refunds in QuickBooks',
+      errorKind: 'permanent',
+    });
+    expect(await refundSync.runOnce()).toMatchObject({ failed: 1 });
+
+    expect(await refundSync.runOnce()).toMatchObject({ checked: 0 });
+    expect(mockProvider.reconcileRefund).toHaveBeenCalledTimes(2);
+  });
+
+  it('should refuse refunds in a currency it cannot convert', async () => {
+    mockedBTCPayClient.getPullPaymentPayouts.mockResolvedValueOnce([
+      payout('Completed', '20', 'EUR'),
+    ]);
+
+    await refundSync.runOnce();
+
+    expect(mockProvider.reconcileRefund).not.toHaveBeenCalled();
+    expect(getRefund('pp_1')).toMatchObject({ status: 'failed', errorKind: 'permanent' });
+  });
+
+  it('should report a missing store or accounting provider', async () => {
+    vi.mocked(getAccountingProvider).mockReturnValueOnce(null);
+    expect(await refundSync.runOnce()).toMatchObject({
+      error: 'No accounting provider is connected',
+    });
+
+    mockedBTCPayClient.resolveStoreId.mockResolvedValueOnce(null);
+    expect(await refundSync.runOnce()).toMatchObject({
+      storeId: null,
+      error: 'No BTCPayServer store selected',
+    });
+  });
+});
@@ -0,0 +1,304 @@
+import {
+  getRefund,
+  getRefundableReconciliations,
+  RefundableReconciliation,
+  saveRefund,
+} from '../models/refunds';
+import { btcpayClient, BTCPayPayout, BTCPayPullPayment } from '../services/btcpay';
+import { AccountingProvider, getAccountingProvider, ProviderResult } from '../services/accounting';
+import {
+  DEFAULT_RECONCILIATION_MODE,
+  getReconciliationSettings,
+} from '../services/reconciliationSettings';
+import { POSTED_STATUSES, resolveAccountingInvoiceId } from './syncWorker';
+import { writeLog } from '../utils/logger';
+
+// Constants
+const DEFAULT_REFUND_SYNC_INTERVAL = 15 * 60 * 1000;
+const SATS_PER_BTC = 100_000_000;
+// Payouts that may still complete. A refund is only posted once none are left.
+const PENDING_PAYOUT_STATES = ['AwaitingApproval', 'AwaitingPayment', 'InProgress'];
+// BTCPay IDs are base58. Refunds issued from an invoice are named "Refund <invoiceId>".
+const ID_TOKEN_PATTERN = /[1-9A-HJ-NP-Za-km-z]{16,}/g;
+
+export interface RefundSyncSummary {
+  storeId: string | null;
+  checked: number; // Pull payments of reconciled invoices that still needed posting
+  posted: number;
+  failed: number;
+  error?: string;
+}
+
+type RefundOutcome = 'posted' | 'failed' | 'waiting';
+
+/**
+ * Finds refunds of reconciled invoices and records them in the books.
+ * BTCPay refunds are pull payments the buyer claims as payouts; once every payout of one
+ * has completed, the refunded amount is posted against the original reconciliation.
+ */
+export class RefundSync {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: boolean = false;
+
+  /**
+   * Start polling for refunds
+   */
+  start(intervalMs: number = DEFAULT_REFUND_SYNC_INTERVAL): void {
+    if (this.timer) {
+      return;
+    }
+    console.log(`↩️ Refund sync started (every ${intervalMs}ms)`);
+    this.timer = setInterval(() => {
+      void this.runNow();
+    }, intervalMs);
+    void this.runNow();
+  }
+
+  /**
+   * Stop polling for refunds
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('🛑 Refund sync stopped');
+    }
+  }
+
+  /**
+   * Run a refund sync unless one is already in progress (returns null in that case)
+   */
+  async runNow(): Promise<RefundSyncSummary | null> {
+    if (this.running) {
+      return null;
+    }
+    this.running = true;
+    try {
+      return await this.runOnce();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('❌ Refund sync failed:', errorMessage);
+      return { storeId: null, checked: 0, posted: 0, failed: 0, error: errorMessage };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Post every completed refund of a reconciled invoice that isn't in the books yet
+   */
+  async runOnce(): Promise<RefundSyncSummary> {
+    const summary: RefundSyncSummary = { storeId: null, checked: 0, posted: 0, failed: 0 };
+
+    const storeId = await btcpayClient.resolveStoreId();
+    if (!storeId) {
+      return { ...summary, error: 'No BTCPayServer store selected' };
+    }
+    summary.storeId = storeId;
+
+    const provider = getAccountingProvider();
+    if (!provider) {
+      return { ...summary, error: 'No accounting provider is connected' };
+    }
+
+    const pullPayments = await btcpayClient.listPullPayments(storeId);
+    if (!pullPayments) {
+      writeLog('warn', 'Refund sync aborted: failed to list pull payments', { storeId });
+      return { ...summary, error: 'Failed to list pull payments from BTCPayServer' };
+    }
+
+    const reconciliations = getRefundableReconciliations(POSTED_STATUSES);
+    for (const pullPayment of pullPayments) {
+      const reconciliation = this.findRefundedReconciliation(pullPayment, reconciliations);
+      if (!reconciliation) {
+        continue; // Not a refund, or a refund of an invoice that isn't in the books
+      }
+      const existing = getRefund(pullPayment.id);
+      if (existing && (existing.status === 'posted' || existing.errorKind === 'permanent')) {
+        continue;
+      }
+
+      summary.checked++;
+      const outcome = await this.processRefund(storeId, provider, pullPayment, reconciliation);
+      if (outcome === 'posted') {
+        summary.posted++;
+      } else if (outcome === 'failed') {
+        summary.failed++;
+      }
+    }
+
+    console.log(
+      `↩️ Refund sync for store ${storeId}: ${summary.posted} refund(s) posted, ${summary.failed} failed`
+    );
+    writeLog('info', 'Refund sync complete', { ...summary });
+    return summary;
+  }
+
+  /**
+   * The reconciliation of the invoice a pull payment refunds, found by its ID in the name
+   */
+  private findRefundedReconciliation(
+    pullPayment: BTCPayPullPayment,
+    reconciliations: Map<string, RefundableReconciliation>
+  ): RefundableReconciliation | null {
+    const text = `${pullPayment.name ?? ''} ${pullPayment.description ?? ''}`;
+    for (const token of text.match(ID_TOKEN_PATTERN) ?? []) {
+      const reconciliation = reconciliations.get(token);
+      if (reconciliation) {
+        return reconciliation;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Post a refund once its payouts are done, recording the outcome either way
+   */
+  private async processRefund(
+    storeId: string,
+    provider: AccountingProvider,
+    pullPayment: BTCPayPullPayment,
+    reconciliation: RefundableReconciliation
+  ): Promise<RefundOutcome> {
+    const invoiceId = reconciliation.btcpayInvoiceId;
+    const payouts = await btcpayClient.getPullPaymentPayouts(pullPayment.id);
+    if (!payouts || payouts.some((payout) => PENDING_PAYOUT_STATES.includes(payout.state))) {
+      return 'waiting'; // Checked again on the next run
+    }
+    const completed = payouts.filter((payout) => payout.state === 'Completed');
+    if (completed.length === 0) {
+      return 'waiting';
+    }
+
+    const amountFiat = this.toInvoiceCents(completed, pullPayment, reconciliation);
+    const refundedAt = new Date(
+      Math.max(...completed.map((payout) => payout.date ?? 0)) * 1000 || Date.now()
+    ).toISOString();
+
+    // Refunds go to the books the payment was posted to, even after switching providers
+    const books = reconciliation.accountingProvider
+      ? getAccountingProvider(reconciliation.accountingProvider)
+      : provider;
+
+    let result: ProviderResult;
+    if (amountFiat === null) {
+      result = {
+        success: false,
+        error: `Cannot convert a ${pullPayment.currency} refund to ${reconciliation.currency}`,
+        errorKind: 'permanent',
+      };
+    } else if (!books) {
+      result = {
+        success: false,
+        error: `The ${reconciliation.accountingProvider} books invoice ${invoiceId} was posted to are no longer connected`,
+      };
+    } else {
+      const invoice = await btcpayClient.getInvoice(storeId, invoiceId);
+      if (!invoice) {
+        result = {
+          success: false,
+          error: `Failed to fetch invoice ${invoiceId} from BTCPayServer`,
+        };
+      } else {
+        const settings = getReconciliationSettings();
+        const accountingInvoiceId = await resolveAccountingInvoiceId(
+          books,
+          invoice,
+          settings.mode ?? DEFAULT_RECONCILIATION_MODE
+        );
+        result = await books.reconcileRefund({
+          refundId: pullPayment.id,
+          invoiceId,
+          amount: amountFiat / 100,
+          currency: reconciliation.currency,
+          refundedAt,
+          accounts: settings.accounts,
+          accountingInvoiceId: accountingInvoiceId ?? undefined,
+          notes: `Refunded via Sovereign Merchant (BTCPay invoice ${invoiceId}, pull payment ${pullPayment.id})`,
+        });
+      }
+    }
+
+    const errorKind = result.success ? null : (result.errorKind ?? 'transient');
+    saveRefund({
+      id: pullPayment.id,
+      reconciliationId: reconciliation.id,
+      btcpayInvoiceId: invoiceId,
+      storeId,
+      amountFiat: amountFiat ?? 0,
+      currency: reconciliation.currency,
+      status: result.success ? 'posted' : 'failed',
+      transactionId: result.transactionId ?? null,
+      transactionType: result.transactionType ?? null,
+      accountingProvider: result.success ? (books?.id ?? null) : null,
+      errorMessage: result.success
+        ? null
+        : (result.error ?? 'Accounting provider rejected the refund'),
+      errorKind,
+      refundedAt,
+    });
+
+    if (!result.success) {
+      console.error(
+        `❌ Failed to post refund ${pullPayment.id} of invoice ${invoiceId}:`,
+        result.error
+      );
+      writeLog('error', `Failed to post refund of invoice ${invoiceId}`, {
+        refundId: pullPayment.id,
+        reconciliationId: reconciliation.id,
+        error: result.error,
+        errorKind,
+      });
+      return 'failed';
+    }
+
+    console.log(
+      `↩️ Posted refund of ${amountFiat! / 100} ${reconciliation.currency} for invoice ${invoiceId} → ${result.transactionType} ${result.transactionId}`
+    );
+    writeLog('info', `Posted refund of invoice ${invoiceId}`, {
+      refundId: pullPayment.id,
+      reconciliationId: reconciliation.id,
+      transactionId: result.transactionId,
+      transactionType: result.transactionType,
+      amountFiat,
+    });
+    return 'posted';
+  }
+
+  /**
+   * Total the completed payouts in cents of the invoice currency. Bitcoin-denominated refunds
+   * are valued at the rate the invoice was paid at. Returns null for other currencies.
+   */
+  private toInvoiceCents(
+    payouts: BTCPayPayout[],
+    pullPayment: BTCPayPullPayment,
+    reconciliation: RefundableReconciliation
+  ): number | null {
+    const centsPerSat =
+      reconciliation.amountSats > 0 ? reconciliation.amountFiat / reconciliation.amountSats : null;
+
+    let total = 0;
+    for (const payout of payouts) {
+      // BTCPay 2.x reports the claimed amount in the pull payment currency as originalAmount
+      const amount = parseFloat(payout.originalAmount ?? payout.amount ?? '');
+      const currency = (payout.originalCurrency ?? pullPayment.currency).toUpperCase();
+      if (Number.isNaN(amount)) {
+        return null;
+      }
+
+      if (currency === reconciliation.currency.toUpperCase()) {
+        total += amount * 100;
+      } else if (currency === 'BTC' && centsPerSat !== null) {
+        total += amount * SATS_PER_BTC * centsPerSat;
+      } else if (currency === 'SATS' && centsPerSat !== null) {
+        total += amount * centsPerSat;
+      } else {
+        return null;
+      }
+    }
+    return Math.round(total);
+  }
+}
+
+// Singleton instance
+export const refundSync = new RefundSync();
@@ -0,0 +1,895 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { initializeDatabase, getDatabase, closeDatabase } from '../models/database';
+import { setConfigValue } from '../models/config';
+import { btcpayClient, BTCPayInvoice, BTCPayPaymentMethod } from '../services/btcpay';
+import { AccountingProvider, getAccountingProvider } from '../services/accounting';
+import { MAX_ATTEMPTS } from '../services/retryQueue';
+import { SyncWorker, buildReconciliationPayload, computePaymentTotals } from './syncWorker';
+
+// Mock the BTCPayServer client
+vi.mock('../services/btcpay', () => ({
+  btcpayClient: {
+    getInvoice: vi.fn(),
+    getInvoicePaymentMethods: vi.fn(),
+  },
+}));
+
+// Mock the accounting provider registry
+vi.mock('../services/accounting', () => ({
+  getAccountingProvider: vi.fn(),
+}));
+
+const mockedBTCPayClient = vi.mocked(btcpayClient);
+
+const mockProvider = {
+  id: 'quickbooks' as const,
+  name: 'Mock Books',
+  isConfigured: vi.fn(() => true),
+  reconcileDeposit: vi.fn(),
+  reconcileInvoicePayment: vi.fn(),
+  reverseTransaction: vi.fn(),
+  health: vi.fn(),
+  findInvoice: vi.fn(),
+};
+
+const invoice: BTCPayInvoice = {
+  id: 'invoice_456',
+  storeId: 'store_789',
+  status: 'Settled',
+  amount: '100.00',
+  currency: 'USD',
+  checkoutLink: 'https://btcpay.example.com/i/invoice_456',
+  createdTime: 1700000000,
+  monitoringExpiration: 1700003600,
+};
+
+const paymentMethod = (values: string[], status = 'Settled'): BTCPayPaymentMethod => ({
+  paymentMethodId: 'BTC-CHAIN',
+  rate: '50000.00',
+  payments: values.map((value, i) => ({
+    id: `payment_${i}`,
+    receivedDate: 1700000100,
+    value,
+    status,
+  })),
+});
+
+function insertEvent(id: string, eventType = 'InvoiceSettled', invoiceId = 'invoice_456') {
+  getDatabase()
+    .prepare(
+      `INSERT INTO webhook_events (id, event_type, invoice_id, store_id, payload)
+       VALUES (?, ?, ?, 'store_789', '{}')`
+    )
+    .run(id, eventType, invoiceId);
+}
+
+describe('computePaymentTotals', () => {
+  it('should classify an exactly paid invoice as paid', () => {
+    const totals = computePaymentTotals(invoice, [paymentMethod(['0.002'])]);
+    expect(totals).toEqual({
+      amountSats: 200000,
+      amountFiat: 10000,
+      invoiceAmountFiat: 10000,
+      currency: 'USD',
+      paymentStatus: 'paid',
+      classification: 'full',
+      paidAt: new Date(1700000100 * 1000).toISOString(),
+      txids: ['payment_0'],
+    });
+  });
+
+  it('should treat payments within the tolerance as paid', () => {
+    const methods = [paymentMethod(['0.00199'])]; // 99.50 of 100.00
+
+    expect(computePaymentTotals(invoice, methods).paymentStatus).toBe('paid');
+    expect(computePaymentTotals(invoice, methods, 0)).toMatchObject({
+      paymentStatus: 'partial',
+      classification: 'partial',
+    });
+  });
+
+  it('should aggregate multiple payments and flag partial payments', () => {
+    const totals = computePaymentTotals(invoice, [paymentMethod(['0.0005', '0.0005'])]);
+    expect(totals.amountSats).toBe(100000);
+    expect(totals.amountFiat).toBe(5000);
+    expect(totals.paymentStatus).toBe('partial');
+  });
+
+  it('should flag overpayments', () => {
+    const totals = computePaymentTotals(invoice, [paymentMethod(['0.003'])]);
+    expect(totals.paymentStatus).toBe('overpaid');
+  });
+
+  it('should ignore unconfirmed payments', () => {
+    const totals = computePaymentTotals(invoice, [paymentMethod(['0.002'], 'Processing')]);
+    expect(totals.amountSats).toBe(0);
+    expect(totals.paymentStatus).toBe('partial');
+    expect(totals.classification).toBe('failed');
+  });
+});
+
+describe('buildReconciliationPayload', () => {
+  it('should post the paid amount for partial payments', () => {
+    const payload = buildReconciliationPayload(
+      { ...invoice, metadata: { buyerEmail: 'customer@example.com' } },
+      computePaymentTotals(invoice, [paymentMethod(['0.0016'])])
+    );
+
+    expect(payload).toMatchObject({
+      invoiceId: 'invoice_456',
+      amount: 80,
+      invoiceAmount: 100,
+      amountSats: 160000,
+      currency: 'USD',
+      paymentStatus: 'partial',
+      mode: 'deposit',
+      customerEmail: 'customer@example.com',
+    });
+    expect(payload.notes).toContain('80% paid');
+  });
+
+  it('should only post the invoice amount for overpayments', () => {
+    const payload = buildReconciliationPayload(
+      invoice,
+      computePaymentTotals(invoice, [paymentMethod(['0.0022'])])
+    );
+
+    expect(payload.amount).toBe(100);
+    expect(payload.notes).toContain('10.00 USD over');
+  });
+
+  it('should carry the configured mode and account mapping', () => {
+    const payload = buildReconciliationPayload(
+      invoice,
+      computePaymentTotals(invoice, [paymentMethod(['0.002'])]),
+      { mode: 'invoicing', accounts: { depositAccountId: '35', taxCodeId: 'NON' } }
+    );
+
+    expect(payload.mode).toBe('invoicing');
+    expect(payload.accounts).toEqual({ depositAccountId: '35', taxCodeId: 'NON' });
+  });
+});
+
+describe('SyncWorker', () => {
+  let worker: SyncWorker;
+
+  beforeEach(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await initializeDatabase();
+    worker = new SyncWorker();
+    vi.clearAllMocks();
+    vi.mocked(getAccountingProvider).mockReturnValue(mockProvider as AccountingProvider);
+    mockProvider.reconcileDeposit.mockResolvedValue({
+      success: true,
+      transactionId: 'qbo_txn_1',
+      transactionType: 'SalesReceipt',
+    });
+  });
+
+  afterEach(() => {
+    worker.stop();
+    closeDatabase();
+  });
+
+  describe('claimNextEvent', () => {
+    it('should claim events oldest first and not hand out the same event twice', () => {
+      insertEvent('event_1');
+      insertEvent('event_2');
+
+      expect(worker.claimNextEvent()?.id).toBe('event_1');
+      expect(worker.claimNextEvent()?.id).toBe('event_2');
+      expect(worker.claimNextEvent()).toBeNull();
+    });
+
+    it('should reclaim events whose claim has gone stale', () => {
+      insertEvent('event_1');
+      getDatabase()
+        .prepare(`UPDATE webhook_events SET claimed_at = datetime('now', '-10 minutes')`)
+        .run();
+
+      expect(worker.claimNextEvent()?.id).toBe('event_1');
+    });
+  });
+
+  describe('runOnce', () => {
+    it('should reconcile a settled invoice and mark the event processed', async () => {
+      insertEvent('event_1');
+      mockedBTCPayClient.getInvoice.mockResolvedValue(invoice);
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod(['0.002'])]);
+
+      expect(await worker.runOnce()).toBe(1);
+
+      const reconciliation = getDatabase()
+        .prepare('SELECT * FROM reconciliations WHERE btcpay_invoice_id = ?')
+        .get('invoice_456') as Record<string, unknown>;
+      expect(reconciliation.status).toBe('full');
+      expect(reconciliation.payment_status).toBe('paid');
+      expect(reconciliation.amount_sats).toBe(200000);
+      expect(reconciliation.amount_fiat).toBe(10000);
+      expect(reconciliation.currency).toBe('USD');
+      expect(reconciliation.accounting_transaction_id).toBe('qbo_txn_1');
+      expect(reconciliation.accounting_provider).toBe('quickbooks');
+      expect(reconciliation.processed_at).not.toBeNull();
+      expect(mockProvider.reconcileDeposit).toHaveBeenCalledWith(
+        expect.objectContaining({ invoiceId: 'invoice_456', amount: 100, mode: 'deposit' })
+      );
+
+      const event = getDatabase()
+        .prepare('SELECT processed, processed_at FROM webhook_events WHERE id = ?')
+        .get('event_1') as { processed: number; processed_at: string | null };
+      expect(event.processed).toBe(1);
+      expect(event.processed_at).not.toBeNull();
+    });
+
+    it('should update the same reconciliation row for repeated events', async () => {
+      insertEvent('event_1', 'InvoicePaymentSettled');
+      insertEvent('event_2', 'InvoiceSettled');
+      mockedBTCPayClient.getInvoice.mockResolvedValue(invoice);
+      mockedBTCPayClient.getInvoicePaymentMethods
+        .mockResolvedValueOnce([paymentMethod(['0.001'])])
+        .mockResolvedValueOnce([paymentMethod(['0.001', '0.001'])]);
+      mockProvider.reconcileDeposit
+        .mockResolvedValueOnce({ success: true, transactionId: 'qbo_txn_1' })
+        .mockResolvedValueOnce({ success: true, transactionId: 'qbo_txn_2' });
+
+      expect(await worker.runOnce()).toBe(2);
+
+      const rows = getDatabase()
+        .prepare('SELECT status, payment_status, amount_sats FROM reconciliations')
+        .all();
+      expect(rows).toEqual([{ status: 'full', payment_status: 'paid', amount_sats: 200000 }]);
+      // The second event only posts the money that arrived since the first
+      expect(mockProvider.reconcileDeposit).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          sequence: 2,
+          amount: 50,
+          amountSats: 100000,
+          paymentStatus: 'paid',
+        })
+      );
+    });
+
+    it('should not post again for a logically identical event', async () => {
+      insertEvent('event_1', 'InvoiceSettled');
+      insertEvent('event_2', 'InvoicePaymentSettled');
+      mockedBTCPayClient.getInvoice.mockResolvedValue(invoice);
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod(['0.002'])]);
+
+      expect(await worker.runOnce()).toBe(2);
+
+      expect(mockProvider.reconcileDeposit).toHaveBeenCalledOnce();
+      const reconciliation = getDatabase()
+        .prepare('SELECT status, accounting_transaction_id FROM reconciliations')
+        .get();
+      expect(reconciliation).toEqual({
+        status: 'full',
+        accounting_transaction_id: 'qbo_txn_1',
+      });
+      const unprocessed = getDatabase()
+        .prepare('SELECT COUNT(*) AS count FROM webhook_events WHERE processed = 0')
+        .get();
+      expect(unprocessed).toEqual({ count: 0 });
+    });
+
+    it('should never post more than the invoice amount across repeated overpaid events', async () => {
+      insertEvent('event_1', 'InvoiceSettled');
+      insertEvent('event_2', 'InvoicePaymentSettled');
+      mockedBTCPayClient.getInvoice.mockResolvedValue(invoice);
+      mockedBTCPayClient.getInvoicePaymentMethods
+        .mockResolvedValueOnce([paymentMethod(['0.0025'])])
+        .mockResolvedValueOnce([paymentMethod(['0.0025', '0.0005'])]);
+
+      await worker.runOnce();
+
+      expect(mockProvider.reconcileDeposit).toHaveBeenCalledOnce();
+      expect(mockProvider.reconcileDeposit).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 100 })
+      );
+    });
+
+    it("should classify payments with the store's tolerance", async () => {
+      setConfigValue('payment_tolerance_percent:store_789', '5');
+      insertEvent('event_1');
+      mockedBTCPayClient.getInvoice.mockResolvedValue(invoice);
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod(['0.00195'])]);
+
+      await worker.runOnce();
+
+      const reconciliation = getDatabase()
+        .prepare('SELECT status, payment_status, amount_fiat FROM reconciliations')
+        .get();
+      expect(reconciliation).toEqual({ status: 'full', payment_status: 'paid', amount_fiat: 9750 });
+    });
+
+    it('should record partial payments as partial', async () => {
+      insertEvent('event_1');
+      mockedBTCPayClient.getInvoice.mockResolvedValue(invoice);
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod(['0.0016'])]);
+
+      await worker.runOnce();
+
+      const reconciliation = getDatabase().prepare('SELECT status FROM reconciliations').get();
+      expect(reconciliation).toEqual({ status: 'partial' });
+      expect(mockProvider.reconcileDeposit).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 80, paymentStatus: 'partial' })
+      );
+    });
+
+    it('should fail without posting when the invoice has no confirmed payments', async () => {
+      insertEvent('event_1');
+      mockedBTCPayClient.getInvoice.mockResolvedValue(invoice);
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([
+        paymentMethod(['0.002'], 'Processing'),
+      ]);
+
+      await worker.runOnce();
+
+      expect(mockProvider.reconcileDeposit).not.toHaveBeenCalled();
+      const reconciliation = getDatabase()
+        .prepare('SELECT status, error_message FROM reconciliations')
+        .get();
+      expect(reconciliation).toEqual({
+        status: 'failed',
+        error_message: 'Invoice invoice_456 has no confirmed payments',
+      });
+    });
+
+    it('should not post invalidated invoices', async () => {
+      insertEvent('event_1');
+      mockedBTCPayClient.getInvoice.mockResolvedValue({ ...invoice, status: 'Invalid' });
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod(['0.002'])]);
+
+      await worker.runOnce();
+
+      expect(mockProvider.reconcileDeposit).not.toHaveBeenCalled();
+      const reconciliation = getDatabase().prepare('SELECT status FROM reconciliations').get();
+      expect(reconciliation).toEqual({ status: 'invalidated' });
+    });
+
+    it('should mark the reconciliation failed when BTCPay cannot be reached', async () => {
+      insertEvent('event_1');
+      mockedBTCPayClient.getInvoice.mockResolvedValue(null);
+
+      await worker.runOnce();
+
+      const reconciliation = getDatabase()
+        .prepare('SELECT status, error_message FROM reconciliations')
+        .get() as { status: string; error_message: string };
+      expect(reconciliation.status).toBe('failed');
+      expect(reconciliation.error_message).toContain('Failed to fetch invoice invoice_456');
+
+      const log = getDatabase().prepare(`SELECT * FROM logs WHERE level = 'error'`).get();
+      expect(log).toBeDefined();
+    });
+
+    it('should apply the payment to the linked invoice when metadata carries a qboInvoiceId', async () => {
+      insertEvent('event_1');
+      mockedBTCPayClient.getInvoice.mockResolvedValue({
+        ...invoice,
+        metadata: { qboInvoiceId: '130' },
+      });
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod(['0.002'])]);
+      mockProvider.reconcileInvoicePayment.mockResolvedValue({
+        success: true,
+        transactionId: 'qbo_payment_1',
+        transactionType: 'Payment',
+      });
+
+      await worker.runOnce();
+
+      expect(mockProvider.reconcileDeposit).not.toHaveBeenCalled();
+      expect(mockProvider.reconcileInvoicePayment).toHaveBeenCalledWith(
+        expect.objectContaining({ accountingInvoiceId: '130', mode: 'invoicing' })
+      );
+    });
+
+    it('should post with the configured account mapping', async () => {
+      setConfigValue('qbo_deposit_account_id', '35');
+      setConfigValue('qbo_income_account_id', '79');
+      insertEvent('event_1');
+      mockedBTCPayClient.getInvoice.mockResolvedValue(invoice);
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod(['0.002'])]);
+      mockProvider.reconcileDeposit.mockResolvedValue({ success: true, transactionId: 'qbo_1' });
+
+      await worker.runOnce();
+
+      expect(mockProvider.reconcileDeposit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          mode: 'deposit',
+          accounts: { depositAccountId: '35', incomeAccountId: '79' },
+        })
+      );
+    });
+
+    describe('in invoicing mode', () => {
+      beforeEach(() => {
+        setConfigValue('reconciliation_mode', 'invoicing');
+        insertEvent('event_1');
+        mockedBTCPayClient.getInvoice.mockResolvedValue({
+          ...invoice,
+          metadata: { orderId: '1037' },
+        });
+        mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod(['0.002'])]);
+      });
+
+      it('should apply the payment to the invoice numbered like the order', async () => {
+        mockProvider.findInvoice.mockResolvedValue({ id: '130', totalAmount: 100, balance: 100 });
+        mockProvider.reconcileInvoicePayment.mockResolvedValue({
+          success: true,
+          transactionId: 'qbo_payment_1',
+          transactionType: 'Payment',
+        });
+
+        await worker.runOnce();
+
+        expect(mockProvider.findInvoice).toHaveBeenCalledWith({ docNumber: '1037' });
+        expect(mockProvider.reconcileInvoicePayment).toHaveBeenCalledWith(
+          expect.objectContaining({ accountingInvoiceId: '130', mode: 'invoicing' })
+        );
+        expect(mockProvider.reconcileDeposit).not.toHaveBeenCalled();
+      });
+
+      it('should record what was applied when an overpayment meets a smaller balance', async () => {
+        mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod(['0.003'])]);
+        mockProvider.findInvoice.mockResolvedValue({ id: '130', totalAmount: 100, balance: 60 });
+        mockProvider.reconcileInvoicePayment.mockResolvedValue({
+          success: true,
+          transactionId: 'qbo_payment_1',
+          transactionType: 'Payment',
+          amount: 60,
+        });
+
+        await worker.runOnce();
+
+        expect(mockProvider.reconcileInvoicePayment).toHaveBeenCalledWith(
+          expect.objectContaining({ amount: 100, paymentStatus: 'overpaid' })
+        );
+        expect(
+          getDatabase()
+            .prepare('SELECT transaction_id, amount_fiat FROM reconciliation_postings')
+            .all()
+        ).toEqual([{ transaction_id: 'qbo_payment_1', amount_fiat: 6000 }]);
+      });
+
+      it('should fall back to a deposit when no invoice matches', async () => {
+        mockProvider.findInvoice.mockResolvedValue(null);
+        mockProvider.reconcileDeposit.mockResolvedValue({ success: true, transactionId: 'qbo_1' });
+
+        await worker.runOnce();
+
+        expect(mockProvider.reconcileInvoicePayment).not.toHaveBeenCalled();
+        expect(mockProvider.reconcileDeposit).toHaveBeenCalledWith(
+          expect.objectContaining({ invoiceId: 'invoice_456', mode: 'invoicing' })
+        );
+      });
+    });
+
+    it('should keep the totals but fail the reconciliation when the provider rejects it', async () => {
+      insertEvent('event_1');
+      mockedBTCPayClient.getInvoice.mockResolvedValue(invoice);
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod(['0.002'])]);
+      mockProvider.reconcileDeposit.mockResolvedValue({
+        success: false,
+        error: 'Invalid account reference',
+      });
+
+      await worker.runOnce();
+
+      const reconciliation = getDatabase()
+        .prepare('SELECT status, error_message, amount_sats FROM reconciliations')
+        .get();
+      expect(reconciliation).toEqual({
+        status: 'failed',
+        error_message: 'Invalid account reference',
+        amount_sats: 200000,
+      });
+    });
+
+    it('should fail the reconciliation when no accounting provider is connected', async () => {
+      insertEvent('event_1');
+      vi.mocked(getAccountingProvider).mockReturnValue(null);
+      mockedBTCPayClient.getInvoice.mockResolvedValue(invoice);
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod(['0.002'])]);
+
+      await worker.runOnce();
+
+      const reconciliation = getDatabase()
+        .prepare('SELECT status, error_message FROM reconciliations')
+        .get();
+      expect(reconciliation).toEqual({
+        status: 'failed',
+        error_message: 'No accounting provider is connected',
+      });
+    });
+
+    it('should reconcile an expired invoice that was partially paid', async () => {
+      insertEvent('event_1', 'InvoiceExpired');
+      mockedBTCPayClient.getInvoice.mockResolvedValue({
+        ...invoice,
+        status: 'Expired',
+        additionalStatus: 'PaidPartial',
+      });
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod(['0.0012'])]);
+
+      await worker.runOnce();
+
+      expect(mockProvider.reconcileDeposit).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 60, paymentStatus: 'partial' })
+      );
+      const reconciliation = getDatabase().prepare('SELECT status FROM reconciliations').get();
+      expect(reconciliation).toEqual({ status: 'partial' });
+    });
+
+    it('should not post again when a reconciled partial payment expires', async () => {
+      insertEvent('event_1', 'InvoicePaymentSettled');
+      insertEvent('event_2', 'InvoiceExpired');
+      mockedBTCPayClient.getInvoice.mockResolvedValue(invoice);
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod(['0.0012'])]);
+
+      expect(await worker.runOnce()).toBe(2);
+
+      expect(mockProvider.reconcileDeposit).toHaveBeenCalledOnce();
+    });
+
+    it('should record an invoice that expired unpaid as expired', async () => {
+      insertEvent('event_1', 'InvoiceExpired');
+      mockedBTCPayClient.getInvoice.mockResolvedValue({ ...invoice, status: 'Expired' });
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod([])]);
+
+      await worker.runOnce();
+
+      expect(mockProvider.reconcileDeposit).not.toHaveBeenCalled();
+      const reconciliation = getDatabase()
+        .prepare('SELECT status, error_message FROM reconciliations')
+        .get();
+      expect(reconciliation).toEqual({
+        status: 'expired',
+        error_message: 'Invoice expired without a confirmed payment',
+      });
+    });
+
+    it('should reconcile a payment that settles after the invoice expired unpaid', async () => {
+      insertEvent('event_1', 'InvoiceExpired');
+      mockedBTCPayClient.getInvoice.mockResolvedValue({ ...invoice, status: 'Expired' });
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod([])]);
+      await worker.runOnce();
+
+      insertEvent('event_2', 'InvoicePaymentSettled');
+      mockedBTCPayClient.getInvoice.mockResolvedValue({
+        ...invoice,
+        status: 'Expired',
+        additionalStatus: 'PaidLate',
+      });
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod(['0.002'])]);
+
+      expect(await worker.runOnce()).toBe(1);
+
+      expect(mockProvider.reconcileDeposit).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 100, paymentStatus: 'paid' })
+      );
+      const reconciliation = getDatabase()
+        .prepare('SELECT status, error_message FROM reconciliations')
+        .get();
+      expect(reconciliation).toEqual({ status: 'full', error_message: null });
+    });
+
+    it('should invalidate invalid invoices without asking BTCPay', async () => {
+      insertEvent('event_1', 'InvoiceInvalid');
+
+      expect(await worker.runOnce()).toBe(1);
+
+      expect(mockedBTCPayClient.getInvoice).not.toHaveBeenCalled();
+      expect(mockProvider.reconcileDeposit).not.toHaveBeenCalled();
+      const reconciliation = getDatabase().prepare('SELECT status FROM reconciliations').get();
+      expect(reconciliation).toEqual({ status: 'invalidated' });
+    });
+
+    it('should reverse the transaction of an invoice invalidated after it was posted', async () => {
+      insertEvent('event_1', 'InvoicePaymentSettled');
+      insertEvent('event_2', 'InvoiceInvalid');
+      insertEvent('event_3', 'InvoiceSettled');
+      getDatabase()
+        .prepare(`UPDATE webhook_events SET payload = '{"manuallyMarked":true}' WHERE id = ?`)
+        .run('event_2');
+      mockedBTCPayClient.getInvoice.mockResolvedValue(invoice);
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod(['0.002'])]);
+      mockProvider.reverseTransaction.mockResolvedValue({
+        success: true,
+        transactionId: 'qbo_txn_1',
+        transactionType: 'SalesReceipt',
+        method: 'void',
+      });
+
+      expect(await worker.runOnce()).toBe(3);
+
+      expect(mockProvider.reconcileDeposit).toHaveBeenCalledOnce();
+      expect(mockProvider.reverseTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          invoiceId: 'invoice_456',
+          transactionId: 'qbo_txn_1',
+          transactionType: 'SalesReceipt',
+          reason: 'Invoice was manually marked invalid in BTCPayServer',
+        })
+      );
+      const reconciliation = getDatabase()
+        .prepare('SELECT status, accounting_transaction_id, error_message FROM reconciliations')
+        .get() as Record<string, string>;
+      expect(reconciliation).toEqual({
+        status: 'invalidated',
+        accounting_transaction_id: 'qbo_txn_1',
+        error_message:
+          'Invoice was manually marked invalid in BTCPayServer; voided SalesReceipt qbo_txn_1',
+      });
+      expect(getDatabase().prepare('SELECT status, method, reason FROM reversals').get()).toEqual({
+        status: 'reversed',
+        method: 'void',
+        reason: 'Invoice was manually marked invalid in BTCPayServer',
+      });
+    });
+
+    it('should reverse every transaction of an invoice posted in instalments', async () => {
+      insertEvent('event_1', 'InvoicePaymentSettled');
+      insertEvent('event_2', 'InvoiceSettled');
+      insertEvent('event_3', 'InvoiceInvalid');
+      mockedBTCPayClient.getInvoice.mockResolvedValue(invoice);
+      mockedBTCPayClient.getInvoicePaymentMethods
+        .mockResolvedValueOnce([paymentMethod(['0.001'])])
+        .mockResolvedValueOnce([paymentMethod(['0.001', '0.001'])]);
+      mockProvider.reconcileDeposit
+        .mockResolvedValueOnce({
+          success: true,
+          transactionId: 'qbo_txn_1',
+          transactionType: 'SalesReceipt',
+        })
+        .mockResolvedValueOnce({
+          success: true,
+          transactionId: 'qbo_txn_2',
+          transactionType: 'SalesReceipt',
+        });
+      mockProvider.reverseTransaction.mockResolvedValue({ success: true, method: 'void' });
+
+      await worker.runOnce();
+
+      expect(mockProvider.reverseTransaction).toHaveBeenCalledTimes(2);
+      expect(mockProvider.reverseTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ transactionId: 'qbo_txn_1' })
+      );
+      expect(mockProvider.reverseTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ transactionId: 'qbo_txn_2' })
+      );
+      expect(
+        getDatabase()
+          .prepare(
+            `SELECT sequence, transaction_id, amount_fiat, reversal_method
+             FROM reconciliation_postings ORDER BY sequence`
+          )
+          .all()
+      ).toEqual([
+        { sequence: 1, transaction_id: 'qbo_txn_1', amount_fiat: 5000, reversal_method: 'void' },
+        { sequence: 2, transaction_id: 'qbo_txn_2', amount_fiat: 5000, reversal_method: 'void' },
+      ]);
+      const reconciliation = getDatabase()
+        .prepare('SELECT status, error_message FROM reconciliations')
+        .get() as Record<string, string>;
+      expect(reconciliation.error_message).toBe(
+        'Invoice was marked invalid in BTCPayServer; voided SalesReceipt qbo_txn_1, voided SalesReceipt qbo_txn_2'
+      );
+    });
+
+    it('should only retry the reversals that failed', async () => {
+      insertEvent('event_1', 'InvoicePaymentSettled');
+      insertEvent('event_2', 'InvoiceSettled');
+      insertEvent('event_3', 'InvoiceInvalid');
+      mockedBTCPayClient.getInvoice.mockResolvedValue(invoice);
+      mockedBTCPayClient.getInvoicePaymentMethods
+        .mockResolvedValueOnce([paymentMethod(['0.001'])])
+        .mockResolvedValueOnce([paymentMethod(['0.001', '0.001'])]);
+      mockProvider.reconcileDeposit
+        .mockResolvedValueOnce({ success: true, transactionId: 'qbo_txn_1' })
+        .mockResolvedValueOnce({ success: true, transactionId: 'qbo_txn_2' });
+      mockProvider.reverseTransaction
+        .mockResolvedValueOnce({ success: true, method: 'void' })
+        .mockResolvedValueOnce({ success: false, error: 'QuickBooks API returned HTTP 503' })
+        .mockResolvedValueOnce({ success: true, method: 'void' });
+
+      await worker.runOnce();
+      expect(getDatabase().prepare('SELECT status FROM reversals').get()).toEqual({
+        status: 'failed',
+      });
+      getDatabase()
+        .prepare('UPDATE reconciliation_jobs SET next_attempt_at = ?')
+        .run(new Date(Date.now() - 1000).toISOString());
+      await worker.runOnce();
+
+      expect(mockProvider.reverseTransaction).toHaveBeenCalledTimes(3);
+      expect(mockProvider.reverseTransaction).toHaveBeenLastCalledWith(
+        expect.objectContaining({ transactionId: 'qbo_txn_2' })
+      );
+      expect(getDatabase().prepare('SELECT status FROM reversals').get()).toEqual({
+        status: 'reversed',
+      });
+    });
+
+    it('should reverse a transaction in the books it was posted to', async () => {
+      insertEvent('event_1', 'InvoicePaymentSettled');
+      insertEvent('event_2', 'InvoiceInvalid');
+      mockedBTCPayClient.getInvoice.mockResolvedValue(invoice);
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod(['0.002'])]);
+      mockProvider.reconcileDeposit.mockResolvedValue({
+        success: true,
+        transactionId: 'bt_1',
+        transactionType: 'BankTransaction',
+      });
+      mockProvider.reverseTransaction.mockResolvedValue({ success: true, method: 'void' });
+      vi.mocked(getAccountingProvider).mockReturnValueOnce({
+        ...mockProvider,
+        id: 'xero',
+      } as unknown as AccountingProvider);
+
+      await worker.runOnce();
+
+      expect(vi.mocked(getAccountingProvider)).toHaveBeenLastCalledWith('xero');
+      expect(
+        getDatabase().prepare('SELECT status, accounting_provider FROM reversals').get()
+      ).toEqual({ status: 'reversed', accounting_provider: 'xero' });
+    });
+
+    it('should not reverse a transaction twice', async () => {
+      insertEvent('event_1', 'InvoicePaymentSettled');
+      insertEvent('event_2', 'InvoiceInvalid');
+      insertEvent('event_3', 'InvoiceInvalid');
+      mockedBTCPayClient.getInvoice.mockResolvedValue(invoice);
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod(['0.002'])]);
+      mockProvider.reverseTransaction.mockResolvedValue({
+        success: true,
+        transactionId: 'je_1',
+        transactionType: 'JournalEntry',
+        method: 'journal_entry',
+      });
+
+      await worker.runOnce();
+
+      expect(mockProvider.reverseTransaction).toHaveBeenCalledOnce();
+      const reconciliation = getDatabase()
+        .prepare('SELECT status, error_message FROM reconciliations')
+        .get() as Record<string, string>;
+      expect(reconciliation.status).toBe('invalidated');
+      expect(reconciliation.error_message).toContain('with JournalEntry je_1');
+    });
+
+    it('should acknowledge events that do not carry confirmed value without reconciling', async () => {
+      insertEvent('event_1', 'InvoiceReceivedPayment');
+
+      expect(await worker.runOnce()).toBe(1);
+
+      expect(mockedBTCPayClient.getInvoice).not.toHaveBeenCalled();
+      expect(getDatabase().prepare('SELECT * FROM reconciliations').all()).toEqual([]);
+      const event = getDatabase()
+        .prepare('SELECT processed FROM webhook_events WHERE id = ?')
+        .get('event_1') as { processed: number };
+      expect(event.processed).toBe(1);
+    });
+  });
+
+  describe('retries', () => {
+    const getJob = () =>
+      getDatabase().prepare('SELECT * FROM reconciliation_jobs').get() as
+        | Record<string, unknown>
+        | undefined;
+    const makeJobDue = () =>
+      getDatabase()
+        .prepare('UPDATE reconciliation_jobs SET next_attempt_at = ?')
+        .run(new Date(Date.now() - 1000).toISOString());
+
+    beforeEach(() => {
+      insertEvent('event_1');
+      mockedBTCPayClient.getInvoice.mockResolvedValue(invoice);
+      mockedBTCPayClient.getInvoicePaymentMethods.mockResolvedValue([paymentMethod(['0.002'])]);
+    });
+
+    it('should retry a failed reversal until it goes through', async () => {
+      insertEvent('event_2', 'InvoiceInvalid');
+      mockProvider.reverseTransaction
+        .mockResolvedValueOnce({
+          success: false,
+          error: 'QuickBooks API returned HTTP 503',
+          errorKind: 'transient',
+        })
+        .mockResolvedValueOnce({
+          success: true,
+          transactionId: 'qbo_txn_1',
+          transactionType: 'SalesReceipt',
+          method: 'void',
+        });
+
+      await worker.runOnce();
+
+      expect(getJob()).toMatchObject({ status: 'scheduled', attempts: 1 });
+      const failed = getDatabase()
+        .prepare('SELECT status, error_message FROM reconciliations')
+        .get() as Record<string, string>;
+      expect(failed.status).toBe('invalidated');
+      expect(failed.error_message).toContain(
+        'reversing it failed: QuickBooks API returned HTTP 503'
+      );
+
+      makeJobDue();
+      await worker.runOnce();
+
+      expect(mockProvider.reverseTransaction).toHaveBeenCalledTimes(2);
+      expect(getJob()).toBeUndefined();
+      expect(getDatabase().prepare('SELECT status FROM reversals').get()).toEqual({
+        status: 'reversed',
+      });
+    });
+
+    it('should schedule a transient failure for a later attempt', async () => {
+      mockProvider.reconcileDeposit.mockResolvedValue({
+        success: false,
+        error: 'QuickBooks API returned HTTP 503',
+        errorKind: 'transient',
+      });
+
+      expect(await worker.runOnce()).toBe(1);
+
+      const job = getJob();
+      expect(job).toMatchObject({
+        invoice_id: 'invoice_456',
+        store_id: 'store_789',
+        status: 'scheduled',
+        attempts: 1,
+        last_error: 'QuickBooks API returned HTTP 503',
+        error_kind: 'transient',
+      });
+      expect(Date.parse(job!.next_attempt_at as string)).toBeGreaterThan(Date.now());
+      expect(mockProvider.reconcileDeposit).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reconcile a due job and drop it', async () => {
+      mockProvider.reconcileDeposit.mockResolvedValueOnce({
+        success: false,
+        error: 'QuickBooks API returned HTTP 429',
+        errorKind: 'transient',
+      });
+      await worker.runOnce();
+      makeJobDue();
+
+      expect(await worker.runOnce()).toBe(1);
+
+      expect(getJob()).toBeUndefined();
+      const reconciliation = getDatabase()
+        .prepare('SELECT status, error_message FROM reconciliations')
+        .get();
+      expect(reconciliation).toEqual({ status: 'full', error_message: null });
+    });
+
+    it('should dead-letter permanent failures straight away', async () => {
+      mockProvider.reconcileDeposit.mockResolvedValue({
+        success: false,
+        error: 'Duplicate Document Number Error',
+        errorKind: 'permanent',
+      });
+
+      await worker.runOnce();
+
+      expect(getJob()).toMatchObject({ status: 'dead', attempts: 1, next_attempt_at: null });
+    });
+
+    it(`should dead-letter a job after ${MAX_ATTEMPTS} failed attempts`, async () => {
+      mockProvider.reconcileDeposit.mockResolvedValue({
+        success: false,
+        error: 'QuickBooks API returned HTTP 503',
+      });
+      await worker.runOnce();
+      getDatabase()
+        .prepare('UPDATE reconciliation_jobs SET attempts = ?')
+        .run(MAX_ATTEMPTS - 1);
+      makeJobDue();
+
+      await worker.runOnce();
+
+      expect(getJob()).toMatchObject({ status: 'dead', attempts: MAX_ATTEMPTS });
+      expect(await worker.runOnce()).toBe(0);
+    });
+  });
+});
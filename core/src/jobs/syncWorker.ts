@@ -0,0 +1,1015 @@
+import crypto from 'crypto';
+import { getDatabase } from '../models/database';
+import { getConfigValue } from '../models/config';
+import { btcpayClient, BTCPayInvoice, BTCPayPaymentMethod } from '../services/btcpay';
+import {
+  AccountingProvider,
+  AccountingProviderId,
+  getAccountingProvider,
+  ProviderResult,
+  ReconciliationMode,
+  ReconciliationPayload,
+  ReversalResult,
+} from '../services/accounting';
+import {
+  DEFAULT_RECONCILIATION_MODE,
+  getReconciliationSettings,
+  ReconciliationSettings,
+} from '../services/reconciliationSettings';
+import {
+  classifyPayment,
+  DEFAULT_TOLERANCE_PERCENT,
+  PaymentClassificationStatus,
+  TOLERANCE_CONFIG_KEY_PREFIX,
+} from '../services/paymentClassification';
+import { retryQueue } from '../services/retryQueue';
+import { getReversal, Reversal, saveReversal } from '../models/reversals';
+import {
+  getNextPostingSequence,
+  listPostings,
+  markPostingReversed,
+  Posting,
+  savePosting,
+} from '../models/postings';
+import { writeLog } from '../utils/logger';
+import { ErrorKind } from '../utils/retry';
+
+// Constants
+const DEFAULT_POLL_INTERVAL = 5000;
+const CLAIM_TIMEOUT_MINUTES = 5; // Claims older than this are assumed abandoned (crashed worker)
+
+// Reconciliation statuses of invoices already posted to the books ('completed' predates
+// payment classification)
+export const POSTED_STATUSES = ['completed', 'full', 'partial', 'overpaid'];
+
+interface WebhookEventRow {
+  id: string;
+  event_type: string;
+  invoice_id: string | null;
+  store_id: string | null;
+}
+
+// An event about a known invoice, as handed to its event handler
+interface InvoiceEvent {
+  id: string | null; // Null for retries, which don't come from a webhook event
+  eventType: string;
+  invoiceId: string;
+  storeId: string;
+}
+
+type InvoiceEventHandler = (event: InvoiceEvent) => Promise<void>;
+
+// Outcome of posting a payment, with the provider it was posted to
+interface PostingResult extends ProviderResult {
+  provider?: AccountingProviderId;
+}
+
+interface CompletedReconciliationRow {
+  id: string;
+  btcpay_invoice_id: string;
+  amount_sats: number;
+  amount_fiat: number; // What had been received when it was last posted, in cents
+}
+
+export type PaymentStatus = 'paid' | 'partial' | 'overpaid';
+
+/**
+ * Failure that knows whether trying again could succeed
+ */
+class ReconciliationError extends Error {
+  constructor(
+    message: string,
+    readonly kind: ErrorKind
+  ) {
+    super(message);
+  }
+}
+
+export interface PaymentTotals {
+  amountSats: number; // Confirmed on-chain + lightning BTC, in sats
+  amountFiat: number; // Confirmed value in the invoice currency, smallest unit (cents)
+  invoiceAmountFiat: number; // Invoice price in the smallest unit (cents)
+  currency: string;
+  paymentStatus: PaymentStatus;
+  classification: PaymentClassificationStatus; // Stored as the reconciliation status once posted
+  paidAt: string | null; // When the most recent confirmed payment arrived
+  txids: string[]; // On-chain transactions of the confirmed payments
+}
+
+/**
+ * Aggregate the confirmed payments of an invoice and compare them to the invoice price,
+ * treating anything within the tolerance as paid in full
+ */
+export function computePaymentTotals(
+  invoice: BTCPayInvoice,
+  paymentMethods: BTCPayPaymentMethod[],
+  tolerancePercent: number = DEFAULT_TOLERANCE_PERCENT
+): PaymentTotals {
+  const classification = classifyPayment(invoice, paymentMethods, { tolerancePercent });
+
+  let paymentStatus: PaymentStatus = 'partial';
+  if (classification.status === 'full') {
+    paymentStatus = 'paid';
+  } else if (classification.status === 'overpaid') {
+    paymentStatus = 'overpaid';
+  }
+
+  return {
+    amountSats: classification.amountSats,
+    amountFiat: classification.amountFiat,
+    invoiceAmountFiat: classification.invoiceAmountFiat,
+    currency: classification.currency,
+    paymentStatus,
+    classification: classification.status,
+    paidAt: classification.paidAt,
+    txids: classification.txids,
+  };
+}
+
+/**
+ * A posted transaction as it appears in log lines and error messages
+ */
+function describePosting(posting: Posting): string {
+  return `${posting.transactionType ?? 'transaction'} ${posting.transactionId}`;
+}
+
+/**
+ * The outcome of a reversal recorded on a posting by an earlier attempt
+ */
+function reversedEarlier(posting: Posting): { posting: Posting; result: ReversalResult } {
+  return {
+    posting,
+    result: {
+      success: true,
+      method: posting.reversalMethod ?? undefined,
+      transactionId: posting.reversalTransactionId ?? undefined,
+      transactionType: posting.reversalTransactionType ?? undefined,
+    },
+  };
+}
+
+/**
+ * What may be posted for an invoice, in cents: never more than its price.
+ * Top-up invoices have no price, so everything received is posted.
+ */
+function postableCents(totals: PaymentTotals, amountFiat: number = totals.amountFiat): number {
+  return totals.invoiceAmountFiat > 0 ? Math.min(amountFiat, totals.invoiceAmountFiat) : amountFiat;
+}
+
+/**
+ * Build the accounting provider payload for an invoice's payment totals, in the configured
+ * mode and with the configured account mapping.
+ * Overpayments only post the invoice amount; the excess is left for the merchant.
+ */
+export function buildReconciliationPayload(
+  invoice: BTCPayInvoice,
+  totals: PaymentTotals,
+  settings: ReconciliationSettings = { mode: null, accounts: {} }
+): ReconciliationPayload {
+  const paid = totals.amountFiat / 100;
+  const invoiceAmount = totals.invoiceAmountFiat / 100;
+  const amount = postableCents(totals) / 100;
+
+  let notes = `Synced via Sovereign Merchant (BTCPay invoice ${invoice.id})`;
+  if (totals.paymentStatus === 'partial' && invoiceAmount > 0) {
+    notes = `Partial payment via Sovereign Merchant (${Math.round((paid / invoiceAmount) * 100)}% paid, BTCPay invoice ${invoice.id})`;
+  } else if (totals.paymentStatus === 'overpaid') {
+    notes = `Overpaid via Sovereign Merchant (${(paid - invoiceAmount).toFixed(2)} ${totals.currency} over, BTCPay invoice ${invoice.id})`;
+  }
+
+  const buyerEmail = invoice.metadata?.buyerEmail;
+
+  return {
+    invoiceId: invoice.id,
+    sequence: 1,
+    amount,
+    invoiceAmount,
+    amountSats: totals.amountSats,
+    currency: totals.currency,
+    paidAt: totals.paidAt ?? new Date().toISOString(),
+    paymentStatus: totals.paymentStatus,
+    mode: settings.mode ?? DEFAULT_RECONCILIATION_MODE,
+    accounts: settings.accounts,
+    customerEmail: typeof buyerEmail === 'string' ? buyerEmail : undefined,
+    notes,
+  };
+}
+
+/**
+ * The accounting invoice a BTCPay invoice pays, if any. Invoices carrying a qboInvoiceId in
+ * their metadata pay that invoice. In invoicing mode an invoice whose document number
+ * matches the BTCPay order ID is used too.
+ */
+export async function resolveAccountingInvoiceId(
+  provider: AccountingProvider,
+  invoice: BTCPayInvoice,
+  mode: ReconciliationMode
+): Promise<string | null> {
+  const accountingInvoiceId = invoice.metadata?.qboInvoiceId;
+  if (typeof accountingInvoiceId === 'string' && accountingInvoiceId) {
+    return accountingInvoiceId;
+  }
+
+  const orderId = invoice.metadata?.orderId;
+  if (mode !== 'invoicing' || typeof orderId !== 'string') {
+    return null;
+  }
+  const match = await provider.findInvoice({ docNumber: orderId });
+  if (!match) {
+    console.log(`ℹ️ No invoice numbered ${orderId} in ${provider.name}`);
+  }
+  return match?.id ?? null;
+}
+
+/**
+ * Drains webhook_events into reconciliations.
+ * Runs in-process on an interval; claims are transactional so a second worker process can't
+ * pick up the same event.
+ */
+export class SyncWorker {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: boolean = false;
+
+  // One handler per BTCPay event type; other events are acknowledged without reconciling
+  private readonly handlers = new Map<string, InvoiceEventHandler>([
+    ['InvoicePaymentSettled', (event) => this.reconcileInvoice(event)],
+    ['InvoiceSettled', (event) => this.reconcileInvoice(event)], // Older webhooks and backfill
+    ['InvoiceExpired', (event) => this.handleInvoiceExpired(event)],
+    ['InvoiceInvalid', (event) => this.handleInvoiceInvalid(event)],
+  ]);
+
+  /**
+   * Start polling for unprocessed webhook events
+   */
+  start(intervalMs: number = DEFAULT_POLL_INTERVAL): void {
+    if (this.timer) {
+      return;
+    }
+    console.log(`🔁 Sync worker started (polling every ${intervalMs}ms)`);
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, intervalMs);
+    void this.tick();
+  }
+
+  /**
+   * Stop polling (in-flight work finishes on its own)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('🛑 Sync worker stopped');
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.running) {
+      return; // Previous drain still in progress
+    }
+    this.running = true;
+    try {
+      await this.runOnce();
+    } catch (error) {
+      console.error('❌ Sync worker tick failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Process every claimable event and then every retry that is due, returning how many
+   * were handled
+   */
+  async runOnce(): Promise<number> {
+    let processed = 0;
+    let event = this.claimNextEvent();
+    while (event) {
+      await this.processEvent(event);
+      processed++;
+      event = this.claimNextEvent();
+    }
+
+    let job = retryQueue.claimDue();
+    while (job) {
+      console.log(
+        `🔁 Retrying reconciliation of invoice ${job.invoiceId} (attempt ${job.attempts + 1})`
+      );
+      await this.reconcileInvoice({
+        id: null,
+        eventType: 'Retry',
+        invoiceId: job.invoiceId,
+        storeId: job.storeId,
+      });
+      processed++;
+      job = retryQueue.claimDue();
+    }
+    return processed;
+  }
+
+  /**
+   * Atomically claim the oldest unprocessed event
+   */
+  claimNextEvent(): WebhookEventRow | null {
+    const db = getDatabase();
+    const claim = db.transaction((): WebhookEventRow | null => {
+      const event = db
+        .prepare(
+          `
+          SELECT id, event_type, invoice_id, store_id
+          FROM webhook_events
+          WHERE processed = 0
+            AND (claimed_at IS NULL OR claimed_at < datetime('now', ?))
+          ORDER BY created_at ASC, rowid ASC
+          LIMIT 1
+        `
+        )
+        .get(`-${CLAIM_TIMEOUT_MINUTES} minutes`) as WebhookEventRow | undefined;
+
+      if (!event) {
+        return null;
+      }
+      db.prepare(`UPDATE webhook_events SET claimed_at = datetime('now') WHERE id = ?`).run(
+        event.id
+      );
+      return event;
+    });
+
+    return claim.immediate();
+  }
+
+  /**
+   * Dispatch a single claimed event to the handler for its type
+   */
+  async processEvent(event: WebhookEventRow): Promise<void> {
+    const handler = this.handlers.get(event.event_type);
+    if (!handler) {
+      this.markEventProcessed(event.id);
+      return;
+    }
+
+    if (!event.invoice_id || !event.store_id) {
+      console.warn(`⚠️ Webhook event ${event.id} has no invoice/store ID, skipping`);
+      writeLog('warn', 'Skipped webhook event without invoice or store ID', {
+        eventId: event.id,
+        eventType: event.event_type,
+      });
+      this.markEventProcessed(event.id);
+      return;
+    }
+
+    await handler({
+      id: event.id,
+      eventType: event.event_type,
+      invoiceId: event.invoice_id,
+      storeId: event.store_id,
+    });
+  }
+
+  /**
+   * Post an invoice's confirmed payments. Failures are recorded on the reconciliation row
+   * and queued for a retry.
+   */
+  private async reconcileInvoice(event: InvoiceEvent): Promise<void> {
+    if (this.getReconciliationStatus(event.invoiceId) === 'invalidated') {
+      // Retries of an invalidated invoice are retries of the reversal of its transactions
+      const reversal = this.getFailedReversal(event.invoiceId);
+      if (reversal && event.id === null) {
+        await this.reversePostings(reversal.reconciliationId, event, reversal.reason);
+        return;
+      }
+      console.log(`⏭️ Invoice ${event.invoiceId} was invalidated, ignoring ${event.eventType}`);
+      if (!reversal) {
+        retryQueue.clear(event.invoiceId);
+      }
+      this.markEventProcessed(event.id);
+      return;
+    }
+
+    // Replays and repeated events for an invoice that is already in the books only post
+    // money that arrived since
+    const reconciled = this.getCompletedReconciliation(event.invoiceId);
+    if (reconciled) {
+      await this.processReconciledInvoice(event.id, event.storeId, reconciled);
+      return;
+    }
+
+    const reconciliationId = this.upsertPendingReconciliation(event.invoiceId);
+
+    try {
+      this.setReconciliationStatus(reconciliationId, 'processing');
+
+      const { invoice, totals } = await this.fetchPaymentTotals(event.storeId, event.invoiceId);
+
+      // Record the totals even if posting fails, so the UI shows what was received
+      getDatabase()
+        .prepare(
+          `
+          UPDATE reconciliations
+          SET amount_sats = ?, amount_fiat = ?, currency = ?, payment_status = ?, paid_at = ?,
+              txids = ?
+          WHERE id = ?
+        `
+        )
+        .run(
+          totals.amountSats,
+          totals.amountFiat,
+          totals.currency,
+          totals.paymentStatus,
+          totals.paidAt,
+          JSON.stringify(totals.txids),
+          reconciliationId
+        );
+
+      if (totals.classification === 'invalidated') {
+        await this.markInvalidated(event, 'Invoice is invalid in BTCPayServer');
+        return;
+      }
+      if (totals.classification === 'failed') {
+        throw new ReconciliationError(
+          `Invoice ${event.invoiceId} has no confirmed payments`,
+          'permanent'
+        );
+      }
+
+      const payload: ReconciliationPayload = {
+        ...buildReconciliationPayload(invoice, totals, getReconciliationSettings()),
+        sequence: getNextPostingSequence(reconciliationId),
+      };
+      const result = await this.postToAccounting(invoice, payload);
+      if (!result.success) {
+        throw new ReconciliationError(
+          result.error || 'Accounting provider rejected the transaction',
+          result.errorKind ?? 'transient'
+        );
+      }
+
+      getDatabase()
+        .prepare(
+          `
+          UPDATE reconciliations
+          SET accounting_transaction_id = ?, accounting_transaction_type = ?,
+              accounting_provider = ?, status = ?, processed_at = datetime('now'),
+              error_message = NULL
+          WHERE id = ?
+        `
+        )
+        .run(
+          result.transactionId ?? null,
+          result.transactionType ?? null,
+          result.provider ?? null,
+          totals.classification,
+          reconciliationId
+        );
+      this.recordPosting(reconciliationId, payload, result, postableCents(totals));
+      retryQueue.clear(event.invoiceId);
+
+      console.log(
+        `✅ Reconciled invoice ${event.invoiceId}: ${totals.paymentStatus} (${totals.amountSats} sats) → ${result.transactionType} ${result.transactionId}`
+      );
+      writeLog('info', `Reconciled invoice ${event.invoiceId}`, {
+        eventId: event.id,
+        reconciliationId,
+        transactionId: result.transactionId,
+        transactionType: result.transactionType,
+        ...totals,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Failed to reconcile invoice ${event.invoiceId}:`, errorMessage);
+      this.setReconciliationStatus(reconciliationId, 'failed', errorMessage);
+      const job = this.scheduleRetry(reconciliationId, event, error);
+      writeLog('error', `Failed to reconcile invoice ${event.invoiceId}`, {
+        eventId: event.id,
+        reconciliationId,
+        error: errorMessage,
+        errorKind: job.errorKind,
+        attempts: job.attempts,
+        nextAttemptAt: job.nextAttemptAt,
+      });
+    } finally {
+      this.markEventProcessed(event.id);
+    }
+  }
+
+  /**
+   * Queue the next attempt at a failed reconciliation, or dead-letter it
+   */
+  private scheduleRetry(reconciliationId: string, event: InvoiceEvent, error: unknown) {
+    const job = retryQueue.recordFailure({
+      reconciliationId,
+      invoiceId: event.invoiceId,
+      storeId: event.storeId,
+      error: error instanceof Error ? error.message : String(error),
+      errorKind: error instanceof ReconciliationError ? error.kind : 'transient',
+    });
+    if (job.status === 'dead') {
+      console.log(
+        `☠️ Giving up on invoice ${event.invoiceId} after ${job.attempts} attempt(s) (${job.errorKind} error)`
+      );
+    } else {
+      console.log(`⏳ Will retry invoice ${event.invoiceId} at ${job.nextAttemptAt}`);
+    }
+    return job;
+  }
+
+  /**
+   * Expired invoices still reconcile whatever was paid before they expired (PaidPartial,
+   * PaidLate). Unpaid ones are recorded as expired, which a payment that settles later still
+   * reconciles.
+   */
+  private async handleInvoiceExpired(event: InvoiceEvent): Promise<void> {
+    // If BTCPay can't be reached, reconciling records the failure on the reconciliation row
+    const fetched = await this.fetchPaymentTotals(event.storeId, event.invoiceId).catch(() => null);
+    if (
+      fetched?.totals.classification === 'failed' &&
+      this.getReconciliationStatus(event.invoiceId) !== 'invalidated' &&
+      !this.getCompletedReconciliation(event.invoiceId)
+    ) {
+      this.markExpired(event);
+      this.markEventProcessed(event.id);
+      return;
+    }
+    await this.reconcileInvoice(event);
+  }
+
+  /**
+   * Record an invoice that expired without a confirmed payment. Unlike invalidation this is
+   * not final - BTCPay still settles payments that arrive late.
+   */
+  private markExpired(event: InvoiceEvent): void {
+    const reconciliationId = this.upsertPendingReconciliation(event.invoiceId);
+    getDatabase()
+      .prepare(
+        `
+        UPDATE reconciliations
+        SET status = 'expired', error_message = ?, processed_at = datetime('now')
+        WHERE id = ?
+      `
+      )
+      .run('Invoice expired without a confirmed payment', reconciliationId);
+    retryQueue.clear(event.invoiceId);
+
+    console.log(`⌛ Invoice ${event.invoiceId} expired without a confirmed payment`);
+    writeLog('info', `Invoice ${event.invoiceId} expired unpaid`, {
+      eventId: event.id,
+      reconciliationId,
+    });
+  }
+
+  /**
+   * Invalid invoices are never posted - BTCPay accepts no further payments for them
+   */
+  private async handleInvoiceInvalid(event: InvoiceEvent): Promise<void> {
+    const reason = this.wasMarkedInvalidManually(event.id)
+      ? 'Invoice was manually marked invalid in BTCPayServer'
+      : 'Invoice was marked invalid in BTCPayServer';
+    await this.markInvalidated(event, reason);
+    this.markEventProcessed(event.id);
+  }
+
+  /**
+   * Record an invoice as invalidated. One that was already posted has its transaction
+   * reversed in the books.
+   */
+  private async markInvalidated(event: InvoiceEvent, reason: string): Promise<void> {
+    const previous = getDatabase()
+      .prepare(
+        `
+        SELECT id, error_message
+        FROM reconciliations
+        WHERE btcpay_invoice_id = ?
+      `
+      )
+      .get(event.invoiceId) as
+      | {
+          id: string;
+          error_message: string | null;
+        }
+      | undefined;
+    const reconciliationId = this.upsertPendingReconciliation(event.invoiceId);
+
+    // Repeated invalidations keep the record of the reversal that already happened
+    if (previous && getReversal(previous.id)?.status === 'reversed') {
+      this.setInvalidated(reconciliationId, previous.error_message ?? reason);
+      retryQueue.clear(event.invoiceId);
+      console.log(`⏭️ Invoice ${event.invoiceId} was already invalidated and reversed`);
+      return;
+    }
+
+    this.setInvalidated(reconciliationId, reason);
+    if (listPostings(reconciliationId).length > 0) {
+      console.log(`🚫 Invoice ${event.invoiceId} invalidated after it was posted: ${reason}`);
+      await this.reversePostings(reconciliationId, event, reason);
+      return;
+    }
+    retryQueue.clear(event.invoiceId);
+
+    console.log(`🚫 Invoice ${event.invoiceId} invalidated: ${reason}`);
+    writeLog('info', `Invoice ${event.invoiceId} invalidated`, {
+      eventId: event.id,
+      eventType: event.eventType,
+      reconciliationId,
+      reason,
+    });
+  }
+
+  /**
+   * Take every transaction a reconciliation posted back out of the books it was posted to and
+   * record the reversal against the reconciliation. Transactions already reversed are skipped,
+   * so failed reversals are retried like failed reconciliations.
+   */
+  private async reversePostings(
+    reconciliationId: string,
+    event: InvoiceEvent,
+    reason: string
+  ): Promise<void> {
+    const postings = listPostings(reconciliationId);
+    const reversed: string[] = [];
+    let failure: { posting: Posting; result: ReversalResult } | null = null;
+    let first: { posting: Posting; result: ReversalResult } | null = null;
+
+    for (const posting of postings.filter((candidate) => !candidate.reversedAt)) {
+      const result = await this.reverseTransaction(posting, event.invoiceId, reason);
+      first = first ?? { posting, result };
+      const posted = describePosting(posting);
+      if (!result.success) {
+        failure = failure ?? { posting, result };
+        console.error(
+          `❌ Failed to reverse ${posted} of invoice ${event.invoiceId}:`,
+          result.error
+        );
+        continue;
+      }
+      markPostingReversed(posting.id, {
+        method: result.method ?? null,
+        transactionId: result.transactionId ?? null,
+        transactionType: result.transactionType ?? null,
+      });
+      reversed.push(
+        result.method === 'void'
+          ? `voided ${posted}`
+          : `reversed ${posted} with ${result.transactionType} ${result.transactionId}`
+      );
+    }
+
+    // One reversal per reconciliation sums up its transactions: the first that failed, or the
+    // first posting once all of them are reversed
+    const outcome = failure ?? first ?? (postings[0] ? reversedEarlier(postings[0]) : null);
+    if (outcome) {
+      const errorKind = failure ? (failure.result.errorKind ?? 'transient') : null;
+      saveReversal({
+        reconciliationId,
+        originalTransactionId: outcome.posting.transactionId,
+        originalTransactionType: outcome.posting.transactionType,
+        accountingProvider: outcome.posting.accountingProvider,
+        status: failure ? 'failed' : 'reversed',
+        method: outcome.result.method ?? null,
+        reversalTransactionId: outcome.result.transactionId ?? null,
+        reversalTransactionType: outcome.result.transactionType ?? null,
+        reason,
+        errorMessage: outcome.result.error ?? null,
+        errorKind,
+      });
+    }
+
+    if (!failure) {
+      const reversedBy = reversed.join(', ') || 'already reversed';
+      this.setInvalidated(reconciliationId, `${reason}; ${reversedBy}`);
+      retryQueue.clear(event.invoiceId);
+
+      console.log(`↩️ Invoice ${event.invoiceId} invalidated: ${reversedBy}`);
+      writeLog('warn', `Reversed the transactions of invalidated invoice ${event.invoiceId}`, {
+        eventId: event.id,
+        eventType: event.eventType,
+        reconciliationId,
+        transactionIds: postings.map((posting) => posting.transactionId),
+        reversed,
+        reason,
+      });
+      return;
+    }
+
+    const posted = describePosting(failure.posting);
+    const error = failure.result.error || 'Accounting provider rejected the reversal';
+    this.setInvalidated(
+      reconciliationId,
+      `${reason} after it was posted as ${posted}, and reversing it failed: ${error}`
+    );
+    const job = this.scheduleRetry(
+      reconciliationId,
+      event,
+      new ReconciliationError(error, failure.result.errorKind ?? 'transient')
+    );
+    writeLog(
+      'error',
+      `Failed to reverse the transactions of invalidated invoice ${event.invoiceId}`,
+      {
+        eventId: event.id,
+        reconciliationId,
+        transactionId: failure.posting.transactionId,
+        reversed,
+        reason,
+        error,
+        errorKind: job.errorKind,
+        attempts: job.attempts,
+        nextAttemptAt: job.nextAttemptAt,
+      }
+    );
+  }
+
+  /**
+   * Reverse one posted transaction in the books it was posted to
+   */
+  private async reverseTransaction(
+    posting: Posting,
+    invoiceId: string,
+    reason: string
+  ): Promise<ReversalResult> {
+    const provider = getAccountingProvider(posting.accountingProvider ?? undefined);
+    if (!provider) {
+      return { success: false, error: 'No accounting provider is connected' };
+    }
+    return provider.reverseTransaction({
+      invoiceId,
+      transactionId: posting.transactionId,
+      transactionType: posting.transactionType,
+      reason,
+      reversedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Record a transaction a reconciliation posted, so it can be reversed later. Providers that
+   * post less than asked for (capped at an invoice balance) report what they posted.
+   */
+  private recordPosting(
+    reconciliationId: string,
+    payload: ReconciliationPayload,
+    result: PostingResult,
+    amountFiat: number
+  ): void {
+    if (!result.transactionId) {
+      return;
+    }
+    if (result.amount !== undefined) {
+      amountFiat = Math.min(amountFiat, Math.round(result.amount * 100));
+    }
+    savePosting({
+      reconciliationId,
+      sequence: payload.sequence,
+      accountingProvider: result.provider ?? null,
+      transactionId: result.transactionId,
+      transactionType: result.transactionType ?? null,
+      amountSats: payload.amountSats,
+      amountFiat,
+      paidAt: payload.paidAt,
+    });
+  }
+
+  private setInvalidated(reconciliationId: string, message: string): void {
+    getDatabase()
+      .prepare(
+        `
+        UPDATE reconciliations
+        SET status = 'invalidated', error_message = ?, processed_at = datetime('now')
+        WHERE id = ?
+      `
+      )
+      .run(message, reconciliationId);
+  }
+
+  /**
+   * Whether an InvoiceInvalid event came from the merchant marking the invoice invalid
+   */
+  private wasMarkedInvalidManually(eventId: string | null): boolean {
+    const row = getDatabase()
+      .prepare('SELECT payload FROM webhook_events WHERE id = ?')
+      .get(eventId) as { payload: string } | undefined;
+    try {
+      return JSON.parse(row?.payload ?? '{}')?.manuallyMarked === true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Post only what an already reconciled invoice received since it was last posted
+   * (e.g. the rest of a partial payment). Logically identical events post nothing.
+   */
+  private async processReconciledInvoice(
+    eventId: string | null,
+    storeId: string,
+    reconciled: CompletedReconciliationRow
+  ): Promise<void> {
+    const invoiceId = reconciled.btcpay_invoice_id;
+    try {
+      const { invoice, totals } = await this.fetchPaymentTotals(storeId, invoiceId);
+
+      // Overpayments are only ever posted up to the invoice amount
+      const additionalCents = postableCents(totals) - postableCents(totals, reconciled.amount_fiat);
+
+      if (additionalCents <= 0) {
+        retryQueue.clear(invoiceId);
+        console.log(`⏭️ Invoice ${invoiceId} already reconciled, skipping duplicate ${eventId}`);
+        writeLog('info', `Skipped duplicate event for reconciled invoice ${invoiceId}`, {
+          eventId,
+          reconciliationId: reconciled.id,
+        });
+        return;
+      }
+
+      const payload: ReconciliationPayload = {
+        ...buildReconciliationPayload(invoice, totals, getReconciliationSettings()),
+        sequence: getNextPostingSequence(reconciled.id),
+        amount: additionalCents / 100,
+        amountSats: Math.max(0, totals.amountSats - reconciled.amount_sats),
+        notes: `Additional payment via Sovereign Merchant (BTCPay invoice ${invoice.id})`,
+      };
+      const result = await this.postToAccounting(invoice, payload);
+      if (!result.success) {
+        throw new ReconciliationError(
+          result.error || 'Accounting provider rejected the transaction',
+          result.errorKind ?? 'transient'
+        );
+      }
+
+      getDatabase()
+        .prepare(
+          `
+          UPDATE reconciliations
+          SET amount_sats = ?, amount_fiat = ?, payment_status = ?, status = ?, paid_at = ?,
+              txids = ?, processed_at = datetime('now')
+          WHERE id = ?
+        `
+        )
+        .run(
+          totals.amountSats,
+          totals.amountFiat,
+          totals.paymentStatus,
+          totals.classification,
+          totals.paidAt,
+          JSON.stringify(totals.txids),
+          reconciled.id
+        );
+      this.recordPosting(reconciled.id, payload, result, additionalCents);
+      retryQueue.clear(invoiceId);
+
+      console.log(
+        `✅ Posted additional ${payload.amount} ${totals.currency} for invoice ${invoiceId} → ${result.transactionType} ${result.transactionId}`
+      );
+      writeLog('info', `Posted additional payment for invoice ${invoiceId}`, {
+        eventId,
+        reconciliationId: reconciled.id,
+        transactionId: result.transactionId,
+        transactionType: result.transactionType,
+        amount: payload.amount,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Failed to post additional payment for invoice ${invoiceId}:`, errorMessage);
+      const job = this.scheduleRetry(
+        reconciled.id,
+        { id: eventId, eventType: 'Retry', invoiceId, storeId },
+        error
+      );
+      writeLog('error', `Failed to post additional payment for invoice ${invoiceId}`, {
+        eventId,
+        reconciliationId: reconciled.id,
+        error: errorMessage,
+        errorKind: job.errorKind,
+        attempts: job.attempts,
+        nextAttemptAt: job.nextAttemptAt,
+      });
+    } finally {
+      this.markEventProcessed(eventId);
+    }
+  }
+
+  /**
+   * Fetch an invoice and its payments from BTCPay and total them up
+   */
+  private async fetchPaymentTotals(
+    storeId: string,
+    invoiceId: string
+  ): Promise<{ invoice: BTCPayInvoice; totals: PaymentTotals }> {
+    const invoice = await btcpayClient.getInvoice(storeId, invoiceId);
+    if (!invoice) {
+      throw new Error(`Failed to fetch invoice ${invoiceId} from BTCPayServer`);
+    }
+    const paymentMethods = await btcpayClient.getInvoicePaymentMethods(storeId, invoiceId);
+    if (!paymentMethods) {
+      throw new Error(`Failed to fetch payments for invoice ${invoiceId} from BTCPayServer`);
+    }
+    return {
+      invoice,
+      totals: computePaymentTotals(invoice, paymentMethods, this.getTolerancePercent(storeId)),
+    };
+  }
+
+  /**
+   * Payment tolerance configured for a store, falling back to the default
+   */
+  private getTolerancePercent(storeId: string): number {
+    const value = parseFloat(getConfigValue(`${TOLERANCE_CONFIG_KEY_PREFIX}${storeId}`) ?? '');
+    return Number.isNaN(value) ? DEFAULT_TOLERANCE_PERCENT : value;
+  }
+
+  /**
+   * Send the payment to the connected accounting provider: applied to the invoice it pays
+   * when there is one (see resolveAccountingInvoiceId), posted as a deposit otherwise
+   */
+  private async postToAccounting(
+    invoice: BTCPayInvoice,
+    payload: ReconciliationPayload
+  ): Promise<PostingResult> {
+    const provider = getAccountingProvider();
+    if (!provider) {
+      return { success: false, error: 'No accounting provider is connected' };
+    }
+
+    const accountingInvoiceId = await resolveAccountingInvoiceId(provider, invoice, payload.mode);
+    const result = accountingInvoiceId
+      ? await provider.reconcileInvoicePayment({
+          ...payload,
+          mode: 'invoicing',
+          accountingInvoiceId,
+        })
+      : await provider.reconcileDeposit(payload);
+    return { ...result, provider: provider.id };
+  }
+
+  private getReconciliationStatus(invoiceId: string): string | null {
+    const row = getDatabase()
+      .prepare('SELECT status FROM reconciliations WHERE btcpay_invoice_id = ?')
+      .get(invoiceId) as { status: string } | undefined;
+    return row?.status ?? null;
+  }
+
+  /**
+   * The reversal of an invalidated invoice's transaction, if it has yet to succeed
+   */
+  private getFailedReversal(invoiceId: string): Reversal | null {
+    const row = getDatabase()
+      .prepare('SELECT id FROM reconciliations WHERE btcpay_invoice_id = ?')
+      .get(invoiceId) as { id: string } | undefined;
+    const reversal = row ? getReversal(row.id) : null;
+    return reversal?.status === 'failed' ? reversal : null;
+  }
+
+  private getCompletedReconciliation(invoiceId: string): CompletedReconciliationRow | null {
+    const row = getDatabase()
+      .prepare(
+        `
+        SELECT id, btcpay_invoice_id, amount_sats, amount_fiat
+        FROM reconciliations
+        WHERE btcpay_invoice_id = ? AND status IN (${POSTED_STATUSES.map(() => '?').join(', ')})
+      `
+      )
+      .get(invoiceId, ...POSTED_STATUSES) as CompletedReconciliationRow | undefined;
+    return row ?? null;
+  }
+
+  /**
+   * Create (or reset) the reconciliation row for an invoice, returning its ID
+   */
+  private upsertPendingReconciliation(invoiceId: string): string {
+    const db = getDatabase();
+    db.prepare(
+      `
+      INSERT INTO reconciliations (id, btcpay_invoice_id, amount_sats, amount_fiat, currency, status)
+      VALUES (?, ?, 0, 0, '', 'pending')
+      ON CONFLICT(btcpay_invoice_id) DO UPDATE SET status = 'pending', error_message = NULL
+    `
+    ).run(crypto.randomUUID(), invoiceId);
+
+    const row = db
+      .prepare('SELECT id FROM reconciliations WHERE btcpay_invoice_id = ?')
+      .get(invoiceId) as { id: string };
+    return row.id;
+  }
+
+  private setReconciliationStatus(
+    id: string,
+    status: 'processing' | 'failed',
+    errorMessage: string | null = null
+  ): void {
+    getDatabase()
+      .prepare('UPDATE reconciliations SET status = ?, error_message = ? WHERE id = ?')
+      .run(status, errorMessage, id);
+  }
+
+  private markEventProcessed(eventId: string | null): void {
+    if (!eventId) {
+      return; // Retries have no webhook event to mark
+    }
+    getDatabase()
+      .prepare(
+        `UPDATE webhook_events SET processed = 1, processed_at = datetime('now') WHERE id = ?`
+      )
+      .run(eventId);
+  }
+}
+
+// Singleton instance
+export const syncWorker = new SyncWorker();
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { quickbooksAuth, QuickBooksConnection } from '../services/quickbooksAuth';
+import { xeroAuth } from '../services/xeroAuth';
+import { TokenRefreshScheduler } from './tokenRefresh';
+
+// Mock the QuickBooks OAuth service
+vi.mock('../services/quickbooksAuth', () => ({
+  quickbooksAuth: {
+    getConnection: vi.fn(),
+    refreshAccessToken: vi.fn(),
+  },
+}));
+
+// Mock the Xero OAuth service
+vi.mock('../services/xeroAuth', () => ({
+  xeroAuth: {
+    getConnection: vi.fn(),
+    refreshAccessToken: vi.fn(),
+  },
+}));
+
+const mockedAuth = vi.mocked(quickbooksAuth);
+const mockedXeroAuth = vi.mocked(xeroAuth);
+
+const now = Date.parse('2025-10-31T12:00:00Z');
+
+function connection(overrides: Partial<QuickBooksConnection>): QuickBooksConnection {
+  return {
+    connected: true,
+    state: 'CONNECTED',
+    realmId: '1234567890',
+    environment: 'production',
+    expiresAt: null,
+    refreshTokenExpiresAt: null,
+    error: null,
+    ...overrides,
+  };
+}
+
+describe('TokenRefreshScheduler', () => {
+  let scheduler: TokenRefreshScheduler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    scheduler = new TokenRefreshScheduler();
+    mockedAuth.refreshAccessToken.mockResolvedValue({ success: true });
+    mockedXeroAuth.refreshAccessToken.mockResolvedValue({ success: true });
+    mockedXeroAuth.getConnection.mockReturnValue({
+      connected: false,
+      state: null,
+      tenantId: null,
+      tenantName: null,
+      expiresAt: null,
+      error: null,
+    });
+  });
+
+  it('should leave a token with plenty of life alone', async () => {
+    mockedAuth.getConnection.mockReturnValue(
+      connection({ expiresAt: new Date(now + 45 * 60 * 1000).toISOString() })
+    );
+
+    expect(await scheduler.runOnce(now)).toBe(false);
+    expect(mockedAuth.refreshAccessToken).not.toHaveBeenCalled();
+  });
+
+  it('should refresh a token that is about to expire', async () => {
+    mockedAuth.getConnection.mockReturnValue(
+      connection({ expiresAt: new Date(now + 5 * 60 * 1000).toISOString() })
+    );
+
+    expect(await scheduler.runOnce(now)).toBe(true);
+    expect(mockedAuth.refreshAccessToken).toHaveBeenCalledOnce();
+  });
+
+  it('should refresh when the expiry is unknown', async () => {
+    mockedAuth.getConnection.mockReturnValue(connection({ expiresAt: null }));
+
+    await scheduler.runOnce(now);
+
+    expect(mockedAuth.refreshAccessToken).toHaveBeenCalledOnce();
+  });
+
+  it('should not refresh while disconnected or in the ERROR state', async () => {
+    mockedAuth.getConnection.mockReturnValue(connection({ connected: false, state: 'ERROR' }));
+
+    expect(await scheduler.runOnce(now)).toBe(false);
+    expect(mockedAuth.refreshAccessToken).not.toHaveBeenCalled();
+  });
+
+  it('should refresh an expiring Xero token independently of QuickBooks', async () => {
+    mockedAuth.getConnection.mockReturnValue(
+      connection({ expiresAt: new Date(now + 45 * 60 * 1000).toISOString() })
+    );
+    mockedXeroAuth.getConnection.mockReturnValue({
+      connected: true,
+      state: 'CONNECTED',
+      tenantId: 'tenant_1',
+      tenantName: 'Demo Company (US)',
+      expiresAt: new Date(now + 5 * 60 * 1000).toISOString(),
+      error: null,
+    });
+
+    expect(await scheduler.runOnce(now)).toBe(true);
+    expect(mockedAuth.refreshAccessToken).not.toHaveBeenCalled();
+    expect(mockedXeroAuth.refreshAccessToken).toHaveBeenCalledOnce();
+  });
+});
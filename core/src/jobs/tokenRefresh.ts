@@ -0,0 +1,95 @@
+import { quickbooksAuth, TokenRefreshResult } from '../services/quickbooksAuth';
+import { xeroAuth } from '../services/xeroAuth';
+
+// Constants
+const DEFAULT_CHECK_INTERVAL = 60_000;
+// Intuit access tokens live for an hour, Xero's for 30 minutes
+const REFRESH_MARGIN_MS = 10 * 60 * 1000;
+
+/**
+ * The part of an OAuth service the scheduler needs
+ */
+interface RefreshableAuth {
+  getConnection(): { connected: boolean; expiresAt: string | null };
+  refreshAccessToken(): Promise<TokenRefreshResult>;
+}
+
+/**
+ * Keeps the QuickBooks and Xero access tokens fresh so reconciliations never hit an expired
+ * token. Checks on an interval and refreshes a token once it is within REFRESH_MARGIN_MS of
+ * expiring.
+ */
+export class TokenRefreshScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: boolean = false;
+
+  /**
+   * Start checking the token expiry
+   */
+  start(intervalMs: number = DEFAULT_CHECK_INTERVAL): void {
+    if (this.timer) {
+      return;
+    }
+    console.log(`🔑 Token refresh scheduler started (checking every ${intervalMs}ms)`);
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, intervalMs);
+    void this.tick();
+  }
+
+  /**
+   * Stop checking
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('🛑 Token refresh scheduler stopped');
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      await this.runOnce();
+    } catch (error) {
+      console.error('❌ Token refresh check failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Refresh each connected token that is close to expiring. Returns whether a refresh succeeded.
+   */
+  async runOnce(now: number = Date.now()): Promise<boolean> {
+    let refreshed = false;
+    for (const auth of [quickbooksAuth, xeroAuth] as RefreshableAuth[]) {
+      if (await this.refreshIfExpiring(auth, now)) {
+        refreshed = true;
+      }
+    }
+    return refreshed;
+  }
+
+  private async refreshIfExpiring(auth: RefreshableAuth, now: number): Promise<boolean> {
+    const connection = auth.getConnection();
+    if (!connection.connected) {
+      return false; // Nothing to refresh - not linked yet, or waiting for a reconnect
+    }
+
+    const expiresAt = connection.expiresAt ? Date.parse(connection.expiresAt) : NaN;
+    if (!Number.isNaN(expiresAt) && expiresAt - now > REFRESH_MARGIN_MS) {
+      return false;
+    }
+
+    const result = await auth.refreshAccessToken();
+    return result.success;
+  }
+}
+
+// Singleton instance
+export const tokenRefreshScheduler = new TokenRefreshScheduler();
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { initializeDatabase, getDatabase, closeDatabase } from './database';
+import {
+  getConfigValue,
+  setConfigValue,
+  deleteConfigValue,
+  encryptPlaintextConfigRows,
+} from './config';
+import { _resetEncryptionKeyForTesting } from '../utils/crypto';
+
+describe('config store', () => {
+  let tmpDir: string;
+  const originalEnv = { ...process.env };
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sm-config-'));
+    process.env.DATABASE_PATH = ':memory:';
+    process.env.ENCRYPTION_KEY_PATH = path.join(tmpDir, 'encryption.key');
+    delete process.env.ENCRYPTION_KEY;
+    _resetEncryptionKeyForTesting();
+    await initializeDatabase();
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    process.env = { ...originalEnv };
+    _resetEncryptionKeyForTesting();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should return undefined for missing keys', () => {
+    expect(getConfigValue('missing')).toBeUndefined();
+  });
+
+  it('should store plaintext values as-is', () => {
+    setConfigValue('btcpay_url', 'http://btcpay.local');
+
+    const row = getDatabase()
+      .prepare('SELECT value, encrypted FROM config WHERE key = ?')
+      .get('btcpay_url') as { value: string; encrypted: number };
+    expect(row).toEqual({ value: 'http://btcpay.local', encrypted: 0 });
+    expect(getConfigValue('btcpay_url')).toBe('http://btcpay.local');
+  });
+
+  it('should encrypt values at rest when requested', () => {
+    setConfigValue('secret', 'super-secret', { encrypted: true });
+
+    const row = getDatabase()
+      .prepare('SELECT value, encrypted FROM config WHERE key = ?')
+      .get('secret') as { value: string; encrypted: number };
+    expect(row.encrypted).toBe(1);
+    expect(row.value).not.toContain('super-secret');
+    expect(getConfigValue('secret')).toBe('super-secret');
+  });
+
+  it('should overwrite existing values', () => {
+    setConfigValue('key', 'first');
+    setConfigValue('key', 'second', { encrypted: true });
+    expect(getConfigValue('key')).toBe('second');
+  });
+
+  it('should delete values', () => {
+    setConfigValue('key', 'value');
+    deleteConfigValue('key');
+    expect(getConfigValue('key')).toBeUndefined();
+  });
+
+  describe('encryptPlaintextConfigRows', () => {
+    const insertRow = (key: string, value: string, encrypted: number) =>
+      getDatabase()
+        .prepare('INSERT INTO config (key, value, encrypted) VALUES (?, ?, ?)')
+        .run(key, value, encrypted);
+    const storedRow = (key: string) =>
+      getDatabase().prepare('SELECT value, encrypted FROM config WHERE key = ?').get(key) as {
+        value: string;
+        encrypted: number;
+      };
+
+    it('should encrypt rows flagged encrypted but stored in plaintext', () => {
+      // What saveApiKeyToDatabase used to write
+      insertRow('btcpay_api_key', 'plaintext-api-key', 1);
+
+      expect(encryptPlaintextConfigRows()).toBe(1);
+
+      expect(storedRow('btcpay_api_key').value).not.toContain('plaintext-api-key');
+      expect(getConfigValue('btcpay_api_key')).toBe('plaintext-api-key');
+    });
+
+    it('should encrypt sensitive keys stored without the encrypted flag', () => {
+      insertRow('qbo_refresh_token', 'refresh-token', 0);
+      insertRow('btcpay_webhook_secret:webhook_123', 'webhook-secret', 0);
+
+      expect(encryptPlaintextConfigRows()).toBe(2);
+
+      expect(storedRow('qbo_refresh_token').encrypted).toBe(1);
+      expect(getConfigValue('qbo_refresh_token')).toBe('refresh-token');
+      expect(getConfigValue('btcpay_webhook_secret:webhook_123')).toBe('webhook-secret');
+    });
+
+    it('should leave non-sensitive and already encrypted rows alone', () => {
+      setConfigValue('btcpay_url', 'http://btcpay.local');
+      setConfigValue('btcpay_api_key', 'api-key', { encrypted: true });
+      const before = storedRow('btcpay_api_key').value;
+
+      expect(encryptPlaintextConfigRows()).toBe(0);
+
+      expect(storedRow('btcpay_url')).toEqual({ value: 'http://btcpay.local', encrypted: 0 });
+      expect(storedRow('btcpay_api_key').value).toBe(before);
+    });
+
+    it('should refuse to start when encrypted rows exist but the key file is gone', () => {
+      setConfigValue('btcpay_api_key', 'api-key', { encrypted: true });
+      fs.rmSync(process.env.ENCRYPTION_KEY_PATH!);
+      _resetEncryptionKeyForTesting();
+
+      expect(() => encryptPlaintextConfigRows()).toThrow(/encryption key is missing/);
+      expect(fs.existsSync(process.env.ENCRYPTION_KEY_PATH!)).toBe(false);
+    });
+  });
+});
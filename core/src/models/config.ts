@@ -0,0 +1,117 @@
+import { getDatabase } from './database';
+import {
+  encrypt,
+  decrypt,
+  getEncryptionKeyPath,
+  hasEncryptionKey,
+  isEncryptedPayload,
+} from '../utils/crypto';
+
+// Secrets that must never sit in the config table in plaintext
+const SENSITIVE_KEYS = [
+  'btcpay_api_key',
+  'qbo_access_token',
+  'qbo_refresh_token',
+  'qbo_client_secret',
+  'pay_link_secret',
+];
+const SENSITIVE_KEY_PREFIXES = ['btcpay_webhook_secret:'];
+
+interface ConfigRow {
+  value: string;
+  encrypted: number;
+}
+
+interface StoredConfigRow extends ConfigRow {
+  key: string;
+}
+
+function isSensitiveKey(key: string): boolean {
+  return (
+    SENSITIVE_KEYS.includes(key) || SENSITIVE_KEY_PREFIXES.some((prefix) => key.startsWith(prefix))
+  );
+}
+
+/**
+ * Read a value from the config table, decrypting it if it was stored encrypted
+ */
+export function getConfigValue(key: string): string | undefined {
+  const row = getDatabase()
+    .prepare('SELECT value, encrypted FROM config WHERE key = ?')
+    .get(key) as ConfigRow | undefined;
+
+  if (!row) {
+    return undefined;
+  }
+  return row.encrypted ? decrypt(row.value) : row.value;
+}
+
+/**
+ * Insert or update a value in the config table
+ */
+export function setConfigValue(
+  key: string,
+  value: string,
+  options: { encrypted?: boolean } = {}
+): void {
+  const encrypted = options.encrypted ?? false;
+  const storedValue = encrypted ? encrypt(value) : value;
+
+  getDatabase()
+    .prepare(
+      `
+      INSERT INTO config (key, value, encrypted, updated_at)
+      VALUES (?, ?, ?, datetime('now'))
+      ON CONFLICT(key) DO UPDATE SET
+        value = excluded.value,
+        encrypted = excluded.encrypted,
+        updated_at = excluded.updated_at
+    `
+    )
+    .run(key, storedValue, encrypted ? 1 : 0);
+}
+
+/**
+ * Remove a value from the config table
+ */
+export function deleteConfigValue(key: string): void {
+  getDatabase().prepare('DELETE FROM config WHERE key = ?').run(key);
+}
+
+/**
+ * Encrypt config rows written before at-rest encryption existed: sensitive keys stored in
+ * plaintext, and rows flagged `encrypted` that were never actually encrypted.
+ * Refuses to run if encrypted rows exist but the master key is gone - generating a fresh key
+ * would silently orphan them.
+ * Returns the number of rows migrated.
+ */
+export function encryptPlaintextConfigRows(): number {
+  const db = getDatabase();
+  const rows = db.prepare('SELECT key, value, encrypted FROM config').all() as StoredConfigRow[];
+
+  const hasEncryptedRows = rows.some((row) => row.encrypted && isEncryptedPayload(row.value));
+  if (hasEncryptedRows && !hasEncryptionKey()) {
+    throw new Error(
+      `Encrypted configuration found but the encryption key is missing (${getEncryptionKeyPath()}). ` +
+        'Restore encryption.key from your backup or set ENCRYPTION_KEY before starting.'
+    );
+  }
+
+  const pending = rows.filter((row) =>
+    row.encrypted ? !isEncryptedPayload(row.value) : isSensitiveKey(row.key)
+  );
+  if (pending.length === 0) {
+    return 0;
+  }
+
+  const update = db.prepare(
+    `UPDATE config SET value = ?, encrypted = 1, updated_at = datetime('now') WHERE key = ?`
+  );
+  db.transaction(() => {
+    for (const row of pending) {
+      update.run(encrypt(row.value), row.key);
+    }
+  })();
+
+  return pending.length;
+}
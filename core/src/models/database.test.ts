@@ -13,6 +13,7 @@ vi.mock('better-sqlite3', () => {
         all: vi.fn(),
         get: vi.fn(),
       }),
+      transaction: vi.fn((fn) => fn),
       close: vi.fn(),
     })),
   };
@@ -35,6 +36,7 @@ describe('Database', () => {
         all: vi.fn(),
         get: vi.fn(),
       }),
+      transaction: vi.fn((fn) => fn),
       close: vi.fn(),
     };
     mockedDatabase.mockReturnValue(mockDb);
@@ -1,5 +1,6 @@
 import Database from 'better-sqlite3';
 import path from 'path';
+import { migrateDatabase } from './migrate';
 
 let db: Database.Database | null = null;
 
@@ -15,62 +16,8 @@ export async function initializeDatabase(): Promise<void> {
     db.pragma('synchronous = NORMAL'); // Balance performance vs safety
     db.pragma('cache_size = -64000'); // 64MB cache
 
-    // Create basic tables with proper constraints
-    db.exec(`
-      -- Configuration storage with optional encryption
-      -- Used for storing app settings, API keys, and other configuration
-      CREATE TABLE IF NOT EXISTS config (
-        key TEXT PRIMARY KEY,                    -- Unique configuration key
-        value TEXT NOT NULL,                     -- Configuration value (may be encrypted)
-        encrypted BOOLEAN DEFAULT FALSE,         -- Whether value is encrypted at rest
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- Payment reconciliation records
-      -- Links BTCPayServer invoices to QuickBooks transactions
-      CREATE TABLE IF NOT EXISTS reconciliations (
-        id TEXT PRIMARY KEY,                     -- UUID for the reconciliation record
-        btcpay_invoice_id TEXT UNIQUE,           -- BTCPayServer invoice ID (nullable until processed)
-        quickbooks_transaction_id TEXT UNIQUE,   -- QuickBooks transaction ID (nullable until processed)
-        amount_sats INTEGER NOT NULL,            -- Bitcoin amount in satoshis
-        amount_fiat INTEGER NOT NULL,            -- Fiat amount in smallest currency unit (cents for USD)
-        currency TEXT NOT NULL,                  -- Currency code (USD, EUR, etc.)
-        status TEXT NOT NULL DEFAULT 'pending'  -- Status: pending, processing, completed, failed
-          CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        processed_at DATETIME,                   -- When reconciliation was completed
-        error_message TEXT                       -- Error details if status is 'failed'
-      );
-
-      -- Application logs for debugging and monitoring
-      CREATE TABLE IF NOT EXISTS logs (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        level TEXT NOT NULL                      -- Log level: debug, info, warn, error
-          CHECK (level IN ('debug', 'info', 'warn', 'error')),
-        message TEXT NOT NULL,                   -- Log message
-        data TEXT,                               -- Optional JSON data payload
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-
-      -- BTCPayServer webhook events
-      -- Stores incoming webhook notifications from BTCPayServer
-      CREATE TABLE IF NOT EXISTS webhook_events (
-        id TEXT PRIMARY KEY,                     -- Webhook delivery ID from BTCPayServer
-        event_type TEXT NOT NULL,                -- Event type (invoice_created, invoice_paid, etc.)
-        invoice_id TEXT,                         -- BTCPayServer invoice ID
-        store_id TEXT,                           -- BTCPayServer store ID
-        payload TEXT NOT NULL,                   -- Full webhook payload as JSON
-        processed BOOLEAN DEFAULT FALSE,         -- Whether this event has been processed
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        processed_at DATETIME                    -- When the event was processed
-      );
-
-      -- Add indexes for performance (to be implemented later)
-      -- CREATE INDEX idx_reconciliations_status ON reconciliations(status);
-      -- CREATE INDEX idx_reconciliations_created_at ON reconciliations(created_at);
-      -- CREATE INDEX idx_logs_level_created_at ON logs(level, created_at);
-    `);
+    // Bring the schema up to date (backs up existing databases before changing them)
+    await migrateDatabase(db, dbPath);
 
     // Verify database file has correct permissions
     const fs = await import('fs');
@@ -0,0 +1,388 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getSchemaVersion, migrateDatabase } from './migrate';
+import { Migration, migrations } from './migrations';
+
+// Schemas that shipped before the migration framework, oldest first
+const PRERELEASE_SCHEMA = `
+  CREATE TABLE config (
+    key TEXT PRIMARY KEY,
+    value TEXT,
+    encrypted BOOLEAN DEFAULT FALSE,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+  CREATE TABLE reconciliations (
+    id TEXT PRIMARY KEY,
+    btcpay_invoice_id TEXT,
+    quickbooks_transaction_id TEXT,
+    amount_sats INTEGER,
+    amount_fiat REAL,
+    currency TEXT,
+    status TEXT DEFAULT 'pending',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    processed_at DATETIME
+  );
+  CREATE TABLE logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    level TEXT,
+    message TEXT,
+    data TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+  );
+`;
+
+const SYNC_WORKER_COLUMNS = `
+  ALTER TABLE reconciliations ADD COLUMN payment_status TEXT;
+  ALTER TABLE webhook_events ADD COLUMN claimed_at DATETIME;
+`;
+
+interface HistoricalVersion {
+  name: string;
+  create(db: Database.Database): void;
+}
+
+const historicalVersions: HistoricalVersion[] = [
+  { name: 'pre-release', create: (db) => db.exec(PRERELEASE_SCHEMA) },
+  { name: 'first release', create: (db) => migrations[0].up(db) },
+  {
+    name: 'sync worker columns',
+    create: (db) => {
+      migrations[0].up(db);
+      db.exec(SYNC_WORKER_COLUMNS);
+    },
+  },
+  {
+    name: 'OAuth state table',
+    create: (db) => {
+      migrations[0].up(db);
+      db.exec(SYNC_WORKER_COLUMNS);
+      migrations[4].up(db);
+    },
+  },
+];
+
+/**
+ * Columns and indexes of every table, for comparing a migrated database to a fresh one
+ */
+function describeSchema(db: Database.Database, ignore: string[] = []): Record<string, unknown> {
+  const tables = db
+    .prepare(
+      `SELECT name FROM sqlite_master
+       WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name`
+    )
+    .all() as { name: string }[];
+
+  return Object.fromEntries(
+    tables
+      .filter(({ name }) => !ignore.includes(name))
+      .map(({ name }) => [
+        name,
+        {
+          columns: db.pragma(`table_info(${name})`),
+          uniqueIndexes: (db.pragma(`index_list(${name})`) as { unique: number }[]).filter(
+            (index) => index.unique
+          ).length,
+          hasCheck: /CHECK/.test(
+            (
+              db.prepare(`SELECT sql FROM sqlite_master WHERE name = ?`).get(name) as {
+                sql: string;
+              }
+            ).sql
+          ),
+        },
+      ])
+  );
+}
+
+function freshSchema(): Record<string, unknown> {
+  const db = new Database(':memory:');
+  for (const migration of migrations) {
+    migration.up(db);
+  }
+  const schema = describeSchema(db);
+  db.close();
+  return schema;
+}
+
+function seedLegacyRows(db: Database.Database): void {
+  db.prepare('INSERT INTO config (key, value) VALUES (?, ?)').run('btcpay_url', 'http://btcpay');
+  db.prepare(
+    `INSERT INTO reconciliations (id, btcpay_invoice_id, amount_sats, amount_fiat, currency, status)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run('rec-1', 'inv-1', 10000, 1000, 'USD', 'completed');
+  db.prepare('INSERT INTO logs (level, message) VALUES (?, ?)').run('info', 'hello');
+}
+
+describe('migrateDatabase', () => {
+  let tmpDir: string;
+  let dbPath: string;
+  let db: Database.Database;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sovereign-merchant-migrate-'));
+    dbPath = path.join(tmpDir, 'config.db');
+    db = new Database(dbPath);
+  });
+
+  afterEach(() => {
+    if (db.open) {
+      db.close();
+    }
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('should create the full schema on a fresh database', async () => {
+    const applied = await migrateDatabase(db, dbPath);
+
+    expect(applied).toBe(migrations.length);
+    expect(getSchemaVersion(db)).toBe(migrations[migrations.length - 1].version);
+
+    expect(describeSchema(db, ['schema_migrations'])).toEqual(freshSchema());
+  });
+
+  it('should record every migration and do nothing on the next run', async () => {
+    await migrateDatabase(db, dbPath);
+
+    const recorded = db.prepare('SELECT version, name FROM schema_migrations').all();
+    expect(recorded).toEqual(migrations.map(({ version, name }) => ({ version, name })));
+    expect(await migrateDatabase(db, dbPath)).toBe(0);
+  });
+
+  it('should not back up a brand new database', async () => {
+    await migrateDatabase(db, dbPath);
+
+    expect(fs.readdirSync(tmpDir).filter((file) => file.endsWith('.bak'))).toEqual([]);
+  });
+
+  it.each(migrations.slice(1).map((_, index) => index + 1))(
+    'should finish migrating a database left at version %i',
+    async (version) => {
+      await migrateDatabase(db, dbPath, migrations.slice(0, version));
+      expect(getSchemaVersion(db)).toBe(version);
+
+      const applied = await migrateDatabase(db, dbPath);
+
+      expect(applied).toBe(migrations.length - version);
+      expect(describeSchema(db, ['schema_migrations'])).toEqual(freshSchema());
+    }
+  );
+
+  it.each(historicalVersions)(
+    'should upgrade a $name database and keep its data',
+    async ({ create }) => {
+      create(db);
+      seedLegacyRows(db);
+
+      await migrateDatabase(db, dbPath);
+
+      expect(describeSchema(db, ['schema_migrations'])).toEqual(freshSchema());
+      expect(db.prepare('SELECT value FROM config WHERE key = ?').get('btcpay_url')).toEqual({
+        value: 'http://btcpay',
+      });
+      expect(db.prepare('SELECT * FROM reconciliations').get()).toMatchObject({
+        id: 'rec-1',
+        btcpay_invoice_id: 'inv-1',
+        amount_fiat: 1000,
+        status: 'completed',
+      });
+      expect(db.prepare('SELECT level, message FROM logs').get()).toEqual({
+        level: 'info',
+        message: 'hello',
+      });
+    }
+  );
+
+  it('should tighten pre-release rows that break the new constraints', async () => {
+    db.exec(PRERELEASE_SCHEMA);
+    db.prepare('INSERT INTO config (key, value) VALUES (?, NULL)').run('empty');
+    db.prepare(
+      `INSERT INTO reconciliations (id, btcpay_invoice_id, amount_fiat, status, created_at)
+       VALUES (?, ?, ?, ?, ?)`
+    ).run('rec-1', 'inv-1', 12.5, 'bogus', '2025-01-01 00:00:00');
+    db.prepare(
+      `INSERT INTO reconciliations (id, btcpay_invoice_id, amount_fiat, status, created_at)
+       VALUES (?, ?, ?, ?, ?)`
+    ).run('rec-2', 'inv-1', 10, 'completed', '2025-01-02 00:00:00');
+    db.prepare('INSERT INTO logs (level, message) VALUES (?, ?)').run('verbose', null);
+
+    await migrateDatabase(db, dbPath);
+
+    expect(db.prepare('SELECT COUNT(*) AS count FROM config').get()).toEqual({ count: 0 });
+    expect(db.prepare('SELECT * FROM reconciliations').all()).toEqual([
+      expect.objectContaining({
+        id: 'rec-1',
+        amount_sats: 0,
+        amount_fiat: 13,
+        currency: '',
+        status: 'pending',
+      }),
+    ]);
+    expect(db.prepare('SELECT level, message FROM logs').get()).toEqual({
+      level: 'info',
+      message: '',
+    });
+  });
+
+  it('should move transaction IDs to provider-neutral columns tagged with their provider', async () => {
+    await migrateDatabase(db, dbPath, migrations.slice(0, 14));
+    db.prepare(`INSERT INTO config (key, value) VALUES ('accounting_provider', 'xero')`).run();
+    db.prepare(
+      `INSERT INTO reconciliations
+         (id, btcpay_invoice_id, quickbooks_transaction_id, quickbooks_transaction_type,
+          amount_sats, amount_fiat, currency, status)
+       VALUES ('rec-1', 'inv-1', 'bt_1', 'BankTransaction', 1000, 500, 'USD', 'full'),
+              ('rec-2', 'inv-2', NULL, NULL, 0, 0, '', 'failed')`
+    ).run();
+
+    await migrateDatabase(db, dbPath);
+
+    expect(
+      db
+        .prepare(
+          `SELECT id, accounting_transaction_id, accounting_transaction_type, accounting_provider
+           FROM reconciliations ORDER BY id`
+        )
+        .all()
+    ).toEqual([
+      {
+        id: 'rec-1',
+        accounting_transaction_id: 'bt_1',
+        accounting_transaction_type: 'BankTransaction',
+        accounting_provider: 'xero',
+      },
+      {
+        id: 'rec-2',
+        accounting_transaction_id: null,
+        accounting_transaction_type: null,
+        accounting_provider: null,
+      },
+    ]);
+  });
+
+  it('should record the transaction of reconciliations posted before postings were kept', async () => {
+    await migrateDatabase(db, dbPath, migrations.slice(0, 15));
+    db.prepare(
+      `INSERT INTO reconciliations
+         (id, btcpay_invoice_id, accounting_transaction_id, accounting_transaction_type,
+          accounting_provider, amount_sats, amount_fiat, currency, status)
+       VALUES ('rec-1', 'inv-1', 'qbo_1', 'Deposit', 'quickbooks', 1000, 500, 'USD', 'full'),
+              ('rec-2', 'inv-2', NULL, NULL, NULL, 0, 0, '', 'failed')`
+    ).run();
+
+    await migrateDatabase(db, dbPath);
+
+    expect(
+      db
+        .prepare(
+          `SELECT reconciliation_id, sequence, accounting_provider, transaction_id,
+                  transaction_type, amount_fiat, reversed_at
+           FROM reconciliation_postings`
+        )
+        .all()
+    ).toEqual([
+      {
+        reconciliation_id: 'rec-1',
+        sequence: 1,
+        accounting_provider: 'quickbooks',
+        transaction_id: 'qbo_1',
+        transaction_type: 'Deposit',
+        amount_fiat: 500,
+        reversed_at: null,
+      },
+    ]);
+  });
+
+  it('should move unpaid expiries to expired without losing rows that reference reconciliations', async () => {
+    db.pragma('foreign_keys = ON');
+    await migrateDatabase(db, dbPath, migrations.slice(0, 17));
+    db.prepare(
+      `INSERT INTO reconciliations (id, btcpay_invoice_id, amount_sats, amount_fiat, currency, status,
+                                    error_message)
+       VALUES ('rec-1', 'inv-1', 0, 0, 'USD', 'invalidated', 'Invoice expired without a confirmed payment'),
+              ('rec-2', 'inv-2', 1000, 500, 'USD', 'invalidated', 'Invoice is invalid in BTCPayServer'),
+              ('rec-3', 'inv-3', 1000, 500, 'USD', 'full', NULL)`
+    ).run();
+    db.prepare(
+      `INSERT INTO reconciliation_postings
+         (id, reconciliation_id, sequence, transaction_id, amount_sats, amount_fiat)
+       VALUES ('rec-3_1', 'rec-3', 1, 'qbo_3', 1000, 500)`
+    ).run();
+
+    await migrateDatabase(db, dbPath);
+
+    expect(db.prepare('SELECT id, status FROM reconciliations ORDER BY id').all()).toEqual([
+      { id: 'rec-1', status: 'expired' },
+      { id: 'rec-2', status: 'invalidated' },
+      { id: 'rec-3', status: 'full' },
+    ]);
+    expect(db.prepare('SELECT id FROM reconciliation_postings').all()).toEqual([{ id: 'rec-3_1' }]);
+    expect(db.pragma('foreign_keys', { simple: true })).toBe(1);
+    expect(db.pragma('foreign_key_list(reconciliation_postings)')).toEqual([
+      expect.objectContaining({ table: 'reconciliations', on_delete: 'CASCADE' }),
+    ]);
+  });
+
+  it('should upgrade a copy of the pre-release config.db shipped in the repo', async () => {
+    db.close();
+    const repoDbPath = path.join(__dirname, '../../config.db');
+    for (const suffix of ['', '-wal', '-shm']) {
+      if (fs.existsSync(`${repoDbPath}${suffix}`)) {
+        fs.copyFileSync(`${repoDbPath}${suffix}`, `${dbPath}${suffix}`);
+      }
+    }
+    db = new Database(dbPath);
+
+    await migrateDatabase(db, dbPath);
+
+    expect(describeSchema(db, ['schema_migrations'])).toEqual(freshSchema());
+  });
+
+  it('should back up an existing database before migrating', async () => {
+    db.exec(PRERELEASE_SCHEMA);
+    seedLegacyRows(db);
+
+    await migrateDatabase(db, dbPath);
+
+    const backups = fs.readdirSync(tmpDir).filter((file) => file.endsWith('.bak'));
+    expect(backups).toHaveLength(1);
+    expect(backups[0]).toMatch(/^config\.db\.v0-.*\.bak$/);
+
+    const backup = new Database(path.join(tmpDir, backups[0]), { readonly: true });
+    expect(backup.pragma('table_info(config)')).toContainEqual(
+      expect.objectContaining({ name: 'value', notnull: 0 })
+    );
+    expect(backup.prepare('SELECT COUNT(*) AS count FROM reconciliations').get()).toEqual({
+      count: 1,
+    });
+    backup.close();
+  });
+
+  it('should roll back a failing migration and stop', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failing: Migration = {
+      version: migrations.length + 1,
+      name: 'broken',
+      up(database) {
+        database.exec('CREATE TABLE half_done (id TEXT)');
+        throw new Error('boom');
+      },
+    };
+    const after: Migration = { version: migrations.length + 2, name: 'after', up: vi.fn() };
+
+    await expect(migrateDatabase(db, dbPath, [...migrations, failing, after])).rejects.toThrow(
+      'boom'
+    );
+
+    expect(getSchemaVersion(db)).toBe(migrations.length);
+    expect(
+      db.prepare(`SELECT name FROM sqlite_master WHERE name = 'half_done'`).get()
+    ).toBeUndefined();
+    expect(after.up).not.toHaveBeenCalled();
+  });
+});
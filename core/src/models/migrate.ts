@@ -0,0 +1,89 @@
+import Database from 'better-sqlite3';
+import { Migration, migrations as allMigrations } from './migrations';
+
+/**
+ * Highest migration version applied to the database (0 for a fresh or pre-migration database)
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as
+    | { version: number | null }
+    | undefined;
+  return row?.version ?? 0;
+}
+
+/**
+ * Whether the database already holds application tables worth backing up
+ */
+function hasExistingTables(db: Database.Database): boolean {
+  const row = db
+    .prepare(
+      `SELECT COUNT(*) AS count FROM sqlite_master
+       WHERE type = 'table' AND name NOT IN ('schema_migrations', 'sqlite_sequence')`
+    )
+    .get() as { count: number } | undefined;
+  return (row?.count ?? 0) > 0;
+}
+
+/**
+ * Apply every pending migration in order, each in its own transaction.
+ * Existing on-disk databases are backed up first so a failed upgrade can be rolled back by hand.
+ * Returns the number of migrations applied.
+ */
+export async function migrateDatabase(
+  db: Database.Database,
+  dbPath: string,
+  migrations: Migration[] = allMigrations
+): Promise<number> {
+  db.exec(`
+    -- Which schema migrations have been applied
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,             -- Migration number
+      name TEXT NOT NULL,                      -- Migration name, for humans
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  const currentVersion = getSchemaVersion(db);
+  const pending = migrations
+    .filter((migration) => migration.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  if (pending.length === 0) {
+    return 0;
+  }
+
+  if (dbPath !== ':memory:' && hasExistingTables(db)) {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = `${dbPath}.v${currentVersion}-${timestamp}.bak`;
+    await db.backup(backupPath);
+    console.log(`💾 Backed up database to ${backupPath} before migrating`);
+  }
+
+  const recordMigration = db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)');
+
+  for (const migration of pending) {
+    const apply = db.transaction(() => {
+      migration.up(db);
+      recordMigration.run(migration.version, migration.name);
+    });
+
+    // SQLite ignores this pragma inside a transaction, so it is switched around it
+    const foreignKeys = db.pragma('foreign_keys', { simple: true });
+    if (migration.disableForeignKeys) {
+      db.pragma('foreign_keys = OFF');
+    }
+    try {
+      apply();
+      console.log(`✅ Applied migration ${migration.version}_${migration.name}`);
+    } catch (error) {
+      console.error(`❌ Migration ${migration.version}_${migration.name} failed:`, error);
+      throw error;
+    } finally {
+      if (migration.disableForeignKeys) {
+        db.pragma(`foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+      }
+    }
+  }
+
+  return pending.length;
+}
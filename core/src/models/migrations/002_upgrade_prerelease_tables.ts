@@ -0,0 +1,80 @@
+import { Migration } from './types';
+import { columnExists, getColumns, getTableSql, rebuildTable } from './helpers';
+
+// Pre-release builds created config/reconciliations/logs without NOT NULL/UNIQUE/CHECK
+// constraints (and without reconciliations.error_message). CREATE TABLE IF NOT EXISTS
+// left those tables alone, so bring them up to the first-release definitions.
+export const migration: Migration = {
+  version: 2,
+  name: 'upgrade_prerelease_tables',
+  up(db) {
+    const configValue = getColumns(db, 'config').find((column) => column.name === 'value');
+    if (configValue && !configValue.notnull) {
+      rebuildTable(
+        db,
+        'config',
+        `CREATE TABLE config (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          encrypted BOOLEAN DEFAULT FALSE,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )`,
+        `INSERT INTO config (key, value, encrypted, created_at, updated_at)
+         SELECT key, value, encrypted, created_at, updated_at FROM {old} WHERE value IS NOT NULL`
+      );
+    }
+
+    if (!columnExists(db, 'reconciliations', 'error_message')) {
+      // OR IGNORE: the old table had no UNIQUE constraints, duplicates of an invoice collapse
+      rebuildTable(
+        db,
+        'reconciliations',
+        `CREATE TABLE reconciliations (
+          id TEXT PRIMARY KEY,
+          btcpay_invoice_id TEXT UNIQUE,
+          quickbooks_transaction_id TEXT UNIQUE,
+          amount_sats INTEGER NOT NULL,
+          amount_fiat INTEGER NOT NULL,
+          currency TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending'
+            CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          processed_at DATETIME,
+          error_message TEXT
+        )`,
+        `INSERT OR IGNORE INTO reconciliations
+           (id, btcpay_invoice_id, quickbooks_transaction_id, amount_sats, amount_fiat, currency,
+            status, created_at, processed_at)
+         SELECT id, btcpay_invoice_id, quickbooks_transaction_id,
+                COALESCE(amount_sats, 0), CAST(ROUND(COALESCE(amount_fiat, 0)) AS INTEGER),
+                COALESCE(currency, ''),
+                CASE WHEN status IN ('pending', 'processing', 'completed', 'failed')
+                     THEN status ELSE 'pending' END,
+                created_at, processed_at
+         FROM {old} ORDER BY created_at ASC`
+      );
+    }
+
+    const logsSql = getTableSql(db, 'logs');
+    if (logsSql && !logsSql.includes('CHECK')) {
+      rebuildTable(
+        db,
+        'logs',
+        `CREATE TABLE logs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          level TEXT NOT NULL
+            CHECK (level IN ('debug', 'info', 'warn', 'error')),
+          message TEXT NOT NULL,
+          data TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )`,
+        `INSERT INTO logs (id, level, message, data, created_at)
+         SELECT id,
+                CASE WHEN level IN ('debug', 'info', 'warn', 'error') THEN level ELSE 'info' END,
+                COALESCE(message, ''), data, created_at
+         FROM {old}`
+      );
+    }
+  },
+};
@@ -0,0 +1,14 @@
+import { Migration } from './types';
+import { columnExists } from './helpers';
+
+// Paid totals vs invoice price, written by the sync worker: paid, partial, overpaid
+export const migration: Migration = {
+  version: 3,
+  name: 'reconciliation_payment_status',
+  up(db) {
+    // Installs from before the migration framework may already have it
+    if (!columnExists(db, 'reconciliations', 'payment_status')) {
+      db.exec('ALTER TABLE reconciliations ADD COLUMN payment_status TEXT');
+    }
+  },
+};
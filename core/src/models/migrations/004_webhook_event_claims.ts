@@ -0,0 +1,14 @@
+import { Migration } from './types';
+import { columnExists } from './helpers';
+
+// When a sync worker claimed an event, so a crashed worker's claims can be retried
+export const migration: Migration = {
+  version: 4,
+  name: 'webhook_event_claims',
+  up(db) {
+    // Installs from before the migration framework may already have it
+    if (!columnExists(db, 'webhook_events', 'claimed_at')) {
+      db.exec('ALTER TABLE webhook_events ADD COLUMN claimed_at DATETIME');
+    }
+  },
+};
@@ -0,0 +1,18 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 5,
+  name: 'oauth_states',
+  up(db) {
+    db.exec(`
+      -- OAuth CSRF state tokens
+      -- Single-use, issued when an OAuth flow starts and consumed by the callback
+      CREATE TABLE IF NOT EXISTS oauth_states (
+        state TEXT PRIMARY KEY,                  -- Cryptographically random state token
+        provider TEXT NOT NULL,                  -- Which OAuth flow issued it (e.g. quickbooks)
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL             -- State is rejected after this time
+      );
+    `);
+  },
+};
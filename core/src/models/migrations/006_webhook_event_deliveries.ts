@@ -0,0 +1,18 @@
+import { Migration } from './types';
+
+// Key webhook events on BTCPay's delivery identity so redeliveries and logically identical
+// events (e.g. a webhook and a backfill for the same invoice) are stored only once
+export const migration: Migration = {
+  version: 6,
+  name: 'webhook_event_deliveries',
+  up(db) {
+    db.exec(`
+      ALTER TABLE webhook_events ADD COLUMN webhook_id TEXT;   -- BTCPay webhook that sent it
+      ALTER TABLE webhook_events ADD COLUMN delivery_id TEXT;  -- Most recent BTCPay delivery ID
+      ALTER TABLE webhook_events ADD COLUMN dedupe_key TEXT;   -- Event type + invoice (+ payment)
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_events_dedupe_key
+        ON webhook_events(dedupe_key);
+    `);
+  },
+};
@@ -0,0 +1,36 @@
+import { Migration } from './types';
+import { rebuildTable } from './helpers';
+
+// Payment classification stores full/partial/overpaid/invalidated as the reconciliation
+// status. 'completed' stays valid for rows posted before classification existed.
+export const migration: Migration = {
+  version: 7,
+  name: 'reconciliation_classification_statuses',
+  up(db) {
+    rebuildTable(
+      db,
+      'reconciliations',
+      `CREATE TABLE reconciliations (
+        id TEXT PRIMARY KEY,
+        btcpay_invoice_id TEXT UNIQUE,
+        quickbooks_transaction_id TEXT UNIQUE,
+        amount_sats INTEGER NOT NULL,
+        amount_fiat INTEGER NOT NULL,
+        currency TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending'
+          CHECK (status IN ('pending', 'processing', 'completed', 'full', 'partial', 'overpaid',
+                            'invalidated', 'failed')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        processed_at DATETIME,
+        error_message TEXT,
+        payment_status TEXT
+      )`,
+      `INSERT INTO reconciliations
+         (id, btcpay_invoice_id, quickbooks_transaction_id, amount_sats, amount_fiat, currency,
+          status, created_at, processed_at, error_message, payment_status)
+       SELECT id, btcpay_invoice_id, quickbooks_transaction_id, amount_sats, amount_fiat, currency,
+              status, created_at, processed_at, error_message, payment_status
+       FROM {old}`
+    );
+  },
+};
@@ -0,0 +1,28 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 8,
+  name: 'webhook_deliveries',
+  up(db) {
+    db.exec(`
+      -- BTCPay webhook deliveries seen by the delivery monitor
+      -- A redelivery is a new delivery linked to the one it retries via original_delivery_id
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,                     -- BTCPay delivery ID
+        webhook_id TEXT NOT NULL,
+        store_id TEXT,
+        status TEXT NOT NULL,                    -- Failed, HttpError, HttpSuccess (or Pending)
+        http_code INTEGER,
+        error_message TEXT,
+        delivered_at DATETIME,                   -- BTCPay's delivery timestamp
+        original_delivery_id TEXT,               -- First delivery of the event, for redeliveries
+        redelivered_at DATETIME,                 -- When we asked BTCPay to send it again
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook
+        ON webhook_deliveries(webhook_id, delivered_at);
+    `);
+  },
+};
@@ -0,0 +1,26 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 9,
+  name: 'pay_links',
+  up(db) {
+    db.exec(`
+      -- BTCPay invoice currently behind each accounting invoice's pay link
+      -- One row per accounting invoice: regenerating an expired invoice replaces the BTCPay invoice
+      CREATE TABLE IF NOT EXISTS pay_links (
+        accounting_invoice_id TEXT PRIMARY KEY,  -- e.g. QuickBooks invoice ID
+        btcpay_invoice_id TEXT NOT NULL,
+        store_id TEXT NOT NULL,
+        amount TEXT NOT NULL,                    -- Open balance the BTCPay invoice was created for
+        currency TEXT NOT NULL,
+        checkout_link TEXT NOT NULL,
+        regenerated_count INTEGER NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_pay_links_btcpay_invoice
+        ON pay_links(btcpay_invoice_id);
+    `);
+  },
+};
@@ -0,0 +1,29 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 10,
+  name: 'reconciliation_jobs',
+  up(db) {
+    db.exec(`
+      -- Retries of reconciliations that failed to post. A job exists while there is work left:
+      -- it is deleted once the invoice reconciles (or is invalidated)
+      CREATE TABLE IF NOT EXISTS reconciliation_jobs (
+        reconciliation_id TEXT PRIMARY KEY REFERENCES reconciliations(id) ON DELETE CASCADE,
+        invoice_id TEXT NOT NULL UNIQUE,         -- BTCPay invoice to reconcile again
+        store_id TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'scheduled'
+          CHECK (status IN ('scheduled', 'dead')), -- dead: out of attempts or a permanent error
+        attempts INTEGER NOT NULL DEFAULT 0,     -- Failed attempts so far
+        next_attempt_at TEXT,                    -- ISO 8601, null once dead
+        last_error TEXT,
+        error_kind TEXT                          -- transient or permanent
+          CHECK (error_kind IN ('transient', 'permanent')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_reconciliation_jobs_due
+        ON reconciliation_jobs(status, next_attempt_at);
+    `);
+  },
+};
@@ -0,0 +1,32 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 11,
+  name: 'refunds',
+  up(db) {
+    db.exec(`
+      -- Refunds of reconciled invoices, detected from BTCPay pull payments and posted to the
+      -- books against the original reconciliation
+      CREATE TABLE IF NOT EXISTS refunds (
+        id TEXT PRIMARY KEY,                     -- BTCPay pull payment ID
+        reconciliation_id TEXT NOT NULL REFERENCES reconciliations(id) ON DELETE CASCADE,
+        btcpay_invoice_id TEXT NOT NULL,
+        store_id TEXT NOT NULL,
+        amount_fiat INTEGER NOT NULL,            -- Refunded amount in the invoice currency, cents
+        currency TEXT NOT NULL,
+        status TEXT NOT NULL                     -- posted, or failed (retried while transient)
+          CHECK (status IN ('posted', 'failed')),
+        transaction_id TEXT,                     -- Accounting transaction recording the refund
+        transaction_type TEXT,                   -- e.g. RefundReceipt, CreditMemo
+        error_message TEXT,
+        error_kind TEXT
+          CHECK (error_kind IN ('transient', 'permanent')),
+        refunded_at TEXT,                        -- ISO 8601, when the last payout completed
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        processed_at DATETIME
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_refunds_reconciliation ON refunds(reconciliation_id);
+    `);
+  },
+};
@@ -0,0 +1,33 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 12,
+  name: 'reversals',
+  up(db) {
+    db.exec(`
+      -- What kind of transaction quickbooks_transaction_id is (Deposit, SalesReceipt, Payment),
+      -- so it can be reversed. Null for reconciliations posted before this was recorded.
+      ALTER TABLE reconciliations ADD COLUMN quickbooks_transaction_type TEXT;
+
+      -- Reversals of posted transactions whose invoice was later invalidated in BTCPay
+      CREATE TABLE IF NOT EXISTS reversals (
+        id TEXT PRIMARY KEY,                     -- UUID
+        reconciliation_id TEXT NOT NULL UNIQUE REFERENCES reconciliations(id) ON DELETE CASCADE,
+        original_transaction_id TEXT NOT NULL,
+        original_transaction_type TEXT,
+        status TEXT NOT NULL                     -- reversed, or failed (retried while transient)
+          CHECK (status IN ('reversed', 'failed')),
+        method TEXT                              -- void, or journal_entry where voiding isn't possible
+          CHECK (method IN ('void', 'journal_entry')),
+        reversal_transaction_id TEXT,            -- The voided transaction, or the journal entry
+        reversal_transaction_type TEXT,
+        reason TEXT NOT NULL,                    -- Why the invoice was invalidated
+        error_message TEXT,
+        error_kind TEXT
+          CHECK (error_kind IN ('transient', 'permanent')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        processed_at DATETIME
+      );
+    `);
+  },
+};
@@ -0,0 +1,12 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 13,
+  name: 'oauth_pkce',
+  up(db) {
+    db.exec(`
+      -- PKCE code verifier of flows that use one (Xero), sent with the code on the callback
+      ALTER TABLE oauth_states ADD COLUMN code_verifier TEXT;
+    `);
+  },
+};
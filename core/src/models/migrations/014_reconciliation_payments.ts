@@ -0,0 +1,14 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 14,
+  name: 'reconciliation_payments',
+  up(db) {
+    db.exec(`
+      -- When the last confirmed payment arrived, and the on-chain transactions that paid the
+      -- invoice (JSON array of txids). Null for reconciliations recorded before this.
+      ALTER TABLE reconciliations ADD COLUMN paid_at DATETIME;
+      ALTER TABLE reconciliations ADD COLUMN txids TEXT;
+    `);
+  },
+};
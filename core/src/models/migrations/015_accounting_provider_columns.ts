@@ -0,0 +1,34 @@
+import { Migration } from './types';
+
+// Transaction IDs were stored in QuickBooks-named columns even when posted to Xero. The columns
+// get provider-neutral names, and every posted row records which provider it lives in so
+// reversals and refunds go to the books that hold the original transaction.
+export const migration: Migration = {
+  version: 15,
+  name: 'accounting_provider_columns',
+  up(db) {
+    db.exec(`
+      ALTER TABLE reconciliations RENAME COLUMN quickbooks_transaction_id TO accounting_transaction_id;
+      ALTER TABLE reconciliations RENAME COLUMN quickbooks_transaction_type TO accounting_transaction_type;
+
+      -- quickbooks or xero; null until something is posted
+      ALTER TABLE reconciliations ADD COLUMN accounting_provider TEXT;
+      ALTER TABLE refunds ADD COLUMN accounting_provider TEXT;
+      ALTER TABLE reversals ADD COLUMN accounting_provider TEXT;
+
+      -- Existing rows were posted to the provider configured at the time, which is the current
+      -- one unless the merchant switched (QuickBooks on installs from before Xero support)
+      UPDATE reconciliations
+      SET accounting_provider = COALESCE(
+        (SELECT value FROM config WHERE key = 'accounting_provider'), 'quickbooks')
+      WHERE accounting_transaction_id IS NOT NULL;
+      UPDATE refunds
+      SET accounting_provider = COALESCE(
+        (SELECT value FROM config WHERE key = 'accounting_provider'), 'quickbooks')
+      WHERE transaction_id IS NOT NULL;
+      UPDATE reversals
+      SET accounting_provider = COALESCE(
+        (SELECT value FROM config WHERE key = 'accounting_provider'), 'quickbooks');
+    `);
+  },
+};
@@ -0,0 +1,45 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 16,
+  name: 'reconciliation_postings',
+  up(db) {
+    db.exec(`
+      -- Every transaction a reconciliation posted: the first payment, then one per payment that
+      -- arrived after it was posted (rest of a partial payment, overpayment up to the price).
+      -- Each is reversed on its own when the invoice is invalidated.
+      CREATE TABLE IF NOT EXISTS reconciliation_postings (
+        id TEXT PRIMARY KEY,                     -- UUID (random hex for backfilled rows)
+        reconciliation_id TEXT NOT NULL REFERENCES reconciliations(id) ON DELETE CASCADE,
+        sequence INTEGER NOT NULL,               -- 1 for the first posting, counting up
+        accounting_provider TEXT,                -- quickbooks or xero
+        transaction_id TEXT NOT NULL,
+        transaction_type TEXT,
+        amount_sats INTEGER NOT NULL,            -- Sats received since the previous posting
+        amount_fiat INTEGER NOT NULL,            -- What this transaction posted, in cents
+        posted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        reversal_method TEXT                     -- Set once reversed
+          CHECK (reversal_method IN ('void', 'journal_entry')),
+        reversal_transaction_id TEXT,
+        reversal_transaction_type TEXT,
+        reversed_at DATETIME,
+        UNIQUE (reconciliation_id, sequence)
+      );
+
+      -- Reconciliations posted before this only recorded their first transaction, so it stands
+      -- in for everything they posted
+      INSERT INTO reconciliation_postings
+        (id, reconciliation_id, sequence, accounting_provider, transaction_id, transaction_type,
+         amount_sats, amount_fiat, posted_at, reversal_method, reversal_transaction_id,
+         reversal_transaction_type, reversed_at)
+      SELECT lower(hex(randomblob(16))), r.id, 1, r.accounting_provider,
+             r.accounting_transaction_id, r.accounting_transaction_type, r.amount_sats,
+             r.amount_fiat, COALESCE(r.processed_at, r.created_at),
+             rv.method, rv.reversal_transaction_id, rv.reversal_transaction_type,
+             CASE WHEN rv.status = 'reversed' THEN rv.processed_at END
+      FROM reconciliations r
+      LEFT JOIN reversals rv ON rv.reconciliation_id = r.id
+      WHERE r.accounting_transaction_id IS NOT NULL;
+    `);
+  },
+};
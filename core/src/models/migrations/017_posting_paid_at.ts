@@ -0,0 +1,21 @@
+import { Migration } from './types';
+
+export const migration: Migration = {
+  version: 17,
+  name: 'posting_paid_at',
+  up(db) {
+    db.exec(`
+      -- When the payments a posting covers arrived (ISO 8601), the day it is booked on in
+      -- journal exports. Single postings of earlier reconciliations take the reconciliation's.
+      ALTER TABLE reconciliation_postings ADD COLUMN paid_at TEXT;
+
+      UPDATE reconciliation_postings
+      SET paid_at = (SELECT paid_at FROM reconciliations r WHERE r.id = reconciliation_id)
+      WHERE sequence = 1 AND NOT EXISTS (
+        SELECT 1 FROM reconciliation_postings later
+        WHERE later.reconciliation_id = reconciliation_postings.reconciliation_id
+          AND later.sequence > 1
+      );
+    `);
+  },
+};
@@ -0,0 +1,54 @@
+import { Migration } from './types';
+import { replaceReferencedTable } from './helpers';
+
+// Invoices that expired unpaid were recorded as invalidated, which is final, so a payment that
+// arrived after expiry never reached the books. They get their own status that a later
+// settlement can still reconcile. Refunds, reversals, postings and jobs reference this table.
+export const migration: Migration = {
+  version: 18,
+  name: 'reconciliation_expired_status',
+  disableForeignKeys: true,
+  up(db) {
+    replaceReferencedTable(
+      db,
+      'reconciliations',
+      `CREATE TABLE {new} (
+        id TEXT PRIMARY KEY,
+        btcpay_invoice_id TEXT UNIQUE,
+        accounting_transaction_id TEXT UNIQUE,
+        amount_sats INTEGER NOT NULL,
+        amount_fiat INTEGER NOT NULL,
+        currency TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending'
+          CHECK (status IN ('pending', 'processing', 'completed', 'full', 'partial', 'overpaid',
+                            'expired', 'invalidated', 'failed')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        processed_at DATETIME,
+        error_message TEXT,
+        payment_status TEXT,
+        accounting_transaction_type TEXT,
+        paid_at DATETIME,
+        txids TEXT,
+        accounting_provider TEXT
+      )`,
+      `INSERT INTO {new}
+         (id, btcpay_invoice_id, accounting_transaction_id, amount_sats, amount_fiat, currency,
+          status, created_at, processed_at, error_message, payment_status,
+          accounting_transaction_type, paid_at, txids, accounting_provider)
+       SELECT id, btcpay_invoice_id, accounting_transaction_id, amount_sats, amount_fiat, currency,
+              status, created_at, processed_at, error_message, payment_status,
+              accounting_transaction_type, paid_at, txids, accounting_provider
+       FROM reconciliations`
+    );
+
+    db.exec(`
+      UPDATE reconciliations
+      SET status = 'expired'
+      WHERE status = 'invalidated'
+        AND error_message = 'Invoice expired without a confirmed payment'
+        AND NOT EXISTS (
+          SELECT 1 FROM reconciliation_postings p WHERE p.reconciliation_id = reconciliations.id
+        );
+    `);
+  },
+};
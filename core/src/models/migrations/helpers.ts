@@ -0,0 +1,67 @@
+import Database from 'better-sqlite3';
+
+interface ColumnInfo {
+  name: string;
+  notnull: number;
+}
+
+/**
+ * Columns of a table (empty if the table doesn't exist)
+ */
+export function getColumns(db: Database.Database, table: string): ColumnInfo[] {
+  return (db.pragma(`table_info(${table})`) as ColumnInfo[] | undefined) ?? [];
+}
+
+export function columnExists(db: Database.Database, table: string, column: string): boolean {
+  return getColumns(db, table).some((existing) => existing.name === column);
+}
+
+/**
+ * Original CREATE TABLE statement of a table, or null if it doesn't exist
+ */
+export function getTableSql(db: Database.Database, table: string): string | null {
+  const row = db
+    .prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`)
+    .get(table) as { sql: string } | undefined;
+  return row?.sql ?? null;
+}
+
+/**
+ * Swap a table for a new definition, copying rows across with the given SELECT.
+ * SQLite can't add constraints with ALTER TABLE, so this is the only way to tighten a schema.
+ */
+export function rebuildTable(
+  db: Database.Database,
+  table: string,
+  createSql: string,
+  copySql: string
+): void {
+  db.exec(`ALTER TABLE ${table} RENAME TO ${table}_old`);
+  db.exec(createSql);
+  db.exec(copySql.replace(/\{old\}/g, `${table}_old`));
+  db.exec(`DROP TABLE ${table}_old`);
+}
+
+/**
+ * Swap a table that other tables reference for a new definition: create it as {new}, copy rows
+ * across with copySql (inserting into {new}), drop the old table and rename the new one. Unlike
+ * rebuildTable this leaves the references in other tables alone, so the migration must run with
+ * disableForeignKeys (otherwise dropping the old table cascades). Violations abort the migration.
+ */
+export function replaceReferencedTable(
+  db: Database.Database,
+  table: string,
+  createSql: string,
+  copySql: string
+): void {
+  const newTable = `${table}_new`;
+  db.exec(createSql.replace(/\{new\}/g, newTable));
+  db.exec(copySql.replace(/\{new\}/g, newTable));
+  db.exec(`DROP TABLE ${table}`);
+  db.exec(`ALTER TABLE ${newTable} RENAME TO ${table}`);
+
+  const violations = (db.pragma('foreign_key_check') as unknown[] | undefined) ?? [];
+  if (violations.length > 0) {
+    throw new Error(`Rebuilding ${table} left ${violations.length} foreign key violation(s)`);
+  }
+}
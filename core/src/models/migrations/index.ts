@@ -0,0 +1,43 @@
+import { Migration } from './types';
+import { migration as initialSchema } from './001_initial_schema';
+import { migration as upgradePrereleaseTables } from './002_upgrade_prerelease_tables';
+import { migration as reconciliationPaymentStatus } from './003_reconciliation_payment_status';
+import { migration as webhookEventClaims } from './004_webhook_event_claims';
+import { migration as oauthStates } from './005_oauth_states';
+import { migration as webhookEventDeliveries } from './006_webhook_event_deliveries';
+import { migration as reconciliationClassificationStatuses } from './007_reconciliation_classification_statuses';
+import { migration as webhookDeliveries } from './008_webhook_deliveries';
+import { migration as payLinks } from './009_pay_links';
+import { migration as reconciliationJobs } from './010_reconciliation_jobs';
+import { migration as refunds } from './011_refunds';
+import { migration as reversals } from './012_reversals';
+import { migration as oauthPkce } from './013_oauth_pkce';
+import { migration as reconciliationPayments } from './014_reconciliation_payments';
+import { migration as accountingProviderColumns } from './015_accounting_provider_columns';
+import { migration as reconciliationPostings } from './016_reconciliation_postings';
+import { migration as postingPaidAt } from './017_posting_paid_at';
+import { migration as reconciliationExpiredStatus } from './018_reconciliation_expired_status';
+
+export type { Migration } from './types';
+
+// Every schema change, in order. Never edit a migration that has shipped - add a new one.
+export const migrations: Migration[] = [
+  initialSchema,
+  upgradePrereleaseTables,
+  reconciliationPaymentStatus,
+  webhookEventClaims,
+  oauthStates,
+  webhookEventDeliveries,
+  reconciliationClassificationStatuses,
+  webhookDeliveries,
+  payLinks,
+  reconciliationJobs,
+  refunds,
+  reversals,
+  oauthPkce,
+  reconciliationPayments,
+  accountingProviderColumns,
+  reconciliationPostings,
+  postingPaidAt,
+  reconciliationExpiredStatus,
+];
@@ -0,0 +1,13 @@
+import Database from 'better-sqlite3';
+
+/**
+ * A single schema change. Versions are applied in ascending order, each exactly once,
+ * inside its own transaction.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  // Run with foreign key enforcement off, for rebuilding tables that others reference
+  disableForeignKeys?: boolean;
+  up(db: Database.Database): void;
+}
@@ -0,0 +1,72 @@
+import { getDatabase } from './database';
+
+export interface PayLink {
+  accountingInvoiceId: string;
+  btcpayInvoiceId: string;
+  storeId: string;
+  amount: string;
+  currency: string;
+  checkoutLink: string;
+  regeneratedCount: number;
+}
+
+interface PayLinkRow {
+  accounting_invoice_id: string;
+  btcpay_invoice_id: string;
+  store_id: string;
+  amount: string;
+  currency: string;
+  checkout_link: string;
+  regenerated_count: number;
+}
+
+/**
+ * The BTCPay invoice currently behind an accounting invoice's pay link, if one was created
+ */
+export function getPayLink(accountingInvoiceId: string): PayLink | null {
+  const row = getDatabase()
+    .prepare('SELECT * FROM pay_links WHERE accounting_invoice_id = ?')
+    .get(accountingInvoiceId) as PayLinkRow | undefined;
+  if (!row) {
+    return null;
+  }
+  return {
+    accountingInvoiceId: row.accounting_invoice_id,
+    btcpayInvoiceId: row.btcpay_invoice_id,
+    storeId: row.store_id,
+    amount: row.amount,
+    currency: row.currency,
+    checkoutLink: row.checkout_link,
+    regeneratedCount: row.regenerated_count,
+  };
+}
+
+/**
+ * Point an accounting invoice's pay link at a BTCPay invoice, counting replacements
+ */
+export function savePayLink(link: Omit<PayLink, 'regeneratedCount'>): void {
+  getDatabase()
+    .prepare(
+      `
+      INSERT INTO pay_links
+        (accounting_invoice_id, btcpay_invoice_id, store_id, amount, currency, checkout_link)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(accounting_invoice_id) DO UPDATE SET
+        btcpay_invoice_id = excluded.btcpay_invoice_id,
+        store_id = excluded.store_id,
+        amount = excluded.amount,
+        currency = excluded.currency,
+        checkout_link = excluded.checkout_link,
+        regenerated_count = regenerated_count + 1,
+        updated_at = CURRENT_TIMESTAMP
+    `
+    )
+    .run(
+      link.accountingInvoiceId,
+      link.btcpayInvoiceId,
+      link.storeId,
+      link.amount,
+      link.currency,
+      link.checkoutLink
+    );
+}
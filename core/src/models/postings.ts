@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import { getDatabase } from './database';
+import { AccountingProviderId } from '../services/accounting';
+import { ReversalMethod } from './reversals';
+
+/**
+ * A transaction a reconciliation posted to the books
+ */
+export interface Posting {
+  id: string;
+  reconciliationId: string;
+  sequence: number; // 1 for the first posting of a reconciliation, counting up
+  accountingProvider: AccountingProviderId | null;
+  transactionId: string;
+  transactionType: string | null;
+  amountSats: number;
+  amountFiat: number; // Cents posted by this transaction
+  paidAt: string | null; // When the payments it covers arrived, ISO 8601
+  postedAt: string;
+  reversalMethod: ReversalMethod | null;
+  reversalTransactionId: string | null;
+  reversalTransactionType: string | null;
+  reversedAt: string | null;
+}
+
+export type NewPosting = Pick<
+  Posting,
+  | 'reconciliationId'
+  | 'sequence'
+  | 'accountingProvider'
+  | 'transactionId'
+  | 'transactionType'
+  | 'amountSats'
+  | 'amountFiat'
+  | 'paidAt'
+>;
+
+interface PostingRow {
+  id: string;
+  reconciliation_id: string;
+  sequence: number;
+  accounting_provider: AccountingProviderId | null;
+  transaction_id: string;
+  transaction_type: string | null;
+  amount_sats: number;
+  amount_fiat: number;
+  paid_at: string | null;
+  posted_at: string;
+  reversal_method: ReversalMethod | null;
+  reversal_transaction_id: string | null;
+  reversal_transaction_type: string | null;
+  reversed_at: string | null;
+}
+
+/**
+ * Everything a reconciliation posted, in the order it was posted
+ */
+export function listPostings(reconciliationId: string): Posting[] {
+  const rows = getDatabase()
+    .prepare('SELECT * FROM reconciliation_postings WHERE reconciliation_id = ? ORDER BY sequence')
+    .all(reconciliationId) as PostingRow[];
+  return rows.map((row) => ({
+    id: row.id,
+    reconciliationId: row.reconciliation_id,
+    sequence: row.sequence,
+    accountingProvider: row.accounting_provider,
+    transactionId: row.transaction_id,
+    transactionType: row.transaction_type,
+    amountSats: row.amount_sats,
+    amountFiat: row.amount_fiat,
+    paidAt: row.paid_at,
+    postedAt: row.posted_at,
+    reversalMethod: row.reversal_method,
+    reversalTransactionId: row.reversal_transaction_id,
+    reversalTransactionType: row.reversal_transaction_type,
+    reversedAt: row.reversed_at,
+  }));
+}
+
+/**
+ * Whether anything was posted to the books for a BTCPay invoice
+ */
+export function hasPostingsForInvoice(btcpayInvoiceId: string): boolean {
+  const row = getDatabase()
+    .prepare(
+      `
+      SELECT 1 FROM reconciliation_postings p
+      JOIN reconciliations r ON r.id = p.reconciliation_id
+      WHERE r.btcpay_invoice_id = ?
+      LIMIT 1
+    `
+    )
+    .get(btcpayInvoiceId);
+  return !!row;
+}
+
+/**
+ * Sequence number the next posting of a reconciliation gets
+ */
+export function getNextPostingSequence(reconciliationId: string): number {
+  const row = getDatabase()
+    .prepare(
+      'SELECT MAX(sequence) AS sequence FROM reconciliation_postings WHERE reconciliation_id = ?'
+    )
+    .get(reconciliationId) as { sequence: number | null };
+  return (row.sequence ?? 0) + 1;
+}
+
+/**
+ * Record a transaction a reconciliation posted
+ */
+export function savePosting(posting: NewPosting): void {
+  getDatabase()
+    .prepare(
+      `
+      INSERT INTO reconciliation_postings
+        (id, reconciliation_id, sequence, accounting_provider, transaction_id, transaction_type,
+         amount_sats, amount_fiat, paid_at, posted_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+    `
+    )
+    .run(
+      crypto.randomUUID(),
+      posting.reconciliationId,
+      posting.sequence,
+      posting.accountingProvider,
+      posting.transactionId,
+      posting.transactionType,
+      posting.amountSats,
+      posting.amountFiat,
+      posting.paidAt
+    );
+}
+
+/**
+ * Record that a posted transaction was taken back out of the books
+ */
+export function markPostingReversed(
+  postingId: string,
+  reversal: {
+    method: ReversalMethod | null;
+    transactionId: string | null;
+    transactionType: string | null;
+  }
+): void {
+  getDatabase()
+    .prepare(
+      `
+      UPDATE reconciliation_postings
+      SET reversal_method = ?, reversal_transaction_id = ?, reversal_transaction_type = ?,
+          reversed_at = datetime('now')
+      WHERE id = ?
+    `
+    )
+    .run(reversal.method, reversal.transactionId, reversal.transactionType, postingId);
+}
@@ -0,0 +1,154 @@
+import { getDatabase } from './database';
+import { ErrorKind } from '../utils/retry';
+
+export type ReconciliationJobStatus = 'scheduled' | 'dead';
+
+export interface ReconciliationJob {
+  reconciliationId: string;
+  invoiceId: string;
+  storeId: string;
+  status: ReconciliationJobStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  errorKind: ErrorKind | null;
+}
+
+export interface JobFailure {
+  reconciliationId: string;
+  invoiceId: string;
+  storeId: string;
+  attempts: number;
+  status: ReconciliationJobStatus;
+  nextAttemptAt: string | null;
+  error: string;
+  errorKind: ErrorKind;
+}
+
+interface ReconciliationJobRow {
+  reconciliation_id: string;
+  invoice_id: string;
+  store_id: string;
+  status: ReconciliationJobStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  error_kind: ErrorKind | null;
+}
+
+function toJob(row: ReconciliationJobRow): ReconciliationJob {
+  return {
+    reconciliationId: row.reconciliation_id,
+    invoiceId: row.invoice_id,
+    storeId: row.store_id,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastError: row.last_error,
+    errorKind: row.error_kind,
+  };
+}
+
+/**
+ * The retry job of a reconciliation, if it has work left
+ */
+export function getJob(reconciliationId: string): ReconciliationJob | null {
+  const row = getDatabase()
+    .prepare('SELECT * FROM reconciliation_jobs WHERE reconciliation_id = ?')
+    .get(reconciliationId) as ReconciliationJobRow | undefined;
+  return row ? toJob(row) : null;
+}
+
+/**
+ * Record a failed attempt as decided by the retry policy
+ */
+export function saveJobFailure(failure: JobFailure): void {
+  getDatabase()
+    .prepare(
+      `
+      INSERT INTO reconciliation_jobs
+        (reconciliation_id, invoice_id, store_id, status, attempts, next_attempt_at,
+         last_error, error_kind)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(reconciliation_id) DO UPDATE SET
+        store_id = excluded.store_id,
+        status = excluded.status,
+        attempts = excluded.attempts,
+        next_attempt_at = excluded.next_attempt_at,
+        last_error = excluded.last_error,
+        error_kind = excluded.error_kind,
+        updated_at = CURRENT_TIMESTAMP
+    `
+    )
+    .run(
+      failure.reconciliationId,
+      failure.invoiceId,
+      failure.storeId,
+      failure.status,
+      failure.attempts,
+      failure.nextAttemptAt,
+      failure.error,
+      failure.errorKind
+    );
+}
+
+/**
+ * Atomically take the job that has been due longest, pushing its next attempt out to
+ * leaseUntil so no other worker picks it up meanwhile (or until then, if this one crashes)
+ */
+export function claimDueJob(now: string, leaseUntil: string): ReconciliationJob | null {
+  const db = getDatabase();
+  const claim = db.transaction((): ReconciliationJob | null => {
+    const row = db
+      .prepare(
+        `
+        SELECT * FROM reconciliation_jobs
+        WHERE status = 'scheduled' AND next_attempt_at <= ?
+        ORDER BY next_attempt_at ASC
+        LIMIT 1
+      `
+      )
+      .get(now) as ReconciliationJobRow | undefined;
+    if (!row) {
+      return null;
+    }
+    db.prepare(
+      `UPDATE reconciliation_jobs SET next_attempt_at = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE reconciliation_id = ?`
+    ).run(leaseUntil, row.reconciliation_id);
+    return toJob(row);
+  });
+  return claim.immediate();
+}
+
+/**
+ * Schedule a reconciliation to be tried again at the given time with a fresh attempt budget
+ */
+export function rescheduleJob(
+  reconciliationId: string,
+  invoiceId: string,
+  storeId: string,
+  nextAttemptAt: string
+): void {
+  getDatabase()
+    .prepare(
+      `
+      INSERT INTO reconciliation_jobs
+        (reconciliation_id, invoice_id, store_id, status, attempts, next_attempt_at)
+      VALUES (?, ?, ?, 'scheduled', 0, ?)
+      ON CONFLICT(reconciliation_id) DO UPDATE SET
+        status = 'scheduled',
+        attempts = 0,
+        next_attempt_at = excluded.next_attempt_at,
+        updated_at = CURRENT_TIMESTAMP
+    `
+    )
+    .run(reconciliationId, invoiceId, storeId, nextAttemptAt);
+}
+
+/**
+ * Drop an invoice's job once nothing is left to retry
+ */
+export function deleteJobForInvoice(invoiceId: string): void {
+  getDatabase().prepare('DELETE FROM reconciliation_jobs WHERE invoice_id = ?').run(invoiceId);
+}
@@ -0,0 +1,99 @@
+import { getDatabase } from './database';
+import { AccountingProviderId } from '../services/accounting';
+
+export interface Reconciliation {
+  id: string;
+  btcpayInvoiceId: string | null;
+  transactionId: string | null; // Transaction posted to the accounting provider
+  transactionType: string | null;
+  accountingProvider: AccountingProviderId | null; // Books the transaction was posted to
+  amountSats: number;
+  amountFiat: number; // Cents
+  currency: string;
+  status: string;
+  paymentStatus: string | null;
+  paidAt: string | null;
+  txids: string[];
+  createdAt: string;
+  processedAt: string | null;
+  errorMessage: string | null;
+}
+
+export interface ReconciliationFilter {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+interface ReconciliationRow {
+  id: string;
+  btcpay_invoice_id: string | null;
+  accounting_transaction_id: string | null;
+  accounting_transaction_type: string | null;
+  accounting_provider: AccountingProviderId | null;
+  amount_sats: number;
+  amount_fiat: number;
+  currency: string;
+  status: string;
+  payment_status: string | null;
+  paid_at: string | null;
+  txids: string | null;
+  created_at: string;
+  processed_at: string | null;
+  error_message: string | null;
+}
+
+// The day a reconciliation is booked on: when it was paid, falling back to when it was processed
+const BOOKING_DATE = 'COALESCE(paid_at, processed_at, created_at)';
+
+function parseTxids(value: string | null): string[] {
+  try {
+    const txids = JSON.parse(value ?? '[]') as unknown;
+    return Array.isArray(txids) ? txids.filter((txid) => typeof txid === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Reconciliations booked within the date range, oldest first
+ */
+export function listReconciliations(filter: ReconciliationFilter = {}): Reconciliation[] {
+  const conditions: string[] = [];
+  const params: string[] = [];
+  if (filter.from) {
+    conditions.push(`date(${BOOKING_DATE}) >= ?`);
+    params.push(filter.from);
+  }
+  if (filter.to) {
+    conditions.push(`date(${BOOKING_DATE}) <= ?`);
+    params.push(filter.to);
+  }
+
+  const rows = getDatabase()
+    .prepare(
+      `
+      SELECT * FROM reconciliations
+      ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY ${BOOKING_DATE} ASC, rowid ASC
+    `
+    )
+    .all(...params) as ReconciliationRow[];
+
+  return rows.map((row) => ({
+    id: row.id,
+    btcpayInvoiceId: row.btcpay_invoice_id,
+    transactionId: row.accounting_transaction_id,
+    transactionType: row.accounting_transaction_type,
+    accountingProvider: row.accounting_provider,
+    amountSats: row.amount_sats,
+    amountFiat: row.amount_fiat,
+    currency: row.currency,
+    status: row.status,
+    paymentStatus: row.payment_status,
+    paidAt: row.paid_at,
+    txids: parseTxids(row.txids),
+    createdAt: row.created_at,
+    processedAt: row.processed_at,
+    errorMessage: row.error_message,
+  }));
+}
@@ -0,0 +1,169 @@
+import { getDatabase } from './database';
+import { AccountingProviderId } from '../services/accounting';
+import { ErrorKind } from '../utils/retry';
+
+export type RefundStatus = 'posted' | 'failed';
+
+export interface Refund {
+  id: string; // BTCPay pull payment ID
+  reconciliationId: string;
+  btcpayInvoiceId: string;
+  storeId: string;
+  amountFiat: number; // Cents
+  currency: string;
+  status: RefundStatus;
+  transactionId: string | null;
+  transactionType: string | null;
+  accountingProvider: AccountingProviderId | null; // Books the refund was posted to
+  errorMessage: string | null;
+  errorKind: ErrorKind | null;
+  refundedAt: string | null;
+}
+
+/**
+ * A reconciliation that has been posted to the books, and so can be refunded
+ */
+export interface RefundableReconciliation {
+  id: string;
+  btcpayInvoiceId: string;
+  amountSats: number;
+  amountFiat: number; // Cents
+  currency: string;
+  accountingProvider: AccountingProviderId | null; // Books the payment was posted to
+}
+
+interface RefundRow {
+  id: string;
+  reconciliation_id: string;
+  btcpay_invoice_id: string;
+  store_id: string;
+  amount_fiat: number;
+  currency: string;
+  status: RefundStatus;
+  transaction_id: string | null;
+  transaction_type: string | null;
+  accounting_provider: AccountingProviderId | null;
+  error_message: string | null;
+  error_kind: ErrorKind | null;
+  refunded_at: string | null;
+}
+
+function toRefund(row: RefundRow): Refund {
+  return {
+    id: row.id,
+    reconciliationId: row.reconciliation_id,
+    btcpayInvoiceId: row.btcpay_invoice_id,
+    storeId: row.store_id,
+    amountFiat: row.amount_fiat,
+    currency: row.currency,
+    status: row.status,
+    transactionId: row.transaction_id,
+    transactionType: row.transaction_type,
+    accountingProvider: row.accounting_provider,
+    errorMessage: row.error_message,
+    errorKind: row.error_kind,
+    refundedAt: row.refunded_at,
+  };
+}
+
+/**
+ * The recorded outcome of a refund (pull payment), if it has been processed
+ */
+export function getRefund(id: string): Refund | null {
+  const row = getDatabase().prepare('SELECT * FROM refunds WHERE id = ?').get(id) as
+    | RefundRow
+    | undefined;
+  return row ? toRefund(row) : null;
+}
+
+/**
+ * Refunds in the given status, oldest first
+ */
+export function listRefunds(status: RefundStatus): Refund[] {
+  const rows = getDatabase()
+    .prepare(
+      'SELECT * FROM refunds WHERE status = ? ORDER BY COALESCE(refunded_at, processed_at), id'
+    )
+    .all(status) as RefundRow[];
+  return rows.map(toRefund);
+}
+
+/**
+ * Record a refund as posted or failed, replacing the outcome of an earlier attempt
+ */
+export function saveRefund(refund: Refund): void {
+  getDatabase()
+    .prepare(
+      `
+      INSERT INTO refunds
+        (id, reconciliation_id, btcpay_invoice_id, store_id, amount_fiat, currency, status,
+         transaction_id, transaction_type, accounting_provider, error_message, error_kind,
+         refunded_at, processed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+      ON CONFLICT(id) DO UPDATE SET
+        amount_fiat = excluded.amount_fiat,
+        currency = excluded.currency,
+        status = excluded.status,
+        transaction_id = excluded.transaction_id,
+        transaction_type = excluded.transaction_type,
+        accounting_provider = excluded.accounting_provider,
+        error_message = excluded.error_message,
+        error_kind = excluded.error_kind,
+        refunded_at = excluded.refunded_at,
+        processed_at = excluded.processed_at
+    `
+    )
+    .run(
+      refund.id,
+      refund.reconciliationId,
+      refund.btcpayInvoiceId,
+      refund.storeId,
+      refund.amountFiat,
+      refund.currency,
+      refund.status,
+      refund.transactionId,
+      refund.transactionType,
+      refund.accountingProvider,
+      refund.errorMessage,
+      refund.errorKind,
+      refund.refundedAt
+    );
+}
+
+/**
+ * Reconciliations in one of the given (posted) statuses, keyed by BTCPay invoice ID
+ */
+export function getRefundableReconciliations(
+  statuses: string[]
+): Map<string, RefundableReconciliation> {
+  const rows = getDatabase()
+    .prepare(
+      `
+      SELECT id, btcpay_invoice_id, amount_sats, amount_fiat, currency, accounting_provider
+      FROM reconciliations
+      WHERE btcpay_invoice_id IS NOT NULL AND status IN (${statuses.map(() => '?').join(', ')})
+    `
+    )
+    .all(...statuses) as {
+    id: string;
+    btcpay_invoice_id: string;
+    amount_sats: number;
+    amount_fiat: number;
+    currency: string;
+    accounting_provider: AccountingProviderId | null;
+  }[];
+
+  return new Map(
+    rows.map((row) => [
+      row.btcpay_invoice_id,
+      {
+        id: row.id,
+        btcpayInvoiceId: row.btcpay_invoice_id,
+        amountSats: row.amount_sats,
+        amountFiat: row.amount_fiat,
+        currency: row.currency,
+        accountingProvider: row.accounting_provider,
+      },
+    ])
+  );
+}
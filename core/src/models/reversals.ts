@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import { getDatabase } from './database';
+import { AccountingProviderId } from '../services/accounting';
+import { ErrorKind } from '../utils/retry';
+
+export type ReversalStatus = 'reversed' | 'failed';
+export type ReversalMethod = 'void' | 'journal_entry';
+
+export interface Reversal {
+  reconciliationId: string;
+  originalTransactionId: string;
+  originalTransactionType: string | null;
+  accountingProvider: AccountingProviderId | null; // Books the original transaction is in
+  status: ReversalStatus;
+  method: ReversalMethod | null;
+  reversalTransactionId: string | null;
+  reversalTransactionType: string | null;
+  reason: string;
+  errorMessage: string | null;
+  errorKind: ErrorKind | null;
+}
+
+interface ReversalRow {
+  reconciliation_id: string;
+  original_transaction_id: string;
+  original_transaction_type: string | null;
+  accounting_provider: AccountingProviderId | null;
+  status: ReversalStatus;
+  method: ReversalMethod | null;
+  reversal_transaction_id: string | null;
+  reversal_transaction_type: string | null;
+  reason: string;
+  error_message: string | null;
+  error_kind: ErrorKind | null;
+}
+
+/**
+ * The reversal of a reconciliation's transaction, if one was attempted
+ */
+export function getReversal(reconciliationId: string): Reversal | null {
+  const row = getDatabase()
+    .prepare('SELECT * FROM reversals WHERE reconciliation_id = ?')
+    .get(reconciliationId) as ReversalRow | undefined;
+  if (!row) {
+    return null;
+  }
+  return {
+    reconciliationId: row.reconciliation_id,
+    originalTransactionId: row.original_transaction_id,
+    originalTransactionType: row.original_transaction_type,
+    accountingProvider: row.accounting_provider,
+    status: row.status,
+    method: row.method,
+    reversalTransactionId: row.reversal_transaction_id,
+    reversalTransactionType: row.reversal_transaction_type,
+    reason: row.reason,
+    errorMessage: row.error_message,
+    errorKind: row.error_kind,
+  };
+}
+
+/**
+ * Record the outcome of reversing a reconciliation's transaction, replacing an earlier attempt
+ */
+export function saveReversal(reversal: Reversal): void {
+  getDatabase()
+    .prepare(
+      `
+      INSERT INTO reversals
+        (id, reconciliation_id, original_transaction_id, original_transaction_type,
+         accounting_provider, status, method, reversal_transaction_id, reversal_transaction_type,
+         reason, error_message, error_kind, processed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+      ON CONFLICT(reconciliation_id) DO UPDATE SET
+        original_transaction_id = excluded.original_transaction_id,
+        original_transaction_type = excluded.original_transaction_type,
+        accounting_provider = excluded.accounting_provider,
+        status = excluded.status,
+        method = excluded.method,
+        reversal_transaction_id = excluded.reversal_transaction_id,
+        reversal_transaction_type = excluded.reversal_transaction_type,
+        reason = excluded.reason,
+        error_message = excluded.error_message,
+        error_kind = excluded.error_kind,
+        processed_at = excluded.processed_at
+    `
+    )
+    .run(
+      crypto.randomUUID(),
+      reversal.reconciliationId,
+      reversal.originalTransactionId,
+      reversal.originalTransactionType,
+      reversal.accountingProvider,
+      reversal.status,
+      reversal.method,
+      reversal.reversalTransactionId,
+      reversal.reversalTransactionType,
+      reversal.reason,
+      reversal.errorMessage,
+      reversal.errorKind
+    );
+}
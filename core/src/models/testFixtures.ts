@@ -0,0 +1,93 @@
+import { getDatabase } from './database';
+
+/**
+ * Database fixtures shared by the tests. Not part of the build.
+ */
+
+export interface ReconciliationFixture {
+  id: string;
+  invoiceId: string;
+  status?: string; // Defaults to full
+  sats?: number;
+  cents?: number;
+  currency?: string;
+  paymentStatus?: string | null;
+  paidAt?: string | null;
+  txids?: string[];
+  transactionId?: string | null;
+  transactionType?: string | null;
+  accountingProvider?: string | null;
+  createdAt?: string; // Defaults to now
+  processedAt?: string | null;
+  errorMessage?: string | null;
+}
+
+export interface PostingFixture {
+  reconciliationId: string;
+  sequence?: number; // Defaults to 1
+  accountingProvider?: string | null;
+  transactionId: string;
+  transactionType?: string | null;
+  sats: number;
+  cents: number;
+  paidAt?: string | null;
+  postedAt?: string; // Defaults to now
+  reversalMethod?: string | null; // Defaults to void when reversedAt is set
+  reversalTransactionId?: string | null;
+  reversedAt?: string | null;
+}
+
+export function insertReconciliation(fixture: ReconciliationFixture): void {
+  getDatabase()
+    .prepare(
+      `INSERT INTO reconciliations
+         (id, btcpay_invoice_id, accounting_transaction_id, accounting_transaction_type,
+          accounting_provider, amount_sats, amount_fiat, currency, status, payment_status, paid_at,
+          txids, created_at, processed_at, error_message)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP), ?, ?)`
+    )
+    .run(
+      fixture.id,
+      fixture.invoiceId,
+      fixture.transactionId ?? null,
+      fixture.transactionType ?? null,
+      fixture.accountingProvider ?? null,
+      fixture.sats ?? 0,
+      fixture.cents ?? 0,
+      fixture.currency ?? 'USD',
+      fixture.status ?? 'full',
+      fixture.paymentStatus ?? null,
+      fixture.paidAt ?? null,
+      fixture.txids ? JSON.stringify(fixture.txids) : null,
+      fixture.createdAt ?? null,
+      fixture.processedAt ?? null,
+      fixture.errorMessage ?? null
+    );
+}
+
+export function insertPosting(fixture: PostingFixture): void {
+  const sequence = fixture.sequence ?? 1;
+  getDatabase()
+    .prepare(
+      `INSERT INTO reconciliation_postings
+         (id, reconciliation_id, sequence, accounting_provider, transaction_id, transaction_type,
+          amount_sats, amount_fiat, paid_at, posted_at, reversal_method, reversal_transaction_id,
+          reversed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP), ?, ?, ?)`
+    )
+    .run(
+      `${fixture.reconciliationId}_${sequence}`,
+      fixture.reconciliationId,
+      sequence,
+      fixture.accountingProvider ?? null,
+      fixture.transactionId,
+      fixture.transactionType ?? null,
+      fixture.sats,
+      fixture.cents,
+      fixture.paidAt ?? null,
+      fixture.postedAt ?? null,
+      fixture.reversalMethod ?? (fixture.reversedAt ? 'void' : null),
+      fixture.reversalTransactionId ?? null,
+      fixture.reversedAt ?? null
+    );
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { initializeDatabase, closeDatabase } from './database';
+import { WebhookDelivery } from '../services/btcpay';
+import {
+  getDeliveriesToRedeliver,
+  getDeliveryHealth,
+  recordDeliveries,
+  recordRedelivery,
+} from './webhookDeliveries';
+
+const success = (id: string, timestamp: number): WebhookDelivery => ({
+  id,
+  timestamp,
+  httpCode: 200,
+  errorMessage: null,
+  status: 'HttpSuccess',
+});
+
+const failure = (
+  id: string,
+  timestamp: number,
+  httpCode: number | null = 502
+): WebhookDelivery => ({
+  id,
+  timestamp,
+  httpCode,
+  errorMessage: httpCode ? null : 'Connection refused',
+  status: httpCode ? 'HttpError' : 'Failed',
+});
+
+describe('webhook deliveries', () => {
+  beforeEach(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await initializeDatabase();
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should report a webhook without deliveries as having no failures', () => {
+    expect(getDeliveryHealth('webhook_123')).toEqual({
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      failureCount: 0,
+      lastError: null,
+    });
+  });
+
+  it('should summarise successes and failures', () => {
+    recordDeliveries('webhook_123', 'store_789', [
+      failure('delivery_3', 1700000300),
+      success('delivery_2', 1700000200),
+      failure('delivery_1', 1700000100, null),
+    ]);
+
+    expect(getDeliveryHealth('webhook_123')).toEqual({
+      lastSuccessAt: new Date(1700000200 * 1000).toISOString(),
+      lastFailureAt: new Date(1700000300 * 1000).toISOString(),
+      failureCount: 2,
+      lastError: 'HTTP 502',
+    });
+    expect(getDeliveriesToRedeliver('webhook_123', 3)).toEqual(['delivery_1', 'delivery_3']);
+  });
+
+  it('should count an event as recovered once a redelivery succeeds', () => {
+    recordDeliveries('webhook_123', 'store_789', [failure('delivery_1', 1700000100)]);
+    recordRedelivery('webhook_123', 'store_789', 'delivery_1', 'delivery_2');
+
+    // Waiting on BTCPay: neither redelivered again nor recovered
+    expect(getDeliveriesToRedeliver('webhook_123', 3)).toEqual([]);
+    expect(getDeliveryHealth('webhook_123').failureCount).toBe(1);
+
+    recordDeliveries('webhook_123', 'store_789', [
+      success('delivery_2', 1700000400),
+      failure('delivery_1', 1700000100),
+    ]);
+
+    expect(getDeliveryHealth('webhook_123').failureCount).toBe(0);
+    expect(getDeliveriesToRedeliver('webhook_123', 3)).toEqual([]);
+  });
+
+  it('should stop redelivering an event after the maximum number of attempts', () => {
+    recordDeliveries('webhook_123', 'store_789', [failure('delivery_1', 1700000100)]);
+    recordRedelivery('webhook_123', 'store_789', 'delivery_1', 'delivery_2');
+    recordDeliveries('webhook_123', 'store_789', [failure('delivery_2', 1700000200)]);
+
+    expect(getDeliveriesToRedeliver('webhook_123', 2)).toEqual(['delivery_2']);
+
+    recordRedelivery('webhook_123', 'store_789', 'delivery_2', 'delivery_3');
+    recordDeliveries('webhook_123', 'store_789', [failure('delivery_3', 1700000300)]);
+
+    expect(getDeliveriesToRedeliver('webhook_123', 2)).toEqual([]);
+    expect(getDeliveryHealth('webhook_123').failureCount).toBe(1);
+  });
+});
@@ -0,0 +1,174 @@
+import { getDatabase } from './database';
+import { WebhookDelivery } from '../services/btcpay';
+
+// Constants
+const SUCCESS_STATUS = 'HttpSuccess';
+const PENDING_STATUS = 'Pending'; // Redelivery requested, not yet reported back by BTCPay
+
+export interface WebhookDeliveryHealth {
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  failureCount: number; // Events whose deliveries (including redeliveries) all failed
+  lastError: string | null;
+}
+
+/**
+ * SQL for the root of a redelivery chain: the first delivery of the event
+ */
+function chainRoot(alias?: string): string {
+  const prefix = alias ? `${alias}.` : '';
+  return `COALESCE(${prefix}original_delivery_id, ${prefix}id)`;
+}
+
+/**
+ * Insert or refresh deliveries as reported by BTCPay
+ */
+export function recordDeliveries(
+  webhookId: string,
+  storeId: string | null,
+  deliveries: WebhookDelivery[]
+): void {
+  const db = getDatabase();
+  const upsert = db.prepare(`
+    INSERT INTO webhook_deliveries
+      (id, webhook_id, store_id, status, http_code, error_message, delivered_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      status = excluded.status,
+      http_code = excluded.http_code,
+      error_message = excluded.error_message,
+      delivered_at = excluded.delivered_at,
+      updated_at = CURRENT_TIMESTAMP
+  `);
+
+  db.transaction(() => {
+    for (const delivery of deliveries) {
+      upsert.run(
+        delivery.id,
+        webhookId,
+        storeId,
+        delivery.status,
+        delivery.httpCode,
+        delivery.errorMessage,
+        new Date(delivery.timestamp * 1000).toISOString()
+      );
+    }
+  })();
+}
+
+/**
+ * Remember that a failed delivery was sent again as newDeliveryId
+ */
+export function recordRedelivery(
+  webhookId: string,
+  storeId: string | null,
+  deliveryId: string,
+  newDeliveryId: string
+): void {
+  const db = getDatabase();
+  const now = new Date().toISOString();
+
+  db.transaction(() => {
+    const original = db
+      .prepare(`SELECT ${chainRoot()} AS root FROM webhook_deliveries WHERE id = ?`)
+      .get(deliveryId) as { root: string } | undefined;
+    db.prepare('UPDATE webhook_deliveries SET redelivered_at = ? WHERE id = ?').run(
+      now,
+      deliveryId
+    );
+    db.prepare(
+      `
+      INSERT OR IGNORE INTO webhook_deliveries
+        (id, webhook_id, store_id, status, original_delivery_id, delivered_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `
+    ).run(newDeliveryId, webhookId, storeId, PENDING_STATUS, original?.root ?? deliveryId, now);
+  })();
+}
+
+/**
+ * Failed deliveries worth sending again: the latest attempt of an event that never got
+ * through, not yet redelivered, with fewer than maxRedeliveries redeliveries so far
+ */
+export function getDeliveriesToRedeliver(webhookId: string, maxRedeliveries: number): string[] {
+  const rows = getDatabase()
+    .prepare(
+      `
+      SELECT d.id FROM webhook_deliveries d
+      WHERE d.webhook_id = ?
+        AND d.status NOT IN (?, ?)
+        AND d.redelivered_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM webhook_deliveries s
+          WHERE ${chainRoot('s')} = ${chainRoot('d')} AND s.status = ?
+        )
+        AND (
+          SELECT COUNT(*) FROM webhook_deliveries c
+          WHERE ${chainRoot('c')} = ${chainRoot('d')}
+        ) <= ?
+      ORDER BY d.delivered_at
+    `
+    )
+    .all(webhookId, SUCCESS_STATUS, PENDING_STATUS, SUCCESS_STATUS, maxRedeliveries) as {
+    id: string;
+  }[];
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Delivery health of a webhook from the deliveries recorded so far
+ */
+export function getDeliveryHealth(webhookId: string): WebhookDeliveryHealth {
+  const db = getDatabase();
+
+  const times = db
+    .prepare(
+      `
+      SELECT
+        MAX(CASE WHEN status = ? THEN delivered_at END) AS last_success_at,
+        MAX(CASE WHEN status NOT IN (?, ?) THEN delivered_at END) AS last_failure_at
+      FROM webhook_deliveries WHERE webhook_id = ?
+    `
+    )
+    .get(SUCCESS_STATUS, SUCCESS_STATUS, PENDING_STATUS, webhookId) as {
+    last_success_at: string | null;
+    last_failure_at: string | null;
+  };
+
+  const { failure_count } = db
+    .prepare(
+      `
+      SELECT COUNT(*) AS failure_count FROM (
+        SELECT ${chainRoot()} AS root FROM webhook_deliveries
+        WHERE webhook_id = ?
+        GROUP BY root
+        HAVING SUM(status = ?) = 0 AND SUM(status NOT IN (?, ?)) > 0
+      )
+    `
+    )
+    .get(webhookId, SUCCESS_STATUS, SUCCESS_STATUS, PENDING_STATUS) as {
+    failure_count: number;
+  };
+
+  const lastFailure = db
+    .prepare(
+      `
+      SELECT http_code, error_message FROM webhook_deliveries
+      WHERE webhook_id = ? AND status NOT IN (?, ?)
+      ORDER BY delivered_at DESC LIMIT 1
+    `
+    )
+    .get(webhookId, SUCCESS_STATUS, PENDING_STATUS) as
+    | { http_code: number | null; error_message: string | null }
+    | undefined;
+
+  return {
+    lastSuccessAt: times.last_success_at,
+    lastFailureAt: times.last_failure_at,
+    failureCount: failure_count,
+    lastError: lastFailure
+      ? lastFailure.error_message ||
+        (lastFailure.http_code ? `HTTP ${lastFailure.http_code}` : 'Delivery failed')
+      : null,
+  };
+}
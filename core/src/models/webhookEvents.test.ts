@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { initializeDatabase, getDatabase, closeDatabase } from './database';
+import { NewWebhookEvent, storeWebhookEvent, webhookEventDedupeKey } from './webhookEvents';
+
+const settled: NewWebhookEvent = {
+  eventType: 'InvoiceSettled',
+  invoiceId: 'invoice_456',
+  storeId: 'store_789',
+  payload: { type: 'InvoiceSettled', invoiceId: 'invoice_456' },
+  webhookId: 'webhook_123',
+  deliveryId: 'delivery_1',
+  originalDeliveryId: 'delivery_1',
+};
+
+function storedEventCount(): number {
+  return (
+    getDatabase().prepare('SELECT COUNT(*) AS count FROM webhook_events').get() as {
+      count: number;
+    }
+  ).count;
+}
+
+describe('webhook events', () => {
+  beforeEach(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await initializeDatabase();
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should key events on the webhook and original delivery', () => {
+    expect(storeWebhookEvent(settled)).toEqual({
+      id: 'webhook_123:delivery_1',
+      duplicate: false,
+    });
+
+    const row = getDatabase()
+      .prepare('SELECT webhook_id, delivery_id, dedupe_key FROM webhook_events')
+      .get();
+    expect(row).toEqual({
+      webhook_id: 'webhook_123',
+      delivery_id: 'delivery_1',
+      dedupe_key: 'InvoiceSettled:invoice_456',
+    });
+  });
+
+  it('should treat a BTCPay redelivery as a duplicate of the original delivery', () => {
+    storeWebhookEvent(settled);
+
+    const result = storeWebhookEvent({ ...settled, deliveryId: 'delivery_2' });
+
+    expect(result).toEqual({ id: 'webhook_123:delivery_1', duplicate: true });
+    expect(storedEventCount()).toBe(1);
+  });
+
+  it('should dedupe logically identical events from different deliveries', () => {
+    storeWebhookEvent(settled);
+
+    // A second webhook (or a backfill) reporting the same settlement
+    const result = storeWebhookEvent({
+      ...settled,
+      webhookId: 'webhook_999',
+      deliveryId: 'delivery_9',
+      originalDeliveryId: 'delivery_9',
+    });
+
+    expect(result).toEqual({ id: 'webhook_123:delivery_1', duplicate: true });
+    expect(storedEventCount()).toBe(1);
+  });
+
+  it('should keep separate payment events for the same invoice', () => {
+    const payment = { ...settled, eventType: 'InvoicePaymentSettled' };
+    storeWebhookEvent({ ...payment, deliveryId: 'd1', originalDeliveryId: 'd1', paymentId: 'p1' });
+    const second = storeWebhookEvent({
+      ...payment,
+      deliveryId: 'd2',
+      originalDeliveryId: 'd2',
+      paymentId: 'p2',
+    });
+
+    expect(second.duplicate).toBe(false);
+    expect(storedEventCount()).toBe(2);
+  });
+
+  it('should not dedupe events that are not about an invoice', () => {
+    expect(webhookEventDedupeKey({ ...settled, invoiceId: null })).toBeNull();
+
+    storeWebhookEvent({ ...settled, invoiceId: null });
+    storeWebhookEvent({
+      ...settled,
+      invoiceId: null,
+      deliveryId: 'delivery_2',
+      originalDeliveryId: 'delivery_2',
+    });
+
+    expect(storedEventCount()).toBe(2);
+  });
+
+  it('should fall back to an explicit ID for events without delivery details', () => {
+    const result = storeWebhookEvent({
+      eventType: 'InvoiceSettled',
+      invoiceId: 'invoice_1',
+      storeId: 'store_789',
+      payload: {},
+      id: 'backfill_invoice_1',
+    });
+
+    expect(result).toEqual({ id: 'backfill_invoice_1', duplicate: false });
+  });
+});
@@ -0,0 +1,79 @@
+import { getDatabase } from './database';
+
+export interface NewWebhookEvent {
+  eventType: string;
+  invoiceId: string | null;
+  storeId: string | null;
+  payload: unknown;
+  webhookId?: string | null;
+  deliveryId?: string | null;
+  originalDeliveryId?: string | null; // Set by BTCPay on redeliveries, equal to deliveryId otherwise
+  paymentId?: string | null; // Payment-level events (InvoicePaymentSettled, InvoiceReceivedPayment)
+  id?: string; // Explicit ID for events we synthesize ourselves (e.g. backfill)
+}
+
+export interface StoredWebhookEvent {
+  id: string;
+  duplicate: boolean; // Already stored - either the same delivery or a logically identical event
+}
+
+/**
+ * Stable ID for an event: BTCPay keeps originalDeliveryId across redeliveries of one event
+ */
+export function webhookEventId(event: NewWebhookEvent): string {
+  const deliveryId = event.originalDeliveryId || event.deliveryId;
+  if (event.webhookId && deliveryId) {
+    return `${event.webhookId}:${deliveryId}`;
+  }
+  return event.id ?? `webhook_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * Key shared by logically identical events: one per event type and invoice, or per payment
+ * for payment-level events. Null when the event isn't about an invoice.
+ */
+export function webhookEventDedupeKey(event: NewWebhookEvent): string | null {
+  if (!event.invoiceId) {
+    return null;
+  }
+  const key = `${event.eventType}:${event.invoiceId}`;
+  return event.paymentId ? `${key}:${event.paymentId}` : key;
+}
+
+/**
+ * Store an incoming event once. Replays and logically identical events are reported as
+ * duplicates along with the ID of the event that was stored first.
+ */
+export function storeWebhookEvent(event: NewWebhookEvent): StoredWebhookEvent {
+  const db = getDatabase();
+  const id = webhookEventId(event);
+  const dedupeKey = webhookEventDedupeKey(event);
+
+  const result = db
+    .prepare(
+      `
+      INSERT OR IGNORE INTO webhook_events
+        (id, event_type, invoice_id, store_id, payload, webhook_id, delivery_id, dedupe_key)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `
+    )
+    .run(
+      id,
+      event.eventType,
+      event.invoiceId,
+      event.storeId,
+      JSON.stringify(event.payload),
+      event.webhookId ?? null,
+      event.deliveryId ?? null,
+      dedupeKey
+    );
+
+  if (result.changes > 0) {
+    return { id, duplicate: false };
+  }
+
+  const existing = db
+    .prepare('SELECT id FROM webhook_events WHERE id = ? OR dedupe_key = ? LIMIT 1')
+    .get(id, dedupeKey) as { id: string } | undefined;
+  return { id: existing?.id ?? id, duplicate: true };
+}
@@ -0,0 +1,23 @@
+import { closeDatabase, initializeDatabase } from './models/database';
+import { appApiKey } from './services/appApiKey';
+
+/**
+ * Recovery for a lost app API key (e.g. nobody claimed it within the bootstrap window).
+ * Rotates the key and prints the new one once; run it where the app's database lives:
+ *   cd core && npm run reset-api-key
+ *   docker exec <container> node core/dist/resetApiKey.js
+ */
+async function resetApiKey() {
+  await initializeDatabase();
+  try {
+    const apiKey = appApiKey.rotate();
+    console.log(`🔑 New app API key (shown only this once, paste it into the web UI):\n${apiKey}`);
+  } finally {
+    closeDatabase();
+  }
+}
+
+resetApiKey().catch((error) => {
+  console.error('❌ Failed to reset the app API key:', error);
+  process.exit(1);
+});
@@ -0,0 +1,199 @@
+import { PaymentStatus } from '../jobs/syncWorker';
+import { getConfigValue, setConfigValue } from '../models/config';
+import { quickbooksProvider } from './quickbooks';
+import { xeroProvider } from './xero';
+import { ErrorKind } from '../utils/retry';
+
+// Constants
+const PROVIDER_CONFIG_KEY = 'accounting_provider';
+
+export type ReconciliationMode = 'deposit' | 'invoicing';
+export type AccountingProviderId = 'quickbooks' | 'xero';
+
+export const ACCOUNTING_PROVIDERS: AccountingProviderId[] = ['quickbooks', 'xero'];
+
+/**
+ * Where reconciled payments land in the books, as provider IDs (all optional)
+ */
+export interface AccountMapping {
+  depositAccountId?: string; // Bank account deposits land in
+  incomeAccountId?: string; // Income account credited by deposits
+  itemId?: string; // Product/service used on sales receipt lines
+  customerId?: string; // Default customer for deposits and sales receipts
+  paymentMethodId?: string; // e.g. a "Bitcoin" payment method
+  taxCodeId?: string; // Tax code applied to deposit and sales receipt lines
+}
+
+/**
+ * Normalized payment handed to an accounting provider.
+ * Amounts are in major currency units (e.g. dollars) - providers take decimals, not cents.
+ */
+export interface ReconciliationPayload {
+  invoiceId: string; // BTCPayServer invoice ID
+  sequence: number; // Which posting of the invoice this is: 1, then one more per later payment
+  amount: number; // Amount to post (invoice amount for overpayments in deposit mode)
+  invoiceAmount: number; // Original invoice price
+  amountSats: number;
+  currency: string;
+  paidAt: string; // ISO 8601
+  paymentStatus: PaymentStatus;
+  mode: ReconciliationMode;
+  accounts: AccountMapping;
+  customerEmail?: string;
+  notes: string;
+}
+
+/**
+ * Payment applied against an invoice that already exists in the accounting system
+ */
+export interface InvoicePaymentPayload extends ReconciliationPayload {
+  accountingInvoiceId: string;
+}
+
+/**
+ * Money returned to the buyer of a reconciled invoice (a completed BTCPay refund)
+ */
+export interface RefundPayload {
+  refundId: string; // BTCPay pull payment ID
+  invoiceId: string; // BTCPayServer invoice ID that was refunded
+  amount: number; // In major units of the invoice currency
+  currency: string;
+  refundedAt: string; // ISO 8601
+  accounts: AccountMapping;
+  accountingInvoiceId?: string; // Set when the payment was applied to an invoice
+  notes: string;
+}
+
+export interface ProviderResult {
+  success: boolean;
+  transactionId?: string;
+  transactionType?: string; // e.g. Deposit, SalesReceipt, Payment, RefundReceipt
+  amount?: number; // What was actually posted, for payments capped at an invoice balance
+  error?: string;
+  errorKind?: ErrorKind; // Whether retrying may help; failures without one count as transient
+}
+
+/**
+ * A posted transaction to take back out of the books, e.g. after its invoice was invalidated
+ */
+export interface ReversalPayload {
+  invoiceId: string; // BTCPayServer invoice ID
+  transactionId: string;
+  transactionType: string | null; // As reported when it was posted; null if unknown
+  reason: string;
+  reversedAt: string; // ISO 8601
+}
+
+export interface ReversalResult extends ProviderResult {
+  method?: 'void' | 'journal_entry'; // How the transaction was taken out of the books
+}
+
+export interface ProviderHealth {
+  connected: boolean;
+  companyName?: string;
+  error?: string;
+}
+
+export interface ProviderInvoice {
+  id: string;
+  docNumber?: string;
+  customerId?: string;
+  customerName?: string;
+  customerEmail?: string; // Where the provider sends the invoice
+  totalAmount: number;
+  balance: number;
+  currency?: string;
+}
+
+export interface ProviderAccount {
+  id: string;
+  name: string;
+  type: string; // Provider account type, e.g. Bank, Income
+}
+
+export interface ProviderListItem {
+  id: string;
+  name: string;
+}
+
+/**
+ * Everything an account mapping can point at, for the settings dropdowns
+ */
+export interface ChartOfAccounts {
+  accounts: ProviderAccount[];
+  customers: ProviderListItem[];
+  paymentMethods: ProviderListItem[];
+  taxCodes: ProviderListItem[];
+}
+
+export interface InvoiceQuery {
+  id?: string;
+  docNumber?: string;
+}
+
+/**
+ * Contract every accounting backend implements so the reconciliation pipeline
+ * doesn't care whether the books live in QuickBooks or somewhere else.
+ * Methods report failures through their return values rather than throwing.
+ */
+export interface AccountingProvider {
+  readonly id: AccountingProviderId; // Recorded on everything posted, to find it again later
+  readonly name: string;
+
+  /** Whether credentials are present (not whether they still work - see health()) */
+  isConfigured(): boolean;
+
+  /** Record a payment as a deposit / sales receipt */
+  reconcileDeposit(payload: ReconciliationPayload): Promise<ProviderResult>;
+
+  /** Apply a payment to an existing invoice */
+  reconcileInvoicePayment(payload: InvoicePaymentPayload): Promise<ProviderResult>;
+
+  /** Record a refund of a reconciled payment, against its invoice when there is one */
+  reconcileRefund(payload: RefundPayload): Promise<ProviderResult>;
+
+  /** Void a posted transaction, or offset it with a journal entry where it can't be voided */
+  reverseTransaction(payload: ReversalPayload): Promise<ReversalResult>;
+
+  /** Check the credentials against the provider API */
+  health(): Promise<ProviderHealth>;
+
+  /** Look up an invoice by provider ID or document number */
+  findInvoice(query: InvoiceQuery): Promise<ProviderInvoice | null>;
+
+  /** Accounts, customers, payment methods and tax codes to map payments to */
+  getChartOfAccounts(): Promise<ChartOfAccounts | null>;
+}
+
+const PROVIDERS: Record<AccountingProviderId, AccountingProvider> = {
+  quickbooks: quickbooksProvider,
+  xero: xeroProvider,
+};
+
+/**
+ * Which accounting system the merchant chose. Installs from before Xero support use QuickBooks.
+ */
+export function getAccountingProviderId(): AccountingProviderId {
+  try {
+    const id = getConfigValue(PROVIDER_CONFIG_KEY) as AccountingProviderId | undefined;
+    return id && ACCOUNTING_PROVIDERS.includes(id) ? id : 'quickbooks';
+  } catch (error) {
+    console.error('Failed to load the accounting provider:', error);
+    return 'quickbooks';
+  }
+}
+
+export function setAccountingProviderId(id: AccountingProviderId): void {
+  setConfigValue(PROVIDER_CONFIG_KEY, id);
+}
+
+/**
+ * The provider reconciliations are posted to, or null if it isn't connected yet.
+ * Pass the provider recorded on a posted row to reach the books that hold it.
+ */
+export function getAccountingProvider(
+  id: AccountingProviderId = getAccountingProviderId()
+): AccountingProvider | null {
+  const provider = PROVIDERS[id];
+  return provider?.isConfigured() ? provider : null;
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { initializeDatabase, getDatabase, closeDatabase } from '../models/database';
+import { getConfigValue } from '../models/config';
+import { _resetEncryptionKeyForTesting } from '../utils/crypto';
+import { AppApiKeyManager } from './appApiKey';
+
+describe('AppApiKeyManager', () => {
+  let manager: AppApiKeyManager;
+  let tmpDir: string;
+  const originalEnv = { ...process.env };
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sm-api-key-'));
+    process.env.DATABASE_PATH = ':memory:';
+    process.env.ENCRYPTION_KEY_PATH = path.join(tmpDir, 'encryption.key');
+    _resetEncryptionKeyForTesting();
+    await initializeDatabase();
+    manager = new AppApiKeyManager();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    closeDatabase();
+    process.env = { ...originalEnv };
+    _resetEncryptionKeyForTesting();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should generate a key on first boot and store only its hash', () => {
+    expect(manager.initialize()).toBe(true);
+
+    const apiKey = manager.claimInitialKey()!;
+    expect(apiKey).toMatch(/^[0-9a-f]{64}$/);
+
+    const rows = getDatabase().prepare('SELECT key, value FROM config').all() as {
+      key: string;
+      value: string;
+    }[];
+    expect(rows.some((row) => row.value.includes(apiKey))).toBe(false);
+    expect(getConfigValue('app_api_key_hash')).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should not regenerate the key on later boots', () => {
+    manager.initialize();
+    const hash = getConfigValue('app_api_key_hash');
+
+    expect(manager.initialize()).toBe(false);
+    expect(getConfigValue('app_api_key_hash')).toBe(hash);
+  });
+
+  it('should verify the key and reject anything else', () => {
+    manager.initialize();
+    const apiKey = manager.claimInitialKey()!;
+
+    expect(manager.verify(apiKey)).toBe(true);
+    expect(manager.verify('wrong')).toBe(false);
+    expect(manager.verify('')).toBe(false);
+  });
+
+  it('should hand out the initial key only once', () => {
+    manager.initialize();
+
+    expect(manager.claimInitialKey()).not.toBeNull();
+    expect(manager.claimInitialKey()).toBeNull();
+    expect(manager.isBootstrapOpen()).toBe(false);
+  });
+
+  it('should close the bootstrap window after ten minutes', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-10-31T12:00:00Z'));
+    manager.initialize();
+    expect(manager.isBootstrapOpen()).toBe(true);
+
+    vi.setSystemTime(new Date('2025-10-31T12:11:00Z'));
+    expect(manager.isBootstrapOpen()).toBe(false);
+    expect(manager.claimInitialKey()).toBeNull();
+  });
+
+  it('should invalidate the old key on rotation', () => {
+    manager.initialize();
+    const oldKey = manager.claimInitialKey()!;
+
+    const newKey = manager.rotate();
+
+    expect(newKey).not.toBe(oldKey);
+    expect(manager.verify(oldKey)).toBe(false);
+    expect(manager.verify(newKey)).toBe(true);
+  });
+
+  it('should scope download tokens to their path and revoke them on rotation', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-10-31T12:00:00Z'));
+    manager.initialize();
+
+    const { token, expiresAt } = manager.issueDownloadToken('/api/export/payments')!;
+
+    expect(expiresAt).toBe('2025-10-31T12:01:00.000Z');
+    expect(manager.verifyDownloadToken(token, '/api/export/payments')).toBe(true);
+    expect(manager.verifyDownloadToken(token, '/api/export/errors')).toBe(false);
+
+    vi.setSystemTime(new Date('2025-10-31T12:02:00Z'));
+    expect(manager.verifyDownloadToken(token, '/api/export/payments')).toBe(false);
+
+    const fresh = manager.issueDownloadToken('/api/export/payments')!;
+    manager.rotate();
+    expect(manager.verifyDownloadToken(fresh.token, '/api/export/payments')).toBe(false);
+  });
+});
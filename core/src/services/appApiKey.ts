@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { deleteConfigValue, getConfigValue, setConfigValue } from '../models/config';
+import { writeLog } from '../utils/logger';
+import { signDownloadToken, verifyDownloadToken } from '../utils/signing';
+
+// Constants
+const API_KEY_BYTES = 32;
+const BOOTSTRAP_WINDOW_MINUTES = 10;
+const HASH_CONFIG_KEY = 'app_api_key_hash';
+const INITIAL_KEY_CONFIG_KEY = 'app_api_key_initial'; // Encrypted, deleted once retrieved
+const INITIAL_KEY_EXPIRES_CONFIG_KEY = 'app_api_key_initial_expires_at';
+const DOWNLOAD_TOKEN_TTL_SECONDS = 60;
+
+function hashApiKey(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey, 'utf8').digest('hex');
+}
+
+/**
+ * The API key that protects our own /api routes (not to be confused with the BTCPay API key).
+ * Only the SHA-256 hash is kept long-term; the plaintext is handed out once through the
+ * bootstrap window after first boot, or returned by rotate().
+ */
+export class AppApiKeyManager {
+  /**
+   * Generate the key on first boot. Returns true if a new key was created.
+   */
+  initialize(): boolean {
+    if (getConfigValue(HASH_CONFIG_KEY)) {
+      return false;
+    }
+
+    const apiKey = this.storeNewKey();
+    const expiresAt = new Date(Date.now() + BOOTSTRAP_WINDOW_MINUTES * 60 * 1000).toISOString();
+    setConfigValue(INITIAL_KEY_CONFIG_KEY, apiKey, { encrypted: true });
+    setConfigValue(INITIAL_KEY_EXPIRES_CONFIG_KEY, expiresAt);
+
+    console.log(
+      `🔑 Generated app API key - open the web UI within ${BOOTSTRAP_WINDOW_MINUTES} minutes to claim it`
+    );
+    writeLog('info', 'Generated app API key', { bootstrapExpiresAt: expiresAt });
+    return true;
+  }
+
+  /**
+   * Constant-time check of a presented key against the stored hash
+   */
+  verify(apiKey: string): boolean {
+    const storedHash = getConfigValue(HASH_CONFIG_KEY);
+    if (!storedHash || !apiKey) {
+      return false;
+    }
+    const presented = Buffer.from(hashApiKey(apiKey), 'hex');
+    const expected = Buffer.from(storedHash, 'hex');
+    return presented.length === expected.length && crypto.timingSafeEqual(presented, expected);
+  }
+
+  /**
+   * Hand out the first-boot key exactly once, within the bootstrap window
+   */
+  claimInitialKey(): string | null {
+    const apiKey = getConfigValue(INITIAL_KEY_CONFIG_KEY);
+    const expiresAt = getConfigValue(INITIAL_KEY_EXPIRES_CONFIG_KEY);
+    this.closeBootstrapWindow();
+
+    if (!apiKey || !expiresAt || Date.parse(expiresAt) < Date.now()) {
+      return null;
+    }
+
+    writeLog('info', 'Initial app API key retrieved');
+    return apiKey;
+  }
+
+  /**
+   * Whether the one-time bootstrap key is still waiting to be claimed
+   */
+  isBootstrapOpen(): boolean {
+    const expiresAt = getConfigValue(INITIAL_KEY_EXPIRES_CONFIG_KEY);
+    return !!expiresAt && Date.parse(expiresAt) >= Date.now();
+  }
+
+  /**
+   * Forget the unclaimed bootstrap key (e.g. once a key has been used successfully)
+   */
+  closeBootstrapWindow(): void {
+    deleteConfigValue(INITIAL_KEY_CONFIG_KEY);
+    deleteConfigValue(INITIAL_KEY_EXPIRES_CONFIG_KEY);
+  }
+
+  /**
+   * Replace the key, invalidating the old one. Returns the new plaintext key.
+   */
+  rotate(): string {
+    const apiKey = this.storeNewKey();
+    this.closeBootstrapWindow();
+    console.log('🔑 App API key rotated');
+    writeLog('info', 'App API key rotated');
+    return apiKey;
+  }
+
+  /**
+   * A short-lived token that authorizes a single download path in place of the key.
+   * Signed with the stored key hash, so rotating the key also revokes outstanding tokens.
+   */
+  issueDownloadToken(path: string): { token: string; expiresAt: string } | null {
+    const storedHash = getConfigValue(HASH_CONFIG_KEY);
+    if (!storedHash) {
+      return null;
+    }
+    const expiresAt = Math.floor(Date.now() / 1000) + DOWNLOAD_TOKEN_TTL_SECONDS;
+    return {
+      token: signDownloadToken(path, expiresAt, storedHash),
+      expiresAt: new Date(expiresAt * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Whether a download token is valid for this path
+   */
+  verifyDownloadToken(token: string, path: string): boolean {
+    const storedHash = getConfigValue(HASH_CONFIG_KEY);
+    return !!storedHash && verifyDownloadToken(token, path, storedHash);
+  }
+
+  private storeNewKey(): string {
+    const apiKey = crypto.randomBytes(API_KEY_BYTES).toString('hex');
+    setConfigValue(HASH_CONFIG_KEY, hashApiKey(apiKey));
+    return apiKey;
+  }
+}
+
+// Singleton instance
+export const appApiKey = new AppApiKeyManager();
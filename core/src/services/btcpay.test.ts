@@ -1,6 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import axios from 'axios';
-import { BTCPayServer } from './btcpay';
+import {
+  BTCPayServer,
+  findMissingPermissions,
+  getDiscoveryCandidates,
+  normalizeBTCPayUrl,
+} from './btcpay';
+import { deleteConfigValue, getConfigValue, setConfigValue } from '../models/config';
 
 // Mock axios
 vi.mock('axios');
@@ -10,12 +16,16 @@ const mockedAxios = vi.mocked(axios);
 const createMockClient = () => ({
   get: vi.fn(),
   post: vi.fn(),
+  put: vi.fn(),
+  delete: vi.fn(),
 });
 
 // Mock axios client interface
 interface MockAxiosClient {
   get: ReturnType<typeof vi.fn>;
   post: ReturnType<typeof vi.fn>;
+  put?: ReturnType<typeof vi.fn>;
+  delete?: ReturnType<typeof vi.fn>;
 }
 
 // Mock the database module
@@ -28,6 +38,13 @@ vi.mock('../models/database', () => ({
   })),
 }));
 
+// Mock the config store (encrypted values)
+vi.mock('../models/config', () => ({
+  getConfigValue: vi.fn(),
+  setConfigValue: vi.fn(),
+  deleteConfigValue: vi.fn(),
+}));
+
 describe('BTCPayServer', () => {
   let btcpayClient: BTCPayServer;
 
@@ -63,6 +80,257 @@ describe('BTCPayServer', () => {
     });
   });
 
+  describe('URL configuration', () => {
+    it('should only use the saved URL once one has been chosen', async () => {
+      vi.mocked(getConfigValue).mockImplementation((key) =>
+        key === 'btcpay_url' ? 'https://btcpay.example.com' : undefined
+      );
+      const mockClient = { get: vi.fn().mockRejectedValue(new Error('ECONNREFUSED')) };
+      mockedAxios.create.mockReturnValue(mockClient as MockAxiosClient);
+
+      expect(await btcpayClient.isConnected()).toBe(false);
+
+      expect(mockedAxios.create).toHaveBeenCalledTimes(1);
+      expect(mockedAxios.create).toHaveBeenCalledWith(
+        expect.objectContaining({ baseURL: 'https://btcpay.example.com' })
+      );
+    });
+
+    it('should send the API key to the discovered URL only, and save it once accepted', async () => {
+      vi.mocked(getConfigValue).mockImplementation((key) =>
+        key === 'btcpay_api_key' ? 'good_key' : undefined
+      );
+      const mockClient = {
+        get: vi
+          .fn()
+          .mockRejectedValueOnce(new Error('ENOTFOUND'))
+          .mockResolvedValueOnce({ status: 401 })
+          .mockResolvedValue({ status: 200, data: {} }),
+      };
+      mockedAxios.create.mockReturnValue(mockClient as MockAxiosClient);
+
+      expect(await btcpayClient.isAuthenticated()).toBe(true);
+
+      const [first, second] = getDiscoveryCandidates();
+      const requests = mockedAxios.create.mock.calls.map(([config]) => [
+        config?.baseURL,
+        config?.headers?.Authorization,
+      ]);
+      expect(requests).toEqual([
+        [first.url, undefined],
+        [second.url, undefined],
+        [second.url, 'Bearer good_key'],
+        [second.url, 'Bearer good_key'], // Main client
+      ]);
+      expect(setConfigValue).toHaveBeenCalledWith('btcpay_url', second.url);
+      expect(btcpayClient.getUrl()).toBe(second.url);
+    });
+
+    it('should not save a discovered URL that rejects the API key', async () => {
+      vi.mocked(getConfigValue).mockImplementation((key) =>
+        key === 'btcpay_api_key' ? 'bad_key' : undefined
+      );
+      const mockClient = { get: vi.fn().mockResolvedValue({ status: 401 }) };
+      mockedAxios.create.mockReturnValue(mockClient as MockAxiosClient);
+
+      expect(await btcpayClient.isConnected()).toBe(true);
+      expect(await btcpayClient.isAuthenticated()).toBe(false);
+
+      const [first] = getDiscoveryCandidates();
+      expect(setConfigValue).not.toHaveBeenCalledWith('btcpay_url', expect.anything());
+      expect(btcpayClient.getUrl()).toBe(first.url); // Still used to link to BTCPay
+    });
+
+    it('should not save a discovered URL before there is an API key', async () => {
+      const mockClient = { get: vi.fn().mockResolvedValue({ status: 401 }) };
+      mockedAxios.create.mockReturnValue(mockClient as MockAxiosClient);
+
+      expect(await btcpayClient.isConnected()).toBe(true);
+
+      expect(setConfigValue).not.toHaveBeenCalled();
+    });
+
+    it('should save the URL and key only when BTCPay accepts the key', async () => {
+      const mockClient = {
+        get: vi
+          .fn()
+          .mockResolvedValueOnce({ status: 401 })
+          .mockResolvedValueOnce({ status: 200, data: { version: '1.13.5' } }),
+      };
+      mockedAxios.create.mockReturnValue(mockClient as MockAxiosClient);
+
+      const rejected = await btcpayClient.configure('https://btcpay.example.com', 'bad_key');
+      expect(rejected).toMatchObject({ reachable: true, authenticated: false });
+      expect(setConfigValue).not.toHaveBeenCalled();
+
+      const accepted = await btcpayClient.configure('https://btcpay.example.com', 'good_key');
+      expect(accepted).toMatchObject({ authenticated: true, version: '1.13.5' });
+      expect(setConfigValue).toHaveBeenCalledWith('btcpay_url', 'https://btcpay.example.com');
+      expect(setConfigValue).toHaveBeenCalledWith('btcpay_api_key', 'good_key', {
+        encrypted: true,
+      });
+    });
+
+    it('should report the result of every discovery candidate', async () => {
+      const mockClient = {
+        get: vi
+          .fn()
+          .mockResolvedValueOnce({ status: 404 })
+          .mockResolvedValueOnce({ status: 401 })
+          .mockRejectedValue(new Error('ENOTFOUND')),
+      };
+      mockedAxios.create.mockReturnValue(mockClient as MockAxiosClient);
+
+      const results = await btcpayClient.discover();
+
+      expect(results).toHaveLength(getDiscoveryCandidates().length);
+      expect(results[0]).toMatchObject({
+        reachable: false,
+        error: 'Unexpected response (HTTP 404)',
+      });
+      expect(results[1]).toMatchObject({ reachable: true, authenticated: false });
+      expect(results[2]).toMatchObject({ reachable: false, error: 'ENOTFOUND' });
+      expect(setConfigValue).not.toHaveBeenCalled();
+    });
+
+    it('should check the API key against the chosen discovery candidate only', async () => {
+      vi.mocked(getConfigValue).mockImplementation((key) =>
+        key === 'btcpay_api_key' ? 'good_key' : undefined
+      );
+      mockedAxios.create.mockImplementation((config) => {
+        const chosen = config?.baseURL === getDiscoveryCandidates()[1].url;
+        const status = chosen ? (config?.headers?.Authorization ? 200 : 401) : 404;
+        return {
+          get: vi.fn().mockResolvedValue({ status, data: { version: '1.13.5' } }),
+        } as unknown as ReturnType<typeof axios.create>;
+      });
+
+      const results = await btcpayClient.discover();
+
+      expect(results[1]).toMatchObject({ reachable: true, authenticated: true, version: '1.13.5' });
+      const withKey = mockedAxios.create.mock.calls.filter(
+        ([config]) => config?.headers?.Authorization
+      );
+      expect(withKey.map(([config]) => config?.baseURL)).toEqual([getDiscoveryCandidates()[1].url]);
+    });
+
+    describe('getDiscoveryCandidates', () => {
+      const env = { ...process.env };
+
+      afterEach(() => {
+        process.env = { ...env };
+      });
+
+      it('should probe Umbrel, Start9 and HTTPS conventions', () => {
+        delete process.env.BTCPAY_URL;
+        delete process.env.BTCPAY_ONION_URL;
+        const sources = new Set(getDiscoveryCandidates().map(({ source }) => source));
+
+        expect([...sources]).toEqual(['umbrel', 'start9', 'https']);
+      });
+
+      it('should try configured and onion URLs too, without duplicates', () => {
+        process.env.BTCPAY_URL = 'http://umbrel.local:3003/';
+        process.env.BTCPAY_ONION_URL = 'btcpayexampleonionaddress.onion';
+        const candidates = getDiscoveryCandidates();
+
+        expect(candidates[0]).toEqual({ url: 'http://umbrel.local:3003', source: 'environment' });
+        expect(candidates.filter(({ url }) => url === 'http://umbrel.local:3003')).toHaveLength(1);
+        expect(candidates[candidates.length - 1]).toEqual({
+          url: 'http://btcpayexampleonionaddress.onion',
+          source: 'onion',
+        });
+      });
+    });
+
+    it.each([
+      ['https://btcpay.example.com/', 'https://btcpay.example.com'],
+      ['  http://10.21.21.9:3003  ', 'http://10.21.21.9:3003'],
+      ['https://example.com/btcpay/', 'https://example.com/btcpay'],
+      ['ftp://btcpay.example.com', null],
+      ['not a url', null],
+    ])('should normalize %j to %j', (input, expected) => {
+      expect(normalizeBTCPayUrl(input)).toBe(expected);
+    });
+  });
+
+  describe('API key permissions', () => {
+    it('should accept unscoped, store-scoped and broader permissions', () => {
+      expect(
+        findMissingPermissions(
+          [
+            'btcpay.store.canviewinvoices',
+            'btcpay.store.webhooks.canmodifywebhooks:store_1',
+            'btcpay.store.canmodifystoresettings:store_1',
+          ],
+          'store_1'
+        )
+      ).toEqual([]);
+      expect(findMissingPermissions(['unrestricted'], 'store_1')).toEqual([]);
+    });
+
+    it('should reject permissions scoped to another store', () => {
+      const granted = [
+        'btcpay.store.canviewinvoices:store_2',
+        'btcpay.store.webhooks.canmodifywebhooks:store_2',
+        'btcpay.store.canviewstoresettings',
+      ];
+
+      expect(findMissingPermissions(granted, 'store_1')).toEqual([
+        'btcpay.store.canviewinvoices',
+        'btcpay.store.webhooks.canmodifywebhooks',
+        'btcpay.store.canmodifyinvoices',
+        'btcpay.store.canviewpullpayments',
+      ]);
+      // Until a store is chosen, a grant on any store will do
+      expect(findMissingPermissions(granted, null)).toEqual([
+        'btcpay.store.canmodifyinvoices',
+        'btcpay.store.canviewpullpayments',
+      ]);
+    });
+
+    it('should read the current key and link to an authorization for the store', async () => {
+      vi.mocked(getConfigValue).mockImplementation((key) => {
+        if (key === 'btcpay_selected_store_id') return 'store_1';
+        if (key === 'btcpay_url') return 'https://btcpay.example.com';
+        return undefined;
+      });
+      const mockClient = createMockClient();
+      mockClient.get
+        .mockResolvedValueOnce({ status: 200 }) // Connection check
+        .mockResolvedValueOnce({
+          data: { apiKey: 'key_123', permissions: ['btcpay.store.canviewinvoices:store_1'] },
+        });
+      mockedAxios.create.mockReturnValue(mockClient);
+
+      const check = await btcpayClient.checkPermissions();
+
+      expect(mockClient.get).toHaveBeenLastCalledWith('/api/v1/api-keys/current');
+      expect(check?.missing).toEqual([
+        'btcpay.store.webhooks.canmodifywebhooks',
+        'btcpay.store.canviewstoresettings',
+        'btcpay.store.canmodifyinvoices',
+        'btcpay.store.canviewpullpayments',
+      ]);
+      const authorizeUrl = new URL(check!.authorizeUrl!);
+      expect(authorizeUrl.origin + authorizeUrl.pathname).toBe(
+        'https://btcpay.example.com/api-keys/authorize'
+      );
+      expect(authorizeUrl.searchParams.get('applicationName')).toBe('Sovereign Merchant');
+      expect(authorizeUrl.searchParams.getAll('permissions')).toEqual([
+        'btcpay.store.canviewinvoices:store_1',
+        'btcpay.store.webhooks.canmodifywebhooks:store_1',
+        'btcpay.store.canviewstoresettings:store_1',
+        'btcpay.store.canmodifyinvoices:store_1',
+        'btcpay.store.canviewpullpayments:store_1',
+      ]);
+    });
+
+    it('should not offer an authorize link before a BTCPay URL is known', () => {
+      expect(btcpayClient.getAuthorizeUrl()).toBeNull();
+    });
+  });
+
   describe('getServerInfo', () => {
     it('should return server information when successful', async () => {
       const mockServerInfo = {
@@ -119,10 +387,41 @@ describe('BTCPayServer', () => {
       expect(result).toEqual({
         id: 'webhook_123',
         url: 'http://localhost:4001/api/webhooks/btcpay',
-        events: ['InvoiceSettled', 'InvoiceReceivedPayment', 'InvoiceProcessing'],
+        events: ['InvoicePaymentSettled', 'InvoiceExpired', 'InvoiceInvalid'],
         active: true,
         secret: expect.any(String),
       });
+      // Only confirmed payments and terminal invoice states - no unconfirmed payment events
+      expect(mockClient.post).toHaveBeenCalledWith(
+        '/api/v1/stores/store_123/webhooks',
+        expect.objectContaining({
+          authorizedEvents: {
+            everything: false,
+            specificEvents: ['InvoicePaymentSettled', 'InvoiceExpired', 'InvoiceInvalid'],
+          },
+        })
+      );
+    });
+
+    it('should persist the webhook secret encrypted under the webhook ID', async () => {
+      const mockClient = createMockClient();
+      mockClient.get!.mockResolvedValueOnce({ status: 200 }); // Connection check
+      mockClient.get!.mockResolvedValueOnce({ data: [{ id: 'store_123' }] }); // Stores fetch
+      mockClient.post!.mockResolvedValueOnce({ data: { id: 'webhook_123' } }); // Webhook registration
+
+      mockedAxios.create.mockReturnValue(mockClient);
+
+      const result = await btcpayClient.registerWebhook(
+        'http://localhost:4001/api/webhooks/btcpay'
+      );
+
+      expect(setConfigValue).toHaveBeenCalledWith(
+        'btcpay_webhook_secret:webhook_123',
+        result!.secret,
+        { encrypted: true }
+      );
+      // The secret sent to BTCPay must be the one we stored
+      expect(mockClient.post.mock.calls[0][1].secret).toBe(result!.secret);
     });
 
     it('should return null when webhook registration fails', async () => {
@@ -140,6 +439,421 @@ describe('BTCPayServer', () => {
     });
   });
 
+  describe('store selection', () => {
+    it('should register the webhook on the selected store', async () => {
+      vi.mocked(getConfigValue).mockImplementation((key) =>
+        key === 'btcpay_selected_store_id' ? 'store_2' : undefined
+      );
+      const mockClient = createMockClient();
+      mockClient.get!.mockResolvedValueOnce({ status: 200 }); // Connection check
+      mockClient.post!.mockResolvedValueOnce({ data: { id: 'webhook_123' } }); // Webhook registration
+
+      mockedAxios.create.mockReturnValue(mockClient);
+
+      await btcpayClient.registerWebhook('http://localhost:4001/api/webhooks/btcpay');
+
+      // No stores lookup needed when a store has been selected
+      expect(mockClient.get).toHaveBeenCalledTimes(1);
+      expect(mockClient.post.mock.calls[0][0]).toBe('/api/v1/stores/store_2/webhooks');
+    });
+
+    it('should refuse to guess when several stores exist and none is selected', async () => {
+      const mockClient = createMockClient();
+      mockClient.get!.mockResolvedValueOnce({ status: 200 }); // Connection check
+      mockClient.get!.mockResolvedValueOnce({
+        data: [{ id: 'store_1' }, { id: 'store_2' }],
+      }); // Stores fetch
+
+      mockedAxios.create.mockReturnValue(mockClient);
+
+      const result = await btcpayClient.registerWebhook(
+        'http://localhost:4001/api/webhooks/btcpay'
+      );
+
+      expect(result).toBeNull();
+      expect(mockClient.post).not.toHaveBeenCalled();
+    });
+
+    it('should read webhooks of an explicitly given store', async () => {
+      const mockClient = createMockClient();
+      mockClient.get!.mockResolvedValueOnce({ status: 200 }); // Connection check
+      mockClient.get!.mockResolvedValueOnce({ data: [] }); // Webhooks fetch
+
+      mockedAxios.create.mockReturnValue(mockClient);
+
+      await btcpayClient.getWebhooks('store_9');
+
+      expect(mockClient.get).toHaveBeenLastCalledWith('/api/v1/stores/store_9/webhooks');
+    });
+
+    it('should persist the selected store ID', () => {
+      btcpayClient.setSelectedStoreId('store_2');
+
+      expect(setConfigValue).toHaveBeenCalledWith('btcpay_selected_store_id', 'store_2');
+    });
+  });
+
+  describe('webhook lifecycle', () => {
+    const ourUrl = 'http://localhost:3000/api/webhooks/btcpay';
+    const btcpayWebhook = (id: string, overrides: Record<string, unknown> = {}) => ({
+      id,
+      url: ourUrl,
+      enabled: true,
+      authorizedEvents: {
+        everything: false,
+        specificEvents: ['InvoicePaymentSettled', 'InvoiceExpired', 'InvoiceInvalid'],
+      },
+      ...overrides,
+    });
+    let mockClient: ReturnType<typeof createMockClient>;
+
+    beforeEach(() => {
+      vi.mocked(getConfigValue).mockImplementation((key) => {
+        if (key === 'btcpay_selected_store_id') return 'store_1';
+        if (key === 'btcpay_webhook_secret:webhook_known') return 'known_secret';
+        return undefined;
+      });
+      mockClient = createMockClient();
+      mockClient.get.mockResolvedValueOnce({ status: 200 }); // Connection check
+      mockedAxios.create.mockReturnValue(mockClient);
+    });
+
+    it('should update a webhook and keep its secret', async () => {
+      mockClient.get.mockResolvedValueOnce({ data: [btcpayWebhook('webhook_known')] });
+      mockClient.put.mockResolvedValueOnce({ data: {} });
+
+      const result = await btcpayClient.updateWebhook('webhook_known', { active: false });
+
+      expect(result).toEqual({
+        id: 'webhook_known',
+        url: ourUrl,
+        events: ['InvoicePaymentSettled', 'InvoiceExpired', 'InvoiceInvalid'],
+        active: false,
+      });
+      const [url, body] = mockClient.put.mock.calls[0];
+      expect(url).toBe('/api/v1/stores/store_1/webhooks/webhook_known');
+      expect(body).toMatchObject({ enabled: false, url: ourUrl });
+      expect(body).not.toHaveProperty('secret');
+    });
+
+    it('should not update a webhook that does not exist', async () => {
+      mockClient.get.mockResolvedValueOnce({ data: [] });
+
+      expect(await btcpayClient.updateWebhook('webhook_gone', { active: true })).toBeNull();
+      expect(mockClient.put).not.toHaveBeenCalled();
+    });
+
+    it('should rotate the secret and store the new one', async () => {
+      mockClient.get.mockResolvedValueOnce({ data: [btcpayWebhook('webhook_known')] });
+      mockClient.put.mockResolvedValueOnce({ data: {} });
+
+      await btcpayClient.rotateWebhookSecret('webhook_known');
+
+      const secret = mockClient.put.mock.calls[0][1].secret;
+      expect(secret).toMatch(/^[0-9a-f]{64}$/);
+      expect(setConfigValue).toHaveBeenCalledWith('btcpay_webhook_secret:webhook_known', secret, {
+        encrypted: true,
+      });
+    });
+
+    it('should not rotate the secret in BTCPay when the new one cannot be saved', async () => {
+      mockClient.get.mockResolvedValueOnce({ data: [btcpayWebhook('webhook_known')] });
+      vi.mocked(setConfigValue).mockImplementationOnce(() => {
+        throw new Error('SQLITE_READONLY');
+      });
+
+      expect(await btcpayClient.rotateWebhookSecret('webhook_known')).toBeNull();
+      expect(mockClient.put).not.toHaveBeenCalled();
+    });
+
+    it('should put the old secret back when BTCPay rejects the new one', async () => {
+      mockClient.get.mockResolvedValueOnce({ data: [btcpayWebhook('webhook_known')] });
+      mockClient.put.mockRejectedValueOnce(new Error('Forbidden'));
+
+      expect(await btcpayClient.rotateWebhookSecret('webhook_known')).toBeNull();
+      expect(setConfigValue).toHaveBeenLastCalledWith(
+        'btcpay_webhook_secret:webhook_known',
+        'known_secret',
+        { encrypted: true }
+      );
+    });
+
+    it('should delete a webhook and forget its secret', async () => {
+      mockClient.delete.mockResolvedValueOnce({ status: 200 });
+
+      expect(await btcpayClient.deleteWebhook('webhook_known')).toBe(true);
+
+      expect(mockClient.delete).toHaveBeenCalledWith(
+        '/api/v1/stores/store_1/webhooks/webhook_known'
+      );
+      expect(deleteConfigValue).toHaveBeenCalledWith('btcpay_webhook_secret:webhook_known');
+    });
+
+    it('should keep the stored secret when deletion fails', async () => {
+      mockClient.delete.mockRejectedValueOnce(new Error('Forbidden'));
+
+      expect(await btcpayClient.deleteWebhook('webhook_known')).toBe(false);
+      expect(deleteConfigValue).not.toHaveBeenCalled();
+    });
+
+    it('should list recent deliveries of a webhook', async () => {
+      mockClient.get.mockResolvedValueOnce({
+        data: [
+          { id: 'delivery_2', timestamp: 1700000200, httpCode: 502, status: 'HttpError' },
+          { id: 'delivery_1', timestamp: 1700000100, errorMessage: 'Timeout', status: 'Failed' },
+        ],
+      });
+
+      const deliveries = await btcpayClient.getWebhookDeliveries('webhook_known');
+
+      expect(deliveries).toEqual([
+        {
+          id: 'delivery_2',
+          timestamp: 1700000200,
+          httpCode: 502,
+          errorMessage: null,
+          status: 'HttpError',
+        },
+        {
+          id: 'delivery_1',
+          timestamp: 1700000100,
+          httpCode: null,
+          errorMessage: 'Timeout',
+          status: 'Failed',
+        },
+      ]);
+      expect(mockClient.get).toHaveBeenLastCalledWith(
+        '/api/v1/stores/store_1/webhooks/webhook_known/deliveries',
+        { params: { count: 50 } }
+      );
+    });
+
+    it('should return null when BTCPay does not return a delivery list', async () => {
+      mockClient.get.mockResolvedValueOnce({ data: { message: 'Not found' } });
+
+      expect(await btcpayClient.getWebhookDeliveries('webhook_known')).toBeNull();
+    });
+
+    it('should redeliver a delivery and return the new delivery ID', async () => {
+      mockClient.post.mockResolvedValueOnce({ data: 'delivery_3' });
+
+      expect(await btcpayClient.redeliverWebhook('webhook_known', 'delivery_2')).toBe('delivery_3');
+      expect(mockClient.post).toHaveBeenCalledWith(
+        '/api/v1/stores/store_1/webhooks/webhook_known/deliveries/delivery_2/redeliver'
+      );
+    });
+
+    describe('ensureWebhook', () => {
+      it('should register a webhook when none points at our URL', async () => {
+        mockClient.get.mockResolvedValueOnce({
+          data: [btcpayWebhook('someone_else', { url: 'https://example.com/hook' })],
+        });
+        mockClient.post.mockResolvedValueOnce({ data: { id: 'webhook_new' } });
+
+        const result = await btcpayClient.ensureWebhook(ourUrl);
+
+        expect(result).toMatchObject({ action: 'created', removed: [] });
+        expect(result?.webhook.id).toBe('webhook_new');
+        expect(mockClient.delete).not.toHaveBeenCalled();
+      });
+
+      it('should leave a single healthy webhook alone', async () => {
+        mockClient.get.mockResolvedValueOnce({ data: [btcpayWebhook('webhook_known')] });
+
+        const result = await btcpayClient.ensureWebhook(ourUrl);
+
+        expect(result).toMatchObject({ action: 'unchanged', removed: [] });
+        expect(mockClient.post).not.toHaveBeenCalled();
+        expect(mockClient.put).not.toHaveBeenCalled();
+      });
+
+      it('should keep the webhook whose secret we know and delete the duplicates', async () => {
+        mockClient.get.mockResolvedValueOnce({
+          data: [
+            btcpayWebhook('webhook_unknown'),
+            btcpayWebhook('webhook_known'),
+            btcpayWebhook('webhook_disabled', { enabled: false }),
+          ],
+        });
+        mockClient.delete.mockResolvedValue({ status: 200 });
+
+        const result = await btcpayClient.ensureWebhook(ourUrl);
+
+        expect(result?.webhook.id).toBe('webhook_known');
+        expect(result?.removed).toEqual(['webhook_unknown', 'webhook_disabled']);
+        expect(mockClient.post).not.toHaveBeenCalled();
+      });
+
+      it('should re-enable a webhook with outdated events', async () => {
+        mockClient.get.mockResolvedValueOnce({
+          data: [
+            btcpayWebhook('webhook_known', {
+              enabled: false,
+              authorizedEvents: { specificEvents: ['InvoiceSettled', 'InvoiceReceivedPayment'] },
+            }),
+          ],
+        });
+        mockClient.put.mockResolvedValueOnce({ data: {} });
+
+        const result = await btcpayClient.ensureWebhook(ourUrl);
+
+        expect(result).toMatchObject({ action: 'updated', webhook: { active: true } });
+        const body = mockClient.put.mock.calls[0][1];
+        expect(body.enabled).toBe(true);
+        expect(body.authorizedEvents.specificEvents).toEqual([
+          'InvoicePaymentSettled',
+          'InvoiceExpired',
+          'InvoiceInvalid',
+        ]);
+        expect(body).not.toHaveProperty('secret');
+      });
+
+      it('should give a webhook a fresh secret when we lost ours', async () => {
+        mockClient.get.mockResolvedValueOnce({ data: [btcpayWebhook('webhook_unknown')] });
+        mockClient.put.mockResolvedValueOnce({ data: {} });
+
+        const result = await btcpayClient.ensureWebhook(ourUrl);
+
+        expect(result?.action).toBe('updated');
+        const secret = mockClient.put.mock.calls[0][1].secret;
+        expect(setConfigValue).toHaveBeenCalledWith(
+          'btcpay_webhook_secret:webhook_unknown',
+          secret,
+          { encrypted: true }
+        );
+      });
+
+      it('should not register anything when the webhooks cannot be listed', async () => {
+        mockClient.get.mockRejectedValueOnce(new Error('Unauthorized'));
+
+        expect(await btcpayClient.ensureWebhook(ourUrl)).toBeNull();
+        expect(mockClient.post).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('listInvoices', () => {
+    it('should pass the filters as query parameters', async () => {
+      const mockClient = createMockClient();
+      mockClient.get!.mockResolvedValueOnce({ status: 200 }); // Connection check
+      mockClient.get!.mockResolvedValueOnce({ data: [{ id: 'invoice_1' }] }); // Invoices fetch
+
+      mockedAxios.create.mockReturnValue(mockClient);
+
+      const result = await btcpayClient.listInvoices('store_123', {
+        status: ['Settled'],
+        startDate: 1700000000,
+        skip: 50,
+        take: 50,
+      });
+
+      expect(result).toEqual([{ id: 'invoice_1' }]);
+      expect(mockClient.get).toHaveBeenLastCalledWith(
+        '/api/v1/stores/store_123/invoices?status=Settled&startDate=1700000000&skip=50&take=50'
+      );
+    });
+
+    it('should return null when the request fails', async () => {
+      const mockClient = createMockClient();
+      mockClient.get!.mockResolvedValueOnce({ status: 200 }); // Connection check
+      mockClient.get!.mockRejectedValueOnce(new Error('Fetch failed')); // Invoices fetch fails
+
+      mockedAxios.create.mockReturnValue(mockClient);
+
+      expect(await btcpayClient.listInvoices('store_123')).toBeNull();
+    });
+  });
+
+  describe('createInvoice', () => {
+    it('should post the invoice to the store and return it', async () => {
+      const mockClient = createMockClient();
+      mockClient.get!.mockResolvedValueOnce({ status: 200 }); // Connection check
+      mockClient.post!.mockResolvedValueOnce({
+        data: {
+          id: 'invoice_1',
+          status: 'New',
+          amount: '150.5',
+          currency: 'USD',
+          checkoutLink: 'https://btcpay.example.com/i/invoice_1',
+        },
+      });
+
+      mockedAxios.create.mockReturnValue(mockClient);
+
+      const request = { amount: '150.5', currency: 'USD', metadata: { qboInvoiceId: '130' } };
+      const invoice = await btcpayClient.createInvoice('store_123', request);
+
+      expect(invoice?.checkoutLink).toBe('https://btcpay.example.com/i/invoice_1');
+      expect(mockClient.post).toHaveBeenCalledWith('/api/v1/stores/store_123/invoices', request);
+    });
+
+    it('should return null when the invoice has no checkout link or the request fails', async () => {
+      const mockClient = createMockClient();
+      mockClient.get!.mockResolvedValue({ status: 200 }); // Connection checks
+      mockClient.post!.mockResolvedValueOnce({ data: { id: 'invoice_1' } });
+      mockClient.post!.mockRejectedValueOnce(new Error('Forbidden'));
+
+      mockedAxios.create.mockReturnValue(mockClient);
+
+      const request = { amount: '10', currency: 'USD' };
+      expect(await btcpayClient.createInvoice('store_123', request)).toBeNull();
+      expect(await btcpayClient.createInvoice('store_123', request)).toBeNull();
+    });
+  });
+
+  describe('markInvoiceInvalid', () => {
+    it('should set the invoice status to Invalid', async () => {
+      const mockClient = createMockClient();
+      mockClient.get!.mockResolvedValue({ status: 200 }); // Connection checks
+      mockClient.post!.mockResolvedValueOnce({ data: { id: 'invoice_1', status: 'Invalid' } });
+      mockClient.post!.mockRejectedValueOnce(new Error('Forbidden'));
+
+      mockedAxios.create.mockReturnValue(mockClient);
+
+      expect(await btcpayClient.markInvoiceInvalid('store_123', 'invoice_1')).toBe(true);
+      expect(mockClient.post).toHaveBeenCalledWith(
+        '/api/v1/stores/store_123/invoices/invoice_1/status',
+        { status: 'Invalid' }
+      );
+      expect(await btcpayClient.markInvoiceInvalid('store_123', 'invoice_1')).toBe(false);
+    });
+  });
+
+  describe('pull payments', () => {
+    it('should list pull payments and their payouts', async () => {
+      const mockClient = createMockClient();
+      mockClient.get!.mockResolvedValueOnce({ status: 200 }); // Connection check
+      mockClient.get!.mockResolvedValueOnce({
+        data: [{ id: 'pp_1', name: 'Refund invoice_1', currency: 'USD', amount: '25' }],
+      });
+      mockClient.get!.mockResolvedValueOnce({ data: [{ id: 'payout_1', state: 'Completed' }] });
+
+      mockedAxios.create.mockReturnValue(mockClient);
+
+      const pullPayments = await btcpayClient.listPullPayments('store_123');
+      const payouts = await btcpayClient.getPullPaymentPayouts('pp_1');
+
+      expect(pullPayments?.[0].name).toBe('Refund invoice_1');
+      expect(payouts).toEqual([{ id: 'payout_1', state: 'Completed' }]);
+      expect(mockClient.get).toHaveBeenCalledWith(
+        '/api/v1/stores/store_123/pull-payments?includeArchived=true'
+      );
+      expect(mockClient.get).toHaveBeenCalledWith(
+        '/api/v1/pull-payments/pp_1/payouts?includeCancelled=false'
+      );
+    });
+
+    it('should return null when the response is not a list', async () => {
+      const mockClient = createMockClient();
+      mockClient.get!.mockResolvedValueOnce({ status: 200 });
+      mockClient.get!.mockResolvedValueOnce({ data: { error: 'nope' } });
+
+      mockedAxios.create.mockReturnValue(mockClient);
+
+      expect(await btcpayClient.listPullPayments('store_123')).toBeNull();
+    });
+  });
+
   describe('getWebhooks', () => {
     it('should return list of webhooks', async () => {
       const mockClient = createMockClient();
@@ -160,6 +874,7 @@ describe('BTCPayServer', () => {
             everything: false,
             specificEvents: ['InvoiceSettled', 'InvoiceReceivedPayment'],
           },
+          secret: 'webhook_secret_123',
         },
       ];
 
@@ -177,7 +892,6 @@ describe('BTCPayServer', () => {
           url: 'http://localhost:4001/api/webhooks/btcpay',
           events: ['InvoiceSettled', 'InvoiceReceivedPayment'],
           active: true,
-          secret: undefined,
         },
       ]);
     });
@@ -241,6 +955,36 @@ describe('BTCPayServer', () => {
     });
   });
 
+  describe('API key storage', () => {
+    it('should persist the API key encrypted', async () => {
+      await btcpayClient.setApiKey('new_api_key');
+
+      expect(setConfigValue).toHaveBeenCalledWith('btcpay_api_key', 'new_api_key', {
+        encrypted: true,
+      });
+    });
+
+    it('should load the decrypted API key from the config store', async () => {
+      vi.mocked(getConfigValue).mockReturnValueOnce('stored_api_key');
+
+      expect(await btcpayClient.getApiKey()).toBe('stored_api_key');
+      expect(getConfigValue).toHaveBeenCalledWith('btcpay_api_key');
+    });
+  });
+
+  describe('getWebhookSecret', () => {
+    it('should return the stored secret for a webhook', () => {
+      vi.mocked(getConfigValue).mockReturnValueOnce('stored_secret');
+      expect(btcpayClient.getWebhookSecret('webhook_123')).toBe('stored_secret');
+      expect(getConfigValue).toHaveBeenCalledWith('btcpay_webhook_secret:webhook_123');
+    });
+
+    it('should return null when the webhook is unknown', () => {
+      vi.mocked(getConfigValue).mockReturnValueOnce(undefined);
+      expect(btcpayClient.getWebhookSecret('webhook_999')).toBeNull();
+    });
+  });
+
   describe('generateWebhookSecret', () => {
     it('should generate a non-empty secret', () => {
       // Access private method for testing
@@ -1,32 +1,132 @@
 import axios, { AxiosInstance } from 'axios';
+import crypto from 'crypto';
 import dns from 'dns';
-import { getDatabase } from '../models/database';
+import { deleteConfigValue, getConfigValue, setConfigValue } from '../models/config';
 
 // Constants
-const BTCPAY_PORT = 3003;
 const CONNECTION_TIMEOUT = 10000;
 const TEST_CONNECTION_TIMEOUT = 5000;
 const WEBHOOK_SECRET_LENGTH = 32;
+const WEBHOOK_SECRET_KEY_PREFIX = 'btcpay_webhook_secret:';
+const DELIVERY_PAGE_SIZE = 50;
+const API_KEY_CONFIG_KEY = 'btcpay_api_key';
+const SELECTED_STORE_CONFIG_KEY = 'btcpay_selected_store_id';
+const URL_CONFIG_KEY = 'btcpay_url';
 
-// Default fallback IPs for Umbrel environment
-const DEFAULT_FALLBACK_IPS = [
-  'host.docker.internal', // Docker host networking (Docker Desktop)
-  '172.17.0.1', // Docker bridge gateway IP
-  '192.168.65.1', // Alternative host IP (Docker Desktop)
-  '192.168.1.168', // Umbrel host IP (from ping umbrel.local)
-  'localhost', // Localhost if running on same host
-  'btcpayserver', // Docker service name (if networks connected)
-  'umbrel.local', // External access
+// Invoice lifecycle events we reconcile from. Unconfirmed payments (InvoiceReceivedPayment,
+// InvoiceProcessing) are deliberately left out - only confirmed value reaches the books.
+export const WEBHOOK_EVENTS = ['InvoicePaymentSettled', 'InvoiceExpired', 'InvoiceInvalid'];
+
+// Greenfield permissions the app's API key needs on the selected store
+export const REQUIRED_PERMISSIONS = [
+  'btcpay.store.canviewinvoices',
+  'btcpay.store.webhooks.canmodifywebhooks',
+  'btcpay.store.canviewstoresettings',
+  'btcpay.store.canmodifyinvoices', // Pay links: create invoices, invalidate replaced ones
+  'btcpay.store.canviewpullpayments', // Refund reconciliation
+];
+
+// Broader permissions that include a required one
+const IMPLIED_BY: Record<string, string[]> = {
+  'btcpay.store.canviewinvoices': [
+    'btcpay.store.canmodifyinvoices',
+    'btcpay.store.canmodifystoresettings',
+  ],
+  'btcpay.store.webhooks.canmodifywebhooks': ['btcpay.store.canmodifystoresettings'],
+  'btcpay.store.canviewstoresettings': ['btcpay.store.canmodifystoresettings'],
+  'btcpay.store.canmodifyinvoices': ['btcpay.store.canmodifystoresettings'],
+  'btcpay.store.canviewpullpayments': [
+    'btcpay.store.canmanagepullpayments',
+    'btcpay.store.canmodifystoresettings',
+  ],
+};
+const UNRESTRICTED_PERMISSION = 'unrestricted';
+const APPLICATION_NAME = 'Sovereign Merchant';
+
+// Where BTCPay Server usually lives on each platform, probed when no URL has been chosen
+const UMBREL_CANDIDATES = [
+  'http://btcpay-server_web_1:49392', // BTCPay container on the shared Umbrel network
+  'http://btcpay-server_app_proxy_1:3003', // Umbrel's auth proxy in front of it
+  'http://umbrel.local:3003', // The app's port on the Umbrel host
 ];
+const START9_CANDIDATES = [
+  'http://btcpayserver.embassy', // StartOS service address
+];
+const HTTPS_CANDIDATES = ['https://btcpay.local', 'https://btcpayserver.local'];
+
+export interface BTCPayStore {
+  id: string;
+  name: string;
+  website?: string;
+  defaultCurrency?: string;
+}
 
 export interface BTCPayInvoice {
   id: string;
+  storeId?: string;
   status: string;
+  additionalStatus?: string;
   amount: string;
   currency: string;
   checkoutLink: string;
   createdTime: number;
   monitoringExpiration: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface CreateInvoiceRequest {
+  amount: string; // Decimal string in the invoice currency
+  currency: string;
+  metadata?: Record<string, unknown>; // orderId, buyerEmail, itemDesc and our own links
+  checkout?: {
+    redirectURL?: string;
+  };
+}
+
+export interface InvoiceListQuery {
+  status?: string[]; // e.g. ['Settled']
+  startDate?: number; // Unix seconds, filters on invoice creation time
+  skip?: number;
+  take?: number;
+}
+
+export interface BTCPayPayment {
+  id: string;
+  receivedDate: number;
+  value: string;
+  fee?: string;
+  status: string; // Invalid, Processing, Settled
+  destination?: string;
+}
+
+export interface BTCPayPaymentMethod {
+  paymentMethodId?: string; // BTCPay 2.x (e.g. BTC-CHAIN, BTC-LN)
+  paymentMethod?: string; // BTCPay 1.x (e.g. BTC, BTC-LightningNetwork)
+  cryptoCode?: string;
+  rate: string;
+  amount?: string;
+  totalPaid?: string;
+  payments: BTCPayPayment[];
+}
+
+// BTCPay refunds are pull payments: the buyer claims the refund as a payout
+export interface BTCPayPullPayment {
+  id: string;
+  name?: string | null; // "Refund <invoiceId>" for refunds issued from an invoice
+  description?: string | null;
+  currency: string;
+  amount: string;
+  archived?: boolean;
+}
+
+export interface BTCPayPayout {
+  id: string;
+  pullPaymentId?: string;
+  date?: number;
+  amount?: string | null; // In the payout's payment method currency, once known
+  originalAmount?: string | null; // BTCPay 2.x: in the pull payment's currency
+  originalCurrency?: string | null;
+  state: string; // AwaitingApproval, AwaitingPayment, InProgress, Completed, Cancelled
 }
 
 export interface WebhookData {
@@ -37,23 +137,138 @@ export interface WebhookData {
   active: boolean;
 }
 
+export interface WebhookUpdate {
+  url?: string;
+  events?: string[];
+  active?: boolean;
+}
+
+export interface EnsureWebhookResult {
+  webhook: WebhookData;
+  action: 'created' | 'updated' | 'unchanged';
+  removed: string[]; // IDs of duplicate webhooks that pointed at our URL
+}
+
+export interface WebhookDelivery {
+  id: string;
+  timestamp: number; // Unix seconds
+  httpCode: number | null; // Null when our endpoint couldn't be reached at all
+  errorMessage: string | null;
+  status: string; // Failed, HttpError, HttpSuccess
+}
+
+export interface ApiKeyPermissionCheck {
+  permissions: string[]; // As granted, e.g. btcpay.store.canviewinvoices:<storeId>
+  missing: string[]; // Required permissions the key lacks for the store
+  storeId: string | null; // Store checked against; null accepts a grant on any store
+  authorizeUrl: string | null;
+}
+
+export type DiscoverySource = 'environment' | 'umbrel' | 'start9' | 'https' | 'onion' | 'custom';
+
+export interface DiscoveryCandidate {
+  url: string;
+  source: DiscoverySource;
+}
+
+export interface ProbeResult extends DiscoveryCandidate {
+  reachable: boolean; // Answered like a BTCPay Server
+  authenticated: boolean; // Accepted the API key
+  version?: string;
+  error?: string;
+}
+
+// Webhook as returned by the Greenfield API
+interface BTCPayWebhookResponse {
+  id: string;
+  url: string;
+  enabled: boolean;
+  authorizedEvents?: { specificEvents?: string[] };
+}
+
+/**
+ * URL BTCPayServer delivers webhooks to
+ */
+export function getWebhookCallbackUrl(): string {
+  return `${getAppBaseUrl()}/api/webhooks/btcpay`;
+}
+
+/**
+ * Address this app is reachable at from outside (the hidden service on Umbrel/Start9)
+ */
+export function getAppBaseUrl(): string {
+  return process.env.APP_HIDDEN_SERVICE || `http://localhost:${process.env.PORT || 3000}`;
+}
+
+/**
+ * Canonical form of a BTCPay base URL, or null if it isn't an http(s) URL
+ */
+export function normalizeBTCPayUrl(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return null;
+    }
+    return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * URLs worth probing for BTCPay Server, most specific first
+ */
+export function getDiscoveryCandidates(): DiscoveryCandidate[] {
+  const candidates: DiscoveryCandidate[] = [];
+  const add = (url: string | undefined, source: DiscoverySource) => {
+    const normalized = url ? normalizeBTCPayUrl(url) : null;
+    if (normalized && !candidates.some((candidate) => candidate.url === normalized)) {
+      candidates.push({ url: normalized, source });
+    }
+  };
+
+  add(process.env.BTCPAY_URL, 'environment');
+  for (const url of (process.env.BTCPAY_DISCOVERY_URLS || '').split(',')) {
+    add(url, 'custom');
+  }
+  UMBREL_CANDIDATES.forEach((url) => add(url, 'umbrel'));
+  START9_CANDIDATES.forEach((url) => add(url, 'start9'));
+  HTTPS_CANDIDATES.forEach((url) => add(url, 'https'));
+  const onion = process.env.BTCPAY_ONION_URL;
+  add(onion && !onion.includes('://') ? `http://${onion}` : onion, 'onion');
+
+  return candidates;
+}
+
+/**
+ * Required permissions not covered by the granted ones. Greenfield scopes store permissions
+ * as "<permission>:<storeId>"; an unscoped permission covers every store.
+ */
+export function findMissingPermissions(granted: string[], storeId: string | null): string[] {
+  const grants = granted.map((permission) => {
+    const [policy, scope] = permission.split(':');
+    return { policy, scope };
+  });
+
+  return REQUIRED_PERMISSIONS.filter((required) => {
+    const accepted = [required, UNRESTRICTED_PERMISSION, ...(IMPLIED_BY[required] ?? [])];
+    return !grants.some(
+      ({ policy, scope }) => accepted.includes(policy) && (!scope || !storeId || scope === storeId)
+    );
+  });
+}
+
+function sameEvents(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((event) => b.includes(event));
+}
+
 export class BTCPayServer {
   private client: AxiosInstance | null;
-  private baseUrl: string;
-  private fallbackUrls: string[];
+  private baseUrl: string | null = null;
   private apiKey: string | undefined;
   private isFullyAuthenticated: boolean = false;
 
   constructor() {
-    // Build list of possible BTCPayServer URLs
-    const possibleUrls = this.buildConnectionUrls();
-
-    this.baseUrl = possibleUrls[0] || `http://host.docker.internal:${BTCPAY_PORT}`;
-    this.fallbackUrls = possibleUrls.slice(1);
-
-    console.log('🔗 BTCPayServer primary URL:', this.baseUrl);
-    console.log('🔗 BTCPayServer fallback URLs:', this.fallbackUrls);
-
     // Check for environment variable API key (for backwards compatibility)
     const envApiKey = process.env.BTCPAY_API_KEY || process.env.BTC_PAY_API_KEY;
     if (envApiKey) {
@@ -69,29 +284,6 @@ export class BTCPayServer {
     this.apiKey = envApiKey; // Start with env var if available
   }
 
-  /**
-   * Build list of possible BTCPayServer connection URLs
-   */
-  private buildConnectionUrls(): string[] {
-    const urls: string[] = [];
-
-    // Add custom URL from environment if provided
-    if (process.env.BTCPAY_URL) {
-      urls.push(process.env.BTCPAY_URL);
-    }
-
-    // Add fallback IPs from environment or use defaults
-    const fallbackIps = process.env.BTCPAY_FALLBACK_IPS
-      ? process.env.BTCPAY_FALLBACK_IPS.split(',')
-      : DEFAULT_FALLBACK_IPS;
-
-    // Convert IPs to full URLs
-    const fallbackUrls = fallbackIps.map((ip) => `http://${ip}:${BTCPAY_PORT}`);
-    urls.push(...fallbackUrls);
-
-    return urls;
-  }
-
   /**
    * Debug network connectivity to help troubleshoot connection issues
    */
@@ -136,11 +328,7 @@ export class BTCPayServer {
    */
   private async loadApiKeyFromDatabase(): Promise<string | undefined> {
     try {
-      const db = getDatabase();
-      const result = db.prepare('SELECT value FROM config WHERE key = ?').get('btcpay_api_key') as
-        | { value: string }
-        | undefined;
-      return result?.value;
+      return getConfigValue(API_KEY_CONFIG_KEY);
     } catch (error) {
       console.error('Failed to load BTCPayServer API key from database:', error);
       return undefined;
@@ -152,14 +340,8 @@ export class BTCPayServer {
    */
   private async saveApiKeyToDatabase(apiKey: string): Promise<void> {
     try {
-      const db = getDatabase();
-      db.prepare(
-        `
-        INSERT OR REPLACE INTO config (key, value, encrypted, updated_at)
-        VALUES (?, ?, ?, datetime('now'))
-      `
-      ).run('btcpay_api_key', apiKey, 1); // Use 1 for true in SQLite
-      console.log('✅ BTCPayServer API key saved to database');
+      setConfigValue(API_KEY_CONFIG_KEY, apiKey, { encrypted: true });
+      console.log('✅ BTCPayServer API key saved to database (encrypted)');
     } catch (error) {
       console.error('Failed to save BTCPayServer API key to database:', error);
     }
@@ -182,63 +364,195 @@ export class BTCPayServer {
       }
     }
 
-    // Build complete list of URLs to try
-    const allUrls = [this.baseUrl, ...this.fallbackUrls];
+    // A chosen URL is used as-is; discovery only happens until one has been saved
+    const savedUrl = this.getSavedUrl();
+    let result: ProbeResult | null;
+    if (savedUrl) {
+      result = await this.requestServerInfo({ url: savedUrl, source: 'custom' }, this.apiKey);
+    } else {
+      result = await this.findServer();
+      // Only the server discovery settled on ever sees the API key
+      if (result && this.apiKey) {
+        result = await this.requestServerInfo(
+          { url: result.url, source: result.source },
+          this.apiKey
+        );
+      }
+    }
+    if (!result?.reachable) {
+      console.error('❌ All BTCPayServer connection attempts failed', result?.error ?? '');
+      return false;
+    }
 
-    console.log('🔄 BTCPayServer will try URLs in this order:', allUrls);
+    if (result.authenticated) {
+      console.log(`✅ BTCPayServer fully connected at: ${result.url}`);
+    } else {
+      console.log(`🔓 BTCPayServer reachable but API key invalid at: ${result.url}`);
+    }
+    this.isFullyAuthenticated = result.authenticated;
 
-    for (let i = 0; i < allUrls.length; i++) {
-      const url = allUrls[i];
-      try {
-        console.log(`🔍 [${i + 1}/${allUrls.length}] Testing BTCPayServer connection to: ${url}`);
-        const headers: Record<string, string> = {};
-        if (this.apiKey) {
-          headers['Authorization'] = `Bearer ${this.apiKey}`;
-        }
+    // Create the main client to use the working URL
+    const clientHeaders: Record<string, string> = {};
+    if (this.apiKey) {
+      clientHeaders['Authorization'] = `Bearer ${this.apiKey}`;
+    }
 
-        const testClient = axios.create({
-          baseURL: url,
-          timeout: TEST_CONNECTION_TIMEOUT,
-          headers: headers,
-        });
+    this.client = axios.create({
+      baseURL: result.url,
+      timeout: CONNECTION_TIMEOUT,
+      headers: clientHeaders,
+    });
+    if (savedUrl || !result.authenticated) {
+      // A discovered URL is kept in memory only until the key has been accepted there
+      this.baseUrl = result.url;
+    } else {
+      this.saveUrl(result.url);
+    }
+    return true;
+  }
 
-        const response = await testClient.get('/api/v1/server/info');
-        if (response.status === 200) {
-          console.log(`✅ BTCPayServer fully connected at: ${url} (${i + 1}/${allUrls.length})`);
-          this.isFullyAuthenticated = true;
-        } else if (response.status === 401) {
-          console.log(
-            `🔓 BTCPayServer reachable but API key invalid at: ${url} (${i + 1}/${allUrls.length})`
-          );
-          this.isFullyAuthenticated = false;
-        } else {
-          // Other status codes (403, 404, etc.) - continue trying other URLs
-          continue;
-        }
+  /**
+   * The first discovery candidate that answers like a BTCPay Server, probed without credentials
+   */
+  private async findServer(): Promise<ProbeResult | null> {
+    const candidates = getDiscoveryCandidates();
+    for (let i = 0; i < candidates.length; i++) {
+      const { url } = candidates[i];
+      console.log(`🔍 [${i + 1}/${candidates.length}] Testing BTCPayServer connection to: ${url}`);
+      const result = await this.probe(candidates[i]);
+      if (result.reachable) {
+        return result;
+      }
+      console.warn(
+        `❌ [${i + 1}/${candidates.length}] BTCPayServer connection failed for ${url}:`,
+        result.error
+      );
+    }
+    return null;
+  }
 
-        // Create the main client to use the working URL
-        const clientHeaders: Record<string, string> = {};
-        if (this.apiKey) {
-          clientHeaders['Authorization'] = `Bearer ${this.apiKey}`;
-        }
+  /**
+   * Check whether a URL answers like a BTCPay Server, without sending any credentials
+   */
+  private async probe(candidate: DiscoveryCandidate): Promise<ProbeResult> {
+    return this.requestServerInfo(candidate);
+  }
 
-        this.client = axios.create({
-          baseURL: url,
-          timeout: CONNECTION_TIMEOUT,
-          headers: clientHeaders,
-        });
-        this.baseUrl = url;
-        return true;
-      } catch (error) {
-        console.warn(
-          `❌ [${i + 1}/${allUrls.length}] BTCPayServer connection failed for ${url}:`,
-          error instanceof Error ? error.message : String(error)
-        );
+  /**
+   * Ask a server for its info, with the API key if given: reachable if it answers like a
+   * BTCPay Server, authenticated if it accepted the key
+   */
+  private async requestServerInfo(
+    candidate: DiscoveryCandidate,
+    apiKey?: string
+  ): Promise<ProbeResult> {
+    const headers: Record<string, string> = {};
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    try {
+      const testClient = axios.create({
+        baseURL: candidate.url,
+        timeout: TEST_CONNECTION_TIMEOUT,
+        headers: headers,
+        validateStatus: () => true,
+      });
+      const response = await testClient.get('/api/v1/server/info');
+
+      if (response.status === 200) {
+        const version = (response.data as { version?: string } | undefined)?.version;
+        return { ...candidate, reachable: true, authenticated: !!apiKey, version };
       }
+      if (response.status === 401 || response.status === 403) {
+        return {
+          ...candidate,
+          reachable: true,
+          authenticated: false,
+          error: apiKey ? 'API key rejected' : 'API key required',
+        };
+      }
+      return {
+        ...candidate,
+        reachable: false,
+        authenticated: false,
+        error: `Unexpected response (HTTP ${response.status})`,
+      };
+    } catch (error) {
+      return {
+        ...candidate,
+        reachable: false,
+        authenticated: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Probe every discovery candidate without credentials and report what each returned.
+   * The API key is then checked against the chosen one only (the first reachable).
+   */
+  async discover(): Promise<ProbeResult[]> {
+    const results = await Promise.all(
+      getDiscoveryCandidates().map((candidate) => this.probe(candidate))
+    );
+    const apiKey = await this.getApiKey();
+    const chosen = results.findIndex((result) => result.reachable);
+    if (apiKey && chosen !== -1) {
+      const { url, source } = results[chosen];
+      results[chosen] = await this.requestServerInfo({ url, source }, apiKey);
+    }
+    return results;
+  }
+
+  /**
+   * Point the client at a BTCPay Server with an API key. Both are only saved if the server
+   * accepts the key; the probe result says why otherwise.
+   */
+  async configure(url: string, apiKey: string): Promise<ProbeResult> {
+    const result = await this.requestServerInfo({ url, source: 'custom' }, apiKey);
+    if (!result.authenticated) {
+      return result;
+    }
+
+    this.saveUrl(url);
+    await this.setApiKey(apiKey);
+    return result;
+  }
+
+  /**
+   * BTCPay Server URL in use, or null until one has been configured or discovered
+   */
+  getUrl(): string | null {
+    return this.getSavedUrl() ?? this.baseUrl;
+  }
+
+  private getSavedUrl(): string | null {
+    try {
+      return getConfigValue(URL_CONFIG_KEY) ?? null;
+    } catch (error) {
+      console.error('Failed to load BTCPayServer URL:', error);
+      return null;
     }
+  }
+
+  /**
+   * Use a URL found by discovery, keeping the current API key
+   */
+  setUrl(url: string): void {
+    this.saveUrl(url);
+    this.client = null;
+    this.isFullyAuthenticated = false;
+  }
 
-    console.error('❌ All BTCPayServer connection attempts failed');
-    return false;
+  private saveUrl(url: string): void {
+    try {
+      setConfigValue(URL_CONFIG_KEY, url);
+      console.log(`🔗 BTCPayServer URL saved: ${url}`);
+    } catch (error) {
+      console.error('Failed to save BTCPayServer URL:', error);
+    }
+    this.baseUrl = url;
   }
 
   /**
@@ -309,27 +623,314 @@ export class BTCPayServer {
   /**
    * Get list of stores
    */
-  async getStores(): Promise<unknown[]> {
+  async getStores(): Promise<BTCPayStore[]> {
     if (!(await this.ensureConnection())) {
       throw new Error('BTCPayServer not connected');
     }
 
     try {
       const response = await this.client!.get('/api/v1/stores');
-      return response.data;
+      return response.data as BTCPayStore[];
     } catch (error) {
       console.error('Failed to get BTCPayServer stores:', error);
       throw error;
     }
   }
 
+  /**
+   * Store chosen by the merchant for webhooks, or null if none has been picked
+   */
+  getSelectedStoreId(): string | null {
+    try {
+      return getConfigValue(SELECTED_STORE_CONFIG_KEY) ?? null;
+    } catch (error) {
+      console.error('Failed to load selected BTCPayServer store:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remember which store webhooks are registered against
+   */
+  setSelectedStoreId(storeId: string): void {
+    setConfigValue(SELECTED_STORE_CONFIG_KEY, storeId);
+    console.log(`📍 Selected BTCPayServer store: ${storeId}`);
+  }
+
+  /**
+   * Link to BTCPay's API key authorization page with our permissions pre-selected
+   */
+  getAuthorizeUrl(storeId?: string | null): string | null {
+    const baseUrl = this.getUrl();
+    if (!baseUrl) {
+      return null;
+    }
+
+    const params = new URLSearchParams({ applicationName: APPLICATION_NAME });
+    for (const permission of REQUIRED_PERMISSIONS) {
+      params.append('permissions', storeId ? `${permission}:${storeId}` : permission);
+    }
+    params.append('strict', 'true');
+    params.append('selectiveStores', 'true');
+    return `${baseUrl}/api-keys/authorize?${params.toString()}`;
+  }
+
+  /**
+   * Compare the API key's permissions with the ones we need on the selected store.
+   * Returns null if the key's permissions couldn't be read.
+   */
+  async checkPermissions(): Promise<ApiKeyPermissionCheck | null> {
+    if (!(await this.ensureConnection())) {
+      console.error('Cannot check API key permissions: BTCPayServer not connected');
+      return null;
+    }
+
+    try {
+      const response = await this.client!.get('/api/v1/api-keys/current');
+      const permissions = (response.data as { permissions?: string[] }).permissions ?? [];
+      const storeId = this.getSelectedStoreId();
+      const missing = findMissingPermissions(permissions, storeId);
+      return {
+        permissions,
+        missing,
+        storeId,
+        authorizeUrl: missing.length > 0 ? this.getAuthorizeUrl(storeId) : null,
+      };
+    } catch (error) {
+      console.error('Failed to read API key permissions:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Store to act on: the explicit one, else the selected one, else the only store on the server.
+   * Returns null when the server has several stores and none has been selected.
+   */
+  async resolveStoreId(storeId?: string): Promise<string | null> {
+    const explicitStoreId = storeId || this.getSelectedStoreId();
+    if (explicitStoreId) {
+      return explicitStoreId;
+    }
+
+    const stores = await this.getStores();
+    if (!stores || stores.length === 0) {
+      console.error('No stores found in BTCPayServer');
+      return null;
+    }
+    if (stores.length > 1) {
+      console.error(
+        `BTCPayServer has ${stores.length} stores - select one with PUT /api/btcpay/stores/selected`
+      );
+      return null;
+    }
+
+    const onlyStoreId = stores[0]?.id;
+    if (!onlyStoreId) {
+      console.error('Store does not have a valid ID field');
+      return null;
+    }
+    return onlyStoreId;
+  }
+
+  /**
+   * Get a single invoice
+   */
+  async getInvoice(storeId: string, invoiceId: string): Promise<BTCPayInvoice | null> {
+    if (!(await this.ensureConnection())) {
+      console.error('Cannot get invoice: BTCPayServer not connected');
+      return null;
+    }
+
+    try {
+      const response = await this.client!.get(`/api/v1/stores/${storeId}/invoices/${invoiceId}`);
+      if (!response.data?.id) {
+        console.error(`Invoice ${invoiceId} response is missing an ID`);
+        return null;
+      }
+      return response.data as BTCPayInvoice;
+    } catch (error) {
+      console.error(`Failed to get invoice ${invoiceId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Create an invoice in a store
+   */
+  async createInvoice(
+    storeId: string,
+    request: CreateInvoiceRequest
+  ): Promise<BTCPayInvoice | null> {
+    if (!(await this.ensureConnection())) {
+      console.error('Cannot create invoice: BTCPayServer not connected');
+      return null;
+    }
+
+    try {
+      const response = await this.client!.post(`/api/v1/stores/${storeId}/invoices`, request);
+      if (!response.data?.id || !response.data?.checkoutLink) {
+        console.error('Created invoice response is missing an ID or checkout link');
+        return null;
+      }
+      console.log(`🧾 Created BTCPay invoice ${response.data.id} in store ${storeId}`);
+      return response.data as BTCPayInvoice;
+    } catch (error) {
+      console.error(`Failed to create invoice in store ${storeId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Mark an invoice invalid so it can no longer be paid
+   */
+  async markInvoiceInvalid(storeId: string, invoiceId: string): Promise<boolean> {
+    if (!(await this.ensureConnection())) {
+      console.error('Cannot mark invoice invalid: BTCPayServer not connected');
+      return false;
+    }
+
+    try {
+      await this.client!.post(`/api/v1/stores/${storeId}/invoices/${invoiceId}/status`, {
+        status: 'Invalid',
+      });
+      console.log(`🚫 Marked BTCPay invoice ${invoiceId} invalid`);
+      return true;
+    } catch (error) {
+      console.error(`Failed to mark invoice ${invoiceId} invalid:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * List a store's invoices, newest first. Returns null on failure.
+   */
+  async listInvoices(
+    storeId: string,
+    query: InvoiceListQuery = {}
+  ): Promise<BTCPayInvoice[] | null> {
+    if (!(await this.ensureConnection())) {
+      console.error('Cannot list invoices: BTCPayServer not connected');
+      return null;
+    }
+
+    const params = new URLSearchParams();
+    for (const status of query.status ?? []) {
+      params.append('status', status);
+    }
+    if (query.startDate !== undefined) {
+      params.set('startDate', String(query.startDate));
+    }
+    if (query.skip !== undefined) {
+      params.set('skip', String(query.skip));
+    }
+    if (query.take !== undefined) {
+      params.set('take', String(query.take));
+    }
+
+    try {
+      const response = await this.client!.get(
+        `/api/v1/stores/${storeId}/invoices?${params.toString()}`
+      );
+      if (!Array.isArray(response.data)) {
+        console.error(`Invoice list response for store ${storeId} is not an array`);
+        return null;
+      }
+      return response.data as BTCPayInvoice[];
+    } catch (error) {
+      console.error(`Failed to list invoices for store ${storeId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the payment methods (and their individual payments) for an invoice
+   * Returns null on failure so callers can tell "no payments" apart from "couldn't ask"
+   */
+  async getInvoicePaymentMethods(
+    storeId: string,
+    invoiceId: string
+  ): Promise<BTCPayPaymentMethod[] | null> {
+    if (!(await this.ensureConnection())) {
+      console.error('Cannot get invoice payment methods: BTCPayServer not connected');
+      return null;
+    }
+
+    try {
+      const response = await this.client!.get(
+        `/api/v1/stores/${storeId}/invoices/${invoiceId}/payment-methods`
+      );
+      if (!Array.isArray(response.data)) {
+        console.error(`Payment methods response for invoice ${invoiceId} is not an array`);
+        return null;
+      }
+      return (response.data as BTCPayPaymentMethod[]).map((method) => ({
+        ...method,
+        payments: Array.isArray(method.payments) ? method.payments : [],
+      }));
+    } catch (error) {
+      console.error(`Failed to get payment methods for invoice ${invoiceId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * List a store's pull payments, archived ones included. Returns null on failure.
+   */
+  async listPullPayments(storeId: string): Promise<BTCPayPullPayment[] | null> {
+    if (!(await this.ensureConnection())) {
+      console.error('Cannot list pull payments: BTCPayServer not connected');
+      return null;
+    }
+
+    try {
+      const response = await this.client!.get(
+        `/api/v1/stores/${storeId}/pull-payments?includeArchived=true`
+      );
+      if (!Array.isArray(response.data)) {
+        console.error(`Pull payment list response for store ${storeId} is not an array`);
+        return null;
+      }
+      return response.data as BTCPayPullPayment[];
+    } catch (error) {
+      console.error(`Failed to list pull payments for store ${storeId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the payouts claimed against a pull payment. Returns null on failure.
+   */
+  async getPullPaymentPayouts(pullPaymentId: string): Promise<BTCPayPayout[] | null> {
+    if (!(await this.ensureConnection())) {
+      console.error('Cannot get pull payment payouts: BTCPayServer not connected');
+      return null;
+    }
+
+    try {
+      const response = await this.client!.get(
+        `/api/v1/pull-payments/${pullPaymentId}/payouts?includeCancelled=false`
+      );
+      if (!Array.isArray(response.data)) {
+        console.error(`Payout list response for pull payment ${pullPaymentId} is not an array`);
+        return null;
+      }
+      return response.data as BTCPayPayout[];
+    } catch (error) {
+      console.error(`Failed to get payouts for pull payment ${pullPaymentId}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Register a webhook for payment notifications
-   * Default events: InvoiceSettled (payment fully confirmed), InvoiceReceivedPayment (payment received), InvoiceProcessing (payment confirmed, waiting for blockchain confirmations)
+   * Default events: InvoicePaymentSettled (a payment confirmed), InvoiceExpired (invoice timed out,
+   * possibly partially paid), InvoiceInvalid (invoice invalidated by BTCPay or the merchant)
+   * Registers against the selected store unless a store ID is given
    */
   async registerWebhook(
     webhookUrl: string,
-    events: string[] = ['InvoiceSettled', 'InvoiceReceivedPayment', 'InvoiceProcessing']
+    events: string[] = WEBHOOK_EVENTS,
+    storeId?: string
   ): Promise<WebhookData | null> {
     if (!(await this.ensureConnection())) {
       console.error('Cannot register webhook: BTCPayServer not connected');
@@ -337,19 +938,11 @@ export class BTCPayServer {
     }
 
     try {
-      // Get the first available store
-      const stores = await this.getStores();
-      if (!stores || stores.length === 0) {
-        console.error('No stores found in BTCPayServer');
-        return null;
-      }
-
-      const storeId = (stores[0] as { id: string })?.id;
-      if (!storeId) {
-        console.error('Store does not have a valid ID field');
+      const targetStoreId = await this.resolveStoreId(storeId);
+      if (!targetStoreId) {
         return null;
       }
-      console.log(`📍 Registering webhook for store: ${storeId}`);
+      console.log(`📍 Registering webhook for store: ${targetStoreId}`);
 
       const webhookData = {
         enabled: true,
@@ -362,7 +955,13 @@ export class BTCPayServer {
         secret: this.generateWebhookSecret(),
       };
 
-      const response = await this.client!.post(`/api/v1/stores/${storeId}/webhooks`, webhookData);
+      const response = await this.client!.post(
+        `/api/v1/stores/${targetStoreId}/webhooks`,
+        webhookData
+      );
+
+      // Persist the secret so incoming deliveries can be verified against it
+      this.saveWebhookSecret(response.data.id, webhookData.secret);
 
       return {
         id: response.data.id,
@@ -381,57 +980,329 @@ export class BTCPayServer {
    * Generate a random webhook secret
    */
   private generateWebhookSecret(): string {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    let result = '';
-    for (let i = 0; i < WEBHOOK_SECRET_LENGTH; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
+    return crypto.randomBytes(WEBHOOK_SECRET_LENGTH).toString('hex');
+  }
+
+  /**
+   * Save a webhook's HMAC secret (encrypted) keyed by its BTCPay webhook ID. Throws if it can't
+   * be saved, since deliveries signed with it could not be verified.
+   */
+  private saveWebhookSecret(webhookId: string, secret: string): void {
+    setConfigValue(`${WEBHOOK_SECRET_KEY_PREFIX}${webhookId}`, secret, { encrypted: true });
+    console.log(`✅ Webhook secret saved for webhook: ${webhookId}`);
+  }
+
+  /**
+   * Get the HMAC secret for a webhook we registered, or null if we don't know it
+   */
+  getWebhookSecret(webhookId: string): string | null {
+    try {
+      return getConfigValue(`${WEBHOOK_SECRET_KEY_PREFIX}${webhookId}`) ?? null;
+    } catch (error) {
+      console.error(`Failed to load webhook secret for webhook ${webhookId}:`, error);
+      return null;
     }
-    return result;
   }
 
   /**
-   * Get registered webhooks
+   * Get registered webhooks of the selected store (or the given one)
    */
-  async getWebhooks(): Promise<WebhookData[]> {
+  async getWebhooks(storeId?: string): Promise<WebhookData[]> {
     if (!(await this.ensureConnection())) {
       console.error('Cannot get webhooks: BTCPayServer not connected');
       return [];
     }
 
     try {
-      // Get the first available store
-      const stores = await this.getStores();
-      if (!stores || stores.length === 0) {
-        console.error('No stores found in BTCPayServer');
+      const targetStoreId = await this.resolveStoreId(storeId);
+      if (!targetStoreId) {
         return [];
       }
+      return await this.fetchWebhooks(targetStoreId);
+    } catch (error) {
+      console.error('Failed to get webhooks:', error);
+      return [];
+    }
+  }
 
-      const storeId = (stores[0] as { id: string })?.id;
-      if (!storeId) {
-        console.error('Store does not have a valid ID field');
-        return [];
+  /**
+   * Change a webhook's URL, events or enabled state, keeping its secret
+   */
+  async updateWebhook(
+    webhookId: string,
+    update: WebhookUpdate,
+    storeId?: string
+  ): Promise<WebhookData | null> {
+    if (!(await this.ensureConnection())) {
+      console.error('Cannot update webhook: BTCPayServer not connected');
+      return null;
+    }
+
+    try {
+      const targetStoreId = await this.resolveStoreId(storeId);
+      if (!targetStoreId) {
+        return null;
       }
-      const response = await this.client!.get(`/api/v1/stores/${storeId}/webhooks`);
-
-      // Transform the response to match our WebhookData interface
-      return response.data.map(
-        (webhook: {
-          id: string;
-          url: string;
-          enabled: boolean;
-          authorizedEvents?: { specificEvents?: string[] };
-          secret?: string;
-        }) => ({
-          id: webhook.id,
-          url: webhook.url,
-          events: webhook.authorizedEvents?.specificEvents || [],
-          active: webhook.enabled,
-          secret: webhook.secret,
-        })
+      const current = (await this.fetchWebhooks(targetStoreId)).find(
+        (webhook) => webhook.id === webhookId
       );
+      if (!current) {
+        console.error(`Cannot update webhook ${webhookId}: not found`);
+        return null;
+      }
+
+      const updated = await this.putWebhook(targetStoreId, {
+        ...current,
+        url: update.url ?? current.url,
+        events: update.events ?? current.events,
+        active: update.active ?? current.active,
+      });
+      console.log(`✅ Updated webhook ${webhookId}`);
+      return updated;
     } catch (error) {
-      console.error('Failed to get webhooks:', error);
-      return [];
+      console.error(`Failed to update webhook ${webhookId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Give a webhook a new HMAC secret. Deliveries signed with the old one are rejected after this.
+   */
+  async rotateWebhookSecret(webhookId: string, storeId?: string): Promise<WebhookData | null> {
+    if (!(await this.ensureConnection())) {
+      console.error('Cannot rotate webhook secret: BTCPayServer not connected');
+      return null;
+    }
+
+    try {
+      const targetStoreId = await this.resolveStoreId(storeId);
+      if (!targetStoreId) {
+        return null;
+      }
+      const current = (await this.fetchWebhooks(targetStoreId)).find(
+        (webhook) => webhook.id === webhookId
+      );
+      if (!current) {
+        console.error(`Cannot rotate secret of webhook ${webhookId}: not found`);
+        return null;
+      }
+
+      const updated = await this.putWebhookSecret(
+        targetStoreId,
+        current,
+        this.generateWebhookSecret()
+      );
+      console.log(`🔑 Rotated secret of webhook ${webhookId}`);
+      return updated;
+    } catch (error) {
+      console.error(`Failed to rotate secret of webhook ${webhookId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a webhook and forget its secret
+   */
+  async deleteWebhook(webhookId: string, storeId?: string): Promise<boolean> {
+    if (!(await this.ensureConnection())) {
+      console.error('Cannot delete webhook: BTCPayServer not connected');
+      return false;
+    }
+
+    try {
+      const targetStoreId = await this.resolveStoreId(storeId);
+      if (!targetStoreId) {
+        return false;
+      }
+      await this.client!.delete(`/api/v1/stores/${targetStoreId}/webhooks/${webhookId}`);
+      deleteConfigValue(`${WEBHOOK_SECRET_KEY_PREFIX}${webhookId}`);
+      console.log(`🗑️ Deleted webhook ${webhookId}`);
+      return true;
+    } catch (error) {
+      console.error(`Failed to delete webhook ${webhookId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Make sure exactly one enabled webhook with our events and a secret we know points at
+   * the given URL: registers one if missing, repairs the best existing one and deletes
+   * duplicates. Returns null if BTCPay can't be reached or no store is selected.
+   */
+  async ensureWebhook(webhookUrl: string, storeId?: string): Promise<EnsureWebhookResult | null> {
+    if (!(await this.ensureConnection())) {
+      console.error('Cannot ensure webhook: BTCPayServer not connected');
+      return null;
+    }
+
+    try {
+      const targetStoreId = await this.resolveStoreId(storeId);
+      if (!targetStoreId) {
+        return null;
+      }
+
+      const ours = (await this.fetchWebhooks(targetStoreId)).filter(
+        (webhook) => webhook.url === webhookUrl
+      );
+      if (ours.length === 0) {
+        const webhook = await this.registerWebhook(webhookUrl, WEBHOOK_EVENTS, targetStoreId);
+        return webhook ? { webhook, action: 'created', removed: [] } : null;
+      }
+
+      // Prefer a webhook whose deliveries we can verify, then one that is enabled
+      const rank = (webhook: WebhookData) =>
+        (this.getWebhookSecret(webhook.id) ? 2 : 0) + (webhook.active ? 1 : 0);
+      const [keep, ...duplicates] = [...ours].sort((a, b) => rank(b) - rank(a));
+
+      const removed: string[] = [];
+      for (const duplicate of duplicates) {
+        if (await this.deleteWebhook(duplicate.id, targetStoreId)) {
+          removed.push(duplicate.id);
+        }
+      }
+
+      const healthy = keep.active && sameEvents(keep.events, WEBHOOK_EVENTS);
+      const secretKnown = !!this.getWebhookSecret(keep.id);
+      if (healthy && secretKnown) {
+        return { webhook: keep, action: 'unchanged', removed };
+      }
+
+      const repaired = { ...keep, events: WEBHOOK_EVENTS, active: true };
+      const webhook = secretKnown
+        ? await this.putWebhook(targetStoreId, repaired)
+        : await this.putWebhookSecret(targetStoreId, repaired, this.generateWebhookSecret());
+      console.log(`🔧 Repaired webhook ${keep.id}`);
+      return { webhook, action: 'updated', removed };
+    } catch (error) {
+      console.error('Failed to ensure webhook:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Most recent deliveries of a webhook, newest first. Null if they couldn't be fetched.
+   */
+  async getWebhookDeliveries(
+    webhookId: string,
+    storeId?: string,
+    count: number = DELIVERY_PAGE_SIZE
+  ): Promise<WebhookDelivery[] | null> {
+    if (!(await this.ensureConnection())) {
+      console.error('Cannot get webhook deliveries: BTCPayServer not connected');
+      return null;
+    }
+
+    try {
+      const targetStoreId = await this.resolveStoreId(storeId);
+      if (!targetStoreId) {
+        return null;
+      }
+      const response = await this.client!.get(
+        `/api/v1/stores/${targetStoreId}/webhooks/${webhookId}/deliveries`,
+        { params: { count } }
+      );
+      if (!Array.isArray(response.data)) {
+        console.error(`Delivery list response for webhook ${webhookId} is not an array`);
+        return null;
+      }
+      return (response.data as WebhookDelivery[]).map((delivery) => ({
+        id: delivery.id,
+        timestamp: delivery.timestamp,
+        httpCode: delivery.httpCode ?? null,
+        errorMessage: delivery.errorMessage ?? null,
+        status: delivery.status,
+      }));
+    } catch (error) {
+      console.error(`Failed to get deliveries for webhook ${webhookId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Ask BTCPay to send a delivery again. Returns the ID of the new delivery.
+   */
+  async redeliverWebhook(
+    webhookId: string,
+    deliveryId: string,
+    storeId?: string
+  ): Promise<string | null> {
+    if (!(await this.ensureConnection())) {
+      console.error('Cannot redeliver webhook: BTCPayServer not connected');
+      return null;
+    }
+
+    try {
+      const targetStoreId = await this.resolveStoreId(storeId);
+      if (!targetStoreId) {
+        return null;
+      }
+      const response = await this.client!.post(
+        `/api/v1/stores/${targetStoreId}/webhooks/${webhookId}/deliveries/${deliveryId}/redeliver`
+      );
+      return typeof response.data === 'string' ? response.data : null;
+    } catch (error) {
+      console.error(`Failed to redeliver ${deliveryId} of webhook ${webhookId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * List a store's webhooks, throwing on failure (unlike getWebhooks) so callers never
+   * mistake an outage for "no webhooks"
+   */
+  private async fetchWebhooks(storeId: string): Promise<WebhookData[]> {
+    const response = await this.client!.get(`/api/v1/stores/${storeId}/webhooks`);
+
+    // Transform the response to match our WebhookData interface
+    return (response.data as BTCPayWebhookResponse[]).map((webhook) => ({
+      id: webhook.id,
+      url: webhook.url,
+      events: webhook.authorizedEvents?.specificEvents || [],
+      active: webhook.enabled,
+    }));
+  }
+
+  /**
+   * Replace a webhook's settings. BTCPay keeps the current secret when none is sent.
+   */
+  private async putWebhook(
+    storeId: string,
+    webhook: WebhookData,
+    secret?: string
+  ): Promise<WebhookData> {
+    await this.client!.put(`/api/v1/stores/${storeId}/webhooks/${webhook.id}`, {
+      enabled: webhook.active,
+      automaticRedelivery: true,
+      url: webhook.url,
+      authorizedEvents: {
+        everything: false,
+        specificEvents: webhook.events,
+      },
+      ...(secret ? { secret } : {}),
+    });
+    return { id: webhook.id, url: webhook.url, events: webhook.events, active: webhook.active };
+  }
+
+  /**
+   * Give a webhook a new secret. It is saved before BTCPay starts signing with it, and the
+   * previous one is put back if BTCPay doesn't take it, so the two never disagree.
+   */
+  private async putWebhookSecret(
+    storeId: string,
+    webhook: WebhookData,
+    secret: string
+  ): Promise<WebhookData> {
+    const previous = this.getWebhookSecret(webhook.id);
+    this.saveWebhookSecret(webhook.id, secret);
+    try {
+      return await this.putWebhook(storeId, webhook, secret);
+    } catch (error) {
+      if (previous) {
+        this.saveWebhookSecret(webhook.id, previous);
+      } else {
+        deleteConfigValue(`${WEBHOOK_SECRET_KEY_PREFIX}${webhook.id}`);
+      }
+      throw error;
     }
   }
 }
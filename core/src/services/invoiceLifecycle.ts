@@ -0,0 +1,45 @@
+export type InvoiceLifecycleStatus =
+  | 'pending'
+  | 'paying'
+  | 'settled'
+  | 'expired'
+  | 'invalid'
+  | 'refunded';
+
+export const INVOICE_LIFECYCLE_STATUSES: InvoiceLifecycleStatus[] = [
+  'pending',
+  'paying',
+  'settled',
+  'expired',
+  'invalid',
+  'refunded',
+];
+
+// Reconciliation statuses that mean the invoice has been paid in full
+const FULLY_PAID_STATUSES = ['completed', 'full', 'overpaid'];
+
+/**
+ * Where an invoice is in its BTCPay lifecycle, from the events seen and how it reconciled
+ */
+export function getLifecycleStatus(
+  eventTypes: string[],
+  reconciliationStatus: string | null,
+  refundedFiat: number
+): InvoiceLifecycleStatus {
+  let status: InvoiceLifecycleStatus = 'pending';
+  if (eventTypes.includes('InvoiceInvalid') || reconciliationStatus === 'invalidated') {
+    status = 'invalid';
+  } else if (refundedFiat > 0) {
+    status = 'refunded';
+  } else if (
+    eventTypes.includes('InvoiceSettled') ||
+    FULLY_PAID_STATUSES.includes(reconciliationStatus ?? '')
+  ) {
+    status = 'settled';
+  } else if (eventTypes.includes('InvoiceExpired')) {
+    status = 'expired';
+  } else if (eventTypes.includes('InvoicePaymentSettled')) {
+    status = 'paying';
+  }
+  return status;
+}
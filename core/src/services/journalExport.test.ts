@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { initializeDatabase, getDatabase, closeDatabase } from '../models/database';
+import { insertPosting, insertReconciliation } from '../models/testFixtures';
+import { isValidAccountName, renderJournal, saveJournalAccounts } from './journalExport';
+
+describe('renderJournal', () => {
+  beforeEach(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await initializeDatabase();
+    insertReconciliation({
+      id: 'rec_1',
+      invoiceId: 'inv_1',
+      sats: 250000,
+      cents: 10000,
+      paidAt: '2024-01-15T10:30:00.000Z',
+      txids: ['tx_a', 'tx_b'],
+      transactionId: '146',
+    });
+    insertPosting({
+      reconciliationId: 'rec_1',
+      transactionId: '146',
+      sats: 250000,
+      cents: 10000,
+      paidAt: '2024-01-15T10:30:00.000Z',
+    });
+    insertReconciliation({
+      id: 'rec_2',
+      invoiceId: 'inv_2',
+      sats: 50000,
+      cents: 2150,
+      status: 'failed',
+      paidAt: '2024-02-02T08:00:00.000Z',
+    });
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should write balanced beancount transactions with metadata and prices', () => {
+    expect(renderJournal('beancount')).toBe(
+      [
+        '2024-01-15 commodity SATS',
+        '',
+        '2024-01-15 open Assets:Bitcoin',
+        '2024-01-15 open Income:Sales',
+        '',
+        '2024-01-15 * "BTCPay" "Invoice inv_1"',
+        '  btcpay_invoice_id: "inv_1"',
+        '  status: "full"',
+        '  transaction_id: "146"',
+        '  txids: "tx_a,tx_b"',
+        '  Assets:Bitcoin  250000 SATS @@ 100.00 USD',
+        '  Income:Sales  -100.00 USD',
+        '2024-01-15 price SATS 0.0004 USD',
+        '',
+        '2024-02-02 ! "BTCPay" "Invoice inv_2"',
+        '  btcpay_invoice_id: "inv_2"',
+        '  status: "failed"',
+        '  Assets:Bitcoin  50000 SATS @@ 21.50 USD',
+        '  Income:Sales  -21.50 USD',
+        '2024-02-02 price SATS 0.00043 USD',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should write ledger dates and a single txids tag', () => {
+    const journal = renderJournal('ledger', { to: '2024-01-31' });
+
+    expect(journal).toContain('2024/01/15 * BTCPay invoice inv_1\n    ; btcpay_invoice_id: inv_1');
+    expect(journal).toContain('    ; txids: tx_a,tx_b\n');
+    expect(journal).toContain('    Assets:Bitcoin  250000 SATS @@ 100.00 USD\n');
+    expect(journal).toContain('P 2024/01/15 SATS 0.0004 USD');
+    expect(journal).not.toContain('inv_2');
+  });
+
+  it('should write one hledger tag per txid', () => {
+    const journal = renderJournal('hledger', { from: '2024-01-15', to: '2024-01-15' });
+
+    expect(journal).toContain('2024-01-15 * BTCPay invoice inv_1');
+    expect(journal).toContain('    ; txid: tx_a\n    ; txid: tx_b\n');
+    expect(journal).toContain('P 2024-01-15 SATS 0.0004 USD');
+  });
+
+  it('should use the configured account names', () => {
+    saveJournalAccounts({
+      bitcoinAccount: 'Assets:Crypto:BTC',
+      incomeAccount: 'Income:Shop',
+      overpaymentAccount: 'Liabilities:Customer-Credit',
+    });
+
+    const journal = renderJournal('hledger', { from: '2024-02-01' });
+
+    expect(journal).toContain('account Assets:Crypto:BTC\naccount Income:Shop\n');
+    expect(journal).toContain('    Assets:Crypto:BTC  50000 SATS @@ 21.50 USD\n');
+    expect(journal).toContain('    Income:Shop  -21.50 USD\n');
+  });
+
+  it('should fall back to the creation day and leave out reconciliations without sats', () => {
+    insertReconciliation({
+      id: 'rec_3',
+      invoiceId: 'inv_3',
+      sats: 1000,
+      cents: 40,
+      status: 'pending',
+      createdAt: '2024-03-01 00:00:00',
+    });
+    insertReconciliation({ id: 'rec_4', invoiceId: 'inv_4', sats: 0, cents: 0 });
+
+    const journal = renderJournal('beancount', { from: '2024-03-01' });
+
+    expect(journal).toContain('2024-03-01 ! "BTCPay" "Invoice inv_3"');
+    expect(journal).not.toContain('inv_4');
+  });
+
+  it('should book each posted transaction of an invoice paid in instalments', () => {
+    insertReconciliation({ id: 'rec_3', invoiceId: 'inv_3', sats: 200000, cents: 10000 });
+    insertPosting({
+      reconciliationId: 'rec_3',
+      transactionId: '150',
+      sats: 100000,
+      cents: 5000,
+      paidAt: '2024-03-01T09:00:00.000Z',
+    });
+    insertPosting({
+      reconciliationId: 'rec_3',
+      sequence: 2,
+      transactionId: '151',
+      sats: 100000,
+      cents: 5000,
+      paidAt: '2024-03-02T09:00:00.000Z',
+    });
+
+    const journal = renderJournal('hledger', { from: '2024-03-01' });
+
+    expect(journal).toContain(
+      '2024-03-01 * BTCPay invoice inv_3\n' +
+        '    ; btcpay_invoice_id: inv_3\n' +
+        '    ; status: full\n' +
+        '    ; transaction_id: 150\n' +
+        '    Assets:Bitcoin  100000 SATS @@ 50.00 USD\n' +
+        '    Income:Sales  -50.00 USD\n'
+    );
+    expect(journal).toContain('2024-03-02 * BTCPay invoice inv_3');
+    expect(journal).toContain('    ; transaction_id: 151\n');
+  });
+
+  it('should only book the posted invoice amount as income for overpayments', () => {
+    insertReconciliation({
+      id: 'rec_3',
+      invoiceId: 'inv_3',
+      sats: 275000,
+      cents: 11000,
+      status: 'overpaid',
+    });
+    insertPosting({
+      reconciliationId: 'rec_3',
+      transactionId: '150',
+      sats: 275000,
+      cents: 10000,
+      paidAt: '2024-03-01T09:00:00.000Z',
+    });
+
+    const journal = renderJournal('beancount', { from: '2024-03-01' });
+
+    expect(journal).toContain('2024-03-01 open Liabilities:Overpayments\n');
+    expect(journal).toContain(
+      '  Assets:Bitcoin  275000 SATS @@ 110.00 USD\n' +
+        '  Income:Sales  -100.00 USD\n' +
+        '  Liabilities:Overpayments  -10.00 USD\n'
+    );
+  });
+
+  it('should offset reversed transactions and leave out invoices invalidated before posting', () => {
+    insertReconciliation({
+      id: 'rec_3',
+      invoiceId: 'inv_3',
+      sats: 200000,
+      cents: 10000,
+      status: 'invalidated',
+    });
+    insertPosting({
+      reconciliationId: 'rec_3',
+      transactionId: '150',
+      sats: 200000,
+      cents: 10000,
+      paidAt: '2024-03-01T09:00:00.000Z',
+      reversedAt: '2024-03-05 12:00:00',
+    });
+    insertReconciliation({
+      id: 'rec_4',
+      invoiceId: 'inv_4',
+      sats: 1000,
+      cents: 50,
+      status: 'invalidated',
+    });
+
+    const journal = renderJournal('ledger', { from: '2024-03-01' });
+
+    expect(journal).toContain('2024/03/01 * BTCPay invoice inv_3\n');
+    expect(journal).toContain(
+      '2024/03/05 * BTCPay reversal of invoice inv_3\n' +
+        '    ; btcpay_invoice_id: inv_3\n' +
+        '    ; reversed_transaction_id: 150\n' +
+        '    ; reversal_method: void\n' +
+        '    Assets:Bitcoin  -200000 SATS @@ 100.00 USD\n' +
+        '    Income:Sales  100.00 USD\n'
+    );
+    expect(journal).not.toContain('P 2024/03/05');
+    expect(journal).not.toContain('inv_4');
+  });
+
+  it('should book posted refunds at the rate the invoice was paid at', () => {
+    getDatabase()
+      .prepare(
+        `INSERT INTO refunds
+           (id, reconciliation_id, btcpay_invoice_id, store_id, amount_fiat, currency, status,
+            transaction_id, refunded_at)
+         VALUES ('pp_1', 'rec_1', 'inv_1', 'store_a', 2500, 'USD', 'posted', 'rr_9',
+                 '2024-01-20T12:00:00.000Z')`
+      )
+      .run();
+
+    const journal = renderJournal('beancount', { to: '2024-01-31' });
+
+    expect(journal).toContain(
+      '2024-01-20 * "BTCPay" "Refund of invoice inv_1"\n' +
+        '  btcpay_invoice_id: "inv_1"\n' +
+        '  refund_id: "pp_1"\n' +
+        '  transaction_id: "rr_9"\n' +
+        '  Assets:Bitcoin  -62500 SATS @@ 25.00 USD\n' +
+        '  Income:Sales  25.00 USD\n'
+    );
+  });
+
+  it('should render nothing for an empty range', () => {
+    expect(renderJournal('ledger', { from: '2025-01-01' })).toBe('');
+  });
+});
+
+describe('isValidAccountName', () => {
+  it.each([
+    ['Assets:Bitcoin', true],
+    ['Income:Sales:Online-Store', true],
+    ['Assets', false],
+    ['assets:bitcoin', false],
+    ['Revenue:Sales', false],
+    ['Assets:Cold Storage', false],
+  ])('%s is %s', (name, valid) => {
+    expect(isValidAccountName(name)).toBe(valid);
+  });
+});
@@ -0,0 +1,379 @@
+import { getConfigValue, setConfigValue } from '../models/config';
+import {
+  listReconciliations,
+  Reconciliation,
+  ReconciliationFilter,
+} from '../models/reconciliations';
+import { listPostings } from '../models/postings';
+import { listRefunds, Refund } from '../models/refunds';
+
+// Constants
+export const JOURNAL_FORMATS = ['beancount', 'ledger', 'hledger'] as const;
+export const SATS_COMMODITY = 'SATS';
+
+// Account names every plain-text accounting tool accepts: a beancount root type, then
+// capitalised components
+const ACCOUNT_NAME_PATTERN =
+  /^(Assets|Liabilities|Equity|Income|Expenses)(:[A-Z0-9][A-Za-z0-9-]*)+$/;
+
+export type JournalFormat = (typeof JOURNAL_FORMATS)[number];
+
+export interface JournalAccounts {
+  bitcoinAccount: string; // Where received sats are held
+  incomeAccount: string; // What the payments are booked against
+  overpaymentAccount: string; // Received beyond the invoice price, which is never posted
+}
+
+export const DEFAULT_JOURNAL_ACCOUNTS: JournalAccounts = {
+  bitcoinAccount: 'Assets:Bitcoin',
+  incomeAccount: 'Income:Sales',
+  overpaymentAccount: 'Liabilities:Overpayments',
+};
+
+const ACCOUNT_CONFIG_KEYS: Record<keyof JournalAccounts, string> = {
+  bitcoinAccount: 'journal_bitcoin_account',
+  incomeAccount: 'journal_income_account',
+  overpaymentAccount: 'journal_overpayment_account',
+};
+
+export const JOURNAL_ACCOUNT_FIELDS = Object.keys(ACCOUNT_CONFIG_KEYS) as (keyof JournalAccounts)[];
+
+// File extension each tool expects
+export const JOURNAL_FILE_EXTENSIONS: Record<JournalFormat, string> = {
+  beancount: 'beancount',
+  ledger: 'ledger',
+  hledger: 'journal',
+};
+
+/**
+ * Whether an account name is usable in every supported journal format
+ */
+export function isValidAccountName(name: string): boolean {
+  return ACCOUNT_NAME_PATTERN.test(name);
+}
+
+/**
+ * Account names the journal is written with (configured, or the defaults)
+ */
+export function getJournalAccounts(): JournalAccounts {
+  const accounts = { ...DEFAULT_JOURNAL_ACCOUNTS };
+  for (const field of JOURNAL_ACCOUNT_FIELDS) {
+    const value = getConfigValue(ACCOUNT_CONFIG_KEYS[field]);
+    if (value && isValidAccountName(value)) {
+      accounts[field] = value;
+    }
+  }
+  return accounts;
+}
+
+/**
+ * Store the account names (callers validate them with isValidAccountName first)
+ */
+export function saveJournalAccounts(accounts: JournalAccounts): void {
+  for (const field of JOURNAL_ACCOUNT_FIELDS) {
+    setConfigValue(ACCOUNT_CONFIG_KEYS[field], accounts[field]);
+  }
+}
+
+// One side of a journal transaction: sats at their fiat cost, or a plain fiat amount
+interface JournalLeg {
+  account: string;
+  sats?: number; // Signed
+  cents: number; // Signed; the fiat cost of the sats when sats are set
+}
+
+interface JournalEntry {
+  date: string; // YYYY-MM-DD
+  cleared: boolean; // Posted to the books; anything else is flagged for review
+  description: string; // e.g. "Invoice inv_1", "Refund of invoice inv_1"
+  currency: string;
+  rate: string | null; // Fiat per sat the invoice was paid at, for payments
+  metadata: [string, string][];
+  txids: string[];
+  legs: JournalLeg[];
+}
+
+function formatRate(fiatCents: number, sats: number): string {
+  return (fiatCents / 100 / sats).toFixed(12).replace(/\.?0+$/, '');
+}
+
+function formatFiat(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function formatLeg(leg: JournalLeg, currency: string): string {
+  if (leg.sats === undefined) {
+    return `${formatFiat(leg.cents)} ${currency}`;
+  }
+  return `${leg.sats} ${SATS_COMMODITY} @@ ${formatFiat(Math.abs(leg.cents))} ${currency}`;
+}
+
+function bookingDay(timestamp: string): string {
+  return timestamp.slice(0, 10);
+}
+
+/**
+ * Legs that reverse the given ones, for reversals and refunds
+ */
+function offset(legs: JournalLeg[]): JournalLeg[] {
+  return legs.map((leg) => ({
+    account: leg.account,
+    sats: leg.sats === undefined ? undefined : -leg.sats,
+    cents: -leg.cents,
+  }));
+}
+
+/**
+ * What was posted for a reconciliation, one entry per posted transaction, followed by an
+ * offsetting entry for each one that was reversed. Overpayments beyond what was posted are
+ * held in the overpayment account. Reconciliations that were never posted are flagged for
+ * review with what was received, except invalidated and unpaid expired ones, which have nothing
+ * to book.
+ */
+function toEntries(reconciliation: Reconciliation, accounts: JournalAccounts): JournalEntry[] {
+  const invoiceId = reconciliation.btcpayInvoiceId ?? reconciliation.id;
+  const currency = reconciliation.currency.toUpperCase();
+  const rate = formatRate(reconciliation.amountFiat, reconciliation.amountSats);
+  const postings = listPostings(reconciliation.id);
+
+  if (postings.length === 0) {
+    if (reconciliation.status === 'invalidated' || reconciliation.status === 'expired') {
+      return [];
+    }
+    return [
+      {
+        date: bookingDay(
+          reconciliation.paidAt ?? reconciliation.processedAt ?? reconciliation.createdAt
+        ),
+        cleared: false,
+        description: `Invoice ${invoiceId}`,
+        currency,
+        rate,
+        metadata: [
+          ['btcpay_invoice_id', invoiceId],
+          ['status', reconciliation.status],
+        ],
+        txids: reconciliation.txids,
+        legs: [
+          {
+            account: accounts.bitcoinAccount,
+            sats: reconciliation.amountSats,
+            cents: reconciliation.amountFiat,
+          },
+          { account: accounts.incomeAccount, cents: -reconciliation.amountFiat },
+        ],
+      },
+    ];
+  }
+
+  const posted = postings.reduce((total, posting) => total + posting.amountFiat, 0);
+  const overpaid = reconciliation.status === 'overpaid' ? reconciliation.amountFiat - posted : 0;
+
+  const entries: JournalEntry[] = [];
+  postings.forEach((posting, index) => {
+    const excess = index === postings.length - 1 && overpaid > 0 ? overpaid : 0;
+    const legs: JournalLeg[] = [
+      {
+        account: accounts.bitcoinAccount,
+        sats: posting.amountSats,
+        cents: posting.amountFiat + excess,
+      },
+      { account: accounts.incomeAccount, cents: -posting.amountFiat },
+    ];
+    if (excess > 0) {
+      legs.push({ account: accounts.overpaymentAccount, cents: -excess });
+    }
+
+    const metadata: [string, string][] = [
+      ['btcpay_invoice_id', invoiceId],
+      ['status', reconciliation.status],
+      ['transaction_id', posting.transactionId],
+    ];
+    if (posting.accountingProvider) {
+      metadata.push(['accounting_provider', posting.accountingProvider]);
+    }
+    entries.push({
+      date: bookingDay(posting.paidAt ?? posting.postedAt),
+      cleared: true,
+      description: `Invoice ${invoiceId}`,
+      currency,
+      rate,
+      metadata,
+      txids: index === 0 ? reconciliation.txids : [],
+      legs,
+    });
+
+    if (posting.reversedAt) {
+      const reversal: [string, string][] = [
+        ['btcpay_invoice_id', invoiceId],
+        ['reversed_transaction_id', posting.transactionId],
+      ];
+      if (posting.reversalMethod) {
+        reversal.push(['reversal_method', posting.reversalMethod]);
+      }
+      if (posting.reversalTransactionId) {
+        reversal.push(['transaction_id', posting.reversalTransactionId]);
+      }
+      entries.push({
+        date: bookingDay(posting.reversedAt),
+        cleared: true,
+        description: `Reversal of invoice ${invoiceId}`,
+        currency,
+        rate: null,
+        metadata: reversal,
+        txids: [],
+        legs: offset(legs),
+      });
+    }
+  });
+  return entries;
+}
+
+/**
+ * A posted refund: income given back and sats paid out, valued at the rate the invoice was
+ * paid at
+ */
+function toRefundEntry(
+  refund: Refund,
+  reconciliation: Reconciliation,
+  accounts: JournalAccounts
+): JournalEntry {
+  const invoiceId = reconciliation.btcpayInvoiceId ?? reconciliation.id;
+  const sats =
+    reconciliation.amountFiat > 0
+      ? Math.round((refund.amountFiat * reconciliation.amountSats) / reconciliation.amountFiat)
+      : 0;
+
+  const metadata: [string, string][] = [
+    ['btcpay_invoice_id', invoiceId],
+    ['refund_id', refund.id],
+  ];
+  if (refund.transactionId) {
+    metadata.push(['transaction_id', refund.transactionId]);
+  }
+  if (refund.accountingProvider) {
+    metadata.push(['accounting_provider', refund.accountingProvider]);
+  }
+
+  return {
+    date: bookingDay(refund.refundedAt ?? reconciliation.processedAt ?? reconciliation.createdAt),
+    cleared: true,
+    description: `Refund of invoice ${invoiceId}`,
+    currency: refund.currency.toUpperCase(),
+    rate: null,
+    metadata,
+    txids: [],
+    legs: offset([
+      { account: accounts.bitcoinAccount, sats, cents: refund.amountFiat },
+      { account: accounts.incomeAccount, cents: -refund.amountFiat },
+    ]),
+  };
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function renderBeancount(entries: JournalEntry[], accounts: string[]): string[] {
+  const lines: string[] = [];
+  if (entries.length) {
+    const opened = entries[0].date; // Accounts open before first use
+    lines.push(`${opened} commodity ${SATS_COMMODITY}`, '');
+    lines.push(...accounts.map((account) => `${opened} open ${account}`), '');
+  }
+
+  for (const entry of entries) {
+    lines.push(`${entry.date} ${entry.cleared ? '*' : '!'} "BTCPay" ${quote(entry.description)}`);
+    for (const [key, value] of entry.metadata) {
+      lines.push(`  ${key}: ${quote(value)}`);
+    }
+    if (entry.txids.length) {
+      lines.push(`  txids: ${quote(entry.txids.join(','))}`);
+    }
+    lines.push(...entry.legs.map((leg) => `  ${leg.account}  ${formatLeg(leg, entry.currency)}`));
+    if (entry.rate) {
+      lines.push(`${entry.date} price ${SATS_COMMODITY} ${entry.rate} ${entry.currency}`);
+    }
+    lines.push('');
+  }
+  return lines;
+}
+
+/**
+ * Ledger and hledger share a syntax; they differ in dates and in how repeated tags are read
+ * (ledger keeps one value per tag, hledger keeps them all).
+ */
+function renderLedger(
+  entries: JournalEntry[],
+  accounts: string[],
+  format: 'ledger' | 'hledger'
+): string[] {
+  const formatDate = (date: string) => (format === 'ledger' ? date.replace(/-/g, '/') : date);
+  const lines: string[] = [];
+  if (entries.length) {
+    lines.push(...accounts.map((account) => `account ${account}`));
+    lines.push(`commodity ${SATS_COMMODITY}`, '');
+  }
+
+  for (const entry of entries) {
+    const description = entry.description.charAt(0).toLowerCase() + entry.description.slice(1);
+    lines.push(`${formatDate(entry.date)} ${entry.cleared ? '*' : '!'} BTCPay ${description}`);
+    for (const [key, value] of entry.metadata) {
+      lines.push(`    ; ${key}: ${value}`);
+    }
+    if (format === 'hledger') {
+      lines.push(...entry.txids.map((txid) => `    ; txid: ${txid}`));
+    } else if (entry.txids.length) {
+      lines.push(`    ; txids: ${entry.txids.join(',')}`);
+    }
+    lines.push(...entry.legs.map((leg) => `    ${leg.account}  ${formatLeg(leg, entry.currency)}`));
+    if (entry.rate) {
+      lines.push(`P ${formatDate(entry.date)} ${SATS_COMMODITY} ${entry.rate} ${entry.currency}`);
+    }
+    lines.push('');
+  }
+  return lines;
+}
+
+/**
+ * Render what was posted to the books within the date range as a double-entry journal. Each
+ * posted payment debits the bitcoin account in sats at its fiat cost and credits income with
+ * the amount posted, followed by a price directive for the rate it was paid at. Reversals and
+ * refunds are booked as offsetting entries on the day they happened.
+ */
+export function renderJournal(format: JournalFormat, filter: ReconciliationFilter = {}): string {
+  const accounts = getJournalAccounts();
+  const reconciliations = listReconciliations().filter(
+    (reconciliation) => reconciliation.amountSats > 0
+  );
+  const byId = new Map(
+    reconciliations.map((reconciliation) => [reconciliation.id, reconciliation])
+  );
+
+  const entries = reconciliations.flatMap((reconciliation) => toEntries(reconciliation, accounts));
+  for (const refund of listRefunds('posted')) {
+    const reconciliation = byId.get(refund.reconciliationId);
+    if (reconciliation) {
+      entries.push(toRefundEntry(refund, reconciliation, accounts));
+    }
+  }
+
+  const inRange = entries
+    .filter(
+      (entry) =>
+        (!filter.from || entry.date >= filter.from) && (!filter.to || entry.date <= filter.to)
+    )
+    .sort((a, b) => a.date.localeCompare(b.date)); // Stable, so same-day entries keep their order
+
+  // Declare the accounts in use, in their configured order
+  const used = new Set(inRange.flatMap((entry) => entry.legs.map((leg) => leg.account)));
+  const declared = JOURNAL_ACCOUNT_FIELDS.map((field) => accounts[field]).filter((account) =>
+    used.has(account)
+  );
+
+  const lines =
+    format === 'beancount'
+      ? renderBeancount(inRange, declared)
+      : renderLedger(inRange, declared, format);
+  return lines.join('\n');
+}
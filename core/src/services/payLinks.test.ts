@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { initializeDatabase, closeDatabase } from '../models/database';
+import { getPayLink } from '../models/payLinks';
+import { hasPostingsForInvoice } from '../models/postings';
+import { _resetEncryptionKeyForTesting } from '../utils/crypto';
+import { btcpayClient, BTCPayInvoice } from './btcpay';
+import { AccountingProvider, getAccountingProvider, ProviderInvoice } from './accounting';
+import { PayLinkService } from './payLinks';
+
+// Mock the BTCPayServer client
+vi.mock('./btcpay', () => ({
+  btcpayClient: {
+    getSelectedStoreId: vi.fn(),
+    getInvoice: vi.fn(),
+    createInvoice: vi.fn(),
+    markInvoiceInvalid: vi.fn(),
+  },
+  getAppBaseUrl: vi.fn(() => 'http://merchant.onion'),
+}));
+
+// Mock the postings lookup
+vi.mock('../models/postings', () => ({
+  hasPostingsForInvoice: vi.fn(),
+}));
+
+// Mock the accounting provider registry
+vi.mock('./accounting', () => ({
+  getAccountingProvider: vi.fn(),
+}));
+
+const mockedBTCPayClient = vi.mocked(btcpayClient);
+
+const mockProvider = {
+  name: 'Mock Books',
+  findInvoice: vi.fn(),
+};
+
+const qboInvoice: ProviderInvoice = {
+  id: '130',
+  docNumber: '1037',
+  customerId: '58',
+  customerName: 'Acme Corp',
+  customerEmail: 'billing@acme.example',
+  totalAmount: 200,
+  balance: 150.5,
+  currency: 'USD',
+};
+
+const btcpayInvoice = (
+  id: string,
+  status: string,
+  amount = '150.5',
+  additionalStatus = 'None'
+): BTCPayInvoice => ({
+  id,
+  storeId: 'store_789',
+  status,
+  additionalStatus,
+  amount,
+  currency: 'USD',
+  checkoutLink: `https://btcpay.example.com/i/${id}`,
+  createdTime: 1700000000,
+  monitoringExpiration: 1700003600,
+});
+
+describe('PayLinkService', () => {
+  let service: PayLinkService;
+  let tmpDir: string;
+  const originalEnv = { ...process.env };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sm-pay-links-'));
+    process.env.DATABASE_PATH = ':memory:';
+    process.env.ENCRYPTION_KEY_PATH = path.join(tmpDir, 'encryption.key');
+    _resetEncryptionKeyForTesting();
+    await initializeDatabase();
+
+    vi.mocked(getAccountingProvider).mockReturnValue(mockProvider as unknown as AccountingProvider);
+    mockProvider.findInvoice.mockResolvedValue(qboInvoice);
+    mockedBTCPayClient.getSelectedStoreId.mockReturnValue('store_789');
+    mockedBTCPayClient.markInvoiceInvalid.mockResolvedValue(true);
+    vi.mocked(hasPostingsForInvoice).mockReturnValue(false);
+    service = new PayLinkService();
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    process.env = { ...originalEnv };
+    _resetEncryptionKeyForTesting();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const createToken = async () => (await service.createLink('130'))!.token;
+
+  it('should create a signed link for an existing invoice', async () => {
+    const link = await service.createLink('130');
+    expect(link?.url).toBe(`http://merchant.onion/pay/${link?.token}`);
+
+    mockProvider.findInvoice.mockResolvedValueOnce(null);
+    expect(await service.createLink('404')).toBeNull();
+  });
+
+  it('should create a BTCPay invoice for the open balance with the invoice metadata', async () => {
+    const token = await createToken();
+    mockedBTCPayClient.createInvoice.mockResolvedValueOnce(btcpayInvoice('btc_1', 'New'));
+
+    expect(await service.resolve(token)).toEqual({
+      status: 'checkout',
+      checkoutLink: 'https://btcpay.example.com/i/btc_1',
+      btcpayInvoiceId: 'btc_1',
+    });
+    expect(mockedBTCPayClient.createInvoice).toHaveBeenCalledWith('store_789', {
+      amount: '150.5',
+      currency: 'USD',
+      metadata: {
+        qboInvoiceId: '130',
+        orderId: '1037',
+        itemDesc: 'Invoice 1037',
+        buyerName: 'Acme Corp',
+        buyerEmail: 'billing@acme.example',
+      },
+    });
+    expect(getPayLink('130')).toMatchObject({ btcpayInvoiceId: 'btc_1', regeneratedCount: 0 });
+  });
+
+  it('should reuse an invoice that can still be paid', async () => {
+    const token = await createToken();
+    mockedBTCPayClient.createInvoice.mockResolvedValueOnce(btcpayInvoice('btc_1', 'New'));
+    await service.resolve(token);
+
+    mockedBTCPayClient.getInvoice.mockResolvedValueOnce(btcpayInvoice('btc_1', 'New'));
+    const resolution = await service.resolve(token);
+
+    expect(resolution).toMatchObject({ status: 'checkout', btcpayInvoiceId: 'btc_1' });
+    expect(mockedBTCPayClient.getInvoice).toHaveBeenCalledWith('store_789', 'btc_1');
+    expect(mockedBTCPayClient.createInvoice).toHaveBeenCalledTimes(1);
+  });
+
+  it('should regenerate an expired invoice in place', async () => {
+    const token = await createToken();
+    mockedBTCPayClient.createInvoice.mockResolvedValueOnce(btcpayInvoice('btc_1', 'New'));
+    await service.resolve(token);
+
+    mockedBTCPayClient.getInvoice.mockResolvedValueOnce(btcpayInvoice('btc_1', 'Expired'));
+    mockedBTCPayClient.createInvoice.mockResolvedValueOnce(btcpayInvoice('btc_2', 'New'));
+    const resolution = await service.resolve(token);
+
+    expect(resolution).toMatchObject({ status: 'checkout', btcpayInvoiceId: 'btc_2' });
+    expect(getPayLink('130')).toMatchObject({ btcpayInvoiceId: 'btc_2', regeneratedCount: 1 });
+  });
+
+  it('should replace an unpaid invoice when the open balance changed', async () => {
+    const token = await createToken();
+    mockedBTCPayClient.createInvoice.mockResolvedValueOnce(btcpayInvoice('btc_1', 'New'));
+    await service.resolve(token);
+
+    mockProvider.findInvoice.mockResolvedValueOnce({ ...qboInvoice, balance: 100 });
+    mockedBTCPayClient.getInvoice.mockResolvedValueOnce(btcpayInvoice('btc_1', 'New'));
+    mockedBTCPayClient.createInvoice.mockResolvedValueOnce(btcpayInvoice('btc_2', 'New', '100'));
+    await service.resolve(token);
+
+    expect(mockedBTCPayClient.markInvoiceInvalid).toHaveBeenCalledWith('store_789', 'btc_1');
+    expect(mockedBTCPayClient.markInvoiceInvalid.mock.invocationCallOrder[0]).toBeLessThan(
+      mockedBTCPayClient.createInvoice.mock.invocationCallOrder[1]
+    );
+    expect(mockedBTCPayClient.createInvoice).toHaveBeenLastCalledWith(
+      'store_789',
+      expect.objectContaining({ amount: '100' })
+    );
+  });
+
+  it('should keep the old invoice if it cannot be invalidated', async () => {
+    const token = await createToken();
+    mockedBTCPayClient.createInvoice.mockResolvedValueOnce(btcpayInvoice('btc_1', 'New'));
+    await service.resolve(token);
+
+    mockProvider.findInvoice.mockResolvedValueOnce({ ...qboInvoice, balance: 100 });
+    mockedBTCPayClient.getInvoice.mockResolvedValueOnce(btcpayInvoice('btc_1', 'New'));
+    mockedBTCPayClient.markInvoiceInvalid.mockResolvedValueOnce(false);
+
+    expect(await service.resolve(token)).toEqual({
+      status: 'unavailable',
+      error: 'Failed to invalidate the previous BTCPay invoice',
+    });
+    expect(mockedBTCPayClient.createInvoice).toHaveBeenCalledTimes(1);
+    expect(getPayLink('130')).toMatchObject({ btcpayInvoiceId: 'btc_1' });
+  });
+
+  it('should keep a partly paid invoice even when the open balance changed', async () => {
+    const token = await createToken();
+    mockedBTCPayClient.createInvoice.mockResolvedValueOnce(btcpayInvoice('btc_1', 'New'));
+    await service.resolve(token);
+
+    mockProvider.findInvoice.mockResolvedValueOnce({ ...qboInvoice, balance: 100 });
+    mockedBTCPayClient.getInvoice.mockResolvedValueOnce(
+      btcpayInvoice('btc_1', 'New', '150.5', 'PaidPartial')
+    );
+
+    expect(await service.resolve(token)).toMatchObject({ btcpayInvoiceId: 'btc_1' });
+    expect(mockedBTCPayClient.markInvoiceInvalid).not.toHaveBeenCalled();
+  });
+
+  it('should wait for a partial payment on an expired invoice to be posted', async () => {
+    const token = await createToken();
+    mockedBTCPayClient.createInvoice.mockResolvedValueOnce(btcpayInvoice('btc_1', 'New'));
+    await service.resolve(token);
+
+    const expired = btcpayInvoice('btc_1', 'Expired', '150.5', 'PaidPartial');
+    mockedBTCPayClient.getInvoice.mockResolvedValueOnce(expired);
+    expect(await service.resolve(token)).toMatchObject({ status: 'unavailable' });
+    expect(hasPostingsForInvoice).toHaveBeenCalledWith('btc_1');
+    expect(mockedBTCPayClient.createInvoice).toHaveBeenCalledTimes(1);
+
+    // Once posted, the accounting balance no longer includes the partial payment
+    vi.mocked(hasPostingsForInvoice).mockReturnValue(true);
+    mockProvider.findInvoice.mockResolvedValueOnce({ ...qboInvoice, balance: 50.5 });
+    mockedBTCPayClient.getInvoice.mockResolvedValueOnce(expired);
+    mockedBTCPayClient.createInvoice.mockResolvedValueOnce(btcpayInvoice('btc_2', 'New', '50.5'));
+
+    expect(await service.resolve(token)).toMatchObject({ btcpayInvoiceId: 'btc_2' });
+    expect(mockedBTCPayClient.createInvoice).toHaveBeenLastCalledWith(
+      'store_789',
+      expect.objectContaining({ amount: '50.5' })
+    );
+    expect(mockedBTCPayClient.markInvoiceInvalid).not.toHaveBeenCalled();
+  });
+
+  it('should create a single invoice for concurrent clicks', async () => {
+    const token = await createToken();
+    mockedBTCPayClient.createInvoice.mockResolvedValueOnce(btcpayInvoice('btc_1', 'New'));
+
+    const [first, second] = await Promise.all([service.resolve(token), service.resolve(token)]);
+
+    expect(first).toEqual(second);
+    expect(mockedBTCPayClient.createInvoice).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report paid invoices and invalid tokens without touching BTCPay', async () => {
+    const token = await createToken();
+    mockProvider.findInvoice.mockResolvedValueOnce({ ...qboInvoice, balance: 0 });
+
+    expect(await service.resolve(token)).toEqual({ status: 'paid' });
+    expect(await service.resolve(`${token}x`)).toEqual({ status: 'invalid' });
+    expect(mockedBTCPayClient.createInvoice).not.toHaveBeenCalled();
+  });
+
+  it('should report BTCPay failures as unavailable', async () => {
+    const token = await createToken();
+    mockedBTCPayClient.createInvoice.mockResolvedValueOnce(null);
+
+    expect(await service.resolve(token)).toEqual({
+      status: 'unavailable',
+      error: 'Failed to create the BTCPay invoice',
+    });
+    expect(getPayLink('130')).toBeNull();
+  });
+});
@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import { getConfigValue, setConfigValue } from '../models/config';
+import { getPayLink, PayLink, savePayLink } from '../models/payLinks';
+import { hasPostingsForInvoice } from '../models/postings';
+import { getAccountingProvider, ProviderInvoice } from './accounting';
+import { btcpayClient, BTCPayInvoice, getAppBaseUrl } from './btcpay';
+import { signPayLinkToken, verifyPayLinkToken } from '../utils/signing';
+import { writeLog } from '../utils/logger';
+
+// Constants
+const SECRET_CONFIG_KEY = 'pay_link_secret'; // Encrypted
+const SECRET_BYTES = 32;
+
+// BTCPay invoice statuses a pay link keeps pointing at: still payable, or already paid
+const REUSABLE_STATUSES = ['New', 'Processing', 'Settled'];
+// BTCPay additional statuses of an invoice that received a payment
+const PAID_ADDITIONAL_STATUSES = ['PaidPartial', 'PaidLate', 'PaidOver'];
+
+export interface PayLinkUrl {
+  token: string;
+  url: string;
+}
+
+export type PayLinkResolution =
+  | { status: 'checkout'; checkoutLink: string; btcpayInvoiceId: string }
+  | { status: 'paid' } // Nothing left to pay on the accounting invoice
+  | { status: 'invalid' } // Forged or malformed token, or the invoice no longer exists
+  | { status: 'unavailable'; error: string }; // Try again later
+
+/**
+ * "Pay in Bitcoin" links for accounting invoices. The link only names the accounting invoice;
+ * the BTCPay invoice behind it is created when the customer opens it, for whatever is still
+ * owed, and replaced once it expires.
+ */
+export class PayLinkService {
+  // Resolutions in flight per accounting invoice, so concurrent clicks share one BTCPay invoice
+  private pending = new Map<string, Promise<PayLinkResolution>>();
+
+  /**
+   * Signed pay link for an accounting invoice, or null if the invoice can't be found
+   */
+  async createLink(accountingInvoiceId: string): Promise<PayLinkUrl | null> {
+    const provider = getAccountingProvider();
+    if (!provider) {
+      console.error('Cannot create pay link: no accounting provider is connected');
+      return null;
+    }
+
+    const invoice = await provider.findInvoice({ id: accountingInvoiceId });
+    if (!invoice) {
+      return null;
+    }
+
+    const token = signPayLinkToken(invoice.id, this.getSecret());
+    return { token, url: `${getAppBaseUrl()}/pay/${token}` };
+  }
+
+  /**
+   * Where a pay link should send the customer right now
+   */
+  async resolve(token: string): Promise<PayLinkResolution> {
+    const accountingInvoiceId = verifyPayLinkToken(token, this.getSecret());
+    if (!accountingInvoiceId) {
+      return { status: 'invalid' };
+    }
+
+    const inFlight = this.pending.get(accountingInvoiceId);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const resolution = this.resolveInvoice(accountingInvoiceId).finally(() => {
+      this.pending.delete(accountingInvoiceId);
+    });
+    this.pending.set(accountingInvoiceId, resolution);
+    return resolution;
+  }
+
+  private async resolveInvoice(accountingInvoiceId: string): Promise<PayLinkResolution> {
+    const provider = getAccountingProvider();
+    if (!provider) {
+      return { status: 'unavailable', error: 'No accounting provider is connected' };
+    }
+
+    const invoice = await provider.findInvoice({ id: accountingInvoiceId });
+    if (!invoice) {
+      return { status: 'invalid' };
+    }
+    if (invoice.balance <= 0) {
+      return { status: 'paid' };
+    }
+
+    const storeId = btcpayClient.getSelectedStoreId();
+    if (!storeId) {
+      return { status: 'unavailable', error: 'No BTCPay store is selected' };
+    }
+
+    const existing = getPayLink(accountingInvoiceId);
+    if (existing) {
+      const current = await btcpayClient.getInvoice(existing.storeId, existing.btcpayInvoiceId);
+      if (!current) {
+        return { status: 'unavailable', error: 'Failed to look up the BTCPay invoice' };
+      }
+      if (this.isReusable(current, existing, invoice)) {
+        return {
+          status: 'checkout',
+          checkoutLink: current.checkoutLink,
+          btcpayInvoiceId: current.id,
+        };
+      }
+
+      // The open balance doesn't include this payment until the sync worker posts it
+      if (this.hasPayment(current) && !hasPostingsForInvoice(current.id)) {
+        return {
+          status: 'unavailable',
+          error: 'A payment to this invoice is still being recorded, try again shortly',
+        };
+      }
+
+      // A replaced invoice must not stay payable, or a customer with it open could pay twice
+      if (
+        current.status === 'New' &&
+        !(await btcpayClient.markInvoiceInvalid(existing.storeId, current.id))
+      ) {
+        return { status: 'unavailable', error: 'Failed to invalidate the previous BTCPay invoice' };
+      }
+    }
+
+    const created = await btcpayClient.createInvoice(storeId, {
+      amount: String(invoice.balance),
+      currency: invoice.currency || 'USD',
+      metadata: {
+        qboInvoiceId: invoice.id, // Lets the sync worker apply the payment to this invoice
+        orderId: invoice.docNumber ?? invoice.id,
+        itemDesc: `Invoice ${invoice.docNumber ?? invoice.id}`,
+        ...(invoice.customerName && { buyerName: invoice.customerName }),
+        ...(invoice.customerEmail && { buyerEmail: invoice.customerEmail }),
+      },
+    });
+    if (!created) {
+      return { status: 'unavailable', error: 'Failed to create the BTCPay invoice' };
+    }
+
+    savePayLink({
+      accountingInvoiceId,
+      btcpayInvoiceId: created.id,
+      storeId,
+      amount: String(invoice.balance),
+      currency: created.currency,
+      checkoutLink: created.checkoutLink,
+    });
+
+    if (existing) {
+      console.log(
+        `🔁 Replaced BTCPay invoice ${existing.btcpayInvoiceId} with ${created.id} for invoice ${accountingInvoiceId}`
+      );
+    }
+    writeLog('info', existing ? 'Regenerated pay link invoice' : 'Created pay link invoice', {
+      accountingInvoiceId,
+      btcpayInvoiceId: created.id,
+      previousBtcpayInvoiceId: existing?.btcpayInvoiceId ?? null,
+      amount: invoice.balance,
+    });
+
+    return { status: 'checkout', checkoutLink: created.checkoutLink, btcpayInvoiceId: created.id };
+  }
+
+  /**
+   * Whether the stored BTCPay invoice can still take (or has taken) this invoice's payment.
+   * A new invoice whose amount no longer matches the open balance is replaced, unless the
+   * customer already paid part of it.
+   */
+  private isReusable(current: BTCPayInvoice, link: PayLink, invoice: ProviderInvoice): boolean {
+    if (!REUSABLE_STATUSES.includes(current.status)) {
+      return false;
+    }
+    return (
+      current.status !== 'New' ||
+      this.hasPayment(current) ||
+      parseFloat(link.amount) === invoice.balance
+    );
+  }
+
+  private hasPayment(current: BTCPayInvoice): boolean {
+    return PAID_ADDITIONAL_STATUSES.includes(current.additionalStatus ?? '');
+  }
+
+  /**
+   * Key pay link tokens are signed with, generated on first use
+   */
+  private getSecret(): string {
+    const existing = getConfigValue(SECRET_CONFIG_KEY);
+    if (existing) {
+      return existing;
+    }
+    const secret = crypto.randomBytes(SECRET_BYTES).toString('hex');
+    setConfigValue(SECRET_CONFIG_KEY, secret, { encrypted: true });
+    return secret;
+  }
+}
+
+// Singleton instance
+export const payLinkService = new PayLinkService();
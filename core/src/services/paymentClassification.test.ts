@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import { BTCPayInvoice, BTCPayPaymentMethod } from './btcpay';
+import { classifyPayment } from './paymentClassification';
+
+// Fixture payloads shaped like BTCPay Greenfield responses for a 100.00 USD invoice at
+// 50,000 USD/BTC (1 USD = 2,000 sats)
+const invoice: BTCPayInvoice = {
+  id: 'Lz6ZQhPnB2jBvFTfJxMbLq',
+  storeId: 'store_789',
+  status: 'Settled',
+  additionalStatus: 'None',
+  amount: '100.00',
+  currency: 'USD',
+  checkoutLink: 'https://btcpay.example.com/i/Lz6ZQhPnB2jBvFTfJxMbLq',
+  createdTime: 1700000000,
+  monitoringExpiration: 1700003600,
+  metadata: { orderId: 'order-1037' },
+};
+
+const onChain = (
+  payments: { value: string; status?: string; receivedDate?: number }[]
+): BTCPayPaymentMethod => ({
+  paymentMethodId: 'BTC-CHAIN',
+  cryptoCode: 'BTC',
+  rate: '50000.00',
+  amount: '0.00200000',
+  totalPaid: payments.reduce((sum, { value }) => sum + parseFloat(value), 0).toFixed(8),
+  payments: payments.map(({ value, status = 'Settled', receivedDate = 1700000100 }, i) => ({
+    id: `txid_${i}-0`,
+    receivedDate,
+    value,
+    fee: '0.00000000',
+    status,
+    destination: 'bc1qexampleaddress',
+  })),
+});
+
+const lightning = (value: string): BTCPayPaymentMethod => ({
+  paymentMethodId: 'BTC-LN',
+  rate: '50000.00',
+  payments: [{ id: 'payment_hash', receivedDate: 1700000200, value, status: 'Settled' }],
+});
+
+describe('classifyPayment', () => {
+  it('should classify an exact payment as full', () => {
+    expect(classifyPayment(invoice, [onChain([{ value: '0.00200000' }])])).toEqual({
+      status: 'full',
+      amountSats: 200000,
+      amountFiat: 10000,
+      invoiceAmountFiat: 10000,
+      differenceFiat: 0,
+      currency: 'USD',
+      paidLate: false,
+      paidAt: new Date(1700000100 * 1000).toISOString(),
+      txids: ['txid_0'],
+      tolerancePercent: 1,
+    });
+  });
+
+  it.each([
+    ['0.00198000', 'full', -100], // 99.00: exactly 1% short
+    ['0.00202000', 'full', 100], // 101.00: exactly 1% over
+    ['0.00197980', 'partial', -101], // 98.99
+    ['0.00202020', 'overpaid', 101], // 101.01
+  ])('should apply the default ±1%% tolerance to %s BTC', (value, status, difference) => {
+    const classification = classifyPayment(invoice, [onChain([{ value }])]);
+    expect(classification.status).toBe(status);
+    expect(classification.differenceFiat).toBe(difference);
+  });
+
+  it('should use the tolerance configured for the store', () => {
+    const methods = [onChain([{ value: '0.00195000' }])]; // 97.50
+
+    expect(classifyPayment(invoice, methods).status).toBe('partial');
+    expect(classifyPayment(invoice, methods, { tolerancePercent: 5 }).status).toBe('full');
+    expect(
+      classifyPayment(invoice, [onChain([{ value: '0.00199980' }])], { tolerancePercent: 0 })
+    ).toMatchObject({ status: 'partial', tolerancePercent: 0 });
+  });
+
+  it('should aggregate on-chain and lightning payments', () => {
+    const classification = classifyPayment({ ...invoice, additionalStatus: 'PaidPartial' }, [
+      onChain([{ value: '0.00050000' }, { value: '0.00050000' }]),
+      lightning('0.00100000'),
+    ]);
+
+    expect(classification).toMatchObject({
+      status: 'full',
+      amountSats: 200000,
+      amountFiat: 10000,
+      paidAt: new Date(1700000200 * 1000).toISOString(),
+    });
+  });
+
+  it('should collect the txids of on-chain payments only', () => {
+    const classification = classifyPayment(invoice, [
+      onChain([{ value: '0.00050000' }, { value: '0.00050000', status: 'Processing' }]),
+      lightning('0.00100000'),
+    ]);
+
+    expect(classification.txids).toEqual(['txid_0']);
+  });
+
+  it('should only count confirmed payments', () => {
+    const classification = classifyPayment(invoice, [
+      onChain([{ value: '0.00100000' }, { value: '0.00100000', status: 'Processing' }]),
+      onChain([{ value: '0.00100000', status: 'Invalid' }]),
+    ]);
+
+    expect(classification).toMatchObject({
+      status: 'partial',
+      amountSats: 100000,
+      amountFiat: 5000,
+      differenceFiat: -5000,
+    });
+  });
+
+  it('should classify an expired, partially paid invoice as partial', () => {
+    const classification = classifyPayment(
+      { ...invoice, status: 'Expired', additionalStatus: 'PaidPartial' },
+      [onChain([{ value: '0.00120000' }])]
+    );
+
+    expect(classification).toMatchObject({ status: 'partial', amountFiat: 6000 });
+  });
+
+  it('should classify an overpaid invoice as overpaid', () => {
+    const classification = classifyPayment({ ...invoice, additionalStatus: 'PaidOver' }, [
+      onChain([{ value: '0.00300000' }]),
+    ]);
+
+    expect(classification).toMatchObject({ status: 'overpaid', differenceFiat: 5000 });
+  });
+
+  it('should flag late payments', () => {
+    const classification = classifyPayment({ ...invoice, additionalStatus: 'PaidLate' }, [
+      onChain([{ value: '0.00200000', receivedDate: 1700007200 }]),
+    ]);
+
+    expect(classification).toMatchObject({ status: 'full', paidLate: true });
+  });
+
+  it('should classify invalid invoices as invalidated even if they received payments', () => {
+    const classification = classifyPayment(
+      { ...invoice, status: 'Invalid', additionalStatus: 'Marked' },
+      [onChain([{ value: '0.00200000' }])]
+    );
+
+    expect(classification.status).toBe('invalidated');
+    expect(classification.amountSats).toBe(200000);
+  });
+
+  it('should classify invoices without confirmed payments as failed', () => {
+    expect(classifyPayment({ ...invoice, status: 'Expired' }, []).status).toBe('failed');
+    expect(
+      classifyPayment(invoice, [onChain([{ value: '0.00200000', status: 'Processing' }])]).status
+    ).toBe('failed');
+  });
+
+  it("should fall back to BTCPay's verdict when payments carry no rate", () => {
+    const unrated = { ...onChain([{ value: '0.00100000' }]), rate: '0' };
+
+    expect(
+      classifyPayment({ ...invoice, additionalStatus: 'PaidPartial' }, [unrated])
+    ).toMatchObject({ status: 'partial', amountSats: 100000 });
+    expect(classifyPayment({ ...invoice, additionalStatus: 'PaidOver' }, [unrated]).status).toBe(
+      'overpaid'
+    );
+    expect(classifyPayment(invoice, [unrated]).status).toBe('full');
+  });
+
+  it('should treat any payment to a top-up invoice as full', () => {
+    const classification = classifyPayment({ ...invoice, amount: '0' }, [lightning('0.00012345')]);
+
+    expect(classification).toMatchObject({ status: 'full', amountSats: 12345, amountFiat: 617 });
+  });
+});
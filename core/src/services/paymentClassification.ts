@@ -0,0 +1,144 @@
+import { BTCPayInvoice, BTCPayPaymentMethod } from './btcpay';
+
+// Constants
+export const DEFAULT_TOLERANCE_PERCENT = 1;
+export const MAX_TOLERANCE_PERCENT = 10;
+export const TOLERANCE_CONFIG_KEY_PREFIX = 'payment_tolerance_percent:'; // Per BTCPay store
+const SATS_PER_BTC = 100_000_000;
+
+/**
+ * How a BTCPay invoice ends up in the books:
+ * - full: confirmed payments within the tolerance of the invoice price
+ * - partial / overpaid: below / above the tolerance band
+ * - invalidated: BTCPay (or the merchant) marked the invoice invalid
+ * - failed: nothing confirmed was received, so there is nothing to post
+ */
+export type PaymentClassificationStatus =
+  | 'full'
+  | 'partial'
+  | 'overpaid'
+  | 'invalidated'
+  | 'failed';
+
+export interface PaymentClassification {
+  status: PaymentClassificationStatus;
+  amountSats: number; // Confirmed on-chain + lightning BTC, in sats
+  amountFiat: number; // Confirmed value in the invoice currency, smallest unit (cents)
+  invoiceAmountFiat: number; // Invoice price in the smallest unit (cents)
+  differenceFiat: number; // amountFiat - invoiceAmountFiat, in cents
+  currency: string;
+  paidLate: boolean; // BTCPay flagged a payment that arrived after the invoice expired
+  paidAt: string | null; // When the most recent confirmed payment arrived
+  txids: string[]; // On-chain transactions of the confirmed payments (lightning has none)
+  tolerancePercent: number;
+}
+
+export interface ClassificationOptions {
+  tolerancePercent?: number; // ± band around the invoice price still treated as full payment
+}
+
+/**
+ * Whether a payment method settles in bitcoin (on-chain or lightning)
+ */
+function isBitcoinMethod(method: BTCPayPaymentMethod): boolean {
+  const id = method.cryptoCode ?? method.paymentMethodId ?? method.paymentMethod ?? '';
+  return id.toUpperCase().startsWith('BTC');
+}
+
+/**
+ * Whether a payment method is lightning, whose payments are identified by a hash, not a txid
+ */
+function isLightningMethod(method: BTCPayPaymentMethod): boolean {
+  const id = method.paymentMethodId ?? method.paymentMethod ?? '';
+  return /-(LN|LNURL|Lightning)/i.test(id);
+}
+
+/**
+ * BTCPay's own verdict, used when payments can't be valued in the invoice currency
+ */
+function statusFromAdditionalStatus(additionalStatus?: string): PaymentClassificationStatus {
+  switch (additionalStatus) {
+    case 'PaidPartial':
+      return 'partial';
+    case 'PaidOver':
+      return 'overpaid';
+    default:
+      return 'full';
+  }
+}
+
+/**
+ * Classify an invoice from its confirmed payments.
+ * Pure: callers fetch the invoice and payment methods and pass the store's tolerance.
+ * Amounts decide within the tolerance band, so BTCPay's exact-match PaidPartial/PaidOver
+ * flags are only trusted when the payments carry no exchange rate.
+ */
+export function classifyPayment(
+  invoice: BTCPayInvoice,
+  paymentMethods: BTCPayPaymentMethod[],
+  options: ClassificationOptions = {}
+): PaymentClassification {
+  const tolerancePercent = Math.max(0, options.tolerancePercent ?? DEFAULT_TOLERANCE_PERCENT);
+
+  let amountSats = 0;
+  let amountFiat = 0;
+  let lastReceived = 0;
+  let unvalued = false;
+  const txids = new Set<string>();
+
+  for (const method of paymentMethods) {
+    const rate = parseFloat(method.rate) || 0;
+    for (const payment of method.payments) {
+      if (payment.status !== 'Settled') {
+        continue; // Only confirmed payments count towards the books
+      }
+      const value = parseFloat(payment.value) || 0;
+      if (isBitcoinMethod(method)) {
+        amountSats += Math.round(value * SATS_PER_BTC);
+      }
+      if (value > 0 && rate <= 0) {
+        unvalued = true;
+      }
+      amountFiat += value * rate;
+      lastReceived = Math.max(lastReceived, payment.receivedDate || 0);
+      if (isBitcoinMethod(method) && !isLightningMethod(method) && payment.id) {
+        txids.add(payment.id.replace(/-\d+$/, '')); // On-chain payment IDs are txid-vout
+      }
+    }
+  }
+
+  const paidCents = Math.round(amountFiat * 100);
+  const invoiceCents = Math.round((parseFloat(invoice.amount) || 0) * 100);
+  const differenceFiat = paidCents - invoiceCents;
+  const toleranceCents = Math.round((invoiceCents * tolerancePercent) / 100);
+
+  let status: PaymentClassificationStatus;
+  if (invoice.status === 'Invalid') {
+    status = 'invalidated';
+  } else if (paidCents <= 0 && amountSats <= 0) {
+    status = 'failed';
+  } else if (unvalued) {
+    status = statusFromAdditionalStatus(invoice.additionalStatus);
+  } else if (invoiceCents <= 0) {
+    status = 'full'; // Top-up invoices have no price, anything received pays them
+  } else if (differenceFiat < -toleranceCents) {
+    status = 'partial';
+  } else if (differenceFiat > toleranceCents) {
+    status = 'overpaid';
+  } else {
+    status = 'full';
+  }
+
+  return {
+    status,
+    amountSats,
+    amountFiat: paidCents,
+    invoiceAmountFiat: invoiceCents,
+    differenceFiat,
+    currency: invoice.currency,
+    paidLate: invoice.additionalStatus === 'PaidLate',
+    paidAt: lastReceived ? new Date(lastReceived * 1000).toISOString() : null,
+    txids: [...txids],
+    tolerancePercent,
+  };
+}
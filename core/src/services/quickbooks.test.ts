@@ -0,0 +1,575 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import { QuickBooksOnlineProvider } from './quickbooks';
+import { getConfigValue } from '../models/config';
+import { ReconciliationPayload, RefundPayload, ReversalPayload } from './accounting';
+
+// Mock axios
+vi.mock('axios');
+const mockedAxios = vi.mocked(axios);
+
+// Mock the config store
+vi.mock('../models/config', () => ({
+  getConfigValue: vi.fn(),
+}));
+
+// Mock axios client interface
+interface MockAxiosClient {
+  get: ReturnType<typeof vi.fn>;
+  post: ReturnType<typeof vi.fn>;
+}
+
+const createMockClient = (): MockAxiosClient => ({
+  get: vi.fn(),
+  post: vi.fn(),
+});
+
+const payload: ReconciliationPayload = {
+  invoiceId: 'invoice_456',
+  sequence: 1,
+  amount: 168.32,
+  invoiceAmount: 168.32,
+  amountSats: 250000,
+  currency: 'USD',
+  paidAt: '2025-10-31T16:12:45.000Z',
+  paymentStatus: 'paid',
+  mode: 'deposit',
+  accounts: {},
+  customerEmail: 'customer@example.com',
+  notes: 'Synced via Sovereign Merchant',
+};
+
+const refund: RefundPayload = {
+  refundId: 'pp_123',
+  invoiceId: 'invoice_456',
+  amount: 25,
+  currency: 'USD',
+  refundedAt: '2025-11-02T09:30:00.000Z',
+  accounts: { depositAccountId: '35' },
+  notes: 'Refunded via Sovereign Merchant',
+};
+
+const reversal: ReversalPayload = {
+  invoiceId: 'invoice_456',
+  transactionId: '77',
+  transactionType: 'SalesReceipt',
+  reason: 'Invoice was marked invalid in BTCPayServer',
+  reversedAt: '2025-11-03T08:00:00.000Z',
+};
+
+function mockConfig(values: Record<string, string>) {
+  vi.mocked(getConfigValue).mockImplementation((key: string) => values[key]);
+}
+
+describe('QuickBooksOnlineProvider', () => {
+  let provider: QuickBooksOnlineProvider;
+  let mockClient: MockAxiosClient;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    provider = new QuickBooksOnlineProvider();
+    mockClient = createMockClient();
+    mockedAxios.create.mockReturnValue(mockClient as MockAxiosClient);
+    mockConfig({ qbo_access_token: 'access_token', qbo_realm_id: '1234567890' });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('isConfigured', () => {
+    it('should be configured when a token and realm are stored', () => {
+      expect(provider.isConfigured()).toBe(true);
+    });
+
+    it('should not be configured without a token', () => {
+      mockConfig({ qbo_realm_id: '1234567890' });
+      expect(provider.isConfigured()).toBe(false);
+    });
+  });
+
+  describe('client setup', () => {
+    it('should target the production company API by default', async () => {
+      mockClient.get.mockResolvedValueOnce({ data: { CompanyInfo: { CompanyName: 'Acme' } } });
+
+      await provider.health();
+
+      expect(mockedAxios.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          baseURL: 'https://quickbooks.api.intuit.com/v3/company/1234567890',
+          headers: expect.objectContaining({ Authorization: 'Bearer access_token' }),
+        })
+      );
+    });
+
+    it('should target the sandbox API for sandbox companies', async () => {
+      mockConfig({
+        qbo_access_token: 'access_token',
+        qbo_realm_id: '1234567890',
+        qbo_environment: 'sandbox',
+      });
+      mockClient.get.mockResolvedValueOnce({ data: { CompanyInfo: {} } });
+
+      await provider.health();
+
+      expect(mockedAxios.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          baseURL: 'https://sandbox-quickbooks.api.intuit.com/v3/company/1234567890',
+        })
+      );
+    });
+  });
+
+  describe('reconcileDeposit', () => {
+    it('should create a SalesReceipt when no accounts are mapped', async () => {
+      mockClient.post.mockResolvedValueOnce({ data: { SalesReceipt: { Id: '42' } } });
+
+      const result = await provider.reconcileDeposit(payload);
+
+      expect(result).toEqual({
+        success: true,
+        transactionId: '42',
+        transactionType: 'SalesReceipt',
+      });
+      const [url, body, config] = mockClient.post.mock.calls[0];
+      expect(url).toBe('/salesreceipt');
+      expect(body).toMatchObject({
+        TxnDate: '2025-10-31',
+        BillEmail: { Address: 'customer@example.com' },
+        Line: [
+          {
+            Amount: 168.32,
+            DetailType: 'SalesItemLineDetail',
+            SalesItemLineDetail: { ItemRef: { value: '1' } },
+          },
+        ],
+      });
+      expect(config.params.requestid).toBe('invoice_456-1-paid-16832');
+    });
+
+    it('should create a Deposit when deposit and income accounts are mapped', async () => {
+      mockClient.post.mockResolvedValueOnce({ data: { Deposit: { Id: '7' } } });
+
+      const result = await provider.reconcileDeposit({
+        ...payload,
+        accounts: {
+          depositAccountId: '35',
+          incomeAccountId: '79',
+          customerId: '58',
+          paymentMethodId: '4',
+          taxCodeId: 'NON',
+        },
+      });
+
+      expect(result).toEqual({ success: true, transactionId: '7', transactionType: 'Deposit' });
+      const [url, body] = mockClient.post.mock.calls[0];
+      expect(url).toBe('/deposit');
+      expect(body).toMatchObject({
+        DepositToAccountRef: { value: '35' },
+        Line: [
+          {
+            Amount: 168.32,
+            DepositLineDetail: {
+              AccountRef: { value: '79' },
+              Entity: { value: '58', type: 'Customer' },
+              PaymentMethodRef: { value: '4' },
+              TaxCodeRef: { value: 'NON' },
+            },
+          },
+        ],
+      });
+    });
+
+    it('should send distinct request IDs for two identical partial instalments', async () => {
+      mockClient.post
+        .mockResolvedValueOnce({ data: { SalesReceipt: { Id: '44' } } })
+        .mockResolvedValueOnce({ data: { SalesReceipt: { Id: '45' } } });
+      const instalment = { ...payload, amount: 50, paymentStatus: 'partial' as const };
+
+      await provider.reconcileDeposit({ ...instalment, sequence: 1 });
+      await provider.reconcileDeposit({ ...instalment, sequence: 2 });
+
+      const [first, second] = mockClient.post.mock.calls.map(([, , config]) => config.params);
+      expect(first.requestid).toBe('invoice_456-1-partial-5000');
+      expect(second.requestid).toBe('invoice_456-2-partial-5000');
+    });
+
+    it('should apply the mapped customer and tax code to sales receipts', async () => {
+      mockClient.post.mockResolvedValueOnce({ data: { SalesReceipt: { Id: '43' } } });
+
+      await provider.reconcileDeposit({
+        ...payload,
+        accounts: { depositAccountId: '35', customerId: '58', taxCodeId: 'TAX' },
+      });
+
+      const [url, body] = mockClient.post.mock.calls[0];
+      expect(url).toBe('/salesreceipt');
+      expect(body).toMatchObject({
+        CustomerRef: { value: '58' },
+        DepositToAccountRef: { value: '35' },
+        Line: [{ SalesItemLineDetail: { TaxCodeRef: { value: 'TAX' } } }],
+      });
+    });
+
+    it('should surface Intuit fault messages', async () => {
+      const error = Object.assign(new Error('Request failed'), {
+        isAxiosError: true,
+        response: {
+          status: 400,
+          data: { Fault: { Error: [{ Message: 'Invalid Reference Id', Detail: 'Item 1' }] } },
+        },
+      });
+      mockClient.post.mockRejectedValueOnce(error);
+      mockedAxios.isAxiosError.mockReturnValue(true);
+
+      const result = await provider.reconcileDeposit(payload);
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Invalid Reference Id: Item 1',
+        errorKind: 'permanent',
+      });
+    });
+
+    it('should flag outages as worth retrying', async () => {
+      const error = Object.assign(new Error('Request failed'), {
+        isAxiosError: true,
+        response: { status: 503, data: {} },
+      });
+      mockClient.post.mockRejectedValueOnce(error);
+      mockedAxios.isAxiosError.mockReturnValue(true);
+
+      const result = await provider.reconcileDeposit(payload);
+
+      expect(result).toEqual({
+        success: false,
+        error: 'QuickBooks API returned HTTP 503',
+        errorKind: 'transient',
+      });
+    });
+
+    it('should fail without calling Intuit when not connected', async () => {
+      mockConfig({});
+
+      const result = await provider.reconcileDeposit(payload);
+
+      expect(result).toEqual({ success: false, error: 'QuickBooks is not connected' });
+      expect(mockClient.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reconcileInvoicePayment', () => {
+    it('should apply a Payment to the invoice capped at its open balance', async () => {
+      mockClient.get.mockResolvedValueOnce({
+        data: {
+          Invoice: { Id: '130', CustomerRef: { value: '58' }, TotalAmt: 200, Balance: 150 },
+        },
+      });
+      mockClient.post.mockResolvedValueOnce({ data: { Payment: { Id: '99' } } });
+
+      const result = await provider.reconcileInvoicePayment({
+        ...payload,
+        mode: 'invoicing',
+        accountingInvoiceId: '130',
+      });
+
+      expect(result).toEqual({
+        success: true,
+        transactionId: '99',
+        transactionType: 'Payment',
+        amount: 150,
+      });
+      expect(mockClient.get).toHaveBeenCalledWith('/invoice/130');
+      const [url, body] = mockClient.post.mock.calls[0];
+      expect(url).toBe('/payment');
+      expect(body).toMatchObject({
+        TotalAmt: 150,
+        CustomerRef: { value: '58' },
+        Line: [{ Amount: 150, LinkedTxn: [{ TxnId: '130', TxnType: 'Invoice' }] }],
+      });
+    });
+
+    it('should refuse to pay an invoice with no open balance', async () => {
+      mockClient.get.mockResolvedValueOnce({
+        data: { Invoice: { Id: '130', CustomerRef: { value: '58' }, Balance: 0 } },
+      });
+
+      const result = await provider.reconcileInvoicePayment({
+        ...payload,
+        accountingInvoiceId: '130',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('no open balance');
+      expect(mockClient.post).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the invoice does not exist', async () => {
+      mockClient.get.mockRejectedValueOnce(new Error('Not found'));
+
+      const result = await provider.reconcileInvoicePayment({
+        ...payload,
+        accountingInvoiceId: '404',
+      });
+
+      expect(result).toEqual({ success: false, error: 'QuickBooks invoice 404 not found' });
+    });
+  });
+
+  describe('reconcileRefund', () => {
+    it('should pay a RefundReceipt out of the deposit account', async () => {
+      mockClient.post.mockResolvedValueOnce({ data: { RefundReceipt: { Id: '301' } } });
+
+      const result = await provider.reconcileRefund(refund);
+
+      expect(result).toEqual({
+        success: true,
+        transactionId: '301',
+        transactionType: 'RefundReceipt',
+      });
+      const [url, body, config] = mockClient.post.mock.calls[0];
+      expect(url).toBe('/refundreceipt');
+      expect(body).toMatchObject({
+        TxnDate: '2025-11-02',
+        DepositToAccountRef: { value: '35' },
+        Line: [{ Amount: 25, SalesItemLineDetail: { ItemRef: { value: '1' }, UnitPrice: 25 } }],
+      });
+      expect(config.params.requestid).toBe('refund-pp_123');
+    });
+
+    it('should credit the customer of an invoice the payment was applied to', async () => {
+      mockClient.get.mockResolvedValueOnce({
+        data: { Invoice: { Id: '130', CustomerRef: { value: '58' }, Balance: 0 } },
+      });
+      mockClient.post.mockResolvedValueOnce({ data: { CreditMemo: { Id: '302' } } });
+
+      const result = await provider.reconcileRefund({
+        ...refund,
+        accounts: {},
+        accountingInvoiceId: '130',
+      });
+
+      expect(result).toMatchObject({ success: true, transactionType: 'CreditMemo' });
+      const [url, body] = mockClient.post.mock.calls[0];
+      expect(url).toBe('/creditmemo');
+      expect(body).toMatchObject({ CustomerRef: { value: '58' } });
+    });
+
+    it('should not guess where a refund was paid from', async () => {
+      const result = await provider.reconcileRefund({ ...refund, accounts: {} });
+
+      expect(result).toMatchObject({ success: false, errorKind: 'permanent' });
+      expect(mockClient.post).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reverseTransaction', () => {
+    it('should void sales receipts', async () => {
+      mockClient.get.mockResolvedValueOnce({
+        data: { SalesReceipt: { Id: '77', SyncToken: '2' } },
+      });
+      mockClient.post.mockResolvedValueOnce({ data: { SalesReceipt: { Id: '77' } } });
+
+      const result = await provider.reverseTransaction(reversal);
+
+      expect(result).toEqual({
+        success: true,
+        transactionId: '77',
+        transactionType: 'SalesReceipt',
+        method: 'void',
+      });
+      expect(mockClient.get).toHaveBeenCalledWith('/salesreceipt/77');
+      const [url, body, config] = mockClient.post.mock.calls[0];
+      expect(url).toBe('/salesreceipt');
+      expect(body).toEqual({ Id: '77', SyncToken: '2' });
+      expect(config.params).toEqual({
+        minorversion: expect.any(String),
+        include: 'void',
+        requestid: 'reverse-SalesReceipt-77',
+      });
+    });
+
+    it('should void payments through a sparse update', async () => {
+      mockClient.get.mockResolvedValueOnce({ data: { Payment: { Id: '91', SyncToken: '0' } } });
+      mockClient.post.mockResolvedValueOnce({ data: { Payment: { Id: '91' } } });
+
+      const result = await provider.reverseTransaction({
+        ...reversal,
+        transactionId: '91',
+        transactionType: 'Payment',
+      });
+
+      expect(result).toMatchObject({ success: true, transactionId: '91', method: 'void' });
+      const [url, body, config] = mockClient.post.mock.calls[0];
+      expect(url).toBe('/payment');
+      expect(body).toEqual({ Id: '91', SyncToken: '0', sparse: true });
+      expect(config.params).toEqual({
+        minorversion: expect.any(String),
+        operation: 'update',
+        include: 'void',
+        requestid: 'reverse-Payment-91',
+      });
+    });
+
+    it('should offset deposits with a journal entry', async () => {
+      mockClient.get.mockResolvedValueOnce({
+        data: {
+          Deposit: {
+            Id: '88',
+            DepositToAccountRef: { value: '35' },
+            Line: [{ Amount: 100, DepositLineDetail: { AccountRef: { value: '79' } } }],
+          },
+        },
+      });
+      mockClient.post.mockResolvedValueOnce({ data: { JournalEntry: { Id: '501' } } });
+
+      const result = await provider.reverseTransaction({
+        ...reversal,
+        transactionId: '88',
+        transactionType: 'Deposit',
+      });
+
+      expect(result).toEqual({
+        success: true,
+        transactionId: '501',
+        transactionType: 'JournalEntry',
+        method: 'journal_entry',
+      });
+      const [url, body] = mockClient.post.mock.calls[0];
+      expect(url).toBe('/journalentry');
+      expect(body).toMatchObject({
+        TxnDate: '2025-11-03',
+        PrivateNote: 'Invoice was marked invalid in BTCPayServer',
+        Line: [
+          {
+            Amount: 100,
+            JournalEntryLineDetail: { PostingType: 'Debit', AccountRef: { value: '79' } },
+          },
+          {
+            Amount: 100,
+            JournalEntryLineDetail: { PostingType: 'Credit', AccountRef: { value: '35' } },
+          },
+        ],
+      });
+    });
+
+    it('should leave transactions of an unknown type to be reversed by hand', async () => {
+      const result = await provider.reverseTransaction({ ...reversal, transactionType: null });
+
+      expect(result).toMatchObject({ success: false, errorKind: 'permanent' });
+      expect(result.error).toContain('reverse it by hand');
+      expect(mockClient.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findInvoice', () => {
+    it('should look up invoices by document number', async () => {
+      mockClient.get.mockResolvedValueOnce({
+        data: {
+          QueryResponse: {
+            Invoice: [
+              {
+                Id: '130',
+                DocNumber: '1037',
+                CustomerRef: { value: '58', name: 'Acme Corp' },
+                TotalAmt: 200,
+                Balance: 200,
+                CurrencyRef: { value: 'USD' },
+              },
+            ],
+          },
+        },
+      });
+
+      const invoice = await provider.findInvoice({ docNumber: '1037' });
+
+      expect(invoice).toEqual({
+        id: '130',
+        docNumber: '1037',
+        customerId: '58',
+        customerName: 'Acme Corp',
+        totalAmount: 200,
+        balance: 200,
+        currency: 'USD',
+      });
+      expect(mockClient.get.mock.calls[0][1].params.query).toBe(
+        "SELECT * FROM Invoice WHERE DocNumber = '1037'"
+      );
+    });
+
+    it('should return null when nothing matches', async () => {
+      mockClient.get.mockResolvedValueOnce({ data: { QueryResponse: {} } });
+      expect(await provider.findInvoice({ docNumber: 'missing' })).toBeNull();
+    });
+  });
+
+  describe('health', () => {
+    it('should report the company name when the token works', async () => {
+      mockClient.get.mockResolvedValueOnce({ data: { CompanyInfo: { CompanyName: 'Acme' } } });
+      expect(await provider.health()).toEqual({ connected: true, companyName: 'Acme' });
+      expect(mockClient.get).toHaveBeenCalledWith('/companyinfo/1234567890');
+    });
+
+    it('should report disconnected when the API call fails', async () => {
+      mockClient.get.mockRejectedValueOnce(new Error('Unauthorized'));
+      expect(await provider.health()).toEqual({ connected: false, error: 'Unauthorized' });
+    });
+  });
+
+  describe('getChartOfAccounts', () => {
+    it('should list active accounts, customers, payment methods and tax codes', async () => {
+      const entities: Record<string, object[]> = {
+        Account: [
+          {
+            Id: '35',
+            Name: 'Bitcoin',
+            FullyQualifiedName: 'Checking:Bitcoin',
+            AccountType: 'Bank',
+          },
+          { Id: '79', Name: 'Sales', AccountType: 'Income' },
+        ],
+        Customer: [{ Id: '58', DisplayName: 'Walk-in Customer' }],
+        PaymentMethod: [{ Id: '4', Name: 'Bitcoin' }],
+        TaxCode: [{ Id: 'NON', Name: 'Out of scope' }],
+      };
+      mockClient.get.mockImplementation((url: string, config: { params: { query: string } }) => {
+        const entity = config.params.query.split(' ')[3];
+        return Promise.resolve({ data: { QueryResponse: { [entity]: entities[entity] } } });
+      });
+
+      const chart = await provider.getChartOfAccounts();
+
+      expect(chart).toEqual({
+        accounts: [
+          { id: '35', name: 'Checking:Bitcoin', type: 'Bank' },
+          { id: '79', name: 'Sales', type: 'Income' },
+        ],
+        customers: [{ id: '58', name: 'Walk-in Customer' }],
+        paymentMethods: [{ id: '4', name: 'Bitcoin' }],
+        taxCodes: [{ id: 'NON', name: 'Out of scope' }],
+      });
+      expect(mockClient.get).toHaveBeenCalledWith('/query', {
+        params: expect.objectContaining({
+          query: 'SELECT * FROM Account WHERE Active = true MAXRESULTS 1000',
+        }),
+      });
+    });
+
+    it('should treat empty lists as empty rather than missing', async () => {
+      mockClient.get.mockResolvedValue({ data: { QueryResponse: {} } });
+
+      expect(await provider.getChartOfAccounts()).toEqual({
+        accounts: [],
+        customers: [],
+        paymentMethods: [],
+        taxCodes: [],
+      });
+    });
+
+    it('should return null when Intuit fails', async () => {
+      mockClient.get.mockRejectedValue(new Error('Network Error'));
+
+      expect(await provider.getChartOfAccounts()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,613 @@
+import axios, { AxiosInstance } from 'axios';
+import { getConfigValue } from '../models/config';
+import {
+  AccountingProvider,
+  ChartOfAccounts,
+  InvoicePaymentPayload,
+  InvoiceQuery,
+  ProviderHealth,
+  ProviderInvoice,
+  ProviderResult,
+  ReconciliationPayload,
+  RefundPayload,
+  ReversalPayload,
+  ReversalResult,
+} from './accounting';
+import { classifyHttpError } from '../utils/retry';
+
+// Constants
+const QBO_PRODUCTION_URL = 'https://quickbooks.api.intuit.com';
+const QBO_SANDBOX_URL = 'https://sandbox-quickbooks.api.intuit.com';
+const QBO_MINOR_VERSION = '65';
+const REQUEST_TIMEOUT = 15000;
+const DEFAULT_ITEM_ID = '1'; // "Services" item that every new QBO company starts with
+const REQUEST_ID_MAX_LENGTH = 50;
+const QUERY_MAX_RESULTS = 1000; // Intuit's cap per query page
+
+interface QuickBooksCredentials {
+  accessToken: string;
+  realmId: string;
+  environment: 'production' | 'sandbox';
+}
+
+interface QBOInvoice {
+  Id: string;
+  DocNumber?: string;
+  CustomerRef?: { value: string; name?: string };
+  TotalAmt?: number;
+  Balance?: number;
+  CurrencyRef?: { value: string };
+  BillEmail?: { Address?: string };
+}
+
+interface QBODeposit {
+  Id: string;
+  DepositToAccountRef?: { value: string };
+  Line?: { Amount?: number; DepositLineDetail?: { AccountRef?: { value: string } } }[];
+}
+
+// Error body Intuit returns for rejected requests
+interface QBOFaultResponse {
+  Fault: { Error?: { Message?: string; Detail?: string }[] };
+}
+
+function isQBOFaultResponse(data: unknown): data is QBOFaultResponse {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    typeof (data as { Fault?: unknown }).Fault === 'object' &&
+    (data as { Fault?: unknown }).Fault !== null
+  );
+}
+
+// Transactions reconciliations post, and whether reversing them means voiding them
+const REVERSIBLE_TYPES: Record<string, 'void' | 'journal_entry'> = {
+  Payment: 'void',
+  SalesReceipt: 'void',
+  Deposit: 'journal_entry', // The API can't void deposits
+};
+
+// Query parameters Intuit documents for voiding each entity; payments void through a sparse update
+const VOID_PARAMS: Record<string, Record<string, string>> = {
+  Payment: { operation: 'update', include: 'void' },
+  SalesReceipt: { include: 'void' },
+};
+
+// Fields of the QBO list entities the chart of accounts is built from
+interface QBONamedEntity {
+  Id: string;
+  Name?: string;
+  DisplayName?: string; // Customers
+  FullyQualifiedName?: string; // Sub-accounts, e.g. "Bank:Bitcoin"
+  AccountType?: string;
+}
+
+/**
+ * QuickBooks Online implementation of AccountingProvider.
+ * Talks to Intuit's v3 REST API directly using the OAuth tokens stored in the config table.
+ */
+export class QuickBooksOnlineProvider implements AccountingProvider {
+  readonly id = 'quickbooks' as const;
+  readonly name = 'QuickBooks Online';
+
+  /**
+   * Load the OAuth access token and company (realm) ID
+   */
+  private loadCredentials(): QuickBooksCredentials | null {
+    try {
+      const accessToken = getConfigValue('qbo_access_token');
+      const realmId = getConfigValue('qbo_realm_id');
+      if (!accessToken || !realmId) {
+        return null;
+      }
+      const environment =
+        getConfigValue('qbo_environment') === 'sandbox' ? 'sandbox' : 'production';
+      return { accessToken, realmId, environment };
+    } catch (error) {
+      console.error('Failed to load QuickBooks credentials:', error);
+      return null;
+    }
+  }
+
+  private createClient(credentials: QuickBooksCredentials): AxiosInstance {
+    const baseUrl = credentials.environment === 'sandbox' ? QBO_SANDBOX_URL : QBO_PRODUCTION_URL;
+    return axios.create({
+      baseURL: `${baseUrl}/v3/company/${credentials.realmId}`,
+      timeout: REQUEST_TIMEOUT,
+      headers: {
+        Authorization: `Bearer ${credentials.accessToken}`,
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+      },
+      params: { minorversion: QBO_MINOR_VERSION },
+    });
+  }
+
+  /**
+   * Pull a readable message out of an Intuit "Fault" response
+   */
+  private describeError(error: unknown): string {
+    if (axios.isAxiosError(error)) {
+      const data: unknown = error.response?.data;
+      const fault = isQBOFaultResponse(data) ? data.Fault.Error?.[0] : undefined;
+      if (fault) {
+        return [fault.Message, fault.Detail].filter(Boolean).join(': ');
+      }
+      if (error.response?.status) {
+        return `QuickBooks API returned HTTP ${error.response.status}`;
+      }
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Intuit de-duplicates writes that carry the same requestid, so retries can't double-post.
+   * The posting sequence is part of it so each later payment of the same invoice is a new
+   * write, even when it is for the same amount as an earlier one.
+   */
+  private requestId(payload: ReconciliationPayload): string {
+    const cents = Math.round(payload.amount * 100);
+    return `${payload.invoiceId}-${payload.sequence}-${payload.paymentStatus}-${cents}`.slice(
+      0,
+      REQUEST_ID_MAX_LENGTH
+    );
+  }
+
+  private async createEntity(
+    entity:
+      | 'Deposit'
+      | 'SalesReceipt'
+      | 'Payment'
+      | 'RefundReceipt'
+      | 'CreditMemo'
+      | 'JournalEntry',
+    body: Record<string, unknown>,
+    requestId: string,
+    invoiceId: string // BTCPay invoice the entity records, for logging
+  ): Promise<ProviderResult> {
+    const credentials = this.loadCredentials();
+    if (!credentials) {
+      return { success: false, error: 'QuickBooks is not connected' };
+    }
+
+    try {
+      const client = this.createClient(credentials);
+      const response = await client.post(`/${entity.toLowerCase()}`, body, {
+        params: { minorversion: QBO_MINOR_VERSION, requestid: requestId },
+      });
+
+      const transactionId = response.data?.[entity]?.Id;
+      if (!transactionId) {
+        console.error(`QuickBooks ${entity} response is missing an ID`);
+        return { success: false, error: `QuickBooks did not return a ${entity} ID` };
+      }
+
+      console.log(`✅ Created QuickBooks ${entity} ${transactionId} for ${invoiceId}`);
+      return { success: true, transactionId: String(transactionId), transactionType: entity };
+    } catch (error) {
+      const message = this.describeError(error);
+      console.error(`Failed to create QuickBooks ${entity}:`, message);
+      return { success: false, error: message, errorKind: classifyHttpError(error) };
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.loadCredentials() !== null;
+  }
+
+  /**
+   * Deposit mode: a Deposit when both accounts are mapped, otherwise a SalesReceipt
+   * (which QBO books into Undeposited Funds unless a deposit account is set)
+   */
+  async reconcileDeposit(payload: ReconciliationPayload): Promise<ProviderResult> {
+    const { accounts } = payload;
+    const txnDate = payload.paidAt.split('T')[0];
+    const description = `BTCPayServer Invoice ${payload.invoiceId}`;
+
+    if (accounts.depositAccountId && accounts.incomeAccountId) {
+      return this.createEntity(
+        'Deposit',
+        {
+          TxnDate: txnDate,
+          PrivateNote: payload.notes,
+          DepositToAccountRef: { value: accounts.depositAccountId },
+          Line: [
+            {
+              Amount: payload.amount,
+              Description: description,
+              DetailType: 'DepositLineDetail',
+              DepositLineDetail: {
+                AccountRef: { value: accounts.incomeAccountId },
+                ...(accounts.paymentMethodId && {
+                  PaymentMethodRef: { value: accounts.paymentMethodId },
+                }),
+                ...(accounts.customerId && {
+                  Entity: { value: accounts.customerId, type: 'Customer' },
+                }),
+                ...(accounts.taxCodeId && { TaxCodeRef: { value: accounts.taxCodeId } }),
+              },
+            },
+          ],
+        },
+        this.requestId(payload),
+        payload.invoiceId
+      );
+    }
+
+    return this.createEntity(
+      'SalesReceipt',
+      {
+        TxnDate: txnDate,
+        PrivateNote: payload.notes,
+        ...(accounts.customerId && { CustomerRef: { value: accounts.customerId } }),
+        ...(accounts.depositAccountId && {
+          DepositToAccountRef: { value: accounts.depositAccountId },
+        }),
+        ...(accounts.paymentMethodId && {
+          PaymentMethodRef: { value: accounts.paymentMethodId },
+        }),
+        ...(payload.customerEmail && { BillEmail: { Address: payload.customerEmail } }),
+        Line: [
+          {
+            Amount: payload.amount,
+            Description: description,
+            DetailType: 'SalesItemLineDetail',
+            SalesItemLineDetail: {
+              ItemRef: { value: accounts.itemId || DEFAULT_ITEM_ID },
+              Qty: 1,
+              UnitPrice: payload.amount,
+              ...(accounts.taxCodeId && { TaxCodeRef: { value: accounts.taxCodeId } }),
+            },
+          },
+        ],
+      },
+      this.requestId(payload),
+      payload.invoiceId
+    );
+  }
+
+  /**
+   * Invoicing mode: apply a Payment to an existing QBO invoice, capped at its open balance
+   */
+  async reconcileInvoicePayment(payload: InvoicePaymentPayload): Promise<ProviderResult> {
+    const invoice = await this.findInvoice({ id: payload.accountingInvoiceId });
+    if (!invoice) {
+      return {
+        success: false,
+        error: `QuickBooks invoice ${payload.accountingInvoiceId} not found`,
+      };
+    }
+    if (!invoice.customerId) {
+      return {
+        success: false,
+        error: `QuickBooks invoice ${invoice.id} has no customer`,
+        errorKind: 'permanent',
+      };
+    }
+    if (invoice.balance <= 0) {
+      return {
+        success: false,
+        error: `QuickBooks invoice ${invoice.id} has no open balance`,
+        errorKind: 'permanent',
+      };
+    }
+
+    const { accounts } = payload;
+    const amount = Math.min(payload.amount, invoice.balance);
+
+    const result = await this.createEntity(
+      'Payment',
+      {
+        TxnDate: payload.paidAt.split('T')[0],
+        TotalAmt: amount,
+        PrivateNote: payload.notes,
+        CustomerRef: { value: invoice.customerId },
+        ...(accounts.depositAccountId && {
+          DepositToAccountRef: { value: accounts.depositAccountId },
+        }),
+        ...(accounts.paymentMethodId && {
+          PaymentMethodRef: { value: accounts.paymentMethodId },
+        }),
+        Line: [
+          {
+            Amount: amount,
+            LinkedTxn: [{ TxnId: invoice.id, TxnType: 'Invoice' }],
+          },
+        ],
+      },
+      this.requestId(payload),
+      payload.invoiceId
+    );
+    return result.success ? { ...result, amount } : result;
+  }
+
+  /**
+   * A refund of a payment applied to an invoice becomes a CreditMemo for that invoice's
+   * customer. Anything else is a RefundReceipt paid out of the deposit account.
+   */
+  async reconcileRefund(payload: RefundPayload): Promise<ProviderResult> {
+    const { accounts } = payload;
+    const requestId = `refund-${payload.refundId}`.slice(0, REQUEST_ID_MAX_LENGTH);
+    const common = {
+      TxnDate: payload.refundedAt.split('T')[0],
+      PrivateNote: payload.notes,
+      Line: [
+        {
+          Amount: payload.amount,
+          Description: `Refund of BTCPayServer Invoice ${payload.invoiceId}`,
+          DetailType: 'SalesItemLineDetail',
+          SalesItemLineDetail: {
+            ItemRef: { value: accounts.itemId || DEFAULT_ITEM_ID },
+            Qty: 1,
+            UnitPrice: payload.amount,
+            ...(accounts.taxCodeId && { TaxCodeRef: { value: accounts.taxCodeId } }),
+          },
+        },
+      ],
+    };
+
+    if (payload.accountingInvoiceId) {
+      const invoice = await this.findInvoice({ id: payload.accountingInvoiceId });
+      if (!invoice) {
+        return {
+          success: false,
+          error: `QuickBooks invoice ${payload.accountingInvoiceId} not found`,
+        };
+      }
+      if (!invoice.customerId) {
+        return {
+          success: false,
+          error: `QuickBooks invoice ${invoice.id} has no customer`,
+          errorKind: 'permanent',
+        };
+      }
+      return this.createEntity(
+        'CreditMemo',
+        { ...common, CustomerRef: { value: invoice.customerId } },
+        requestId,
+        payload.invoiceId
+      );
+    }
+
+    if (!accounts.depositAccountId) {
+      return {
+        success: false,
+        error: 'Map a deposit account to record refunds in QuickBooks',
+        errorKind: 'permanent',
+      };
+    }
+    return this.createEntity(
+      'RefundReceipt',
+      {
+        ...common,
+        DepositToAccountRef: { value: accounts.depositAccountId },
+        ...(accounts.customerId && { CustomerRef: { value: accounts.customerId } }),
+        ...(accounts.paymentMethodId && {
+          PaymentMethodRef: { value: accounts.paymentMethodId },
+        }),
+      },
+      requestId,
+      payload.invoiceId
+    );
+  }
+
+  /**
+   * Payments and sales receipts are voided. Deposits are offset by a JournalEntry that moves
+   * the money back from the deposit account to the accounts it was credited to.
+   */
+  async reverseTransaction(payload: ReversalPayload): Promise<ReversalResult> {
+    const { transactionId, transactionType: type } = payload;
+    const method = type ? REVERSIBLE_TYPES[type] : undefined;
+    if (!type || !method) {
+      return {
+        success: false,
+        error: `Cannot reverse QuickBooks ${type ?? 'transaction'} ${transactionId} automatically; reverse it by hand`,
+        errorKind: 'permanent',
+      };
+    }
+
+    const credentials = this.loadCredentials();
+    if (!credentials) {
+      return { success: false, error: 'QuickBooks is not connected' };
+    }
+
+    const requestId = `reverse-${type}-${transactionId}`.slice(0, REQUEST_ID_MAX_LENGTH);
+    try {
+      const client = this.createClient(credentials);
+      const response = await client.get(
+        `/${type.toLowerCase()}/${encodeURIComponent(transactionId)}`
+      );
+      const entity = response.data?.[type];
+      if (!entity?.Id) {
+        return {
+          success: false,
+          error: `QuickBooks ${type} ${transactionId} not found`,
+          errorKind: 'permanent',
+        };
+      }
+
+      if (method === 'journal_entry') {
+        const body = this.buildDepositReversal(entity as QBODeposit, payload);
+        if (!body) {
+          return {
+            success: false,
+            error: `QuickBooks Deposit ${transactionId} has no accounts to reverse`,
+            errorKind: 'permanent',
+          };
+        }
+        const result = await this.createEntity('JournalEntry', body, requestId, payload.invoiceId);
+        return result.success ? { ...result, method } : result;
+      }
+
+      await client.post(
+        `/${type.toLowerCase()}`,
+        { Id: entity.Id, SyncToken: entity.SyncToken, ...(type === 'Payment' && { sparse: true }) },
+        { params: { minorversion: QBO_MINOR_VERSION, ...VOID_PARAMS[type], requestid: requestId } }
+      );
+      console.log(`✅ Voided QuickBooks ${type} ${entity.Id} for ${payload.invoiceId}`);
+      return { success: true, transactionId: String(entity.Id), transactionType: type, method };
+    } catch (error) {
+      const message = this.describeError(error);
+      console.error(`Failed to reverse QuickBooks ${type} ${transactionId}:`, message);
+      return { success: false, error: message, errorKind: classifyHttpError(error) };
+    }
+  }
+
+  /**
+   * Journal entry debiting what a deposit credited and crediting its deposit account
+   */
+  private buildDepositReversal(
+    deposit: QBODeposit,
+    payload: ReversalPayload
+  ): Record<string, unknown> | null {
+    const description = `Reversal of Deposit ${deposit.Id} (BTCPayServer Invoice ${payload.invoiceId})`;
+    const debits = (deposit.Line ?? [])
+      .filter((line) => line.Amount && line.DepositLineDetail?.AccountRef?.value)
+      .map((line) => ({
+        Amount: line.Amount,
+        Description: description,
+        DetailType: 'JournalEntryLineDetail',
+        JournalEntryLineDetail: {
+          PostingType: 'Debit',
+          AccountRef: { value: line.DepositLineDetail!.AccountRef!.value },
+        },
+      }));
+    if (debits.length === 0 || !deposit.DepositToAccountRef?.value) {
+      return null;
+    }
+
+    const total = debits.reduce((sum, line) => sum + (line.Amount ?? 0), 0);
+    return {
+      TxnDate: payload.reversedAt.split('T')[0],
+      PrivateNote: payload.reason,
+      Line: [
+        ...debits,
+        {
+          Amount: Math.round(total * 100) / 100,
+          Description: description,
+          DetailType: 'JournalEntryLineDetail',
+          JournalEntryLineDetail: {
+            PostingType: 'Credit',
+            AccountRef: { value: deposit.DepositToAccountRef.value },
+          },
+        },
+      ],
+    };
+  }
+
+  async health(): Promise<ProviderHealth> {
+    const credentials = this.loadCredentials();
+    if (!credentials) {
+      return { connected: false, error: 'QuickBooks is not connected' };
+    }
+
+    try {
+      const client = this.createClient(credentials);
+      const response = await client.get(`/companyinfo/${credentials.realmId}`);
+      return {
+        connected: true,
+        companyName: response.data?.CompanyInfo?.CompanyName,
+      };
+    } catch (error) {
+      return { connected: false, error: this.describeError(error) };
+    }
+  }
+
+  async findInvoice(query: InvoiceQuery): Promise<ProviderInvoice | null> {
+    const credentials = this.loadCredentials();
+    if (!credentials) {
+      console.error('Cannot find invoice: QuickBooks is not connected');
+      return null;
+    }
+
+    try {
+      const client = this.createClient(credentials);
+      let invoice: QBOInvoice | undefined;
+
+      if (query.id) {
+        const response = await client.get(`/invoice/${encodeURIComponent(query.id)}`);
+        invoice = response.data?.Invoice;
+      } else if (query.docNumber) {
+        const docNumber = query.docNumber.replace(/'/g, "\\'");
+        const response = await client.get('/query', {
+          params: {
+            minorversion: QBO_MINOR_VERSION,
+            query: `SELECT * FROM Invoice WHERE DocNumber = '${docNumber}'`,
+          },
+        });
+        invoice = response.data?.QueryResponse?.Invoice?.[0];
+      }
+
+      if (!invoice?.Id) {
+        return null;
+      }
+
+      return {
+        id: invoice.Id,
+        docNumber: invoice.DocNumber,
+        customerId: invoice.CustomerRef?.value,
+        customerName: invoice.CustomerRef?.name,
+        totalAmount: invoice.TotalAmt ?? 0,
+        balance: invoice.Balance ?? 0,
+        currency: invoice.CurrencyRef?.value,
+        customerEmail: invoice.BillEmail?.Address,
+      };
+    } catch (error) {
+      console.error('Failed to find QuickBooks invoice:', this.describeError(error));
+      return null;
+    }
+  }
+
+  async getChartOfAccounts(): Promise<ChartOfAccounts | null> {
+    const credentials = this.loadCredentials();
+    if (!credentials) {
+      console.error('Cannot load chart of accounts: QuickBooks is not connected');
+      return null;
+    }
+
+    try {
+      const client = this.createClient(credentials);
+      const [accounts, customers, paymentMethods, taxCodes] = await Promise.all([
+        this.queryActive(client, 'Account'),
+        this.queryActive(client, 'Customer'),
+        this.queryActive(client, 'PaymentMethod'),
+        this.queryActive(client, 'TaxCode'),
+      ]);
+      const toItem = (entity: QBONamedEntity) => ({
+        id: entity.Id,
+        name: entity.DisplayName ?? entity.Name ?? entity.Id,
+      });
+
+      return {
+        accounts: accounts.map((account) => ({
+          id: account.Id,
+          name: account.FullyQualifiedName ?? account.Name ?? account.Id,
+          type: account.AccountType ?? 'Unknown',
+        })),
+        customers: customers.map(toItem),
+        paymentMethods: paymentMethods.map(toItem),
+        taxCodes: taxCodes.map(toItem),
+      };
+    } catch (error) {
+      console.error('Failed to load QuickBooks chart of accounts:', this.describeError(error));
+      return null;
+    }
+  }
+
+  /**
+   * Active entities of one type, as returned by Intuit's query endpoint
+   */
+  private async queryActive(client: AxiosInstance, entity: string): Promise<QBONamedEntity[]> {
+    const response = await client.get('/query', {
+      params: {
+        minorversion: QBO_MINOR_VERSION,
+        query: `SELECT * FROM ${entity} WHERE Active = true MAXRESULTS ${QUERY_MAX_RESULTS}`,
+      },
+    });
+    const entities = response.data?.QueryResponse?.[entity];
+    return Array.isArray(entities) ? entities.filter((item: QBONamedEntity) => item?.Id) : [];
+  }
+}
+
+// Singleton instance
+export const quickbooksProvider = new QuickBooksOnlineProvider();
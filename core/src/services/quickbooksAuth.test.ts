@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { initializeDatabase, getDatabase, closeDatabase } from '../models/database';
+import { getConfigValue, setConfigValue } from '../models/config';
+import { _resetEncryptionKeyForTesting } from '../utils/crypto';
+import { QuickBooksAuth } from './quickbooksAuth';
+
+// Mock axios
+vi.mock('axios');
+const mockedAxios = vi.mocked(axios);
+
+const tokenResponse = {
+  data: {
+    access_token: 'access_1',
+    refresh_token: 'refresh_1',
+    expires_in: 3600,
+    x_refresh_token_expires_in: 8726400,
+  },
+};
+
+describe('QuickBooksAuth', () => {
+  let auth: QuickBooksAuth;
+  let tmpDir: string;
+  const originalEnv = { ...process.env };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sm-qbo-auth-'));
+    process.env.DATABASE_PATH = ':memory:';
+    process.env.ENCRYPTION_KEY_PATH = path.join(tmpDir, 'encryption.key');
+    delete process.env.QBO_CLIENT_ID;
+    delete process.env.QBO_CLIENT_SECRET;
+    delete process.env.QBO_REDIRECT_URI;
+    _resetEncryptionKeyForTesting();
+    await initializeDatabase();
+    auth = new QuickBooksAuth();
+    auth.setClientCredentials({
+      clientId: 'client_id',
+      clientSecret: 'client_secret',
+      environment: 'production',
+    });
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    process.env = { ...originalEnv };
+    _resetEncryptionKeyForTesting();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('createAuthorizationUrl', () => {
+    it('should build the Intuit consent URL with a stored state token', () => {
+      const url = new URL(auth.createAuthorizationUrl()!);
+
+      expect(url.origin + url.pathname).toBe('https://appcenter.intuit.com/connect/oauth2');
+      expect(url.searchParams.get('client_id')).toBe('client_id');
+      expect(url.searchParams.get('scope')).toBe('com.intuit.quickbooks.accounting');
+      expect(url.searchParams.get('redirect_uri')).toBe(
+        'http://localhost:3000/api/config/qbo/callback'
+      );
+
+      const state = url.searchParams.get('state');
+      expect(state).toMatch(/^[0-9a-f]{64}$/);
+      const row = getDatabase().prepare('SELECT * FROM oauth_states WHERE state = ?').get(state);
+      expect(row).toBeDefined();
+    });
+
+    it('should return null until client credentials are configured', () => {
+      getDatabase().prepare('DELETE FROM config').run();
+      expect(auth.createAuthorizationUrl()).toBeNull();
+    });
+  });
+
+  describe('consumeState', () => {
+    it('should accept a state token exactly once', () => {
+      const state = new URL(auth.createAuthorizationUrl()!).searchParams.get('state')!;
+
+      expect(auth.consumeState(state)).toBe(true);
+      expect(auth.consumeState(state)).toBe(false);
+    });
+
+    it('should reject unknown and expired state tokens', () => {
+      const state = new URL(auth.createAuthorizationUrl()!).searchParams.get('state')!;
+      getDatabase()
+        .prepare(`UPDATE oauth_states SET expires_at = datetime('now', '-1 minute')`)
+        .run();
+
+      expect(auth.consumeState('forged')).toBe(false);
+      expect(auth.consumeState(state)).toBe(false);
+    });
+  });
+
+  describe('exchangeCode', () => {
+    it('should persist encrypted tokens and the realm', async () => {
+      mockedAxios.post.mockResolvedValueOnce(tokenResponse);
+
+      expect(await auth.exchangeCode('auth_code', '1234567890')).toBe(true);
+
+      const [url, body, config] = mockedAxios.post.mock.calls[0];
+      expect(url).toBe('https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer');
+      expect(new URLSearchParams(body as string).get('grant_type')).toBe('authorization_code');
+      expect(config?.headers?.Authorization).toBe(
+        `Basic ${Buffer.from('client_id:client_secret').toString('base64')}`
+      );
+
+      const stored = getDatabase()
+        .prepare(`SELECT value, encrypted FROM config WHERE key = 'qbo_access_token'`)
+        .get() as { value: string; encrypted: number };
+      expect(stored.encrypted).toBe(1);
+      expect(stored.value).not.toContain('access_1');
+      expect(getConfigValue('qbo_access_token')).toBe('access_1');
+      expect(getConfigValue('qbo_refresh_token')).toBe('refresh_1');
+
+      expect(auth.getConnection()).toMatchObject({
+        connected: true,
+        state: 'CONNECTED',
+        realmId: '1234567890',
+        environment: 'production',
+        error: null,
+      });
+    });
+
+    it('should report failure when Intuit rejects the code', async () => {
+      mockedAxios.post.mockRejectedValueOnce(new Error('Request failed'));
+
+      expect(await auth.exchangeCode('bad_code', '1234567890')).toBe(false);
+      expect(getConfigValue('qbo_access_token')).toBeUndefined();
+    });
+  });
+
+  describe('refreshAccessToken', () => {
+    beforeEach(async () => {
+      mockedAxios.post.mockResolvedValueOnce(tokenResponse);
+      await auth.exchangeCode('auth_code', '1234567890');
+    });
+
+    it('should rotate both tokens', async () => {
+      mockedAxios.post.mockResolvedValueOnce({
+        data: { ...tokenResponse.data, access_token: 'access_2', refresh_token: 'refresh_2' },
+      });
+
+      expect(await auth.refreshAccessToken()).toEqual({ success: true });
+
+      const body = new URLSearchParams(mockedAxios.post.mock.calls[1][1] as string);
+      expect(body.get('grant_type')).toBe('refresh_token');
+      expect(body.get('refresh_token')).toBe('refresh_1');
+      expect(getConfigValue('qbo_access_token')).toBe('access_2');
+      expect(getConfigValue('qbo_refresh_token')).toBe('refresh_2');
+    });
+
+    it('should enter the ERROR state when the refresh token is revoked', async () => {
+      mockedAxios.post.mockRejectedValueOnce({
+        isAxiosError: true,
+        response: { status: 400, data: { error: 'invalid_grant' } },
+      });
+      mockedAxios.isAxiosError.mockReturnValue(true);
+
+      const result = await auth.refreshAccessToken();
+
+      expect(result).toMatchObject({ success: false, revoked: true });
+      expect(auth.getConnection()).toMatchObject({ connected: false, state: 'ERROR' });
+      expect(auth.getConnection().error).toContain('reconnect QuickBooks');
+      expect(getConfigValue('qbo_access_token')).toBeUndefined();
+    });
+
+    it('should keep the connection on transient failures', async () => {
+      mockedAxios.post.mockRejectedValueOnce(new Error('socket hang up'));
+      mockedAxios.isAxiosError.mockReturnValue(false);
+
+      expect(await auth.refreshAccessToken()).toEqual({ success: false, error: 'socket hang up' });
+      expect(auth.getConnection().state).toBe('CONNECTED');
+    });
+  });
+
+  it('should prefer QBO_REDIRECT_URI when set', () => {
+    process.env.QBO_REDIRECT_URI = 'https://merchant.example.com/api/config/qbo/callback';
+    expect(auth.getRedirectUri()).toBe('https://merchant.example.com/api/config/qbo/callback');
+  });
+
+  it('should fall back to env client credentials', () => {
+    getDatabase().prepare('DELETE FROM config').run();
+    process.env.QBO_CLIENT_ID = 'env_id';
+    process.env.QBO_CLIENT_SECRET = 'env_secret';
+    setConfigValue('qbo_environment', 'sandbox');
+
+    expect(auth.getClientCredentials()).toEqual({
+      clientId: 'env_id',
+      clientSecret: 'env_secret',
+      environment: 'sandbox',
+    });
+  });
+});
@@ -0,0 +1,317 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { getDatabase } from '../models/database';
+import { deleteConfigValue, getConfigValue, setConfigValue } from '../models/config';
+import { writeLog } from '../utils/logger';
+
+// Constants
+const QBO_AUTHORIZE_URL = 'https://appcenter.intuit.com/connect/oauth2';
+const QBO_TOKEN_URL = 'https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer';
+const QBO_SCOPE = 'com.intuit.quickbooks.accounting';
+const OAUTH_PROVIDER = 'quickbooks';
+const STATE_BYTES = 32;
+const STATE_TTL_MINUTES = 10;
+const REQUEST_TIMEOUT = 15000;
+
+export type QuickBooksEnvironment = 'production' | 'sandbox';
+export type QuickBooksConnectionState = 'CONNECTED' | 'ERROR';
+
+export interface QuickBooksClientCredentials {
+  clientId: string;
+  clientSecret: string;
+  environment: QuickBooksEnvironment;
+}
+
+export interface QuickBooksConnection {
+  connected: boolean;
+  state: QuickBooksConnectionState | null;
+  realmId: string | null;
+  environment: QuickBooksEnvironment;
+  expiresAt: string | null; // Access token expiry (ISO 8601)
+  refreshTokenExpiresAt: string | null;
+  error: string | null;
+}
+
+export interface TokenRefreshResult {
+  success: boolean;
+  revoked?: boolean; // Refresh token no longer valid - merchant has to reconnect
+  error?: string;
+}
+
+interface IntuitTokenResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number; // Seconds
+  x_refresh_token_expires_in?: number; // Seconds
+}
+
+/**
+ * Intuit OAuth2 for the merchant's own QuickBooks app (BYO client ID/secret).
+ * Tokens land in the config table under the keys QuickBooksOnlineProvider reads.
+ */
+export class QuickBooksAuth {
+  /**
+   * Client credentials of the merchant's Intuit app (config first, env as fallback)
+   */
+  getClientCredentials(): QuickBooksClientCredentials | null {
+    try {
+      const clientId = getConfigValue('qbo_client_id') || process.env.QBO_CLIENT_ID;
+      const clientSecret = getConfigValue('qbo_client_secret') || process.env.QBO_CLIENT_SECRET;
+      if (!clientId || !clientSecret) {
+        return null;
+      }
+      const environment =
+        (getConfigValue('qbo_environment') || process.env.QBO_ENVIRONMENT) === 'sandbox'
+          ? 'sandbox'
+          : 'production';
+      return { clientId, clientSecret, environment };
+    } catch (error) {
+      console.error('Failed to load QuickBooks client credentials:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save the merchant's Intuit app credentials (secret encrypted)
+   */
+  setClientCredentials(credentials: QuickBooksClientCredentials): void {
+    setConfigValue('qbo_client_id', credentials.clientId);
+    setConfigValue('qbo_client_secret', credentials.clientSecret, { encrypted: true });
+    setConfigValue('qbo_environment', credentials.environment);
+  }
+
+  /**
+   * Redirect URI registered in the Intuit app - must match exactly
+   */
+  getRedirectUri(): string {
+    if (process.env.QBO_REDIRECT_URI) {
+      return process.env.QBO_REDIRECT_URI;
+    }
+    const baseUrl =
+      process.env.APP_HIDDEN_SERVICE || `http://localhost:${process.env.PORT || 3000}`;
+    return `${baseUrl}/api/config/qbo/callback`;
+  }
+
+  /**
+   * Build the Intuit consent URL with a freshly issued state token, or null without credentials
+   */
+  createAuthorizationUrl(): string | null {
+    const credentials = this.getClientCredentials();
+    if (!credentials) {
+      return null;
+    }
+
+    const params = new URLSearchParams({
+      client_id: credentials.clientId,
+      response_type: 'code',
+      scope: QBO_SCOPE,
+      redirect_uri: this.getRedirectUri(),
+      state: this.issueState(),
+    });
+    return `${QBO_AUTHORIZE_URL}?${params.toString()}`;
+  }
+
+  /**
+   * Store a new single-use state token, purging expired ones while we're at it
+   */
+  private issueState(): string {
+    const db = getDatabase();
+    const state = crypto.randomBytes(STATE_BYTES).toString('hex');
+
+    db.prepare(`DELETE FROM oauth_states WHERE expires_at < datetime('now')`).run();
+    db.prepare(
+      `INSERT INTO oauth_states (state, provider, expires_at) VALUES (?, ?, datetime('now', ?))`
+    ).run(state, OAUTH_PROVIDER, `+${STATE_TTL_MINUTES} minutes`);
+
+    return state;
+  }
+
+  /**
+   * Validate and burn a state token. Returns false if it is unknown, expired or already used.
+   */
+  consumeState(state: string): boolean {
+    const result = getDatabase()
+      .prepare(
+        `DELETE FROM oauth_states WHERE state = ? AND provider = ? AND expires_at >= datetime('now')`
+      )
+      .run(state, OAUTH_PROVIDER);
+    return result.changes === 1;
+  }
+
+  /**
+   * Exchange the authorization code from the callback for tokens and persist them
+   */
+  async exchangeCode(code: string, realmId: string): Promise<boolean> {
+    const credentials = this.getClientCredentials();
+    if (!credentials) {
+      console.error('Cannot exchange QuickBooks code: client credentials are not configured');
+      return false;
+    }
+
+    try {
+      const tokens = await this.requestTokens(credentials, {
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.getRedirectUri(),
+      });
+      setConfigValue('qbo_realm_id', realmId);
+      this.saveTokens(tokens);
+
+      console.log(`✅ Connected QuickBooks company ${realmId} (${credentials.environment})`);
+      writeLog('info', 'Connected QuickBooks company', {
+        realmId,
+        environment: credentials.environment,
+      });
+      return true;
+    } catch (error) {
+      const message = this.describeError(error);
+      console.error('Failed to exchange QuickBooks authorization code:', message);
+      writeLog('error', 'QuickBooks authorization failed', { realmId, error: message });
+      return false;
+    }
+  }
+
+  /**
+   * Trade the refresh token for a new access token. A rejected refresh token puts the
+   * connection into the ERROR state - only a new OAuth consent can recover from that.
+   */
+  async refreshAccessToken(): Promise<TokenRefreshResult> {
+    const credentials = this.getClientCredentials();
+    const refreshToken = this.getConfig('qbo_refresh_token');
+    if (!credentials || !refreshToken) {
+      return { success: false, error: 'QuickBooks is not connected' };
+    }
+
+    try {
+      const tokens = await this.requestTokens(credentials, {
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+      });
+      this.saveTokens(tokens);
+      console.log('🔑 Refreshed QuickBooks access token');
+      return { success: true };
+    } catch (error) {
+      const message = this.describeError(error);
+      const revoked =
+        axios.isAxiosError(error) &&
+        (error.response?.data as { error?: string } | undefined)?.error === 'invalid_grant';
+
+      if (revoked) {
+        this.markError('QuickBooks authorization was revoked or expired - reconnect QuickBooks');
+        return { success: false, revoked: true, error: message };
+      }
+
+      console.error('Failed to refresh QuickBooks access token:', message);
+      writeLog('warn', 'QuickBooks token refresh failed', { error: message });
+      return { success: false, error: message };
+    }
+  }
+
+  /**
+   * Current connection details for status endpoints (never includes tokens)
+   */
+  getConnection(): QuickBooksConnection {
+    const state = this.getConfig('qbo_connection_state') as QuickBooksConnectionState | undefined;
+    return {
+      connected: state === 'CONNECTED' && !!this.getConfig('qbo_access_token'),
+      state: state ?? null,
+      realmId: this.getConfig('qbo_realm_id') ?? null,
+      environment: this.getConfig('qbo_environment') === 'sandbox' ? 'sandbox' : 'production',
+      expiresAt: this.getConfig('qbo_token_expires_at') ?? null,
+      refreshTokenExpiresAt: this.getConfig('qbo_refresh_token_expires_at') ?? null,
+      error: this.getConfig('qbo_connection_error') ?? null,
+    };
+  }
+
+  /**
+   * Forget the tokens and company (client credentials are kept for reconnecting)
+   */
+  disconnect(): void {
+    for (const key of [
+      'qbo_access_token',
+      'qbo_refresh_token',
+      'qbo_token_expires_at',
+      'qbo_refresh_token_expires_at',
+      'qbo_realm_id',
+      'qbo_connection_state',
+      'qbo_connection_error',
+    ]) {
+      deleteConfigValue(key);
+    }
+  }
+
+  private async requestTokens(
+    credentials: QuickBooksClientCredentials,
+    form: Record<string, string>
+  ): Promise<IntuitTokenResponse> {
+    const basicAuth = Buffer.from(`${credentials.clientId}:${credentials.clientSecret}`).toString(
+      'base64'
+    );
+    const response = await axios.post<IntuitTokenResponse>(
+      QBO_TOKEN_URL,
+      new URLSearchParams(form).toString(),
+      {
+        timeout: REQUEST_TIMEOUT,
+        headers: {
+          Authorization: `Basic ${basicAuth}`,
+          Accept: 'application/json',
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+      }
+    );
+
+    if (!response.data?.access_token || !response.data?.refresh_token) {
+      throw new Error('Intuit token response is missing tokens');
+    }
+    return response.data;
+  }
+
+  private saveTokens(tokens: IntuitTokenResponse): void {
+    const now = Date.now();
+    setConfigValue('qbo_access_token', tokens.access_token, { encrypted: true });
+    setConfigValue('qbo_refresh_token', tokens.refresh_token, { encrypted: true });
+    setConfigValue('qbo_token_expires_at', new Date(now + tokens.expires_in * 1000).toISOString());
+    if (tokens.x_refresh_token_expires_in) {
+      setConfigValue(
+        'qbo_refresh_token_expires_at',
+        new Date(now + tokens.x_refresh_token_expires_in * 1000).toISOString()
+      );
+    }
+    setConfigValue('qbo_connection_state', 'CONNECTED');
+    deleteConfigValue('qbo_connection_error');
+  }
+
+  private markError(message: string): void {
+    // Drop the dead access token so the provider reports "not connected" instead of 401-ing
+    deleteConfigValue('qbo_access_token');
+    setConfigValue('qbo_connection_state', 'ERROR');
+    setConfigValue('qbo_connection_error', message);
+    console.error(`❌ ${message}`);
+    writeLog('error', message);
+  }
+
+  private getConfig(key: string): string | undefined {
+    try {
+      return getConfigValue(key);
+    } catch (error) {
+      console.error(`Failed to read ${key}:`, error);
+      return undefined;
+    }
+  }
+
+  private describeError(error: unknown): string {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data as { error?: string; error_description?: string };
+      if (data?.error) {
+        return [data.error, data.error_description].filter(Boolean).join(': ');
+      }
+      if (error.response?.status) {
+        return `Intuit returned HTTP ${error.response.status}`;
+      }
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// Singleton instance
+export const quickbooksAuth = new QuickBooksAuth();
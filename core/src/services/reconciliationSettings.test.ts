@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { initializeDatabase, closeDatabase } from '../models/database';
+import { getConfigValue, setConfigValue } from '../models/config';
+import {
+  getReconciliationMode,
+  getReconciliationSettings,
+  saveReconciliationSettings,
+} from './reconciliationSettings';
+
+describe('reconciliationSettings', () => {
+  beforeEach(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await initializeDatabase();
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should have no mode and no mapping until configured', () => {
+    expect(getReconciliationSettings()).toEqual({ mode: null, accounts: {} });
+  });
+
+  it('should ignore an unknown stored mode', () => {
+    setConfigValue('reconciliation_mode', 'cash');
+
+    expect(getReconciliationMode()).toBeNull();
+  });
+
+  it('should save the mode and account mapping', () => {
+    saveReconciliationSettings('invoicing', {
+      depositAccountId: '35',
+      incomeAccountId: '79',
+      customerId: '58',
+      paymentMethodId: '4',
+      taxCodeId: 'NON',
+    });
+
+    expect(getReconciliationSettings()).toEqual({
+      mode: 'invoicing',
+      accounts: {
+        depositAccountId: '35',
+        incomeAccountId: '79',
+        customerId: '58',
+        paymentMethodId: '4',
+        taxCodeId: 'NON',
+      },
+    });
+    expect(getConfigValue('qbo_tax_code_id')).toBe('NON');
+  });
+
+  it('should clear accounts left out of a later save', () => {
+    saveReconciliationSettings('deposit', { depositAccountId: '35', customerId: '58' });
+    saveReconciliationSettings('deposit', { depositAccountId: '36' });
+
+    expect(getReconciliationSettings().accounts).toEqual({ depositAccountId: '36' });
+    expect(getConfigValue('qbo_customer_id')).toBeUndefined();
+  });
+});
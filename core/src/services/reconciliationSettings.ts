@@ -0,0 +1,73 @@
+import { deleteConfigValue, getConfigValue, setConfigValue } from '../models/config';
+import { AccountMapping, ReconciliationMode } from './accounting';
+
+// Constants
+export const MODE_CONFIG_KEY = 'reconciliation_mode';
+export const RECONCILIATION_MODES: ReconciliationMode[] = ['deposit', 'invoicing'];
+export const DEFAULT_RECONCILIATION_MODE: ReconciliationMode = 'deposit';
+
+// Config key of each mapped account
+const ACCOUNT_CONFIG_KEYS: Record<keyof AccountMapping, string> = {
+  depositAccountId: 'qbo_deposit_account_id',
+  incomeAccountId: 'qbo_income_account_id',
+  itemId: 'qbo_item_id',
+  customerId: 'qbo_customer_id',
+  paymentMethodId: 'qbo_payment_method_id',
+  taxCodeId: 'qbo_tax_code_id',
+};
+
+export const ACCOUNT_MAPPING_FIELDS = Object.keys(ACCOUNT_CONFIG_KEYS) as (keyof AccountMapping)[];
+
+export interface ReconciliationSettings {
+  mode: ReconciliationMode | null; // Null until the merchant has chosen one
+  accounts: AccountMapping;
+}
+
+/**
+ * The chosen reconciliation mode, or null if none has been chosen yet
+ */
+export function getReconciliationMode(): ReconciliationMode | null {
+  const mode = getConfigValue(MODE_CONFIG_KEY) as ReconciliationMode | undefined;
+  return mode && RECONCILIATION_MODES.includes(mode) ? mode : null;
+}
+
+/**
+ * Mode and account mapping reconciliations are posted with
+ */
+export function getReconciliationSettings(): ReconciliationSettings {
+  const accounts: AccountMapping = {};
+  for (const field of ACCOUNT_MAPPING_FIELDS) {
+    const value = getConfigValue(ACCOUNT_CONFIG_KEYS[field]);
+    if (value) {
+      accounts[field] = value;
+    }
+  }
+  return { mode: getReconciliationMode(), accounts };
+}
+
+/**
+ * Store the mode and replace the account mapping (fields left out are cleared)
+ */
+export function saveReconciliationSettings(
+  mode: ReconciliationMode,
+  accounts: AccountMapping
+): void {
+  setConfigValue(MODE_CONFIG_KEY, mode);
+  for (const field of ACCOUNT_MAPPING_FIELDS) {
+    const value = accounts[field];
+    if (value) {
+      setConfigValue(ACCOUNT_CONFIG_KEYS[field], value);
+    } else {
+      deleteConfigValue(ACCOUNT_CONFIG_KEYS[field]);
+    }
+  }
+}
+
+/**
+ * Forget the account mapping, e.g. because it points at another provider's accounts
+ */
+export function clearAccountMapping(): void {
+  for (const field of ACCOUNT_MAPPING_FIELDS) {
+    deleteConfigValue(ACCOUNT_CONFIG_KEYS[field]);
+  }
+}
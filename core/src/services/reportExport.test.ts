@@ -0,0 +1,290 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { initializeDatabase, getDatabase, closeDatabase } from '../models/database';
+import { insertPosting, insertReconciliation } from '../models/testFixtures';
+import { ReportFilter, ReportType, streamReport } from './reportExport';
+
+function insertEvent(invoiceId: string, eventType: string, storeId: string, createdAt: string) {
+  getDatabase()
+    .prepare(
+      `INSERT INTO webhook_events (id, event_type, invoice_id, store_id, payload, created_at)
+       VALUES (?, ?, ?, ?, '{}', ?)`
+    )
+    .run(`${invoiceId}_${eventType}`, eventType, invoiceId, storeId, createdAt);
+}
+
+async function exportCsv(type: ReportType, filter: ReportFilter = {}): Promise<string[][]> {
+  let csv = '';
+  for await (const chunk of streamReport(type, 'csv', filter)) {
+    csv += chunk;
+  }
+  return csv
+    .trimEnd()
+    .split('\r\n')
+    .map((line) => line.split(','));
+}
+
+describe('streamReport', () => {
+  beforeEach(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await initializeDatabase();
+
+    insertEvent('inv_1', 'InvoiceCreated', 'store_a', '2024-01-15 10:00:00');
+    insertEvent('inv_1', 'InvoiceSettled', 'store_a', '2024-01-15 10:30:00');
+    insertReconciliation({
+      id: 'rec_1',
+      invoiceId: 'inv_1',
+      sats: 250000,
+      cents: 10000,
+      status: 'full',
+      paymentStatus: 'paid',
+      paidAt: '2024-01-15T10:29:00.000Z',
+      txids: ['tx_a', 'tx_b'],
+      transactionId: 'qbo_rec_1',
+      transactionType: 'Deposit',
+      accountingProvider: 'quickbooks',
+      processedAt: '2024-01-18 09:01:00',
+    });
+    // Paid in two instalments, each posted as its own transaction
+    insertPosting({
+      reconciliationId: 'rec_1',
+      accountingProvider: 'quickbooks',
+      transactionId: 'qbo_rec_1',
+      transactionType: 'Deposit',
+      sats: 150000,
+      cents: 6000,
+      paidAt: '2024-01-15T10:29:00.000Z',
+      postedAt: '2024-01-15 10:31:00',
+    });
+    insertPosting({
+      reconciliationId: 'rec_1',
+      sequence: 2,
+      accountingProvider: 'quickbooks',
+      transactionId: 'qbo_rec_1_2',
+      transactionType: 'Deposit',
+      sats: 100000,
+      cents: 4000,
+      paidAt: '2024-01-18T09:00:00.000Z',
+      postedAt: '2024-01-18 09:01:00',
+      reversalTransactionId: 'qbo_void_2',
+      reversedAt: '2024-01-19 08:00:00',
+    });
+
+    insertEvent('inv_2', 'InvoiceSettled', 'store_b', '2024-02-02 08:00:00');
+    insertReconciliation({
+      id: 'rec_2',
+      invoiceId: 'inv_2',
+      sats: 50000,
+      cents: 2150,
+      status: 'failed',
+      paymentStatus: 'paid',
+      paidAt: '2024-02-02T07:59:00.000Z',
+      processedAt: '2024-01-15 10:31:00',
+      errorMessage: 'QuickBooks API returned HTTP 400',
+    });
+    getDatabase()
+      .prepare(
+        `INSERT INTO reconciliation_jobs
+           (reconciliation_id, invoice_id, store_id, status, attempts, last_error, error_kind,
+            updated_at)
+         VALUES ('rec_2', 'inv_2', 'store_b', 'dead', 1, 'QuickBooks API returned HTTP 400',
+                 'permanent', '2024-02-02 08:01:00')`
+      )
+      .run();
+
+    getDatabase()
+      .prepare(
+        `INSERT INTO refunds
+           (id, reconciliation_id, btcpay_invoice_id, store_id, amount_fiat, currency, status,
+            transaction_id, transaction_type, refunded_at, processed_at)
+         VALUES ('pp_1', 'rec_1', 'inv_1', 'store_a', 2500, 'USD', 'posted', 'qbo_refund',
+                 'RefundReceipt', '2024-01-20T12:00:00.000Z', '2024-01-20 12:01:00')`
+      )
+      .run();
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should export reconciliations with sats, fiat, rate, txids and postings', async () => {
+    const [header, ...rows] = await exportCsv('reconciliations');
+
+    expect(header.slice(0, 19)).toEqual([
+      'Reconciliation ID',
+      'Invoice ID',
+      'Store ID',
+      'Status',
+      'Payment status',
+      'Sats',
+      'Fiat',
+      'Currency',
+      'Rate (fiat/BTC)',
+      'Txids',
+      'Accounting provider',
+      'Accounting transaction IDs',
+      'Accounting transaction types',
+      'Paid at',
+      'First posted at',
+      'Last posted at',
+      'Refunded fiat',
+      'Reversal status',
+      'Reversal transaction IDs',
+    ]);
+    expect(rows[0].slice(0, 19)).toEqual([
+      'rec_1',
+      'inv_1',
+      'store_a',
+      'full',
+      'paid',
+      '250000',
+      '100',
+      'USD',
+      '40000',
+      'tx_a tx_b',
+      'quickbooks',
+      'qbo_rec_1 qbo_rec_1_2',
+      'Deposit Deposit',
+      '2024-01-15T10:29:00.000Z',
+      '2024-01-15T10:31:00.000Z',
+      '2024-01-18T09:01:00.000Z',
+      '25',
+      '',
+      'qbo_void_2',
+    ]);
+    expect(rows[1]).toEqual(expect.arrayContaining(['rec_2', 'store_b', 'failed', '21.5']));
+    expect(rows[1][11]).toBe(''); // Never posted
+  });
+
+  it('should export one payment row per posted transaction, and refunds', async () => {
+    const [header, ...rows] = await exportCsv('payments', { storeId: 'store_a' });
+
+    expect(header.slice(12)).toEqual([
+      'Accounting transaction ID',
+      'Accounting transaction type',
+      'Posted at',
+      'Reversed at',
+      'Reversal transaction ID',
+    ]);
+    expect(rows.map((row) => [...row.slice(0, 8), ...row.slice(12)])).toEqual([
+      [
+        'payment',
+        'rec_1_1',
+        'inv_1',
+        'store_a',
+        'paid',
+        '2024-01-15T10:29:00.000Z',
+        '150000',
+        '60',
+        'qbo_rec_1',
+        'Deposit',
+        '2024-01-15T10:31:00.000Z',
+        '',
+        '',
+      ],
+      [
+        'payment',
+        'rec_1_2',
+        'inv_1',
+        'store_a',
+        'paid',
+        '2024-01-18T09:00:00.000Z',
+        '100000',
+        '40',
+        'qbo_rec_1_2',
+        'Deposit',
+        '2024-01-18T09:01:00.000Z',
+        '2024-01-19T08:00:00.000Z',
+        'qbo_void_2',
+      ],
+      [
+        'refund',
+        'pp_1',
+        'inv_1',
+        'store_a',
+        'posted',
+        '2024-01-20T12:00:00.000Z',
+        '',
+        '-25',
+        'qbo_refund',
+        'RefundReceipt',
+        '2024-01-20T12:01:00.000Z',
+        '',
+        '',
+      ],
+    ]);
+  });
+
+  it('should export payments that were never posted', async () => {
+    const rows = await exportCsv('payments', { storeId: 'store_b' });
+
+    expect(rows.slice(1).map((row) => row.slice(0, 8))).toEqual([
+      ['payment', 'rec_2', 'inv_2', 'store_b', 'paid', '2024-02-02T07:59:00.000Z', '50000', '21.5'],
+    ]);
+    expect(rows[1][12]).toBe('');
+  });
+
+  it('should export invoices with their lifecycle status', async () => {
+    const rows = await exportCsv('invoices');
+
+    expect(rows.slice(1).map((row) => row.slice(0, 4))).toEqual([
+      ['inv_1', 'store_a', 'refunded', '2024-01-15T10:00:00.000Z'],
+      ['inv_2', 'store_b', 'settled', '2024-02-02T08:00:00.000Z'],
+    ]);
+    expect(rows[1].slice(11, 14)).toEqual([
+      'qbo_rec_1 qbo_rec_1_2',
+      '2024-01-15T10:31:00.000Z',
+      '2024-01-18T09:01:00.000Z',
+    ]);
+  });
+
+  it('should export failed reconciliations with their retry state', async () => {
+    const rows = await exportCsv('errors');
+
+    expect(rows.slice(1)).toEqual([
+      [
+        'reconciliation',
+        'rec_2',
+        'inv_2',
+        'store_b',
+        'dead',
+        '2024-02-02T08:01:00.000Z',
+        'QuickBooks API returned HTTP 400',
+        'permanent',
+        '1',
+        '',
+      ],
+    ]);
+  });
+
+  it('should filter by date range and status', async () => {
+    expect(await exportCsv('reconciliations', { from: '2024-02-01' })).toHaveLength(2);
+    expect(await exportCsv('reconciliations', { to: '2024-01-31' })).toHaveLength(2);
+    expect(await exportCsv('reconciliations', { from: '2024-03-01' })).toHaveLength(1);
+    expect((await exportCsv('invoices', { status: 'settled' }))[1][0]).toBe('inv_2');
+    expect((await exportCsv('payments', { status: 'posted' }))[1][0]).toBe('refund');
+  });
+
+  it('should read rows a page at a time', async () => {
+    const insert = getDatabase().prepare(
+      `INSERT INTO webhook_events (id, event_type, invoice_id, store_id, payload, created_at)
+       VALUES (?, 'InvoiceCreated', ?, 'store_c', '{}', '2024-03-01 00:00:00')`
+    );
+    for (let i = 0; i < 1200; i++) {
+      insert.run(`event_${i}`, `bulk_${String(i).padStart(4, '0')}`);
+    }
+
+    const rows = await exportCsv('invoices', { storeId: 'store_c' });
+
+    expect(rows).toHaveLength(1201);
+    expect(new Set(rows.slice(1).map((row) => row[0])).size).toBe(1200);
+  });
+
+  it('should stream a workbook for XLSX', async () => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of streamReport('payments', 'xlsx')) {
+      chunks.push(chunk);
+    }
+
+    expect(Buffer.concat(chunks).subarray(0, 4)).toEqual(Buffer.from([0x50, 0x4b, 0x03, 0x04]));
+  });
+});
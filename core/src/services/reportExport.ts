@@ -0,0 +1,377 @@
+import { Readable } from 'stream';
+import { getDatabase } from '../models/database';
+import { getLifecycleStatus, INVOICE_LIFECYCLE_STATUSES } from './invoiceLifecycle';
+import { Cell, csvChunks, xlsxChunks } from '../utils/spreadsheet';
+
+// Constants
+export const REPORT_TYPES = ['invoices', 'payments', 'reconciliations', 'errors'] as const;
+export const REPORT_FORMATS = ['csv', 'xlsx'] as const;
+const PAGE_SIZE = 500; // Rows read per query, so no cursor stays open while a download streams
+
+export type ReportType = (typeof REPORT_TYPES)[number];
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export interface ReportFilter {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  storeId?: string;
+  status?: string; // One of REPORT_STATUSES for the report
+}
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// What the status filter matches in each report
+export const REPORT_STATUSES: Record<ReportType, string[]> = {
+  invoices: INVOICE_LIFECYCLE_STATUSES,
+  payments: ['paid', 'partial', 'overpaid', 'posted', 'failed'], // Payment, then refund statuses
+  reconciliations: [
+    'pending',
+    'processing',
+    'completed',
+    'full',
+    'partial',
+    'overpaid',
+    'expired',
+    'invalidated',
+    'failed',
+  ],
+  errors: ['scheduled', 'dead', 'failed'], // Retry job status, or failed refund/reversal
+};
+
+type Row = Record<string, string | number | null>;
+
+interface ReportDefinition {
+  // Must select booked_at (the date filtered and sorted on), store_id and id
+  sql: string;
+  status: (row: Row) => string | null;
+  columns: [string, (row: Row) => Cell][];
+}
+
+// BTCPay store of a reconciliation: from its retry job, or from the webhooks of its invoice
+const storeOf = (alias: string) => `COALESCE(
+  (SELECT j.store_id FROM reconciliation_jobs j WHERE j.reconciliation_id = ${alias}.id),
+  (SELECT we.store_id FROM webhook_events we
+   WHERE we.invoice_id = ${alias}.btcpay_invoice_id AND we.store_id IS NOT NULL LIMIT 1)
+)`;
+
+const refundedFiatOf = (alias: string) => `(
+  SELECT SUM(rf.amount_fiat) FROM refunds rf
+  WHERE rf.reconciliation_id = ${alias}.id AND rf.status = 'posted'
+)`;
+
+// Aggregate over the transactions a reconciliation posted (see reconciliation_postings)
+const postingsOf = (alias: string, aggregate: string) => `(
+  SELECT ${aggregate} FROM reconciliation_postings p WHERE p.reconciliation_id = ${alias}.id
+)`;
+
+const postedTransactionsOf = (alias: string, column: string) =>
+  postingsOf(alias, `GROUP_CONCAT(p.${column}, ' ' ORDER BY p.sequence)`);
+
+/**
+ * SQLite's CURRENT_TIMESTAMP format as ISO 8601, so every date column reads the same
+ */
+function toIso(value: string | number | null): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  return /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value)
+    ? `${value.replace(' ', 'T')}.000Z`
+    : value;
+}
+
+function fiat(cents: string | number | null): number | null {
+  return typeof cents === 'number' ? cents / 100 : null;
+}
+
+/**
+ * Fiat per BTC the sats were valued at
+ */
+function rate(row: Row): number | null {
+  const { amount_sats: sats, amount_fiat: cents } = row;
+  if (typeof sats !== 'number' || typeof cents !== 'number' || sats <= 0) {
+    return null;
+  }
+  return Math.round((cents / 100 / (sats / 1e8)) * 100) / 100;
+}
+
+function txids(value: string | number | null): string | null {
+  try {
+    const list = JSON.parse(String(value ?? '[]')) as unknown;
+    return Array.isArray(list) && list.length ? list.join(' ') : null;
+  } catch {
+    return null;
+  }
+}
+
+const text = (key: string) => (row: Row) => (row[key] === null ? null : String(row[key]));
+const date = (key: string) => (row: Row) => toIso(row[key]);
+const number = (key: string) => (row: Row) => (typeof row[key] === 'number' ? row[key] : null);
+
+const invoiceStatus = (row: Row) =>
+  getLifecycleStatus(
+    String(row.event_types ?? '').split(','),
+    row.reconciliation_status as string | null,
+    Number(row.refunded_fiat ?? 0)
+  );
+
+const REPORTS: Record<ReportType, ReportDefinition> = {
+  invoices: {
+    sql: `
+      SELECT
+        we.invoice_id AS id,
+        MAX(we.store_id) AS store_id,
+        MIN(we.created_at) AS booked_at,
+        MAX(CASE WHEN we.event_type IN ('InvoiceSettled', 'InvoicePaymentSettled')
+                 THEN we.created_at END) AS settled_at,
+        GROUP_CONCAT(DISTINCT we.event_type) AS event_types,
+        r.status AS reconciliation_status,
+        r.amount_sats,
+        r.amount_fiat,
+        r.currency,
+        r.txids,
+        ${postedTransactionsOf('r', 'transaction_id')} AS transaction_ids,
+        ${postingsOf('r', 'MIN(p.posted_at)')} AS first_posted_at,
+        ${postingsOf('r', 'MAX(p.posted_at)')} AS last_posted_at,
+        ${refundedFiatOf('r')} AS refunded_fiat
+      FROM webhook_events we
+      LEFT JOIN reconciliations r ON r.btcpay_invoice_id = we.invoice_id
+      WHERE we.invoice_id IS NOT NULL
+      GROUP BY we.invoice_id
+    `,
+    status: invoiceStatus,
+    columns: [
+      ['Invoice ID', text('id')],
+      ['Store ID', text('store_id')],
+      ['Status', invoiceStatus],
+      ['First seen', date('booked_at')],
+      ['Settled at', date('settled_at')],
+      ['Sats', number('amount_sats')],
+      ['Fiat', (row) => fiat(row.amount_fiat)],
+      ['Currency', text('currency')],
+      ['Rate (fiat/BTC)', rate],
+      ['Txids', (row) => txids(row.txids)],
+      ['Reconciliation status', text('reconciliation_status')],
+      ['Accounting transaction IDs', text('transaction_ids')],
+      ['First posted at', date('first_posted_at')],
+      ['Last posted at', date('last_posted_at')],
+      ['Refunded fiat', (row) => fiat(row.refunded_fiat)],
+    ],
+  },
+
+  payments: {
+    // One row per transaction posted for a payment (and per payment that was never posted),
+    // and one per refund paid out
+    sql: `
+      SELECT
+        'payment' AS type,
+        p.id,
+        r.btcpay_invoice_id AS invoice_id,
+        ${storeOf('r')} AS store_id,
+        r.payment_status AS status,
+        p.amount_sats,
+        p.amount_fiat,
+        r.currency,
+        r.txids,
+        p.accounting_provider,
+        p.transaction_id,
+        p.transaction_type,
+        COALESCE(p.paid_at, p.posted_at) AS booked_at,
+        p.posted_at,
+        p.reversed_at,
+        p.reversal_transaction_id
+      FROM reconciliation_postings p
+      JOIN reconciliations r ON r.id = p.reconciliation_id
+      UNION ALL
+      SELECT
+        'payment', r.id, r.btcpay_invoice_id, ${storeOf('r')}, r.payment_status, r.amount_sats,
+        r.amount_fiat, r.currency, r.txids, NULL, NULL, NULL,
+        COALESCE(r.paid_at, r.processed_at, r.created_at), NULL, NULL, NULL
+      FROM reconciliations r
+      WHERE r.amount_sats > 0
+        AND NOT EXISTS (SELECT 1 FROM reconciliation_postings p WHERE p.reconciliation_id = r.id)
+      UNION ALL
+      SELECT
+        'refund',
+        rf.id,
+        rf.btcpay_invoice_id,
+        rf.store_id,
+        rf.status,
+        NULL,
+        -rf.amount_fiat,
+        rf.currency,
+        NULL,
+        rf.accounting_provider,
+        rf.transaction_id,
+        rf.transaction_type,
+        COALESCE(rf.refunded_at, rf.processed_at, rf.created_at),
+        CASE WHEN rf.status = 'posted' THEN rf.processed_at END,
+        NULL,
+        NULL
+      FROM refunds rf
+    `,
+    status: (row) => row.status as string | null,
+    columns: [
+      ['Type', text('type')],
+      ['ID', text('id')],
+      ['Invoice ID', text('invoice_id')],
+      ['Store ID', text('store_id')],
+      ['Status', text('status')],
+      ['Date', date('booked_at')],
+      ['Sats', number('amount_sats')],
+      ['Fiat', (row) => fiat(row.amount_fiat)],
+      ['Currency', text('currency')],
+      ['Rate (fiat/BTC)', rate],
+      ['Txids', (row) => txids(row.txids)],
+      ['Accounting provider', text('accounting_provider')],
+      ['Accounting transaction ID', text('transaction_id')],
+      ['Accounting transaction type', text('transaction_type')],
+      ['Posted at', date('posted_at')],
+      ['Reversed at', date('reversed_at')],
+      ['Reversal transaction ID', text('reversal_transaction_id')],
+    ],
+  },
+
+  reconciliations: {
+    sql: `
+      SELECT
+        r.*,
+        ${storeOf('r')} AS store_id,
+        COALESCE(r.paid_at, r.processed_at, r.created_at) AS booked_at,
+        ${postingsOf('r', 'GROUP_CONCAT(DISTINCT p.accounting_provider)')} AS posted_providers,
+        ${postedTransactionsOf('r', 'transaction_id')} AS transaction_ids,
+        ${postedTransactionsOf('r', 'transaction_type')} AS transaction_types,
+        ${postingsOf('r', 'MIN(p.posted_at)')} AS first_posted_at,
+        ${postingsOf('r', 'MAX(p.posted_at)')} AS last_posted_at,
+        ${refundedFiatOf('r')} AS refunded_fiat,
+        rv.status AS reversal_status,
+        ${postedTransactionsOf('r', 'reversal_transaction_id')} AS reversal_transaction_ids
+      FROM reconciliations r
+      LEFT JOIN reversals rv ON rv.reconciliation_id = r.id
+    `,
+    status: (row) => row.status as string | null,
+    columns: [
+      ['Reconciliation ID', text('id')],
+      ['Invoice ID', text('btcpay_invoice_id')],
+      ['Store ID', text('store_id')],
+      ['Status', text('status')],
+      ['Payment status', text('payment_status')],
+      ['Sats', number('amount_sats')],
+      ['Fiat', (row) => fiat(row.amount_fiat)],
+      ['Currency', text('currency')],
+      ['Rate (fiat/BTC)', rate],
+      ['Txids', (row) => txids(row.txids)],
+      ['Accounting provider', text('posted_providers')],
+      ['Accounting transaction IDs', text('transaction_ids')],
+      ['Accounting transaction types', text('transaction_types')],
+      ['Paid at', date('paid_at')],
+      ['First posted at', date('first_posted_at')],
+      ['Last posted at', date('last_posted_at')],
+      ['Refunded fiat', (row) => fiat(row.refunded_fiat)],
+      ['Reversal status', text('reversal_status')],
+      ['Reversal transaction IDs', text('reversal_transaction_ids')],
+      ['Error', text('error_message')],
+    ],
+  },
+
+  errors: {
+    // Reconciliations that failed (with their retry job), and failed refunds and reversals
+    sql: `
+      SELECT
+        'reconciliation' AS source,
+        r.id,
+        r.btcpay_invoice_id AS invoice_id,
+        ${storeOf('r')} AS store_id,
+        COALESCE(j.status, r.status) AS status,
+        COALESCE(j.last_error, r.error_message) AS error,
+        j.error_kind,
+        j.attempts,
+        j.next_attempt_at,
+        COALESCE(j.updated_at, r.processed_at, r.created_at) AS booked_at
+      FROM reconciliations r
+      LEFT JOIN reconciliation_jobs j ON j.reconciliation_id = r.id
+      WHERE j.reconciliation_id IS NOT NULL OR r.status = 'failed'
+      UNION ALL
+      SELECT 'refund', rf.id, rf.btcpay_invoice_id, rf.store_id, rf.status, rf.error_message,
+             rf.error_kind, NULL, NULL, COALESCE(rf.processed_at, rf.created_at)
+      FROM refunds rf
+      WHERE rf.status = 'failed'
+      UNION ALL
+      SELECT 'reversal', rv.id, r.btcpay_invoice_id, ${storeOf('r')}, rv.status, rv.error_message,
+             rv.error_kind, NULL, NULL, COALESCE(rv.processed_at, rv.created_at)
+      FROM reversals rv
+      JOIN reconciliations r ON r.id = rv.reconciliation_id
+      WHERE rv.status = 'failed'
+    `,
+    status: (row) => row.status as string | null,
+    columns: [
+      ['Source', text('source')],
+      ['ID', text('id')],
+      ['Invoice ID', text('invoice_id')],
+      ['Store ID', text('store_id')],
+      ['Status', text('status')],
+      ['Date', date('booked_at')],
+      ['Error', text('error')],
+      ['Error kind', text('error_kind')],
+      ['Attempts', number('attempts')],
+      ['Next attempt at', date('next_attempt_at')],
+    ],
+  },
+};
+
+/**
+ * Rows of a report matching the filter, oldest first, read a page at a time
+ */
+function* reportRows(type: ReportType, filter: ReportFilter): Generator<Cell[]> {
+  const report = REPORTS[type];
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (filter.from) {
+    conditions.push('date(booked_at) >= ?');
+    params.push(filter.from);
+  }
+  if (filter.to) {
+    conditions.push('date(booked_at) <= ?');
+    params.push(filter.to);
+  }
+  if (filter.storeId) {
+    conditions.push('store_id = ?');
+    params.push(filter.storeId);
+  }
+
+  const statement = getDatabase().prepare(`
+    SELECT * FROM (${report.sql})
+    ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY booked_at ASC, id ASC
+    LIMIT ? OFFSET ?
+  `);
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const rows = statement.all(...params, PAGE_SIZE, offset) as Row[];
+    for (const row of rows) {
+      if (!filter.status || report.status(row) === filter.status) {
+        yield report.columns.map(([, value]) => value(row));
+      }
+    }
+    if (rows.length < PAGE_SIZE) {
+      return;
+    }
+  }
+}
+
+/**
+ * Stream a report as CSV or a single-sheet XLSX workbook
+ */
+export function streamReport(
+  type: ReportType,
+  format: ReportFormat,
+  filter: ReportFilter = {}
+): Readable {
+  const headers = REPORTS[type].columns.map(([header]) => header);
+  const rows = reportRows(type, filter);
+  return Readable.from(
+    format === 'csv' ? csvChunks(headers, rows) : xlsxChunks(type, headers, rows)
+  );
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { initializeDatabase, getDatabase, closeDatabase } from '../models/database';
+import { getJob } from '../models/reconciliationJobs';
+import { insertReconciliation } from '../models/testFixtures';
+import { MAX_ATTEMPTS, RetryQueue } from './retryQueue';
+
+// The retry queue reads the BTCPay store of a reconciliation from its invoice's webhook
+function insertReconciliationWithEvent(id: string, invoiceId: string, status: string) {
+  insertReconciliation({ id, invoiceId, status });
+  getDatabase()
+    .prepare(
+      `INSERT INTO webhook_events (id, event_type, invoice_id, store_id, payload)
+       VALUES (?, 'InvoiceSettled', ?, 'store_789', '{}')`
+    )
+    .run(`event_${id}`, invoiceId);
+}
+
+const failure = (errorKind: 'transient' | 'permanent' = 'transient') => ({
+  reconciliationId: 'rec_1',
+  invoiceId: 'invoice_1',
+  storeId: 'store_789',
+  error: 'QuickBooks API returned HTTP 503',
+  errorKind,
+});
+
+describe('RetryQueue', () => {
+  let queue: RetryQueue;
+
+  beforeEach(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await initializeDatabase();
+    queue = new RetryQueue();
+    insertReconciliationWithEvent('rec_1', 'invoice_1', 'failed');
+  });
+
+  afterEach(() => {
+    closeDatabase();
+  });
+
+  it('should back off further with every failed attempt', () => {
+    const first = queue.recordFailure(failure());
+    const second = queue.recordFailure(failure());
+
+    expect(first).toMatchObject({ status: 'scheduled', attempts: 1 });
+    expect(second).toMatchObject({ status: 'scheduled', attempts: 2 });
+    // Jitter keeps each delay within [half, all] of the doubled base, so they can't overlap
+    expect(Date.parse(second.nextAttemptAt!)).toBeGreaterThan(Date.parse(first.nextAttemptAt!));
+    expect(getJob('rec_1')).toEqual(second);
+  });
+
+  it('should dead-letter permanent errors and exhausted jobs', () => {
+    expect(queue.recordFailure(failure('permanent'))).toMatchObject({
+      status: 'dead',
+      nextAttemptAt: null,
+    });
+
+    queue.clear('invoice_1');
+    let job = queue.recordFailure(failure());
+    while (job.status === 'scheduled') {
+      job = queue.recordFailure(failure());
+    }
+    expect(job.attempts).toBe(MAX_ATTEMPTS);
+  });
+
+  it('should only hand out due jobs, once each', () => {
+    queue.recordFailure(failure());
+    expect(queue.claimDue()).toBeNull();
+
+    queue.retryNow('rec_1');
+    expect(queue.claimDue()?.invoiceId).toBe('invoice_1');
+    expect(queue.claimDue()).toBeNull();
+  });
+
+  it('should give a retried reconciliation a fresh attempt budget', () => {
+    queue.recordFailure(failure('permanent'));
+
+    const result = queue.retryNow('rec_1');
+
+    expect(result).toMatchObject({
+      status: 'scheduled',
+      job: { status: 'scheduled', attempts: 0 },
+    });
+  });
+
+  it('should retry failed reconciliations that predate the queue', () => {
+    expect(queue.retryNow('rec_1')).toMatchObject({
+      status: 'scheduled',
+      job: { invoiceId: 'invoice_1', storeId: 'store_789' },
+    });
+  });
+
+  it('should refuse reconciliations with nothing to retry', () => {
+    insertReconciliationWithEvent('rec_2', 'invoice_2', 'full');
+
+    expect(queue.retryNow('rec_2')).toEqual({ status: 'nothing_to_retry' });
+    expect(queue.retryNow('missing')).toEqual({ status: 'not_found' });
+  });
+
+  it('should retry every failed reconciliation', () => {
+    insertReconciliationWithEvent('rec_2', 'invoice_2', 'failed');
+    insertReconciliationWithEvent('rec_3', 'invoice_3', 'full');
+    queue.recordFailure(failure('permanent'));
+
+    expect(queue.retryAllFailed()).toBe(2);
+    expect(getJob('rec_1')?.status).toBe('scheduled');
+    expect(getJob('rec_2')?.status).toBe('scheduled');
+    expect(getJob('rec_3')).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+import { getDatabase } from '../models/database';
+import {
+  claimDueJob,
+  deleteJobForInvoice,
+  getJob,
+  ReconciliationJob,
+  rescheduleJob,
+  saveJobFailure,
+} from '../models/reconciliationJobs';
+import { ErrorKind, getRetryDelayMs } from '../utils/retry';
+
+// Constants
+export const MAX_ATTEMPTS = 8; // Dead-lettered after this many failures (about a day of retries)
+const BASE_DELAY_MS = 60 * 1000;
+const MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+const CLAIM_LEASE_MS = 5 * 60 * 1000; // A claimed job is retried again after this if its worker dies
+
+export interface FailedAttempt {
+  reconciliationId: string;
+  invoiceId: string;
+  storeId: string;
+  error: string;
+  errorKind: ErrorKind;
+}
+
+export type RetryRequestResult =
+  | { status: 'scheduled'; job: ReconciliationJob }
+  | { status: 'not_found' }
+  | { status: 'nothing_to_retry' }; // Already reconciled, or invalidated
+
+interface RetryCandidateRow {
+  id: string;
+  btcpay_invoice_id: string | null;
+  status: string;
+  job_store_id: string | null;
+  event_store_id: string | null;
+}
+
+// Reconciliations with work left: failed ones, and posted ones whose top-up failed to post
+const RETRY_CANDIDATES_SQL = `
+  SELECT
+    r.id,
+    r.btcpay_invoice_id,
+    r.status,
+    j.store_id AS job_store_id,
+    (
+      SELECT we.store_id FROM webhook_events we
+      WHERE we.invoice_id = r.btcpay_invoice_id AND we.store_id IS NOT NULL
+      ORDER BY we.created_at DESC
+      LIMIT 1
+    ) AS event_store_id
+  FROM reconciliations r
+  LEFT JOIN reconciliation_jobs j ON j.reconciliation_id = r.id
+`;
+
+/**
+ * Decides when failed reconciliations are tried again: exponential backoff with jitter for
+ * transient errors, straight to the dead letter state for permanent ones or after
+ * MAX_ATTEMPTS. The sync worker runs the due jobs.
+ */
+export class RetryQueue {
+  /**
+   * Count a failed attempt and schedule the next one (or dead-letter the job)
+   */
+  recordFailure(attempt: FailedAttempt): ReconciliationJob {
+    const attempts = (getJob(attempt.reconciliationId)?.attempts ?? 0) + 1;
+    const dead = attempt.errorKind === 'permanent' || attempts >= MAX_ATTEMPTS;
+    const nextAttemptAt = dead
+      ? null
+      : new Date(Date.now() + getRetryDelayMs(attempts, BASE_DELAY_MS, MAX_DELAY_MS)).toISOString();
+
+    const job: ReconciliationJob = {
+      reconciliationId: attempt.reconciliationId,
+      invoiceId: attempt.invoiceId,
+      storeId: attempt.storeId,
+      status: dead ? 'dead' : 'scheduled',
+      attempts,
+      nextAttemptAt,
+      lastError: attempt.error,
+      errorKind: attempt.errorKind,
+    };
+    saveJobFailure({ ...job, error: attempt.error, errorKind: attempt.errorKind });
+    return job;
+  }
+
+  /**
+   * Take the next job that is due, if any
+   */
+  claimDue(): ReconciliationJob | null {
+    const now = Date.now();
+    return claimDueJob(new Date(now).toISOString(), new Date(now + CLAIM_LEASE_MS).toISOString());
+  }
+
+  /**
+   * Forget an invoice's job once it has reconciled or can no longer be posted
+   */
+  clear(invoiceId: string): void {
+    deleteJobForInvoice(invoiceId);
+  }
+
+  /**
+   * Have the worker try a reconciliation again right away, with a fresh attempt budget
+   */
+  retryNow(reconciliationId: string): RetryRequestResult {
+    const row = getDatabase()
+      .prepare(`${RETRY_CANDIDATES_SQL} WHERE r.id = ?`)
+      .get(reconciliationId) as RetryCandidateRow | undefined;
+    if (!row) {
+      return { status: 'not_found' };
+    }
+    return this.schedule(row);
+  }
+
+  /**
+   * Retry every failed reconciliation, dead-lettered ones included. Returns how many were queued.
+   */
+  retryAllFailed(): number {
+    const rows = getDatabase()
+      .prepare(
+        `${RETRY_CANDIDATES_SQL} WHERE r.status = 'failed' OR j.reconciliation_id IS NOT NULL`
+      )
+      .all() as RetryCandidateRow[];
+    return rows.filter((row) => this.schedule(row).status === 'scheduled').length;
+  }
+
+  private schedule(row: RetryCandidateRow): RetryRequestResult {
+    const storeId = row.job_store_id ?? row.event_store_id;
+    if ((row.status !== 'failed' && !row.job_store_id) || !row.btcpay_invoice_id || !storeId) {
+      return { status: 'nothing_to_retry' };
+    }
+
+    rescheduleJob(row.id, row.btcpay_invoice_id, storeId, new Date().toISOString());
+    return { status: 'scheduled', job: getJob(row.id)! };
+  }
+}
+
+// Singleton instance
+export const retryQueue = new RetryQueue();
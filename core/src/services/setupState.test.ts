@@ -0,0 +1,282 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { initializeDatabase, getDatabase, closeDatabase } from '../models/database';
+import { getConfigValue, setConfigValue } from '../models/config';
+import { btcpayClient } from './btcpay';
+import { quickbooksAuth } from './quickbooksAuth';
+import { xeroAuth } from './xeroAuth';
+import { SetupStateMachine } from './setupState';
+
+// Mock the BTCPayServer client
+vi.mock('./btcpay', () => ({
+  btcpayClient: {
+    getUrl: vi.fn(),
+    getApiKey: vi.fn(),
+    isConnected: vi.fn(),
+    isAuthenticated: vi.fn(),
+    resolveStoreId: vi.fn(),
+    discover: vi.fn(),
+    setUrl: vi.fn(),
+  },
+}));
+
+// Mock the QuickBooks connection
+vi.mock('./quickbooksAuth', () => ({
+  quickbooksAuth: {
+    getConnection: vi.fn(),
+  },
+}));
+
+// Mock the Xero connection
+vi.mock('./xeroAuth', () => ({
+  xeroAuth: {
+    getConnection: vi.fn(),
+  },
+}));
+
+vi.mock('../utils/logger', () => ({
+  writeLog: vi.fn(),
+}));
+
+const mockedBTCPayClient = vi.mocked(btcpayClient);
+const mockedQuickBooksAuth = vi.mocked(quickbooksAuth);
+const mockedXeroAuth = vi.mocked(xeroAuth);
+
+function mockBTCPay(options: { url?: string | null; apiKey?: string; authenticated?: boolean }) {
+  const { url = 'http://umbrel.local:3003', apiKey = 'key_123', authenticated = true } = options;
+  mockedBTCPayClient.getUrl.mockReturnValue(url);
+  mockedBTCPayClient.getApiKey.mockResolvedValue(apiKey);
+  mockedBTCPayClient.isConnected.mockResolvedValue(!!url);
+  mockedBTCPayClient.isAuthenticated.mockResolvedValue(authenticated);
+  mockedBTCPayClient.resolveStoreId.mockResolvedValue('store_1');
+}
+
+function mockQuickBooks(connected: boolean, error: string | null = null) {
+  mockedQuickBooksAuth.getConnection.mockReturnValue({
+    connected,
+    state: connected ? 'CONNECTED' : error ? 'ERROR' : null,
+    realmId: connected ? '1234567890' : null,
+    environment: 'production',
+    expiresAt: null,
+    refreshTokenExpiresAt: null,
+    error,
+  });
+}
+
+function mockXero(connected: boolean, tenantId: string | null = 'tenant_1') {
+  mockedXeroAuth.getConnection.mockReturnValue({
+    connected,
+    state: connected ? 'CONNECTED' : null,
+    tenantId: connected ? tenantId : null,
+    tenantName: connected && tenantId ? 'Demo Company (US)' : null,
+    expiresAt: null,
+    error: null,
+  });
+}
+
+describe('SetupStateMachine', () => {
+  let machine: SetupStateMachine;
+
+  beforeEach(async () => {
+    process.env.DATABASE_PATH = ':memory:';
+    await initializeDatabase();
+    machine = new SetupStateMachine();
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    mockBTCPay({});
+    mockQuickBooks(true);
+    mockXero(false);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    closeDatabase();
+    vi.restoreAllMocks();
+  });
+
+  it('should start in INIT with nothing configured', async () => {
+    mockBTCPay({ url: null, apiKey: '' });
+
+    const status = await machine.evaluate();
+
+    expect(status.state).toBe('INIT');
+    expect(mockedBTCPayClient.isConnected).not.toHaveBeenCalled();
+    expect(machine.getPersisted()).toEqual({
+      state: 'INIT',
+      reasons: ['Enter your BTCPayServer URL and an API key'],
+    });
+  });
+
+  it('should walk through each step as it is completed', async () => {
+    mockBTCPay({ authenticated: false });
+    expect(await machine.evaluate()).toMatchObject({
+      state: 'BTCPAY_PENDING',
+      reasons: ['BTCPayServer rejected the API key'],
+    });
+
+    mockBTCPay({});
+    mockQuickBooks(false);
+    expect(await machine.evaluate()).toMatchObject({
+      state: 'QBO_PENDING',
+      reasons: ['Connect QuickBooks Online'],
+    });
+
+    mockQuickBooks(true);
+    expect((await machine.evaluate()).state).toBe('MODE_PENDING');
+
+    const { status } = await machine.transition({ type: 'SELECT_MODE', mode: 'deposit' });
+    expect(status).toMatchObject({ state: 'READY', reasons: [], mode: 'deposit' });
+    expect(getConfigValue('reconciliation_mode')).toBe('deposit');
+    expect(getConfigValue('setup_state')).toBe('READY');
+  });
+
+  it('should remember when setup was first completed', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-10-31T12:00:00Z'));
+    mockQuickBooks(false);
+    await machine.evaluate();
+    expect(machine.getCompletedAt()).toBeNull();
+
+    mockQuickBooks(true);
+    await machine.transition({ type: 'SELECT_MODE', mode: 'deposit' });
+    vi.setSystemTime(new Date('2025-11-01T09:00:00Z'));
+    mockQuickBooks(false);
+    expect((await machine.evaluate()).state).toBe('ERROR');
+    mockQuickBooks(true);
+    await machine.evaluate();
+
+    expect(machine.getCompletedAt()).toEqual(new Date('2025-10-31T12:00:00Z'));
+  });
+
+  it('should report problems after setup as ERROR and recover once fixed', async () => {
+    await machine.transition({ type: 'SELECT_MODE', mode: 'invoicing' });
+
+    mockQuickBooks(false, 'QuickBooks refresh token was revoked - reconnect QuickBooks');
+    expect(await machine.evaluate()).toMatchObject({
+      state: 'ERROR',
+      reasons: ['QuickBooks refresh token was revoked - reconnect QuickBooks'],
+    });
+
+    mockQuickBooks(true);
+    expect((await machine.evaluate()).state).toBe('READY');
+  });
+
+  it('should go to ERROR when the latest reconciliation failed', async () => {
+    await machine.transition({ type: 'SELECT_MODE', mode: 'deposit' });
+    getDatabase()
+      .prepare(
+        `INSERT INTO reconciliations
+           (id, btcpay_invoice_id, amount_sats, amount_fiat, currency, status, error_message)
+         VALUES ('rec-1', 'invoice_456', 1000, 100, 'USD', 'failed', 'Invalid Reference Id')`
+      )
+      .run();
+
+    expect(await machine.evaluate()).toMatchObject({
+      state: 'ERROR',
+      reasons: ['Reconciling invoice invoice_456 failed: Invalid Reference Id'],
+    });
+  });
+
+  describe('DISCOVER', () => {
+    beforeEach(() => {
+      mockBTCPay({ url: null, apiKey: '' });
+    });
+
+    it('should save a discovered BTCPayServer URL', async () => {
+      mockedBTCPayClient.discover.mockResolvedValue([
+        {
+          url: 'http://umbrel.local:3003',
+          source: 'umbrel',
+          reachable: true,
+          authenticated: false,
+        },
+      ]);
+      mockedBTCPayClient.setUrl.mockImplementation((url) => {
+        mockedBTCPayClient.getUrl.mockReturnValue(url);
+      });
+
+      const { status, discovery } = await machine.transition({ type: 'DISCOVER' });
+
+      expect(mockedBTCPayClient.setUrl).toHaveBeenCalledWith('http://umbrel.local:3003');
+      expect(status).toMatchObject({
+        state: 'BTCPAY_PENDING',
+        reasons: ['Enter a BTCPayServer API key'],
+      });
+      expect(discovery).toHaveLength(1);
+    });
+
+    it('should wait for manual input when nothing is found', async () => {
+      mockedBTCPayClient.discover.mockResolvedValue([]);
+
+      const { status } = await machine.transition({ type: 'DISCOVER' });
+
+      expect(status.state).toBe('BTCPAY_PENDING');
+      // Stays there rather than falling back to INIT
+      expect((await machine.evaluate()).state).toBe('BTCPAY_PENDING');
+    });
+
+    it('should not be allowed once BTCPayServer is connected', async () => {
+      mockBTCPay({});
+
+      const result = await machine.transition({ type: 'DISCOVER' });
+
+      expect(result.error).toBe('Cannot DISCOVER while setup is MODE_PENDING');
+      expect(mockedBTCPayClient.discover).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should not select a mode before QuickBooks is connected', async () => {
+    mockQuickBooks(false);
+
+    const result = await machine.transition({ type: 'SELECT_MODE', mode: 'deposit' });
+
+    expect(result.error).toBe('Cannot SELECT_MODE while setup is QBO_PENDING');
+    expect(getConfigValue('reconciliation_mode')).toBeUndefined();
+  });
+
+  describe('SELECT_PROVIDER', () => {
+    it('should require a Xero connection and organisation once Xero is chosen', async () => {
+      mockQuickBooks(false);
+
+      const { status } = await machine.transition({ type: 'SELECT_PROVIDER', provider: 'xero' });
+      expect(status).toMatchObject({
+        state: 'QBO_PENDING',
+        reasons: ['Connect Xero'],
+        accounting: { provider: 'xero', connected: false },
+      });
+      expect(getConfigValue('accounting_provider')).toBe('xero');
+
+      mockXero(true, null);
+      expect(await machine.evaluate()).toMatchObject({
+        state: 'QBO_PENDING',
+        reasons: ['Select the Xero organisation to reconcile'],
+      });
+
+      mockXero(true);
+      expect(await machine.evaluate()).toMatchObject({
+        state: 'MODE_PENDING',
+        accounting: { provider: 'xero', connected: true },
+        xero: { tenantId: 'tenant_1', tenantName: 'Demo Company (US)' },
+      });
+    });
+
+    it('should forget the account mapping of the provider it replaces', async () => {
+      mockQuickBooks(false);
+      setConfigValue('qbo_deposit_account_id', '35');
+
+      await machine.transition({ type: 'SELECT_PROVIDER', provider: 'quickbooks' });
+      expect(getConfigValue('qbo_deposit_account_id')).toBe('35');
+
+      await machine.transition({ type: 'SELECT_PROVIDER', provider: 'xero' });
+      expect(getConfigValue('qbo_deposit_account_id')).toBeUndefined();
+    });
+
+    it('should not switch providers once setup is complete', async () => {
+      await machine.transition({ type: 'SELECT_MODE', mode: 'deposit' });
+
+      const result = await machine.transition({ type: 'SELECT_PROVIDER', provider: 'xero' });
+
+      expect(result.error).toBe('Cannot SELECT_PROVIDER while setup is READY');
+      expect(getConfigValue('accounting_provider')).toBeUndefined();
+    });
+  });
+});
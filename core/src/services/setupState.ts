@@ -0,0 +1,307 @@
+import { getDatabase } from '../models/database';
+import { getConfigValue, setConfigValue } from '../models/config';
+import {
+  AccountingProviderId,
+  getAccountingProviderId,
+  ReconciliationMode,
+  setAccountingProviderId,
+} from './accounting';
+import {
+  clearAccountMapping,
+  getReconciliationMode,
+  MODE_CONFIG_KEY,
+} from './reconciliationSettings';
+import { btcpayClient, ProbeResult } from './btcpay';
+import { quickbooksAuth } from './quickbooksAuth';
+import { xeroAuth } from './xeroAuth';
+import { writeLog } from '../utils/logger';
+
+// Constants
+const STATE_CONFIG_KEY = 'setup_state';
+const REASONS_CONFIG_KEY = 'setup_state_reasons'; // JSON array
+const COMPLETED_AT_CONFIG_KEY = 'setup_completed_at'; // When setup first reached READY
+
+/**
+ * Setup as the spec models it:
+ * INIT → BTCPAY_PENDING → QBO_PENDING → MODE_PENDING → READY, and READY ⇄ ERROR once live.
+ * QBO_PENDING covers connecting whichever accounting provider was chosen (QuickBooks or Xero).
+ * The state is derived from the stored configuration; only INIT → BTCPAY_PENDING (a failed
+ * discovery) depends on history.
+ */
+export type SetupState =
+  | 'INIT'
+  | 'BTCPAY_PENDING'
+  | 'QBO_PENDING'
+  | 'MODE_PENDING'
+  | 'READY'
+  | 'ERROR';
+
+export type SetupEventType = 'DISCOVER' | 'SELECT_PROVIDER' | 'SELECT_MODE' | 'REFRESH';
+
+export type SetupEvent =
+  | { type: 'DISCOVER' }
+  | { type: 'SELECT_PROVIDER'; provider: AccountingProviderId }
+  | { type: 'SELECT_MODE'; mode: ReconciliationMode }
+  | { type: 'REFRESH' };
+
+export const SETUP_EVENTS: SetupEventType[] = [
+  'DISCOVER',
+  'SELECT_PROVIDER',
+  'SELECT_MODE',
+  'REFRESH',
+];
+
+export interface SetupStatus {
+  state: SetupState;
+  reasons: string[]; // What is missing or broken, in the order it should be fixed
+  btcpay: {
+    url: string | null;
+    connected: boolean;
+    authenticated: boolean;
+    storeId: string | null;
+  };
+  accounting: {
+    provider: AccountingProviderId;
+    connected: boolean; // The chosen provider is connected (and, for Xero, an org selected)
+  };
+  quickbooks: {
+    connected: boolean;
+    realmId: string | null;
+  };
+  xero: {
+    connected: boolean;
+    tenantId: string | null;
+    tenantName: string | null;
+  };
+  mode: ReconciliationMode | null;
+}
+
+export interface SetupTransitionResult {
+  status: SetupStatus;
+  error?: string; // Set when the event isn't allowed in the current state
+  discovery?: ProbeResult[];
+}
+
+// Events each state accepts; REFRESH re-evaluates and is always allowed
+const ALLOWED_EVENTS: Record<SetupState, SetupEventType[]> = {
+  INIT: ['DISCOVER', 'REFRESH'],
+  BTCPAY_PENDING: ['DISCOVER', 'REFRESH'],
+  QBO_PENDING: ['SELECT_PROVIDER', 'REFRESH'],
+  MODE_PENDING: ['SELECT_PROVIDER', 'SELECT_MODE', 'REFRESH'],
+  READY: ['SELECT_MODE', 'REFRESH'],
+  ERROR: ['SELECT_MODE', 'REFRESH'],
+};
+
+interface LatestReconciliationRow {
+  btcpay_invoice_id: string;
+  status: string;
+  error_message: string | null;
+}
+
+/**
+ * Computes, persists and transitions the setup state that drives the setup wizard
+ */
+export class SetupStateMachine {
+  /**
+   * Last persisted state and reasons, without contacting BTCPay
+   */
+  getPersisted(): { state: SetupState; reasons: string[] } {
+    try {
+      const state = (getConfigValue(STATE_CONFIG_KEY) as SetupState | undefined) ?? 'INIT';
+      const reasons = JSON.parse(getConfigValue(REASONS_CONFIG_KEY) ?? '[]') as string[];
+      return { state, reasons };
+    } catch (error) {
+      console.error('Failed to load setup state:', error);
+      return { state: 'INIT', reasons: [] };
+    }
+  }
+
+  /**
+   * When setup was first completed, or null while it is still in progress
+   */
+  getCompletedAt(): Date | null {
+    const value = getConfigValue(COMPLETED_AT_CONFIG_KEY);
+    return value ? new Date(value) : null;
+  }
+
+  /**
+   * Work out the current state from the configuration and persist it
+   */
+  async evaluate(): Promise<SetupStatus> {
+    const previous = this.getPersisted().state;
+    const status = await this.compute(previous);
+    this.persist(previous, status);
+    return status;
+  }
+
+  /**
+   * Apply a wizard event. Disallowed events leave the state alone and report why.
+   */
+  async transition(event: SetupEvent): Promise<SetupTransitionResult> {
+    const current = await this.evaluate();
+    if (!ALLOWED_EVENTS[current.state].includes(event.type)) {
+      return { status: current, error: `Cannot ${event.type} while setup is ${current.state}` };
+    }
+
+    switch (event.type) {
+      case 'DISCOVER': {
+        const discovery = await btcpayClient.discover();
+        const found =
+          discovery.find((candidate) => candidate.authenticated) ??
+          discovery.find((candidate) => candidate.reachable);
+        if (found) {
+          btcpayClient.setUrl(found.url);
+          return { status: await this.evaluate(), discovery };
+        }
+
+        const status: SetupStatus = {
+          ...current,
+          state: 'BTCPAY_PENDING',
+          reasons: ['BTCPayServer was not found automatically - enter its URL and an API key'],
+        };
+        this.persist(current.state, status);
+        return { status, discovery };
+      }
+      case 'SELECT_PROVIDER':
+        if (event.provider !== current.accounting.provider) {
+          setAccountingProviderId(event.provider);
+          // Account IDs of one provider mean nothing to the other
+          clearAccountMapping();
+          writeLog('info', 'Accounting provider selected', { provider: event.provider });
+        }
+        return { status: await this.evaluate() };
+      case 'SELECT_MODE':
+        setConfigValue(MODE_CONFIG_KEY, event.mode);
+        writeLog('info', 'Reconciliation mode selected', { mode: event.mode });
+        return { status: await this.evaluate() };
+      case 'REFRESH':
+        return { status: current };
+    }
+  }
+
+  private async compute(previous: SetupState): Promise<SetupStatus> {
+    const url = btcpayClient.getUrl();
+    const apiKey = await btcpayClient.getApiKey();
+    const connected = url || apiKey ? await btcpayClient.isConnected() : false;
+    const authenticated = connected && (await btcpayClient.isAuthenticated());
+    const storeId = authenticated ? await this.resolveStoreId() : null;
+    const provider = getAccountingProviderId();
+    const qbo = quickbooksAuth.getConnection();
+    const xero = xeroAuth.getConnection();
+    const mode = getReconciliationMode();
+
+    const status: SetupStatus = {
+      state: 'READY',
+      reasons: [],
+      btcpay: { url, connected, authenticated, storeId },
+      accounting: { provider, connected: false },
+      quickbooks: { connected: qbo.connected, realmId: qbo.realmId },
+      xero: { connected: xero.connected, tenantId: xero.tenantId, tenantName: xero.tenantName },
+      mode,
+    };
+
+    const btcpayReasons: string[] = [];
+    if (!url && !apiKey) {
+      btcpayReasons.push('Enter your BTCPayServer URL and an API key');
+    } else if (!apiKey) {
+      btcpayReasons.push('Enter a BTCPayServer API key');
+    } else if (!connected) {
+      btcpayReasons.push(`BTCPayServer is not reachable${url ? ` at ${url}` : ''}`);
+    } else if (!authenticated) {
+      btcpayReasons.push('BTCPayServer rejected the API key');
+    } else if (!storeId) {
+      btcpayReasons.push('Select the BTCPayServer store to reconcile');
+    }
+    const accountingReasons: string[] = [];
+    if (provider === 'xero') {
+      if (!xero.connected) {
+        accountingReasons.push(xero.error ?? 'Connect Xero');
+      } else if (!xero.tenantId) {
+        accountingReasons.push('Select the Xero organisation to reconcile');
+      }
+    } else if (!qbo.connected) {
+      accountingReasons.push(qbo.error ?? 'Connect QuickBooks Online');
+    }
+    status.accounting.connected = accountingReasons.length === 0;
+    const modeReasons = mode ? [] : ['Choose how payments are recorded: deposit or invoicing'];
+
+    // Once live, anything breaking is an error to fix rather than a setup step
+    if (previous === 'READY' || previous === 'ERROR') {
+      const syncReasons = this.getSyncErrorReasons();
+      status.reasons = [...btcpayReasons, ...accountingReasons, ...modeReasons, ...syncReasons];
+      status.state = status.reasons.length > 0 ? 'ERROR' : 'READY';
+      return status;
+    }
+
+    if (btcpayReasons.length > 0) {
+      const nothingConfigured = !url && !apiKey;
+      status.state = nothingConfigured && previous === 'INIT' ? 'INIT' : 'BTCPAY_PENDING';
+      status.reasons = btcpayReasons;
+    } else if (accountingReasons.length > 0) {
+      status.state = 'QBO_PENDING';
+      status.reasons = accountingReasons;
+    } else if (modeReasons.length > 0) {
+      status.state = 'MODE_PENDING';
+      status.reasons = modeReasons;
+    }
+    return status;
+  }
+
+  private persist(previous: SetupState, status: SetupStatus): void {
+    try {
+      setConfigValue(STATE_CONFIG_KEY, status.state);
+      setConfigValue(REASONS_CONFIG_KEY, JSON.stringify(status.reasons));
+      // ERROR counts too: it is only reachable once live (and for installs that predate this)
+      const live = status.state === 'READY' || status.state === 'ERROR';
+      if (live && !getConfigValue(COMPLETED_AT_CONFIG_KEY)) {
+        setConfigValue(COMPLETED_AT_CONFIG_KEY, new Date().toISOString());
+      }
+    } catch (error) {
+      console.error('Failed to save setup state:', error);
+      return;
+    }
+
+    if (status.state !== previous) {
+      console.log(`🧭 Setup state: ${previous} → ${status.state}`);
+      writeLog(status.state === 'ERROR' ? 'warn' : 'info', 'Setup state changed', {
+        from: previous,
+        to: status.state,
+        reasons: status.reasons,
+      });
+    }
+  }
+
+  private async resolveStoreId(): Promise<string | null> {
+    try {
+      return await btcpayClient.resolveStoreId();
+    } catch (error) {
+      console.error('Failed to resolve BTCPayServer store:', error);
+      return null;
+    }
+  }
+
+  /**
+   * The most recent reconciliation failing means syncing is broken until it is retried
+   */
+  private getSyncErrorReasons(): string[] {
+    const row = getDatabase()
+      .prepare(
+        `
+        SELECT btcpay_invoice_id, status, error_message FROM reconciliations
+        WHERE status NOT IN ('pending', 'processing')
+        ORDER BY COALESCE(processed_at, created_at) DESC, rowid DESC
+        LIMIT 1
+      `
+      )
+      .get() as LatestReconciliationRow | undefined;
+    if (!row || row.status !== 'failed') {
+      return [];
+    }
+    return [
+      `Reconciling invoice ${row.btcpay_invoice_id} failed: ${row.error_message ?? 'unknown error'}`,
+    ];
+  }
+}
+
+// Singleton instance
+export const setupStateMachine = new SetupStateMachine();
@@ -0,0 +1,379 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { XeroProvider } from './xero';
+import { getConfigValue } from '../models/config';
+import { ReconciliationPayload, RefundPayload } from './accounting';
+
+// Mock the config store
+vi.mock('../models/config', () => ({
+  getConfigValue: vi.fn(),
+}));
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, unknown>;
+  body: unknown;
+}
+
+const payload: ReconciliationPayload = {
+  invoiceId: 'invoice_456',
+  sequence: 1,
+  amount: 168.32,
+  invoiceAmount: 168.32,
+  amountSats: 250000,
+  currency: 'USD',
+  paidAt: '2025-10-31T16:12:45.000Z',
+  paymentStatus: 'paid',
+  mode: 'deposit',
+  accounts: {
+    depositAccountId: 'acc_bank',
+    incomeAccountId: 'acc_sales',
+    customerId: 'contact_walkin',
+  },
+  notes: 'Synced via Sovereign Merchant',
+};
+
+const refund: RefundPayload = {
+  refundId: 'pp_123',
+  invoiceId: 'invoice_456',
+  amount: 25,
+  currency: 'USD',
+  refundedAt: '2025-11-02T09:30:00.000Z',
+  accounts: { depositAccountId: 'acc_bank', incomeAccountId: 'acc_sales' },
+  accountingInvoiceId: 'inv_1',
+  notes: 'Refunded via Sovereign Merchant',
+};
+
+const xeroInvoice = {
+  InvoiceID: 'inv_1',
+  InvoiceNumber: 'INV-0042',
+  Type: 'ACCREC',
+  Status: 'AUTHORISED',
+  Contact: { ContactID: 'contact_acme', Name: 'Acme', EmailAddress: 'ap@acme.test' },
+  Total: 200,
+  AmountDue: 150,
+  CurrencyCode: 'USD',
+};
+
+/**
+ * Local stand-in for the Xero accounting API that records every request it receives
+ */
+async function startMockXero(requests: RecordedRequest[]): Promise<FastifyInstance> {
+  const server = Fastify();
+  server.addHook('onRequest', async (request, reply) => {
+    if (request.headers.authorization !== 'Bearer access_token') {
+      return reply.code(401).send({ Title: 'Unauthorized', Detail: 'TokenExpired' });
+    }
+    if (request.headers['xero-tenant-id'] !== 'tenant_1') {
+      return reply.code(403).send({ Title: 'Forbidden', Detail: 'AuthenticationUnsuccessful' });
+    }
+  });
+  server.addHook('preHandler', async (request) => {
+    requests.push({
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+      body: request.body,
+    });
+  });
+
+  server.put('/api.xro/2.0/BankTransactions', async (request, reply) => {
+    const body = request.body as { Type?: string; BankAccount?: { AccountID?: string } };
+    if (body.BankAccount?.AccountID !== 'acc_bank') {
+      return reply.code(400).send({
+        Type: 'ValidationException',
+        Message: 'A validation exception occurred',
+        Elements: [{ ValidationErrors: [{ Message: 'Account code is not a bank account' }] }],
+      });
+    }
+    return { BankTransactions: [{ BankTransactionID: `bt_${body.Type}`, Status: 'AUTHORISED' }] };
+  });
+  server.put('/api.xro/2.0/Payments', async () => ({
+    Payments: [{ PaymentID: 'pay_1', Status: 'AUTHORISED' }],
+  }));
+  server.post('/api.xro/2.0/:endpoint/:id', async (request) => {
+    const { endpoint, id } = request.params as { endpoint: string; id: string };
+    return { [endpoint]: [{ Status: 'DELETED', ID: id }] };
+  });
+  server.get('/api.xro/2.0/Invoices/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    if (id === 'bill_1') {
+      return { Invoices: [{ ...xeroInvoice, InvoiceID: 'bill_1', Type: 'ACCPAY' }] };
+    }
+    if (id !== 'inv_1') {
+      return reply.code(404).send("The resource you're looking for cannot be found");
+    }
+    return { Invoices: [xeroInvoice] };
+  });
+  server.get('/api.xro/2.0/Invoices', async (request) => {
+    const { InvoiceNumbers } = request.query as { InvoiceNumbers?: string };
+    return { Invoices: InvoiceNumbers === 'INV-0042' ? [xeroInvoice] : [] };
+  });
+  server.get('/api.xro/2.0/Organisation', async () => ({
+    Organisations: [{ Name: 'Demo Company (US)' }],
+  }));
+  server.get('/api.xro/2.0/Accounts', async () => ({
+    Accounts: [
+      { AccountID: 'acc_bank', Code: '090', Name: 'Business Bank Account', Type: 'BANK' },
+      { AccountID: 'acc_sales', Code: '200', Name: 'Sales', Type: 'REVENUE' },
+    ],
+  }));
+  server.get('/api.xro/2.0/Contacts', async () => ({
+    Contacts: [{ ContactID: 'contact_acme', Name: 'Acme' }],
+  }));
+  server.get('/api.xro/2.0/TaxRates', async () => ({
+    TaxRates: [{ TaxType: 'OUTPUT', Name: 'Sales Tax' }],
+  }));
+
+  await server.listen({ port: 0, host: '127.0.0.1' });
+  return server;
+}
+
+function mockConfig(values: Record<string, string>) {
+  vi.mocked(getConfigValue).mockImplementation((key: string) => values[key]);
+}
+
+describe('XeroProvider', () => {
+  let server: FastifyInstance;
+  let apiUrl: string;
+  let provider: XeroProvider;
+  const requests: RecordedRequest[] = [];
+
+  beforeAll(async () => {
+    server = await startMockXero(requests);
+    const address = server.server.address() as { port: number };
+    apiUrl = `http://127.0.0.1:${address.port}/api.xro/2.0`;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requests.length = 0;
+    provider = new XeroProvider(apiUrl);
+    mockConfig({ xero_access_token: 'access_token', xero_tenant_id: 'tenant_1' });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('isConfigured', () => {
+    it('should need both a token and a selected organisation', () => {
+      expect(provider.isConfigured()).toBe(true);
+
+      mockConfig({ xero_access_token: 'access_token' });
+      expect(provider.isConfigured()).toBe(false);
+    });
+  });
+
+  describe('reconcileDeposit', () => {
+    it('should post a RECEIVE bank transaction into the deposit account', async () => {
+      const result = await provider.reconcileDeposit(payload);
+
+      expect(result).toEqual({
+        success: true,
+        transactionId: 'bt_RECEIVE',
+        transactionType: 'BankTransaction',
+      });
+      expect(requests).toHaveLength(1);
+      expect(requests[0].method).toBe('PUT');
+      expect(requests[0].headers['idempotency-key']).toBe('invoice_456-1-paid-16832');
+      expect(requests[0].body).toEqual({
+        Type: 'RECEIVE',
+        Date: '2025-10-31',
+        Reference: 'BTCPay invoice_456',
+        Contact: { ContactID: 'contact_walkin' },
+        BankAccount: { AccountID: 'acc_bank' },
+        LineAmountTypes: 'NoTax',
+        LineItems: [
+          {
+            Description: 'BTCPayServer Invoice invoice_456',
+            Quantity: 1,
+            UnitAmount: 168.32,
+            AccountID: 'acc_sales',
+          },
+        ],
+      });
+    });
+
+    it('should apply the mapped tax rate to tax-inclusive lines', async () => {
+      await provider.reconcileDeposit({
+        ...payload,
+        accounts: { ...payload.accounts, taxCodeId: 'OUTPUT' },
+      });
+
+      expect(requests[0].body).toMatchObject({
+        LineAmountTypes: 'Inclusive',
+        LineItems: [{ TaxType: 'OUTPUT' }],
+      });
+    });
+
+    it('should refuse to post without a full account mapping', async () => {
+      const result = await provider.reconcileDeposit({
+        ...payload,
+        accounts: { depositAccountId: 'acc_bank' },
+      });
+
+      expect(result).toMatchObject({ success: false, errorKind: 'permanent' });
+      expect(requests).toHaveLength(0);
+    });
+
+    it("should report Xero's validation errors as permanent", async () => {
+      const result = await provider.reconcileDeposit({
+        ...payload,
+        accounts: { ...payload.accounts, depositAccountId: 'acc_sales' },
+      });
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Account code is not a bank account',
+        errorKind: 'permanent',
+      });
+    });
+
+    it('should treat a rejected token as transient', async () => {
+      mockConfig({ xero_access_token: 'expired_token', xero_tenant_id: 'tenant_1' });
+
+      const result = await provider.reconcileDeposit(payload);
+
+      expect(result).toMatchObject({ success: false, errorKind: 'transient' });
+    });
+  });
+
+  describe('reconcileInvoicePayment', () => {
+    it('should pay the ACCREC invoice up to its amount due', async () => {
+      const result = await provider.reconcileInvoicePayment({
+        ...payload,
+        mode: 'invoicing',
+        accountingInvoiceId: 'inv_1',
+      });
+
+      expect(result).toEqual({
+        success: true,
+        transactionId: 'pay_1',
+        transactionType: 'Payment',
+        amount: 150,
+      });
+      const payment = requests.find((request) => request.method === 'PUT');
+      expect(payment?.url).toBe('/api.xro/2.0/Payments');
+      expect(payment?.body).toEqual({
+        Invoice: { InvoiceID: 'inv_1' },
+        Account: { AccountID: 'acc_bank' },
+        Date: '2025-10-31',
+        Amount: 150,
+        Reference: 'BTCPay invoice_456',
+      });
+    });
+
+    it('should not pay bills', async () => {
+      const result = await provider.reconcileInvoicePayment({
+        ...payload,
+        mode: 'invoicing',
+        accountingInvoiceId: 'bill_1',
+      });
+
+      expect(result).toMatchObject({ success: false, error: 'Xero invoice bill_1 not found' });
+      expect(requests.some((request) => request.method === 'PUT')).toBe(false);
+    });
+  });
+
+  describe('reconcileRefund', () => {
+    it("should pay the refund out of the deposit account to the invoice's customer", async () => {
+      const result = await provider.reconcileRefund(refund);
+
+      expect(result).toMatchObject({ success: true, transactionId: 'bt_SPEND' });
+      const spend = requests.find((request) => request.method === 'PUT');
+      expect(spend?.headers['idempotency-key']).toBe('refund-pp_123');
+      expect(spend?.body).toMatchObject({
+        Type: 'SPEND',
+        Date: '2025-11-02',
+        Contact: { ContactID: 'contact_acme' },
+        LineItems: [{ UnitAmount: 25, AccountID: 'acc_sales' }],
+      });
+    });
+
+    it('should need a customer when there is no invoice to take one from', async () => {
+      const result = await provider.reconcileRefund({ ...refund, accountingInvoiceId: undefined });
+
+      expect(result).toMatchObject({ success: false, errorKind: 'permanent' });
+    });
+  });
+
+  describe('reverseTransaction', () => {
+    it('should delete a posted bank transaction', async () => {
+      const result = await provider.reverseTransaction({
+        invoiceId: 'invoice_456',
+        transactionId: 'bt_RECEIVE',
+        transactionType: 'BankTransaction',
+        reason: 'Invoice was marked invalid in BTCPayServer',
+        reversedAt: '2025-11-03T08:00:00.000Z',
+      });
+
+      expect(result).toEqual({
+        success: true,
+        transactionId: 'bt_RECEIVE',
+        transactionType: 'BankTransaction',
+        method: 'void',
+      });
+      expect(requests[0]).toMatchObject({
+        method: 'POST',
+        url: '/api.xro/2.0/BankTransactions/bt_RECEIVE',
+        body: { Status: 'DELETED' },
+      });
+    });
+
+    it('should leave unknown transaction types to the merchant', async () => {
+      const result = await provider.reverseTransaction({
+        invoiceId: 'invoice_456',
+        transactionId: 'x_1',
+        transactionType: null,
+        reason: 'Invoice was marked invalid in BTCPayServer',
+        reversedAt: '2025-11-03T08:00:00.000Z',
+      });
+
+      expect(result).toMatchObject({ success: false, errorKind: 'permanent' });
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe('findInvoice', () => {
+    it('should find a sales invoice by its number', async () => {
+      expect(await provider.findInvoice({ docNumber: 'INV-0042' })).toEqual({
+        id: 'inv_1',
+        docNumber: 'INV-0042',
+        customerId: 'contact_acme',
+        customerName: 'Acme',
+        customerEmail: 'ap@acme.test',
+        totalAmount: 200,
+        balance: 150,
+        currency: 'USD',
+      });
+    });
+
+    it('should return null for unknown invoices', async () => {
+      expect(await provider.findInvoice({ id: 'missing' })).toBeNull();
+      expect(await provider.findInvoice({ docNumber: 'INV-9999' })).toBeNull();
+    });
+  });
+
+  it('should report the organisation name as its health', async () => {
+    expect(await provider.health()).toEqual({
+      connected: true,
+      companyName: 'Demo Company (US)',
+    });
+  });
+
+  it('should build the chart of accounts from accounts, contacts and tax rates', async () => {
+    expect(await provider.getChartOfAccounts()).toEqual({
+      accounts: [
+        { id: 'acc_bank', name: '090 - Business Bank Account', type: 'BANK' },
+        { id: 'acc_sales', name: '200 - Sales', type: 'REVENUE' },
+      ],
+      customers: [{ id: 'contact_acme', name: 'Acme' }],
+      paymentMethods: [],
+      taxCodes: [{ id: 'OUTPUT', name: 'Sales Tax' }],
+    });
+  });
+});
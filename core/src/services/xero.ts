@@ -0,0 +1,456 @@
+import axios, { AxiosInstance } from 'axios';
+import { getConfigValue } from '../models/config';
+import {
+  AccountingProvider,
+  ChartOfAccounts,
+  InvoicePaymentPayload,
+  InvoiceQuery,
+  ProviderHealth,
+  ProviderInvoice,
+  ProviderResult,
+  ReconciliationPayload,
+  RefundPayload,
+  ReversalPayload,
+  ReversalResult,
+} from './accounting';
+import { classifyHttpError } from '../utils/retry';
+
+// Constants
+const XERO_API_URL = 'https://api.xero.com/api.xro/2.0';
+const REQUEST_TIMEOUT = 15000;
+const IDEMPOTENCY_KEY_MAX_LENGTH = 128;
+
+interface XeroCredentials {
+  accessToken: string;
+  tenantId: string;
+}
+
+interface XeroInvoice {
+  InvoiceID: string;
+  InvoiceNumber?: string;
+  Type?: string; // ACCREC (sales) or ACCPAY (bills)
+  Status?: string;
+  Contact?: { ContactID: string; Name?: string; EmailAddress?: string };
+  Total?: number;
+  AmountDue?: number;
+  CurrencyCode?: string;
+}
+
+interface XeroAccount {
+  AccountID: string;
+  Code?: string;
+  Name?: string;
+  Type?: string; // e.g. BANK, REVENUE, SALES
+}
+
+// Body of a failed request: validation errors per element, or a message/detail
+interface XeroErrorResponse {
+  Message?: string;
+  Detail?: string;
+  Elements?: { ValidationErrors?: { Message?: string }[] }[];
+}
+
+// Transactions reconciliations post, by the endpoint that deletes them
+const REVERSIBLE_ENDPOINTS: Record<string, string> = {
+  Payment: 'Payments',
+  BankTransaction: 'BankTransactions',
+};
+
+/**
+ * Xero implementation of AccountingProvider.
+ * Deposits are RECEIVE bank transactions, invoice payments are Payments against ACCREC
+ * invoices, and refunds are SPEND bank transactions, all in the selected organisation.
+ */
+export class XeroProvider implements AccountingProvider {
+  readonly id = 'xero' as const;
+  readonly name = 'Xero';
+
+  constructor(private readonly apiUrl: string = XERO_API_URL) {}
+
+  /**
+   * Load the OAuth access token and selected organisation (tenant)
+   */
+  private loadCredentials(): XeroCredentials | null {
+    try {
+      const accessToken = getConfigValue('xero_access_token');
+      const tenantId = getConfigValue('xero_tenant_id');
+      if (!accessToken || !tenantId) {
+        return null;
+      }
+      return { accessToken, tenantId };
+    } catch (error) {
+      console.error('Failed to load Xero credentials:', error);
+      return null;
+    }
+  }
+
+  private createClient(credentials: XeroCredentials): AxiosInstance {
+    return axios.create({
+      baseURL: this.apiUrl,
+      timeout: REQUEST_TIMEOUT,
+      headers: {
+        Authorization: `Bearer ${credentials.accessToken}`,
+        'xero-tenant-id': credentials.tenantId,
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  /**
+   * Pull a readable message out of a Xero validation or API error response
+   */
+  private describeError(error: unknown): string {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data as XeroErrorResponse | undefined;
+      const validationErrors = (data?.Elements ?? [])
+        .flatMap((element) => element?.ValidationErrors ?? [])
+        .map((validation) => validation?.Message)
+        .filter((message): message is string => !!message);
+      if (validationErrors.length > 0) {
+        return validationErrors.join('; ');
+      }
+      if (typeof data?.Message === 'string') {
+        return data.Message;
+      }
+      if (typeof data?.Detail === 'string') {
+        return data.Detail;
+      }
+      if (error.response?.status) {
+        return `Xero API returned HTTP ${error.response.status}`;
+      }
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Xero replays the original response for a repeated Idempotency-Key, so retries can't
+   * double-post. The posting sequence is part of it so each later payment of the same invoice
+   * is a new write.
+   */
+  private idempotencyKey(payload: ReconciliationPayload): string {
+    const cents = Math.round(payload.amount * 100);
+    return `${payload.invoiceId}-${payload.sequence}-${payload.paymentStatus}-${cents}`.slice(
+      0,
+      IDEMPOTENCY_KEY_MAX_LENGTH
+    );
+  }
+
+  private async createEntity(
+    entity: 'BankTransaction' | 'Payment',
+    body: Record<string, unknown>,
+    idempotencyKey: string,
+    invoiceId: string // BTCPay invoice the entity records, for logging
+  ): Promise<ProviderResult> {
+    const credentials = this.loadCredentials();
+    if (!credentials) {
+      return { success: false, error: 'Xero is not connected' };
+    }
+
+    try {
+      const client = this.createClient(credentials);
+      const response = await client.put(`/${entity}s`, body, {
+        headers: { 'Idempotency-Key': idempotencyKey.slice(0, IDEMPOTENCY_KEY_MAX_LENGTH) },
+      });
+
+      const transactionId = response.data?.[`${entity}s`]?.[0]?.[`${entity}ID`];
+      if (!transactionId) {
+        console.error(`Xero ${entity} response is missing an ID`);
+        return { success: false, error: `Xero did not return a ${entity} ID` };
+      }
+
+      console.log(`✅ Created Xero ${entity} ${transactionId} for ${invoiceId}`);
+      return { success: true, transactionId: String(transactionId), transactionType: entity };
+    } catch (error) {
+      const message = this.describeError(error);
+      console.error(`Failed to create Xero ${entity}:`, message);
+      return { success: false, error: message, errorKind: classifyHttpError(error) };
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.loadCredentials() !== null;
+  }
+
+  /**
+   * Deposit mode: a RECEIVE bank transaction into the deposit account, coded to the income
+   * account. Xero has no undeposited-funds fallback, so all three mappings are required.
+   */
+  async reconcileDeposit(payload: ReconciliationPayload): Promise<ProviderResult> {
+    const { accounts } = payload;
+    if (!accounts.depositAccountId || !accounts.incomeAccountId || !accounts.customerId) {
+      return {
+        success: false,
+        error: 'Map a deposit account, an income account and a customer to record deposits in Xero',
+        errorKind: 'permanent',
+      };
+    }
+
+    return this.createEntity(
+      'BankTransaction',
+      {
+        Type: 'RECEIVE',
+        Date: payload.paidAt.split('T')[0],
+        Reference: `BTCPay ${payload.invoiceId}`,
+        Contact: { ContactID: accounts.customerId },
+        BankAccount: { AccountID: accounts.depositAccountId },
+        LineAmountTypes: accounts.taxCodeId ? 'Inclusive' : 'NoTax',
+        LineItems: [
+          {
+            Description: `BTCPayServer Invoice ${payload.invoiceId}`,
+            Quantity: 1,
+            UnitAmount: payload.amount,
+            AccountID: accounts.incomeAccountId,
+            ...(accounts.taxCodeId && { TaxType: accounts.taxCodeId }),
+          },
+        ],
+      },
+      this.idempotencyKey(payload),
+      payload.invoiceId
+    );
+  }
+
+  /**
+   * Invoicing mode: a Payment against an approved ACCREC invoice, capped at its amount due
+   */
+  async reconcileInvoicePayment(payload: InvoicePaymentPayload): Promise<ProviderResult> {
+    if (!payload.accounts.depositAccountId) {
+      return {
+        success: false,
+        error: 'Map a deposit account to record invoice payments in Xero',
+        errorKind: 'permanent',
+      };
+    }
+
+    const invoice = await this.findInvoice({ id: payload.accountingInvoiceId });
+    if (!invoice) {
+      return { success: false, error: `Xero invoice ${payload.accountingInvoiceId} not found` };
+    }
+    if (invoice.balance <= 0) {
+      return {
+        success: false,
+        error: `Xero invoice ${invoice.docNumber ?? invoice.id} has no amount due`,
+        errorKind: 'permanent',
+      };
+    }
+
+    const amount = Math.min(payload.amount, invoice.balance);
+    const result = await this.createEntity(
+      'Payment',
+      {
+        Invoice: { InvoiceID: invoice.id },
+        Account: { AccountID: payload.accounts.depositAccountId },
+        Date: payload.paidAt.split('T')[0],
+        Amount: amount,
+        Reference: `BTCPay ${payload.invoiceId}`,
+      },
+      this.idempotencyKey(payload),
+      payload.invoiceId
+    );
+    return result.success ? { ...result, amount } : result;
+  }
+
+  /**
+   * A SPEND bank transaction out of the deposit account, to the customer of the invoice the
+   * payment was applied to when there is one
+   */
+  async reconcileRefund(payload: RefundPayload): Promise<ProviderResult> {
+    const { accounts } = payload;
+    if (!accounts.depositAccountId || !accounts.incomeAccountId) {
+      return {
+        success: false,
+        error: 'Map a deposit account and an income account to record refunds in Xero',
+        errorKind: 'permanent',
+      };
+    }
+
+    let contactId = accounts.customerId;
+    if (payload.accountingInvoiceId) {
+      const invoice = await this.findInvoice({ id: payload.accountingInvoiceId });
+      if (!invoice) {
+        return { success: false, error: `Xero invoice ${payload.accountingInvoiceId} not found` };
+      }
+      contactId = invoice.customerId ?? contactId;
+    }
+    if (!contactId) {
+      return {
+        success: false,
+        error: 'Map a customer to record refunds in Xero',
+        errorKind: 'permanent',
+      };
+    }
+
+    return this.createEntity(
+      'BankTransaction',
+      {
+        Type: 'SPEND',
+        Date: payload.refundedAt.split('T')[0],
+        Reference: `Refund BTCPay ${payload.invoiceId}`,
+        Contact: { ContactID: contactId },
+        BankAccount: { AccountID: accounts.depositAccountId },
+        LineAmountTypes: accounts.taxCodeId ? 'Inclusive' : 'NoTax',
+        LineItems: [
+          {
+            Description: `Refund of BTCPayServer Invoice ${payload.invoiceId}`,
+            Quantity: 1,
+            UnitAmount: payload.amount,
+            AccountID: accounts.incomeAccountId,
+            ...(accounts.taxCodeId && { TaxType: accounts.taxCodeId }),
+          },
+        ],
+      },
+      `refund-${payload.refundId}`,
+      payload.invoiceId
+    );
+  }
+
+  /**
+   * Payments and bank transactions are voided by setting their status to DELETED
+   */
+  async reverseTransaction(payload: ReversalPayload): Promise<ReversalResult> {
+    const { transactionId, transactionType: type } = payload;
+    const endpoint = type ? REVERSIBLE_ENDPOINTS[type] : undefined;
+    if (!type || !endpoint) {
+      return {
+        success: false,
+        error: `Cannot reverse Xero ${type ?? 'transaction'} ${transactionId} automatically; reverse it by hand`,
+        errorKind: 'permanent',
+      };
+    }
+
+    const credentials = this.loadCredentials();
+    if (!credentials) {
+      return { success: false, error: 'Xero is not connected' };
+    }
+
+    try {
+      const client = this.createClient(credentials);
+      await client.post(
+        `/${endpoint}/${encodeURIComponent(transactionId)}`,
+        { Status: 'DELETED' },
+        { headers: { 'Idempotency-Key': `reverse-${type}-${transactionId}` } }
+      );
+      console.log(`✅ Voided Xero ${type} ${transactionId} for ${payload.invoiceId}`);
+      return { success: true, transactionId, transactionType: type, method: 'void' };
+    } catch (error) {
+      const message = this.describeError(error);
+      console.error(`Failed to reverse Xero ${type} ${transactionId}:`, message);
+      return { success: false, error: message, errorKind: classifyHttpError(error) };
+    }
+  }
+
+  async health(): Promise<ProviderHealth> {
+    const credentials = this.loadCredentials();
+    if (!credentials) {
+      return { connected: false, error: 'Xero is not connected' };
+    }
+
+    try {
+      const client = this.createClient(credentials);
+      const response = await client.get('/Organisation');
+      return {
+        connected: true,
+        companyName: response.data?.Organisations?.[0]?.Name,
+      };
+    } catch (error) {
+      return { connected: false, error: this.describeError(error) };
+    }
+  }
+
+  /**
+   * Look up a sales (ACCREC) invoice; bills and deleted or voided invoices don't match
+   */
+  async findInvoice(query: InvoiceQuery): Promise<ProviderInvoice | null> {
+    const credentials = this.loadCredentials();
+    if (!credentials) {
+      console.error('Cannot find invoice: Xero is not connected');
+      return null;
+    }
+
+    try {
+      const client = this.createClient(credentials);
+      let invoices: XeroInvoice[] | undefined;
+
+      if (query.id) {
+        const response = await client.get(`/Invoices/${encodeURIComponent(query.id)}`);
+        invoices = response.data?.Invoices;
+      } else if (query.docNumber) {
+        const response = await client.get('/Invoices', {
+          params: { InvoiceNumbers: query.docNumber },
+        });
+        invoices = response.data?.Invoices;
+      }
+
+      const invoice = invoices?.find(
+        (candidate) =>
+          candidate?.InvoiceID &&
+          candidate.Type === 'ACCREC' &&
+          candidate.Status !== 'DELETED' &&
+          candidate.Status !== 'VOIDED'
+      );
+      if (!invoice) {
+        return null;
+      }
+
+      return {
+        id: invoice.InvoiceID,
+        docNumber: invoice.InvoiceNumber,
+        customerId: invoice.Contact?.ContactID,
+        customerName: invoice.Contact?.Name,
+        customerEmail: invoice.Contact?.EmailAddress,
+        totalAmount: invoice.Total ?? 0,
+        balance: invoice.AmountDue ?? 0,
+        currency: invoice.CurrencyCode,
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      console.error('Failed to find Xero invoice:', this.describeError(error));
+      return null;
+    }
+  }
+
+  /**
+   * Active accounts, customer contacts and tax rates. Xero has no payment methods.
+   */
+  async getChartOfAccounts(): Promise<ChartOfAccounts | null> {
+    const credentials = this.loadCredentials();
+    if (!credentials) {
+      console.error('Cannot load chart of accounts: Xero is not connected');
+      return null;
+    }
+
+    try {
+      const client = this.createClient(credentials);
+      const [accounts, contacts, taxRates] = await Promise.all([
+        client.get('/Accounts', { params: { where: 'Status=="ACTIVE"' } }),
+        client.get('/Contacts', { params: { where: 'ContactStatus=="ACTIVE"' } }),
+        client.get('/TaxRates', { params: { where: 'Status=="ACTIVE"' } }),
+      ]);
+
+      return {
+        accounts: ((accounts.data?.Accounts ?? []) as XeroAccount[])
+          .filter((account) => account?.AccountID)
+          .map((account) => ({
+            id: account.AccountID,
+            name: [account.Code, account.Name ?? account.AccountID].filter(Boolean).join(' - '),
+            type: account.Type ?? 'Unknown',
+          })),
+        customers: ((contacts.data?.Contacts ?? []) as { ContactID: string; Name?: string }[])
+          .filter((contact) => contact?.ContactID)
+          .map((contact) => ({ id: contact.ContactID, name: contact.Name ?? contact.ContactID })),
+        paymentMethods: [],
+        taxCodes: ((taxRates.data?.TaxRates ?? []) as { TaxType: string; Name?: string }[])
+          .filter((rate) => rate?.TaxType)
+          .map((rate) => ({ id: rate.TaxType, name: rate.Name ?? rate.TaxType })),
+      };
+    } catch (error) {
+      console.error('Failed to load Xero chart of accounts:', this.describeError(error));
+      return null;
+    }
+  }
+}
+
+// Singleton instance
+export const xeroProvider = new XeroProvider();
@@ -0,0 +1,258 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach, afterAll } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { initializeDatabase, closeDatabase } from '../models/database';
+import { getConfigValue, setConfigValue } from '../models/config';
+import { _resetEncryptionKeyForTesting } from '../utils/crypto';
+import { XeroAuth } from './xeroAuth';
+
+const tenants = [
+  { tenantId: 'tenant_1', tenantName: 'Demo Company (US)', tenantType: 'ORGANISATION' },
+  { tenantId: 'tenant_2', tenantName: 'Second Shop Ltd', tenantType: 'ORGANISATION' },
+  { tenantId: 'practice_1', tenantName: 'Practice Manager', tenantType: 'PRACTICEMANAGER' },
+];
+
+/**
+ * Local stand-in for Xero's identity and connections endpoints
+ */
+async function startMockXeroIdentity(state: {
+  tokenForms: Record<string, string>[];
+  tenants: typeof tenants;
+  rejectRefresh: boolean;
+}): Promise<FastifyInstance> {
+  const server = Fastify();
+  server.addContentTypeParser(
+    'application/x-www-form-urlencoded',
+    { parseAs: 'string' },
+    (request, body, done) => {
+      done(null, Object.fromEntries(new URLSearchParams(body as string)));
+    }
+  );
+
+  server.post('/connect/token', async (request, reply) => {
+    const form = request.body as Record<string, string>;
+    state.tokenForms.push(form);
+    if (form.grant_type === 'refresh_token' && state.rejectRefresh) {
+      return reply.code(400).send({ error: 'invalid_grant' });
+    }
+    const generation = state.tokenForms.length;
+    return {
+      access_token: `access_${generation}`,
+      refresh_token: `refresh_${generation}`,
+      expires_in: 1800,
+      token_type: 'Bearer',
+    };
+  });
+  server.get('/connections', async (request, reply) => {
+    if (!request.headers.authorization?.startsWith('Bearer access_')) {
+      return reply.code(401).send();
+    }
+    return state.tenants;
+  });
+
+  await server.listen({ port: 0, host: '127.0.0.1' });
+  return server;
+}
+
+describe('XeroAuth', () => {
+  let server: FastifyInstance;
+  let baseUrl: string;
+  let auth: XeroAuth;
+  let tmpDir: string;
+  const originalEnv = { ...process.env };
+  const identity = {
+    tokenForms: [] as Record<string, string>[],
+    tenants,
+    rejectRefresh: false,
+  };
+
+  beforeAll(async () => {
+    server = await startMockXeroIdentity(identity);
+    const address = server.server.address() as { port: number };
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    identity.tokenForms = [];
+    identity.tenants = tenants;
+    identity.rejectRefresh = false;
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sm-xero-auth-'));
+    process.env.DATABASE_PATH = ':memory:';
+    process.env.ENCRYPTION_KEY_PATH = path.join(tmpDir, 'encryption.key');
+    delete process.env.XERO_CLIENT_ID;
+    delete process.env.XERO_REDIRECT_URI;
+    _resetEncryptionKeyForTesting();
+    await initializeDatabase();
+    auth = new XeroAuth({
+      authorizeUrl: `${baseUrl}/identity/connect/authorize`,
+      tokenUrl: `${baseUrl}/connect/token`,
+      connectionsUrl: `${baseUrl}/connections`,
+    });
+    auth.setClientId('xero_client');
+  });
+
+  afterEach(() => {
+    closeDatabase();
+    process.env = { ...originalEnv };
+    _resetEncryptionKeyForTesting();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Run the consent flow as far as the callback would: authorize URL, state, code exchange
+   */
+  async function connect(): Promise<URL> {
+    const url = new URL(auth.createAuthorizationUrl()!);
+    const verifier = auth.consumeState(url.searchParams.get('state')!);
+    expect(await auth.exchangeCode('auth_code', verifier!)).toBe(true);
+    return url;
+  }
+
+  describe('createAuthorizationUrl', () => {
+    it('should build a PKCE consent URL whose verifier is stored with the state', () => {
+      const url = new URL(auth.createAuthorizationUrl()!);
+
+      expect(url.searchParams.get('client_id')).toBe('xero_client');
+      expect(url.searchParams.get('redirect_uri')).toBe(
+        'http://localhost:3000/api/config/xero/callback'
+      );
+      expect(url.searchParams.get('scope')).toContain('accounting.transactions');
+      expect(url.searchParams.get('scope')).toContain('offline_access');
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+
+      const verifier = auth.consumeState(url.searchParams.get('state')!);
+      expect(verifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(url.searchParams.get('code_challenge')).toBe(
+        crypto.createHash('sha256').update(verifier!).digest('base64url')
+      );
+    });
+
+    it('should need a client ID', () => {
+      const unconfigured = new XeroAuth();
+      setConfigValue('xero_client_id', '');
+
+      expect(unconfigured.createAuthorizationUrl()).toBeNull();
+    });
+  });
+
+  describe('consumeState', () => {
+    it('should only accept a state once', () => {
+      const state = new URL(auth.createAuthorizationUrl()!).searchParams.get('state')!;
+
+      expect(auth.consumeState(state)).not.toBeNull();
+      expect(auth.consumeState(state)).toBeNull();
+      expect(auth.consumeState('forged')).toBeNull();
+    });
+  });
+
+  describe('exchangeCode', () => {
+    it('should send the code verifier instead of a client secret', async () => {
+      const url = new URL(auth.createAuthorizationUrl()!);
+      const verifier = auth.consumeState(url.searchParams.get('state')!)!;
+
+      await auth.exchangeCode('auth_code', verifier);
+
+      expect(identity.tokenForms).toEqual([
+        {
+          grant_type: 'authorization_code',
+          client_id: 'xero_client',
+          code: 'auth_code',
+          redirect_uri: 'http://localhost:3000/api/config/xero/callback',
+          code_verifier: verifier,
+        },
+      ]);
+      expect(getConfigValue('xero_access_token')).toBe('access_1');
+      expect(getConfigValue('xero_refresh_token')).toBe('refresh_1');
+    });
+
+    it('should select the organisation when only one was authorized', async () => {
+      identity.tenants = [tenants[0]];
+
+      await connect();
+
+      expect(auth.getConnection()).toMatchObject({
+        connected: true,
+        tenantId: 'tenant_1',
+        tenantName: 'Demo Company (US)',
+      });
+    });
+
+    it('should leave the choice to the merchant when several were authorized', async () => {
+      await connect();
+
+      expect(auth.getConnection()).toMatchObject({ connected: true, tenantId: null });
+      expect((await auth.listTenants())?.map((tenant) => tenant.tenantId)).toEqual([
+        'tenant_1',
+        'tenant_2',
+      ]);
+    });
+
+    it('should keep the selected organisation across reconnects', async () => {
+      await connect();
+      await auth.selectTenant('tenant_2');
+
+      await connect();
+
+      expect(auth.getConnection().tenantId).toBe('tenant_2');
+    });
+  });
+
+  describe('selectTenant', () => {
+    it('should only select organisations the token can access', async () => {
+      await connect();
+
+      expect(await auth.selectTenant('tenant_other')).toBe(false);
+      expect(await auth.selectTenant('tenant_2')).toBe(true);
+      expect(auth.getConnection()).toMatchObject({
+        tenantId: 'tenant_2',
+        tenantName: 'Second Shop Ltd',
+      });
+    });
+  });
+
+  describe('refreshAccessToken', () => {
+    it('should save the rotated refresh token', async () => {
+      await connect();
+
+      expect(await auth.refreshAccessToken()).toEqual({ success: true });
+      expect(identity.tokenForms[1]).toEqual({
+        grant_type: 'refresh_token',
+        client_id: 'xero_client',
+        refresh_token: 'refresh_1',
+      });
+      expect(getConfigValue('xero_refresh_token')).toBe('refresh_2');
+    });
+
+    it('should go to ERROR when Xero rejects the refresh token', async () => {
+      await connect();
+      identity.rejectRefresh = true;
+
+      expect(await auth.refreshAccessToken()).toMatchObject({ success: false, revoked: true });
+      expect(auth.getConnection()).toMatchObject({
+        connected: false,
+        state: 'ERROR',
+        error: 'Xero authorization was revoked or expired - reconnect Xero',
+      });
+    });
+  });
+
+  it('should forget tokens and the organisation on disconnect', async () => {
+    identity.tenants = [tenants[0]];
+    await connect();
+
+    auth.disconnect();
+
+    expect(auth.getConnection()).toMatchObject({ connected: false, tenantId: null });
+    expect(auth.getClientId()).toBe('xero_client');
+  });
+});
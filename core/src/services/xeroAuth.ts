@@ -0,0 +1,364 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { getDatabase } from '../models/database';
+import { deleteConfigValue, getConfigValue, setConfigValue } from '../models/config';
+import { TokenRefreshResult } from './quickbooksAuth';
+import { writeLog } from '../utils/logger';
+
+// Constants
+const XERO_SCOPE =
+  'openid profile email accounting.transactions accounting.settings accounting.contacts offline_access';
+const OAUTH_PROVIDER = 'xero';
+const STATE_BYTES = 32;
+const VERIFIER_BYTES = 32; // 43 base64url characters, the minimum RFC 7636 allows
+const STATE_TTL_MINUTES = 10;
+const REQUEST_TIMEOUT = 15000;
+
+export interface XeroEndpoints {
+  authorizeUrl: string;
+  tokenUrl: string;
+  connectionsUrl: string; // Organisations (tenants) the token was granted access to
+}
+
+export const XERO_ENDPOINTS: XeroEndpoints = {
+  authorizeUrl: 'https://login.xero.com/identity/connect/authorize',
+  tokenUrl: 'https://identity.xero.com/connect/token',
+  connectionsUrl: 'https://api.xero.com/connections',
+};
+
+export type XeroConnectionState = 'CONNECTED' | 'ERROR';
+
+export interface XeroConnection {
+  connected: boolean;
+  state: XeroConnectionState | null;
+  tenantId: string | null; // Organisation reconciliations are posted to
+  tenantName: string | null;
+  expiresAt: string | null; // Access token expiry (ISO 8601)
+  error: string | null;
+}
+
+export interface XeroTenant {
+  tenantId: string;
+  tenantName: string;
+  tenantType: string; // ORGANISATION for the orgs the accounting API works with
+}
+
+interface XeroTokenResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number; // Seconds
+}
+
+/**
+ * Xero OAuth2 with PKCE for the merchant's own Xero app, which needs a client ID but no secret.
+ * One consent can cover several organisations; reconciliations go to the selected tenant.
+ */
+export class XeroAuth {
+  constructor(private readonly endpoints: XeroEndpoints = XERO_ENDPOINTS) {}
+
+  /**
+   * Client ID of the merchant's Xero app (config first, env as fallback)
+   */
+  getClientId(): string | null {
+    return this.getConfig('xero_client_id') || process.env.XERO_CLIENT_ID || null;
+  }
+
+  setClientId(clientId: string): void {
+    setConfigValue('xero_client_id', clientId);
+  }
+
+  /**
+   * Redirect URI registered in the Xero app - must match exactly
+   */
+  getRedirectUri(): string {
+    if (process.env.XERO_REDIRECT_URI) {
+      return process.env.XERO_REDIRECT_URI;
+    }
+    const baseUrl =
+      process.env.APP_HIDDEN_SERVICE || `http://localhost:${process.env.PORT || 3000}`;
+    return `${baseUrl}/api/config/xero/callback`;
+  }
+
+  /**
+   * Build the Xero consent URL with a fresh state token and PKCE challenge, or null without a client ID
+   */
+  createAuthorizationUrl(): string | null {
+    const clientId = this.getClientId();
+    if (!clientId) {
+      return null;
+    }
+
+    const verifier = crypto.randomBytes(VERIFIER_BYTES).toString('base64url');
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: clientId,
+      redirect_uri: this.getRedirectUri(),
+      scope: XERO_SCOPE,
+      state: this.issueState(verifier),
+      code_challenge: crypto.createHash('sha256').update(verifier).digest('base64url'),
+      code_challenge_method: 'S256',
+    });
+    return `${this.endpoints.authorizeUrl}?${params.toString()}`;
+  }
+
+  /**
+   * Store a new single-use state token with its code verifier, purging expired ones
+   */
+  private issueState(verifier: string): string {
+    const db = getDatabase();
+    const state = crypto.randomBytes(STATE_BYTES).toString('hex');
+
+    db.prepare(`DELETE FROM oauth_states WHERE expires_at < datetime('now')`).run();
+    db.prepare(
+      `INSERT INTO oauth_states (state, provider, code_verifier, expires_at)
+       VALUES (?, ?, ?, datetime('now', ?))`
+    ).run(state, OAUTH_PROVIDER, verifier, `+${STATE_TTL_MINUTES} minutes`);
+
+    return state;
+  }
+
+  /**
+   * Validate and burn a state token. Returns its code verifier, or null if the state is
+   * unknown, expired or already used.
+   */
+  consumeState(state: string): string | null {
+    const db = getDatabase();
+    return db.transaction(() => {
+      const row = db
+        .prepare(
+          `SELECT code_verifier FROM oauth_states
+           WHERE state = ? AND provider = ? AND expires_at >= datetime('now')`
+        )
+        .get(state, OAUTH_PROVIDER) as { code_verifier: string | null } | undefined;
+      if (!row?.code_verifier) {
+        return null;
+      }
+      db.prepare('DELETE FROM oauth_states WHERE state = ?').run(state);
+      return row.code_verifier;
+    })();
+  }
+
+  /**
+   * Exchange the authorization code for tokens and persist them. The organisation is selected
+   * automatically when the merchant granted access to exactly one (or the current one again).
+   */
+  async exchangeCode(code: string, codeVerifier: string): Promise<boolean> {
+    const clientId = this.getClientId();
+    if (!clientId) {
+      console.error('Cannot exchange Xero code: client ID is not configured');
+      return false;
+    }
+
+    try {
+      const tokens = await this.requestTokens({
+        grant_type: 'authorization_code',
+        client_id: clientId,
+        code,
+        redirect_uri: this.getRedirectUri(),
+        code_verifier: codeVerifier,
+      });
+      this.saveTokens(tokens);
+    } catch (error) {
+      const message = this.describeError(error);
+      console.error('Failed to exchange Xero authorization code:', message);
+      writeLog('error', 'Xero authorization failed', { error: message });
+      return false;
+    }
+
+    const tenants = (await this.listTenants()) ?? [];
+    const current = this.getConfig('xero_tenant_id');
+    const tenant =
+      tenants.find((candidate) => candidate.tenantId === current) ??
+      (tenants.length === 1 ? tenants[0] : null);
+    if (tenant) {
+      this.saveTenant(tenant);
+    } else {
+      deleteConfigValue('xero_tenant_id');
+      deleteConfigValue('xero_tenant_name');
+    }
+
+    console.log(`✅ Connected Xero (${tenants.length} organisation(s) authorized)`);
+    writeLog('info', 'Connected Xero', {
+      organisations: tenants.length,
+      tenantId: tenant?.tenantId ?? null,
+    });
+    return true;
+  }
+
+  /**
+   * Organisations the current token can access, or null if they can't be listed
+   */
+  async listTenants(): Promise<XeroTenant[] | null> {
+    const accessToken = this.getConfig('xero_access_token');
+    if (!accessToken) {
+      return null;
+    }
+
+    try {
+      const response = await axios.get<XeroTenant[]>(this.endpoints.connectionsUrl, {
+        timeout: REQUEST_TIMEOUT,
+        headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+      });
+      return (Array.isArray(response.data) ? response.data : []).filter(
+        (tenant) => tenant?.tenantId && tenant.tenantType === 'ORGANISATION'
+      );
+    } catch (error) {
+      console.error('Failed to list Xero organisations:', this.describeError(error));
+      return null;
+    }
+  }
+
+  /**
+   * Post reconciliations to one of the authorized organisations. Returns false if the token
+   * doesn't grant access to it.
+   */
+  async selectTenant(tenantId: string): Promise<boolean> {
+    const tenants = await this.listTenants();
+    const tenant = tenants?.find((candidate) => candidate.tenantId === tenantId);
+    if (!tenant) {
+      return false;
+    }
+    this.saveTenant(tenant);
+    console.log(`🏢 Selected Xero organisation ${tenant.tenantName}`);
+    writeLog('info', 'Selected Xero organisation', { tenantId, tenantName: tenant.tenantName });
+    return true;
+  }
+
+  /**
+   * Trade the refresh token for a new access token. Xero rotates refresh tokens, so the new
+   * one is saved too. A rejected refresh token puts the connection into the ERROR state.
+   */
+  async refreshAccessToken(): Promise<TokenRefreshResult> {
+    const clientId = this.getClientId();
+    const refreshToken = this.getConfig('xero_refresh_token');
+    if (!clientId || !refreshToken) {
+      return { success: false, error: 'Xero is not connected' };
+    }
+
+    try {
+      const tokens = await this.requestTokens({
+        grant_type: 'refresh_token',
+        client_id: clientId,
+        refresh_token: refreshToken,
+      });
+      this.saveTokens(tokens);
+      console.log('🔑 Refreshed Xero access token');
+      return { success: true };
+    } catch (error) {
+      const message = this.describeError(error);
+      const revoked =
+        axios.isAxiosError(error) &&
+        (error.response?.data as { error?: string } | undefined)?.error === 'invalid_grant';
+
+      if (revoked) {
+        this.markError('Xero authorization was revoked or expired - reconnect Xero');
+        return { success: false, revoked: true, error: message };
+      }
+
+      console.error('Failed to refresh Xero access token:', message);
+      writeLog('warn', 'Xero token refresh failed', { error: message });
+      return { success: false, error: message };
+    }
+  }
+
+  /**
+   * Current connection details for status endpoints (never includes tokens)
+   */
+  getConnection(): XeroConnection {
+    const state = this.getConfig('xero_connection_state') as XeroConnectionState | undefined;
+    return {
+      connected: state === 'CONNECTED' && !!this.getConfig('xero_access_token'),
+      state: state ?? null,
+      tenantId: this.getConfig('xero_tenant_id') ?? null,
+      tenantName: this.getConfig('xero_tenant_name') ?? null,
+      expiresAt: this.getConfig('xero_token_expires_at') ?? null,
+      error: this.getConfig('xero_connection_error') ?? null,
+    };
+  }
+
+  /**
+   * Forget the tokens and organisation (the client ID is kept for reconnecting)
+   */
+  disconnect(): void {
+    for (const key of [
+      'xero_access_token',
+      'xero_refresh_token',
+      'xero_token_expires_at',
+      'xero_tenant_id',
+      'xero_tenant_name',
+      'xero_connection_state',
+      'xero_connection_error',
+    ]) {
+      deleteConfigValue(key);
+    }
+  }
+
+  private async requestTokens(form: Record<string, string>): Promise<XeroTokenResponse> {
+    const response = await axios.post<XeroTokenResponse>(
+      this.endpoints.tokenUrl,
+      new URLSearchParams(form).toString(),
+      {
+        timeout: REQUEST_TIMEOUT,
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+      }
+    );
+
+    if (!response.data?.access_token || !response.data?.refresh_token) {
+      throw new Error('Xero token response is missing tokens');
+    }
+    return response.data;
+  }
+
+  private saveTokens(tokens: XeroTokenResponse): void {
+    setConfigValue('xero_access_token', tokens.access_token, { encrypted: true });
+    setConfigValue('xero_refresh_token', tokens.refresh_token, { encrypted: true });
+    setConfigValue(
+      'xero_token_expires_at',
+      new Date(Date.now() + tokens.expires_in * 1000).toISOString()
+    );
+    setConfigValue('xero_connection_state', 'CONNECTED');
+    deleteConfigValue('xero_connection_error');
+  }
+
+  private saveTenant(tenant: XeroTenant): void {
+    setConfigValue('xero_tenant_id', tenant.tenantId);
+    setConfigValue('xero_tenant_name', tenant.tenantName);
+  }
+
+  private markError(message: string): void {
+    // Drop the dead access token so the provider reports "not connected" instead of 401-ing
+    deleteConfigValue('xero_access_token');
+    setConfigValue('xero_connection_state', 'ERROR');
+    setConfigValue('xero_connection_error', message);
+    console.error(`❌ ${message}`);
+    writeLog('error', message);
+  }
+
+  private getConfig(key: string): string | undefined {
+    try {
+      return getConfigValue(key);
+    } catch (error) {
+      console.error(`Failed to read ${key}:`, error);
+      return undefined;
+    }
+  }
+
+  private describeError(error: unknown): string {
+    if (axios.isAxiosError(error)) {
+      const data = error.response?.data as { error?: string; error_description?: string };
+      if (data?.error) {
+        return [data.error, data.error_description].filter(Boolean).join(': ');
+      }
+      if (error.response?.status) {
+        return `Xero returned HTTP ${error.response.status}`;
+      }
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// Singleton instance
+export const xeroAuth = new XeroAuth();
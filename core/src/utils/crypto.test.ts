@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  encrypt,
+  decrypt,
+  getEncryptionKeyPath,
+  hasEncryptionKey,
+  isEncryptedPayload,
+  _resetEncryptionKeyForTesting,
+} from './crypto';
+
+describe('crypto', () => {
+  let tmpDir: string;
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sm-crypto-'));
+    delete process.env.ENCRYPTION_KEY;
+    process.env.ENCRYPTION_KEY_PATH = path.join(tmpDir, 'encryption.key');
+    _resetEncryptionKeyForTesting();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    _resetEncryptionKeyForTesting();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('encrypt/decrypt', () => {
+    it('should round-trip a value', () => {
+      const ciphertext = encrypt('my-btcpay-api-key');
+      expect(ciphertext).not.toContain('my-btcpay-api-key');
+      expect(ciphertext.startsWith('v1:')).toBe(true);
+      expect(decrypt(ciphertext)).toBe('my-btcpay-api-key');
+    });
+
+    it('should recognise encrypted payloads', () => {
+      expect(isEncryptedPayload(encrypt('secret'))).toBe(true);
+      expect(isEncryptedPayload('plaintext-api-key')).toBe(false);
+    });
+
+    it('should use a fresh IV for every encryption', () => {
+      expect(encrypt('same value')).not.toBe(encrypt('same value'));
+    });
+
+    it('should reject tampered ciphertext', () => {
+      const parts = encrypt('secret').split(':');
+      const tampered = Buffer.from(parts[3], 'base64');
+      tampered[0] ^= 0xff;
+      parts[3] = tampered.toString('base64');
+
+      expect(() => decrypt(parts.join(':'))).toThrow();
+    });
+
+    it('should reject unknown payload formats', () => {
+      expect(() => decrypt('plaintext-value')).toThrow('Unsupported encrypted payload format');
+    });
+  });
+
+  describe('master key management', () => {
+    it('should generate a key file with owner-only permissions on first use', () => {
+      encrypt('value');
+
+      const keyPath = process.env.ENCRYPTION_KEY_PATH!;
+      expect(fs.existsSync(keyPath)).toBe(true);
+      expect(fs.readFileSync(keyPath, 'utf8')).toMatch(/^[0-9a-f]{64}$/);
+      expect(fs.statSync(keyPath).mode & 0o777).toBe(0o600);
+    });
+
+    it('should report whether a key exists without generating one', () => {
+      expect(hasEncryptionKey()).toBe(false);
+      expect(fs.existsSync(process.env.ENCRYPTION_KEY_PATH!)).toBe(false);
+
+      encrypt('secret');
+      expect(hasEncryptionKey()).toBe(true);
+    });
+
+    it('should reuse the persisted key after a restart', () => {
+      const ciphertext = encrypt('value');
+      _resetEncryptionKeyForTesting();
+      expect(decrypt(ciphertext)).toBe('value');
+    });
+
+    it('should prefer the ENCRYPTION_KEY environment variable', () => {
+      process.env.ENCRYPTION_KEY = 'a'.repeat(64);
+      encrypt('value');
+      expect(fs.existsSync(process.env.ENCRYPTION_KEY_PATH!)).toBe(false);
+    });
+
+    it('should reject a malformed ENCRYPTION_KEY', () => {
+      process.env.ENCRYPTION_KEY = 'too-short';
+      expect(() => encrypt('value')).toThrow('ENCRYPTION_KEY must be a 64 character hex string');
+    });
+
+    it('should default the key path to the database directory', () => {
+      delete process.env.ENCRYPTION_KEY_PATH;
+      process.env.DATABASE_PATH = '/data/config.db';
+      expect(getEncryptionKeyPath()).toBe('/data/encryption.key');
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Constants
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32; // 256-bit master key
+const IV_LENGTH = 12; // Recommended nonce size for GCM
+const PAYLOAD_VERSION = 'v1';
+
+let masterKey: Buffer | null = null;
+
+/**
+ * Resolve where the master key file lives.
+ * Defaults to `encryption.key` next to the SQLite database (i.e. /data/encryption.key in Docker).
+ */
+export function getEncryptionKeyPath(): string {
+  if (process.env.ENCRYPTION_KEY_PATH) {
+    return process.env.ENCRYPTION_KEY_PATH;
+  }
+  const dbPath = process.env.DATABASE_PATH || path.join(process.cwd(), 'config.db');
+  return path.join(path.dirname(dbPath), 'encryption.key');
+}
+
+/**
+ * Whether a master key is available without generating one
+ */
+export function hasEncryptionKey(): boolean {
+  return !!masterKey || !!process.env.ENCRYPTION_KEY || fs.existsSync(getEncryptionKeyPath());
+}
+
+/**
+ * Load (or on first boot generate) the master key up front, so a bad key fails at startup
+ * rather than on the first decrypt
+ */
+export function initializeEncryption(): void {
+  loadMasterKey();
+}
+
+/**
+ * Whether a stored value looks like something encrypt() produced
+ */
+export function isEncryptedPayload(value: string): boolean {
+  const parts = value.split(':');
+  return parts.length === 4 && parts[0] === PAYLOAD_VERSION;
+}
+
+/**
+ * Parse a hex-encoded 256-bit key, returning null if it is malformed
+ */
+function parseKey(hex: string): Buffer | null {
+  const trimmed = hex.trim();
+  if (!/^[0-9a-fA-F]{64}$/.test(trimmed)) {
+    return null;
+  }
+  return Buffer.from(trimmed, 'hex');
+}
+
+/**
+ * Load the master key from ENCRYPTION_KEY or the key file, generating a new key file if neither exists
+ */
+function loadMasterKey(): Buffer {
+  if (masterKey) {
+    return masterKey;
+  }
+
+  // Environment variable (development only)
+  if (process.env.ENCRYPTION_KEY) {
+    const envKey = parseKey(process.env.ENCRYPTION_KEY);
+    if (!envKey) {
+      throw new Error('ENCRYPTION_KEY must be a 64 character hex string (32 bytes)');
+    }
+    masterKey = envKey;
+    return masterKey;
+  }
+
+  const keyPath = getEncryptionKeyPath();
+  if (fs.existsSync(keyPath)) {
+    const fileKey = parseKey(fs.readFileSync(keyPath, 'utf8'));
+    if (!fileKey) {
+      throw new Error(`Encryption key file ${keyPath} is corrupt`);
+    }
+    masterKey = fileKey;
+    return masterKey;
+  }
+
+  // First boot: generate and persist a new key, readable by the app user only
+  const newKey = crypto.randomBytes(KEY_LENGTH);
+  fs.mkdirSync(path.dirname(keyPath), { recursive: true });
+  fs.writeFileSync(keyPath, newKey.toString('hex'), { mode: 0o600 });
+  console.log(`🔐 Generated new encryption key at ${keyPath}`);
+  masterKey = newKey;
+  return masterKey;
+}
+
+/**
+ * Encrypt a string with AES-256-GCM.
+ * Output format: v1:<iv>:<auth tag>:<ciphertext>, each part base64 encoded.
+ */
+export function encrypt(plaintext: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, loadMasterKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [
+    PAYLOAD_VERSION,
+    iv.toString('base64'),
+    tag.toString('base64'),
+    ciphertext.toString('base64'),
+  ].join(':');
+}
+
+/**
+ * Decrypt a value produced by encrypt(). Throws if the payload was tampered with or the key is wrong.
+ */
+export function decrypt(payload: string): string {
+  if (!isEncryptedPayload(payload)) {
+    throw new Error('Unsupported encrypted payload format');
+  }
+
+  const [, ivB64, tagB64, ciphertextB64] = payload.split(':');
+  const decipher = crypto.createDecipheriv(
+    ALGORITHM,
+    loadMasterKey(),
+    Buffer.from(ivB64, 'base64')
+  );
+  decipher.setAuthTag(Buffer.from(tagB64, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertextB64, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+// Test helper function to drop the cached master key
+export function _resetEncryptionKeyForTesting(): void {
+  masterKey = null;
+}
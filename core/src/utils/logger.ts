@@ -0,0 +1,17 @@
+import { getDatabase } from '../models/database';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Persist a log entry to the logs table so it can be surfaced in the UI.
+ * Never throws - logging must not take down the request that triggered it.
+ */
+export function writeLog(level: LogLevel, message: string, data?: unknown): void {
+  try {
+    getDatabase()
+      .prepare('INSERT INTO logs (level, message, data) VALUES (?, ?, ?)')
+      .run(level, message, data === undefined ? null : JSON.stringify(data));
+  } catch (error) {
+    console.error('Failed to write log entry to database:', error);
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { classifyHttpError, getRetryDelayMs } from './retry';
+
+const httpError = (status?: number) =>
+  new AxiosError(
+    'Request failed',
+    status ? 'ERR_BAD_RESPONSE' : 'ECONNREFUSED',
+    undefined,
+    undefined,
+    status
+      ? {
+          status,
+          statusText: '',
+          data: {},
+          headers: {},
+          config: { headers: new AxiosHeaders() },
+        }
+      : undefined
+  );
+
+describe('retry', () => {
+  describe('classifyHttpError', () => {
+    it.each([429, 500, 503, 401])('should treat HTTP %i as transient', (status) => {
+      expect(classifyHttpError(httpError(status))).toBe('transient');
+    });
+
+    it.each([400, 404, 422])('should treat HTTP %i as permanent', (status) => {
+      expect(classifyHttpError(httpError(status))).toBe('permanent');
+    });
+
+    it('should treat network errors as transient', () => {
+      expect(classifyHttpError(httpError())).toBe('transient');
+      expect(classifyHttpError(new Error('socket hang up'))).toBe('transient');
+    });
+  });
+
+  describe('getRetryDelayMs', () => {
+    it('should double the delay per attempt, between half and all of it', () => {
+      expect(getRetryDelayMs(1, 1000, 60000, () => 0)).toBe(500);
+      expect(getRetryDelayMs(1, 1000, 60000, () => 1)).toBe(1000);
+      expect(getRetryDelayMs(3, 1000, 60000, () => 1)).toBe(4000);
+      expect(getRetryDelayMs(3, 1000, 60000, () => 0.5)).toBe(3000);
+    });
+
+    it('should cap the delay', () => {
+      expect(getRetryDelayMs(20, 1000, 60000, () => 1)).toBe(60000);
+    });
+  });
+});
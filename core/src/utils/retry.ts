@@ -0,0 +1,39 @@
+import axios from 'axios';
+
+/**
+ * Transient failures (rate limits, outages, dropped connections) are worth retrying;
+ * permanent ones (validation errors, duplicates) will fail the same way every time.
+ */
+export type ErrorKind = 'transient' | 'permanent';
+
+// HTTP statuses that say "try again later" rather than "this request is wrong".
+// 401 is included because an expired access token is refreshed in the background.
+const TRANSIENT_HTTP_STATUSES = [401, 408, 425, 429];
+
+/**
+ * Classify a failed HTTP call: no response (network, timeout), 429 and 5xx are transient
+ */
+export function classifyHttpError(error: unknown): ErrorKind {
+  if (!axios.isAxiosError(error)) {
+    return 'transient';
+  }
+  const status = error.response?.status;
+  if (!status || status >= 500 || TRANSIENT_HTTP_STATUSES.includes(status)) {
+    return 'transient';
+  }
+  return 'permanent';
+}
+
+/**
+ * Exponential backoff with jitter: the delay doubles per attempt (capped at maxMs) and a
+ * random half of it is added, so retries of many failures don't all land at once
+ */
+export function getRetryDelayMs(
+  attempt: number,
+  baseMs: number,
+  maxMs: number,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(exponential / 2 + (random() * exponential) / 2);
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import {
+  verifyBTCPaySignature,
+  signBTCPayPayload,
+  signPayLinkToken,
+  verifyPayLinkToken,
+  signDownloadToken,
+  verifyDownloadToken,
+} from './signing';
+
+describe('signing', () => {
+  const secret = 'webhook_secret_123';
+  const body = JSON.stringify({ type: 'InvoiceSettled', invoiceId: 'invoice_456' });
+
+  describe('verifyBTCPaySignature', () => {
+    it('should accept a valid BTCPay-Sig header', () => {
+      const expected = crypto.createHmac('sha256', secret).update(body).digest('hex');
+      expect(verifyBTCPaySignature(body, `sha256=${expected}`, secret)).toBe(true);
+    });
+
+    it('should reject a signature made with a different secret', () => {
+      const signature = signBTCPayPayload(body, 'some_other_secret');
+      expect(verifyBTCPaySignature(body, signature, secret)).toBe(false);
+    });
+
+    it('should reject a modified body', () => {
+      const signature = signBTCPayPayload(body, secret);
+      expect(verifyBTCPaySignature(body.replace('456', '457'), signature, secret)).toBe(false);
+    });
+
+    it('should reject missing or malformed headers', () => {
+      expect(verifyBTCPaySignature(body, undefined, secret)).toBe(false);
+      expect(verifyBTCPaySignature(body, 'not-a-signature', secret)).toBe(false);
+      expect(verifyBTCPaySignature(body, 'sha256=abcd', secret)).toBe(false);
+    });
+  });
+
+  describe('pay link tokens', () => {
+    it('should round-trip the invoice ID', () => {
+      const token = signPayLinkToken('130', secret);
+      expect(token).toMatch(/^[\w-]+\.[\w-]+$/);
+      expect(verifyPayLinkToken(token, secret)).toBe('130');
+    });
+
+    it('should reject tokens signed with another secret or for another invoice', () => {
+      expect(verifyPayLinkToken(signPayLinkToken('130', 'other_secret'), secret)).toBeNull();
+
+      const [, signature] = signPayLinkToken('130', secret).split('.');
+      const forged = `${Buffer.from('131').toString('base64url')}.${signature}`;
+      expect(verifyPayLinkToken(forged, secret)).toBeNull();
+    });
+
+    it('should reject malformed tokens', () => {
+      expect(verifyPayLinkToken('', secret)).toBeNull();
+      expect(verifyPayLinkToken('MTMw', secret)).toBeNull();
+      expect(verifyPayLinkToken('MTMw.abc', secret)).toBeNull();
+      expect(verifyPayLinkToken(`${signPayLinkToken('130', secret)}.extra`, secret)).toBeNull();
+    });
+  });
+
+  describe('download tokens', () => {
+    const path = '/api/export/payments';
+    const now = Date.parse('2025-10-31T12:00:00Z');
+    const expiresAt = now / 1000 + 60;
+
+    it('should accept a token for its path until it expires', () => {
+      const token = signDownloadToken(path, expiresAt, secret);
+
+      expect(verifyDownloadToken(token, path, secret, now)).toBe(true);
+      expect(verifyDownloadToken(token, path, secret, now + 61_000)).toBe(false);
+    });
+
+    it('should reject tokens for another path, secret or expiry', () => {
+      const token = signDownloadToken(path, expiresAt, secret);
+      const [, signature] = token.split('.');
+
+      expect(verifyDownloadToken(token, '/api/export/errors', secret, now)).toBe(false);
+      expect(
+        verifyDownloadToken(signDownloadToken(path, expiresAt, 'other'), path, secret, now)
+      ).toBe(false);
+      expect(verifyDownloadToken(`${expiresAt + 3600}.${signature}`, path, secret, now)).toBe(
+        false
+      );
+    });
+
+    it('should reject malformed tokens', () => {
+      expect(verifyDownloadToken('', path, secret, now)).toBe(false);
+      expect(verifyDownloadToken('abc.def', path, secret, now)).toBe(false);
+      expect(verifyDownloadToken(`${expiresAt}`, path, secret, now)).toBe(false);
+    });
+  });
+});
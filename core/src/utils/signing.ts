@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+
+const BTCPAY_SIG_PREFIX = 'sha256=';
+
+/**
+ * Verify a BTCPay-Sig header ("sha256=<hex HMAC of the raw body>") against the webhook secret.
+ * Uses a constant-time comparison so the signature can't be guessed byte by byte.
+ */
+export function verifyBTCPaySignature(
+  rawBody: string,
+  signatureHeader: string | undefined,
+  secret: string
+): boolean {
+  if (!signatureHeader || !signatureHeader.startsWith(BTCPAY_SIG_PREFIX)) {
+    return false;
+  }
+
+  const received = Buffer.from(signatureHeader.slice(BTCPAY_SIG_PREFIX.length), 'hex');
+  const expected = crypto.createHmac('sha256', secret).update(rawBody, 'utf8').digest();
+
+  if (received.length !== expected.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(received, expected);
+}
+
+/**
+ * Compute the BTCPay-Sig header value for a body (used by tests and diagnostics)
+ */
+export function signBTCPayPayload(rawBody: string, secret: string): string {
+  return (
+    BTCPAY_SIG_PREFIX + crypto.createHmac('sha256', secret).update(rawBody, 'utf8').digest('hex')
+  );
+}
+
+/**
+ * Sign a pay link token for an accounting invoice: "<base64url invoice ID>.<base64url HMAC>"
+ */
+export function signPayLinkToken(invoiceId: string, secret: string): string {
+  const encodedId = Buffer.from(invoiceId, 'utf8').toString('base64url');
+  const signature = crypto.createHmac('sha256', secret).update(encodedId).digest('base64url');
+  return `${encodedId}.${signature}`;
+}
+
+/**
+ * The invoice ID a pay link token was signed for, or null if the token is malformed or forged
+ */
+export function verifyPayLinkToken(token: string, secret: string): string | null {
+  const [encodedId, signature, ...rest] = token.split('.');
+  if (!encodedId || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const received = Buffer.from(signature, 'base64url');
+  const expected = crypto.createHmac('sha256', secret).update(encodedId).digest();
+  if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+    return null;
+  }
+
+  const invoiceId = Buffer.from(encodedId, 'base64url').toString('utf8');
+  return invoiceId || null;
+}
+
+/**
+ * Sign a download token for one path until `expiresAt` (Unix seconds): "<expiresAt>.<base64url HMAC>"
+ */
+export function signDownloadToken(path: string, expiresAt: number, secret: string): string {
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${expiresAt}:${path}`)
+    .digest('base64url');
+  return `${expiresAt}.${signature}`;
+}
+
+/**
+ * Whether a download token was signed for this path and has not expired yet
+ */
+export function verifyDownloadToken(
+  token: string,
+  path: string,
+  secret: string,
+  now = Date.now()
+): boolean {
+  const [expiresAt, signature, ...rest] = token.split('.');
+  if (!/^\d+$/.test(expiresAt ?? '') || !signature || rest.length > 0) {
+    return false;
+  }
+  if (Number(expiresAt) * 1000 < now) {
+    return false;
+  }
+
+  const received = Buffer.from(signature, 'base64url');
+  const expected = crypto.createHmac('sha256', secret).update(`${expiresAt}:${path}`).digest();
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import zlib from 'zlib';
+import { crc32, csvChunks, xlsxChunks } from './spreadsheet';
+
+/**
+ * Read a ZIP archive through its central directory, checking each entry's CRC
+ */
+function unzip(archive: Buffer): Map<string, string> {
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+
+  const files = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(position)).toBe(0x02014b50);
+    const crc = archive.readUInt32LE(position + 16);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const offset = archive.readUInt32LE(position + 42);
+    const name = archive.toString('utf8', position + 46, position + 46 + nameLength);
+
+    const dataStart = offset + 30 + archive.readUInt16LE(offset + 26);
+    const content = zlib.inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    expect(crc32(content)).toBe(crc);
+    files.set(name, content.toString('utf8'));
+    position += 46 + nameLength;
+  }
+  return files;
+}
+
+async function collect(chunks: AsyncIterable<Buffer>): Promise<Buffer> {
+  const buffers: Buffer[] = [];
+  for await (const chunk of chunks) {
+    buffers.push(chunk);
+  }
+  return Buffer.concat(buffers);
+}
+
+describe('csvChunks', () => {
+  it('should quote fields that need it and defuse formulas', () => {
+    const csv = [
+      ...csvChunks(
+        ['Invoice ID', 'Fiat', 'Error'],
+        [
+          ['inv_1', 100.5, null],
+          ['inv_2', -21.5, 'Customer "Walk-in", not found\nretrying'],
+          ['=HYPERLINK("http://evil")', 0, '@SUM(A1)'],
+        ]
+      ),
+    ].join('');
+
+    expect(csv).toBe(
+      'Invoice ID,Fiat,Error\r\n' +
+        'inv_1,100.5,\r\n' +
+        'inv_2,-21.5,"Customer ""Walk-in"", not found\nretrying"\r\n' +
+        `"'=HYPERLINK(""http://evil"")",0,'@SUM(A1)\r\n`
+    );
+  });
+});
+
+describe('crc32', () => {
+  it('should match the standard check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.from('56789'), crc32(Buffer.from('1234')))).toBe(0xcbf43926);
+  });
+});
+
+describe('xlsxChunks', () => {
+  it('should write a workbook with numeric and inline string cells', async () => {
+    const rows = [
+      ['inv_1', 250000, 100],
+      ['inv_<2> & co', null, 21.5],
+    ];
+    const files = unzip(
+      await collect(xlsxChunks('payments', ['Invoice ID', 'Sats', 'Fiat'], rows))
+    );
+
+    expect([...files.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml',
+    ]);
+    expect(files.get('xl/workbook.xml')).toContain('<sheet name="payments"');
+
+    const sheet = files.get('xl/worksheets/sheet1.xml')!;
+    expect(sheet).toContain(
+      '<row><c t="inlineStr"><is><t xml:space="preserve">inv_1</t></is></c><c><v>250000</v></c><c><v>100</v></c></row>'
+    );
+    expect(sheet).toContain('inv_&lt;2&gt; &amp; co</t></is></c><c/><c><v>21.5</v></c></row>');
+  });
+
+  it('should stream rows as they are read', async () => {
+    let read = 0;
+    function* rows() {
+      for (let i = 0; i < 20000; i++) {
+        read++;
+        yield [`inv_${i}`, i];
+      }
+    }
+
+    const chunks = xlsxChunks('invoices', ['Invoice ID', 'Sats'], rows());
+    await chunks.next();
+
+    expect(read).toBeLessThan(20000);
+    const rest = await collect(chunks);
+    expect(read).toBe(20000);
+    expect(rest.length).toBeGreaterThan(0);
+  });
+});
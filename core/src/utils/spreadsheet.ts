@@ -0,0 +1,235 @@
+import { pipeline, Readable } from 'stream';
+import zlib from 'zlib';
+
+/**
+ * A spreadsheet cell: numbers stay numeric in XLSX, null is an empty cell
+ */
+export type Cell = string | number | null;
+
+// Constants
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+// Text that a spreadsheet would evaluate as a formula when the CSV is opened
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a CSV field when needed (RFC 4180), defusing text that would run as a formula
+ */
+function csvField(cell: Cell): string {
+  if (cell === null) {
+    return '';
+  }
+  if (typeof cell === 'number') {
+    return String(cell);
+  }
+  const text = FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV lines for a header and rows, produced as the rows are read
+ */
+export function* csvChunks(headers: string[], rows: Iterable<Cell[]>): Generator<string> {
+  yield headers.map(csvField).join(',') + '\r\n';
+  for (const row of rows) {
+    yield row.map(csvField).join(',') + '\r\n';
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '') // Not allowed in XML
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function xlsxRow(cells: Cell[]): string {
+  const xml = cells.map((cell) => {
+    if (cell === null) {
+      return '<c/>';
+    }
+    if (typeof cell === 'number' && Number.isFinite(cell)) {
+      return `<c><v>${cell}</v></c>`;
+    }
+    return `<c t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(cell))}</t></is></c>`;
+  });
+  return `<row>${xml.join('')}</row>`;
+}
+
+function* sheetXml(headers: string[], rows: Iterable<Cell[]>): Generator<string> {
+  yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" state="frozen"/>' +
+    '</sheetView></sheetViews><sheetData>';
+  yield xlsxRow(headers);
+  for (const row of rows) {
+    yield xlsxRow(row);
+  }
+  yield '</sheetData></worksheet>';
+}
+
+function workbookParts(sheetName: string): [string, string][] {
+  return [
+    [
+      '[Content_Types].xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>',
+    ],
+    [
+      '_rels/.rels',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    ],
+    [
+      'xl/workbook.xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+        'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>',
+    ],
+    [
+      'xl/_rels/workbook.xml.rels',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '</Relationships>',
+    ],
+  ];
+}
+
+/**
+ * CRC-32 as used by ZIP, continued from a previous value
+ */
+export function crc32(data: Buffer, previous = 0): number {
+  let crc = ~previous;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return ~crc >>> 0;
+}
+
+interface ZipEntry {
+  name: string;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+/**
+ * Write a ZIP archive of deflated entries without knowing their sizes up front: each entry is
+ * followed by a data descriptor with its CRC and sizes, and the central directory comes last.
+ */
+async function* zipChunks(
+  files: [string, Iterable<string>][],
+  modified = new Date()
+): AsyncGenerator<Buffer> {
+  const dosTime =
+    (modified.getHours() << 11) | (modified.getMinutes() << 5) | (modified.getSeconds() >> 1);
+  const dosDate =
+    ((modified.getFullYear() - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate();
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (const [name, content] of files) {
+    const entry: ZipEntry = { name, crc: 0, compressedSize: 0, size: 0, offset };
+    const nameBytes = Buffer.from(name, 'utf8');
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4); // Version needed: deflate
+    header.writeUInt16LE(0x0808, 6); // Sizes in the data descriptor, UTF-8 names
+    header.writeUInt16LE(8, 8); // Deflate
+    header.writeUInt16LE(dosTime, 10);
+    header.writeUInt16LE(dosDate, 12);
+    header.writeUInt16LE(nameBytes.length, 26);
+    yield header;
+    yield nameBytes;
+    offset += header.length + nameBytes.length;
+
+    const measured = Readable.from(
+      (function* () {
+        for (const text of content) {
+          const chunk = Buffer.from(text, 'utf8');
+          entry.crc = crc32(chunk, entry.crc);
+          entry.size += chunk.length;
+          yield chunk;
+        }
+      })()
+    );
+    const deflated = pipeline(measured, zlib.createDeflateRaw(), () => {}) as zlib.DeflateRaw;
+    for await (const chunk of deflated) {
+      entry.compressedSize += (chunk as Buffer).length;
+      yield chunk as Buffer;
+    }
+    offset += entry.compressedSize;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    yield descriptor;
+    offset += descriptor.length;
+    entries.push(entry);
+  }
+
+  const directoryOffset = offset;
+  let directorySize = 0;
+  for (const entry of entries) {
+    const nameBytes = Buffer.from(entry.name, 'utf8');
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(20, 4); // Made by
+    record.writeUInt16LE(20, 6); // Version needed
+    record.writeUInt16LE(0x0808, 8);
+    record.writeUInt16LE(8, 10);
+    record.writeUInt16LE(dosTime, 12);
+    record.writeUInt16LE(dosDate, 14);
+    record.writeUInt32LE(entry.crc, 16);
+    record.writeUInt32LE(entry.compressedSize, 20);
+    record.writeUInt32LE(entry.size, 24);
+    record.writeUInt16LE(nameBytes.length, 28);
+    record.writeUInt32LE(entry.offset, 42);
+    yield Buffer.concat([record, nameBytes]);
+    directorySize += record.length + nameBytes.length;
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directorySize, 12);
+  end.writeUInt32LE(directoryOffset, 16);
+  yield end;
+}
+
+/**
+ * A single-sheet XLSX workbook (header row frozen), produced as the rows are read
+ */
+export function xlsxChunks(
+  sheetName: string,
+  headers: string[],
+  rows: Iterable<Cell[]>
+): AsyncGenerator<Buffer> {
+  return zipChunks([
+    ...workbookParts(sheetName).map(([name, xml]): [string, string[]] => [name, [xml]]),
+    ['xl/worksheets/sheet1.xml', sheetXml(headers, rows)],
+  ]);
+}
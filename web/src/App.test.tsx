@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
 import axios from 'axios';
 import App from './App';
 
@@ -16,6 +16,8 @@ Object.defineProperty(window, 'alert', {
 describe('App', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    // Run as a browser that already holds the app API key
+    localStorage.setItem('sovereignMerchantApiKey', 'test-app-key');
   });
 
   describe('Setup Screen (No API Key)', () => {
@@ -72,6 +74,76 @@ describe('App', () => {
     });
   });
 
+  describe('Setup State', () => {
+    const setupStatus = {
+      state: 'QBO_PENDING',
+      reasons: ['Connect QuickBooks Online'],
+      btcpay: {
+        url: 'http://umbrel.local:3003',
+        connected: true,
+        authenticated: true,
+        storeId: 'store_1',
+      },
+      accounting: { provider: 'quickbooks', connected: false },
+      quickbooks: { connected: false, realmId: null },
+      xero: { connected: false, tenantId: null, tenantName: null },
+      mode: null,
+    };
+
+    function mockSetupState(status: object) {
+      mockedAxios.get.mockImplementation((url: string) => {
+        if (url === '/api/setup/state') {
+          return Promise.resolve({ data: status });
+        }
+        if (url === '/api/btcpay/api-key') {
+          return Promise.resolve({ data: { configured: true, key: 'configured' } });
+        }
+        return Promise.reject(new Error('Unknown URL'));
+      });
+    }
+
+    it('should show the setup wizard until setup is complete', async () => {
+      mockSetupState(setupStatus);
+
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Connect QuickBooks', { selector: 'button' })).toBeInTheDocument();
+      });
+      expect(screen.getByLabelText('Setup reasons')).toHaveTextContent('Connect QuickBooks Online');
+      expect(screen.queryByText('Setup Status')).not.toBeInTheDocument();
+    });
+
+    it('should show what needs attention on the dashboard and retry', async () => {
+      mockSetupState({
+        ...setupStatus,
+        state: 'ERROR',
+        reasons: ['BTCPayServer is not reachable at http://umbrel.local:3003'],
+        quickbooks: { connected: true, realmId: '1234567890' },
+        mode: 'deposit',
+      });
+      mockedAxios.post.mockResolvedValue({
+        data: { status: { ...setupStatus, state: 'READY', reasons: [], mode: 'deposit' } },
+      });
+
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByLabelText('Setup problems')).toHaveTextContent(
+          'BTCPayServer is not reachable at http://umbrel.local:3003'
+        );
+      });
+      expect(screen.getByText('Setup Status')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByLabelText('Check the setup again'));
+
+      await waitFor(() => {
+        expect(screen.queryByLabelText('Setup problems')).not.toBeInTheDocument();
+      });
+      expect(mockedAxios.post).toHaveBeenCalledWith('/api/setup/state', { event: 'REFRESH' });
+    });
+  });
+
   describe('Dashboard (API Key Configured)', () => {
     beforeEach(() => {
       // Mock API key configured and successful BTCPay connection
@@ -90,7 +162,12 @@ describe('App', () => {
         }
         if (url === '/api/config') {
           return Promise.resolve({
-            data: { btcpayConfigured: true, quickbooksConfigured: false, setupComplete: true },
+            data: {
+              btcpayConfigured: true,
+              quickbooksConfigured: false,
+              accountingConfigured: false,
+              setupComplete: true,
+            },
           });
         }
         return Promise.reject(new Error('Unknown URL'));
@@ -119,7 +196,7 @@ describe('App', () => {
       await waitFor(() => {
         expect(screen.getByText('Setup Status')).toBeInTheDocument();
         expect(
-          screen.getByText('⚠️ Authenticated with BTCPayServer, connect QuickBooks')
+          screen.getByText('⚠️ Authenticated with BTCPayServer, connect QuickBooks or Xero')
         ).toBeInTheDocument();
       });
     });
@@ -151,7 +228,7 @@ describe('App', () => {
 
       // Should call APIs again
       await waitFor(() => {
-        expect(mockedAxios.get).toHaveBeenCalledTimes(6); // Initial + refresh calls
+        expect(mockedAxios.get).toHaveBeenCalledTimes(12); // Initial + refresh calls
       });
     });
   });
@@ -201,6 +278,48 @@ describe('App', () => {
       expect(screen.getByText('BTCPayServer API key saved successfully!')).toBeInTheDocument();
     });
 
+    it('should list missing permissions with a link to authorize a new key', async () => {
+      const authorizeUrl = 'https://btcpay.example.com/api-keys/authorize?applicationName=x';
+      mockedAxios.get.mockImplementation((url: string) => {
+        if (url === '/api/btcpay/api-key') {
+          return Promise.resolve({ data: { configured: false, key: null, authorizeUrl } });
+        }
+        return Promise.reject(new Error('Unknown URL'));
+      });
+      mockedAxios.post.mockResolvedValue({
+        data: {
+          success: true,
+          missingPermissions: ['btcpay.store.webhooks.canmodifywebhooks'],
+          authorizeUrl,
+        },
+      });
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Set Up BTCPayServer Connection')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByText('Set Up BTCPayServer Connection'));
+      expect(
+        screen.getByText('Create a key in BTCPayServer with these permissions')
+      ).toHaveAttribute('href', authorizeUrl);
+
+      fireEvent.change(screen.getByLabelText('BTCPayServer API key input'), {
+        target: { value: 'test-api-key' },
+      });
+      fireEvent.click(screen.getByText('Save API Key'));
+
+      await waitFor(() => {
+        expect(screen.getByLabelText('Missing permissions')).toBeInTheDocument();
+      });
+      expect(screen.getByLabelText('Missing permissions').textContent).toBe(
+        'btcpay.store.webhooks.canmodifywebhooks'
+      );
+      expect(screen.getByText('Authorize a new key with the right permissions')).toHaveAttribute(
+        'href',
+        authorizeUrl
+      );
+    });
+
     it('should show error for empty API key', async () => {
       render(<App />);
 
@@ -269,7 +388,12 @@ describe('App', () => {
         }
         if (url === '/api/config') {
           return Promise.resolve({
-            data: { btcpayConfigured: false, quickbooksConfigured: false, setupComplete: false },
+            data: {
+              btcpayConfigured: false,
+              quickbooksConfigured: false,
+              accountingConfigured: false,
+              setupComplete: false,
+            },
           });
         }
         return Promise.reject(new Error('Unknown URL'));
@@ -299,7 +423,12 @@ describe('App', () => {
         }
         if (url === '/api/config') {
           return Promise.resolve({
-            data: { btcpayConfigured: false, quickbooksConfigured: false, setupComplete: false },
+            data: {
+              btcpayConfigured: false,
+              quickbooksConfigured: false,
+              accountingConfigured: false,
+              setupComplete: false,
+            },
           });
         }
         return Promise.reject(new Error('Unknown URL'));
@@ -342,7 +471,12 @@ describe('App', () => {
         }
         if (url === '/api/config') {
           return Promise.resolve({
-            data: { btcpayConfigured: true, quickbooksConfigured: false, setupComplete: true },
+            data: {
+              btcpayConfigured: true,
+              quickbooksConfigured: false,
+              accountingConfigured: false,
+              setupComplete: true,
+            },
           });
         }
         return Promise.reject(new Error('Unknown URL'));
@@ -373,4 +507,415 @@ describe('App', () => {
       expect(screen.getByText('💡 What do these statuses mean?')).toBeInTheDocument();
     });
   });
+
+  describe('App API Key', () => {
+    const btcpayNotConfigured = (url: string) => {
+      if (url === '/api/btcpay/api-key') {
+        return Promise.resolve({ data: { configured: false, key: null } });
+      }
+      return Promise.reject(new Error('Unknown URL'));
+    };
+
+    it('should claim the initial key on first visit and send it on every request', async () => {
+      localStorage.clear();
+      mockedAxios.get.mockImplementation((url: string) => {
+        if (url === '/api/config/api-key/initial') {
+          return Promise.resolve({ data: { apiKey: 'initial-key' } });
+        }
+        return btcpayNotConfigured(url);
+      });
+
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Welcome to Sovereign Merchant')).toBeInTheDocument();
+      });
+      expect(localStorage.getItem('sovereignMerchantApiKey')).toBe('initial-key');
+      expect(mockedAxios.defaults.headers.common['Authorization']).toBe('Bearer initial-key');
+    });
+
+    it('should not ask for the initial key when one is stored', async () => {
+      mockedAxios.get.mockImplementation(btcpayNotConfigured);
+
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Welcome to Sovereign Merchant')).toBeInTheDocument();
+      });
+      expect(mockedAxios.get).not.toHaveBeenCalledWith('/api/config/api-key/initial');
+    });
+
+    it('should ask for the key when the API rejects the stored one', async () => {
+      mockedAxios.isAxiosError.mockReturnValue(true);
+      mockedAxios.get.mockImplementation((url: string) => {
+        if (url === '/api/btcpay/api-key') {
+          return Promise.reject({ response: { status: 401 } });
+        }
+        return Promise.reject(new Error('Unknown URL'));
+      });
+
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Enter your Sovereign Merchant API key')).toBeInTheDocument();
+      });
+
+      mockedAxios.get.mockImplementation(btcpayNotConfigured);
+      fireEvent.change(screen.getByLabelText('Sovereign Merchant API key input'), {
+        target: { value: 'saved-key' },
+      });
+      fireEvent.click(screen.getByText('Unlock'));
+
+      await waitFor(() => {
+        expect(screen.getByText('Welcome to Sovereign Merchant')).toBeInTheDocument();
+      });
+      expect(localStorage.getItem('sovereignMerchantApiKey')).toBe('saved-key');
+    });
+
+    it('should rotate the app API key from settings', async () => {
+      mockedAxios.get.mockImplementation(btcpayNotConfigured);
+      mockedAxios.post.mockResolvedValue({ data: { apiKey: 'rotated-key' } });
+
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Set Up BTCPayServer Connection')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByLabelText('Open settings to configure BTCPayServer API key'));
+      fireEvent.click(screen.getByText('Rotate App API Key'));
+
+      await waitFor(() => {
+        expect(screen.getByText('rotated-key')).toBeInTheDocument();
+      });
+      expect(mockedAxios.post).toHaveBeenCalledWith('/api/config/api-key/rotate');
+      expect(localStorage.getItem('sovereignMerchantApiKey')).toBe('rotated-key');
+    });
+  });
+
+  describe('Store Picker', () => {
+    beforeEach(() => {
+      mockedAxios.get.mockImplementation((url: string) => {
+        if (url === '/api/btcpay/api-key') {
+          return Promise.resolve({ data: { configured: true, key: 'configured' } });
+        }
+        if (url === '/api/btcpay/status') {
+          return Promise.resolve({ data: { connected: true, authenticated: true } });
+        }
+        if (url === '/api/btcpay/stores') {
+          return Promise.resolve({
+            data: {
+              stores: [
+                { id: 'store_1', name: 'Coffee Shop', selected: false },
+                { id: 'store_2', name: 'Online Shop', selected: false },
+              ],
+              selectedStoreId: null,
+            },
+          });
+        }
+        return Promise.reject(new Error('Unknown URL'));
+      });
+    });
+
+    it('should ask for a store when several exist and none is selected', async () => {
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByLabelText('Select BTCPayServer store')).toBeInTheDocument();
+      });
+      expect(
+        within(screen.getByLabelText('Select BTCPayServer store')).getByText('Coffee Shop')
+      ).toBeInTheDocument();
+      expect(
+        screen.getByText('⚠️ Choose the store whose payments should be reconciled')
+      ).toBeInTheDocument();
+    });
+
+    it('should save the chosen store', async () => {
+      mockedAxios.put.mockResolvedValue({ data: { success: true } });
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByLabelText('Select BTCPayServer store')).toBeInTheDocument();
+      });
+      fireEvent.change(screen.getByLabelText('Select BTCPayServer store'), {
+        target: { value: 'store_2' },
+      });
+
+      await waitFor(() => {
+        expect(mockedAxios.put).toHaveBeenCalledWith('/api/btcpay/stores/selected', {
+          storeId: 'store_2',
+        });
+      });
+      await waitFor(() => {
+        expect(
+          screen.queryByText('⚠️ Choose the store whose payments should be reconciled')
+        ).not.toBeInTheDocument();
+      });
+    });
+  });
+
+  describe('Webhook Management', () => {
+    const webhook = {
+      id: 'webhook_123',
+      url: 'http://localhost:3000/api/webhooks/btcpay',
+      events: ['InvoicePaymentSettled', 'InvoiceExpired', 'InvoiceInvalid'],
+      active: true,
+    };
+
+    const mockWebhooks = (webhooks: object[]) => {
+      mockedAxios.get.mockImplementation((url: string) => {
+        if (url === '/api/btcpay/api-key') {
+          return Promise.resolve({ data: { configured: true, key: 'configured' } });
+        }
+        if (url === '/api/btcpay/status') {
+          return Promise.resolve({ data: { connected: true, authenticated: true } });
+        }
+        if (url === '/api/btcpay/webhooks') {
+          return Promise.resolve({ data: { webhooks } });
+        }
+        return Promise.reject(new Error('Unknown URL'));
+      });
+    };
+
+    it('should set up a webhook when none exists', async () => {
+      mockWebhooks([]);
+      mockedAxios.post.mockResolvedValue({ data: { success: true } });
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Set up webhook')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByText('Set up webhook'));
+
+      await waitFor(() => {
+        expect(mockedAxios.post).toHaveBeenCalledWith('/api/btcpay/webhook/register');
+      });
+    });
+
+    it('should show delivery health for each webhook', async () => {
+      mockWebhooks([
+        {
+          ...webhook,
+          health: {
+            lastSuccessAt: '2024-01-15T10:30:00Z',
+            lastFailureAt: '2024-01-15T12:00:00Z',
+            failureCount: 3,
+            lastError: 'HTTP 502',
+          },
+        },
+      ]);
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByLabelText(`Delivery health for ${webhook.url}`)).toBeInTheDocument();
+      });
+      const health = screen.getByLabelText(`Delivery health for ${webhook.url}`);
+      expect(health).toHaveClass('failing');
+      expect(health.textContent).toContain('Failing deliveries: 3');
+      expect(health.textContent).toContain('Last error: HTTP 502');
+    });
+
+    it('should disable, rotate and delete a webhook', async () => {
+      mockWebhooks([webhook]);
+      mockedAxios.put.mockResolvedValue({ data: { success: true } });
+      mockedAxios.post.mockResolvedValue({ data: { success: true } });
+      mockedAxios.delete.mockResolvedValue({ data: { success: true } });
+      vi.spyOn(window, 'confirm').mockReturnValue(true);
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByLabelText(`Disable webhook ${webhook.url}`)).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByLabelText(`Disable webhook ${webhook.url}`));
+      await waitFor(() => {
+        expect(mockedAxios.put).toHaveBeenCalledWith('/api/btcpay/webhooks/webhook_123', {
+          active: false,
+        });
+      });
+
+      fireEvent.click(screen.getByLabelText(`Rotate secret for webhook ${webhook.url}`));
+      await waitFor(() => {
+        expect(mockedAxios.post).toHaveBeenCalledWith(
+          '/api/btcpay/webhooks/webhook_123/rotate-secret'
+        );
+      });
+
+      fireEvent.click(screen.getByLabelText(`Delete webhook ${webhook.url}`));
+      await waitFor(() => {
+        expect(mockedAxios.delete).toHaveBeenCalledWith('/api/btcpay/webhooks/webhook_123');
+      });
+    });
+  });
+
+  describe('Invoice Lifecycle', () => {
+    it('should show where each invoice is in its lifecycle', async () => {
+      mockedAxios.get.mockImplementation((url: string) => {
+        if (url === '/api/btcpay/api-key') {
+          return Promise.resolve({ data: { configured: true, key: 'configured' } });
+        }
+        if (url === '/api/btcpay/status') {
+          return Promise.resolve({ data: { connected: true, authenticated: true } });
+        }
+        if (url === '/api/settled-invoices') {
+          return Promise.resolve({
+            data: {
+              invoices: [
+                {
+                  id: 'invoice_456',
+                  invoiceId: 'invoice_456',
+                  storeId: 'store_1',
+                  status: 'expired',
+                  events: [
+                    {
+                      id: 'event_1',
+                      type: 'InvoicePaymentSettled',
+                      receivedAt: '2024-01-15T10:30:00Z',
+                    },
+                    { id: 'event_2', type: 'InvoiceExpired', receivedAt: '2024-01-15T12:00:00Z' },
+                  ],
+                  lastEventAt: '2024-01-15T12:00:00Z',
+                  settledAt: '2024-01-15T10:30:00Z',
+                  reconciliation: { status: 'partial', error: null },
+                  quickbooksStatus: 'sent_to_quickbooks',
+                  quickbooksTransactionId: 'qbo_txn_1',
+                  amount: 60,
+                  currency: 'USD',
+                  customerInfo: 'customer@example.com',
+                  quickbooksData: null,
+                },
+              ],
+            },
+          });
+        }
+        return Promise.reject(new Error('Unknown URL'));
+      });
+
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByText('⌛ Expired')).toBeInTheDocument();
+      });
+      const events = screen.getByLabelText('Invoice events');
+      expect(events.children).toHaveLength(2);
+      expect(events.textContent).toContain('InvoicePaymentSettled');
+      expect(events.textContent).toContain('InvoiceExpired');
+    });
+
+    it('should show how an invalidated invoice was taken out of the books', async () => {
+      mockedAxios.get.mockImplementation((url: string) => {
+        if (url === '/api/btcpay/api-key') {
+          return Promise.resolve({ data: { configured: true, key: 'configured' } });
+        }
+        if (url === '/api/btcpay/status') {
+          return Promise.resolve({ data: { connected: true, authenticated: true } });
+        }
+        if (url === '/api/settled-invoices') {
+          return Promise.resolve({
+            data: {
+              invoices: [
+                {
+                  id: 'invoice_321',
+                  invoiceId: 'invoice_321',
+                  storeId: 'store_1',
+                  status: 'invalid',
+                  events: [
+                    { id: 'event_1', type: 'InvoiceInvalid', receivedAt: '2024-01-15T10:30:00Z' },
+                  ],
+                  lastEventAt: '2024-01-15T10:30:00Z',
+                  settledAt: null,
+                  reconciliation: {
+                    id: 'rec_1',
+                    status: 'invalidated',
+                    currency: 'USD',
+                    error: 'Invoice was marked invalid in BTCPayServer; voided SalesReceipt 77',
+                    retry: null,
+                    refundedFiat: 0,
+                    reversal: {
+                      status: 'reversed',
+                      method: 'void',
+                      transactionId: '77',
+                      transactionType: 'SalesReceipt',
+                    },
+                  },
+                  quickbooksStatus: 'sent_to_quickbooks',
+                  quickbooksTransactionId: '77',
+                  amount: 100,
+                  currency: 'USD',
+                  customerInfo: 'customer@example.com',
+                  quickbooksData: null,
+                },
+              ],
+            },
+          });
+        }
+        return Promise.reject(new Error('Unknown URL'));
+      });
+
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Voided SalesReceipt 77 in the books')).toBeInTheDocument();
+      });
+      expect(screen.getByText('🚫 Invalid')).toBeInTheDocument();
+    });
+
+    it('should retry failed reconciliations one by one or all at once', async () => {
+      const failedInvoice = {
+        id: 'invoice_789',
+        invoiceId: 'invoice_789',
+        storeId: 'store_1',
+        status: 'settled',
+        events: [{ id: 'event_1', type: 'InvoiceSettled', receivedAt: '2024-01-15T10:30:00Z' }],
+        lastEventAt: '2024-01-15T10:30:00Z',
+        settledAt: '2024-01-15T10:30:00Z',
+        reconciliation: {
+          id: 'rec_1',
+          status: 'failed',
+          error: 'QuickBooks API returned HTTP 503',
+          retry: {
+            status: 'dead',
+            attempts: 8,
+            nextAttemptAt: null,
+            errorKind: 'transient',
+          },
+        },
+        quickbooksStatus: 'pending',
+        quickbooksTransactionId: null,
+        amount: 100,
+        currency: 'USD',
+        customerInfo: 'customer@example.com',
+        quickbooksData: null,
+      };
+      mockedAxios.get.mockImplementation((url: string) => {
+        if (url === '/api/btcpay/api-key') {
+          return Promise.resolve({ data: { configured: true, key: 'configured' } });
+        }
+        if (url === '/api/btcpay/status') {
+          return Promise.resolve({ data: { connected: true, authenticated: true } });
+        }
+        if (url === '/api/settled-invoices') {
+          return Promise.resolve({ data: { invoices: [failedInvoice] } });
+        }
+        return Promise.reject(new Error('Unknown URL'));
+      });
+      mockedAxios.post.mockResolvedValue({ data: { success: true } });
+
+      render(<App />);
+
+      await waitFor(() => {
+        expect(screen.getByText('Gave up after 8 attempt(s)')).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByLabelText('Retry reconciliation of invoice invoice_789'));
+      await waitFor(() => {
+        expect(mockedAxios.post).toHaveBeenCalledWith('/api/reconciliations/rec_1/retry');
+      });
+
+      fireEvent.click(screen.getByLabelText('Retry all failed reconciliations'));
+      await waitFor(() => {
+        expect(mockedAxios.post).toHaveBeenCalledWith('/api/reconciliations/retry-failed');
+      });
+    });
+  });
 });
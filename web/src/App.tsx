@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
 import './App.css';
 import axios from 'axios';
+import SetupWizard, { ReconciliationMode, SetupStatus, sendSetupEvent } from './SetupWizard';
+import ReconciliationSettings, { AccountMapping } from './ReconciliationSettings';
+import Exports from './Exports';
 
 interface BTCPayStatus {
   connected: boolean;
@@ -15,12 +18,27 @@ interface BTCPayStatus {
 interface ConfigStatus {
   btcpayConfigured: boolean;
   quickbooksConfigured: boolean;
+  accountingConfigured: boolean; // The chosen provider (QuickBooks or Xero) is connected
   setupComplete: boolean;
 }
 
 interface ApiKeyStatus {
   configured: boolean;
   key: string | null;
+  authorizeUrl?: string | null;
+}
+
+interface SaveApiKeyResponse {
+  success: boolean;
+  missingPermissions: string[] | null; // Null when BTCPay couldn't report the key's permissions
+  authorizeUrl: string | null;
+}
+
+interface WebhookDeliveryHealth {
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  failureCount: number;
+  lastError: string | null;
 }
 
 interface WebhookData {
@@ -28,17 +46,49 @@ interface WebhookData {
   url: string;
   events: string[];
   active: boolean;
+  health?: WebhookDeliveryHealth;
 }
 
 interface WebhookResponse {
   webhooks: WebhookData[];
 }
 
+interface BTCPayStore {
+  id: string;
+  name: string;
+  selected: boolean;
+}
+
+interface StoresResponse {
+  stores: BTCPayStore[];
+  selectedStoreId: string | null;
+}
+
+type InvoiceLifecycleStatus = 'pending' | 'paying' | 'settled' | 'expired' | 'invalid' | 'refunded';
+
+interface InvoiceEvent {
+  id: string;
+  type: string;
+  receivedAt: string;
+}
+
 interface SettledInvoice {
   id: string;
   invoiceId: string;
   storeId: string;
-  settledAt: string;
+  status: InvoiceLifecycleStatus;
+  events: InvoiceEvent[];
+  lastEventAt: string;
+  settledAt: string | null;
+  reconciliation: {
+    id: string;
+    status: string;
+    currency: string | null;
+    error: string | null;
+    retry: ReconciliationRetry | null;
+    refundedFiat: number; // Cents refunded and posted to the books
+    reversal: ReconciliationReversal | null;
+  } | null;
   quickbooksStatus: 'pending' | 'sent_to_quickbooks';
   quickbooksTransactionId: string | null;
   amount: string | number;
@@ -49,15 +99,60 @@ interface SettledInvoice {
     currency: string;
     date: string;
     description: string;
-    customer: string;
+    mode: ReconciliationMode;
+    accounts: AccountMapping;
+    billEmail: string | null;
   } | null;
 }
 
+// Retry job of a reconciliation that failed to post
+interface ReconciliationRetry {
+  status: 'scheduled' | 'dead';
+  attempts: number;
+  nextAttemptAt: string | null;
+  errorKind: 'transient' | 'permanent' | null;
+}
+
+// Reversal of the posted transaction of an invoice that was later invalidated
+interface ReconciliationReversal {
+  status: 'reversed' | 'failed';
+  method: 'void' | 'journal_entry' | null;
+  transactionId: string | null;
+  transactionType: string | null;
+}
+
 interface SettledInvoicesResponse {
   invoices: SettledInvoice[];
   error?: string;
 }
 
+const LIFECYCLE_LABELS: Record<InvoiceLifecycleStatus, string> = {
+  pending: '🕓 Awaiting payment',
+  paying: '💸 Partially paid',
+  settled: '✅ Settled',
+  expired: '⌛ Expired',
+  invalid: '🚫 Invalid',
+  refunded: '↩️ Refunded',
+};
+
+// Sovereign Merchant's own API key (protects /api), not the BTCPayServer API key
+const APP_API_KEY_STORAGE_KEY = 'sovereignMerchantApiKey';
+
+/**
+ * Remember the app API key and send it as a bearer token on every request
+ */
+function applyAppApiKey(apiKey: string | null) {
+  if (apiKey) {
+    localStorage.setItem(APP_API_KEY_STORAGE_KEY, apiKey);
+    axios.defaults.headers.common['Authorization'] = `Bearer ${apiKey}`;
+  } else {
+    localStorage.removeItem(APP_API_KEY_STORAGE_KEY);
+    delete axios.defaults.headers.common['Authorization'];
+  }
+}
+
+applyAppApiKey(localStorage.getItem(APP_API_KEY_STORAGE_KEY));
+
 function App() {
   const [btcpayStatus, setBtcpayStatus] = useState<BTCPayStatus | null>(null);
   const [configStatus, setConfigStatus] = useState<ConfigStatus | null>(null);
@@ -66,6 +161,9 @@ function App() {
   const [webhooks, setWebhooks] = useState<WebhookData[]>([]);
   const [webhookError, setWebhookError] = useState<string | null>(null);
   const [webhookLoading, setWebhookLoading] = useState(false);
+  const [stores, setStores] = useState<BTCPayStore[]>([]);
+  const [selectedStoreId, setSelectedStoreId] = useState<string | null>(null);
+  const [storesError, setStoresError] = useState<string | null>(null);
   const [settledInvoices, setSettledInvoices] = useState<SettledInvoice[]>([]);
   const [settledInvoicesError, setSettledInvoicesError] = useState<string | null>(null);
   const [settledInvoicesLoading, setSettledInvoicesLoading] = useState(false);
@@ -73,12 +171,26 @@ function App() {
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [apiKeyInput, setApiKeyInput] = useState('');
   const [showHelp, setShowHelp] = useState(false);
+  const [appLocked, setAppLocked] = useState(false);
+  const [appApiKeyInput, setAppApiKeyInput] = useState('');
+  const [rotatedAppApiKey, setRotatedAppApiKey] = useState<string | null>(null);
+  const [savedApiKeyCheck, setSavedApiKeyCheck] = useState<SaveApiKeyResponse | null>(null);
+  const [setupStatus, setSetupStatus] = useState<SetupStatus | null>(null);
+  const [showReconciliationSettings, setShowReconciliationSettings] = useState(false);
 
   useEffect(() => {
     initializeApp();
   }, []);
 
   const initializeApp = async () => {
+    // Make sure we can talk to our own API before anything else
+    if (!localStorage.getItem(APP_API_KEY_STORAGE_KEY)) {
+      await claimInitialAppApiKey();
+    }
+
+    // Setup state decides between the wizard and the dashboard
+    await checkSetupState();
+
     // Check API key status first
     const keyStatus = await checkApiKeyStatus();
 
@@ -86,6 +198,7 @@ function App() {
     if (keyStatus?.configured) {
       await checkBtcpayStatus();
       await checkConfigStatus();
+      await fetchStores();
       await fetchWebhooks();
       await fetchSettledInvoices();
     } else {
@@ -94,8 +207,10 @@ function App() {
       setConfigStatus({
         btcpayConfigured: false,
         quickbooksConfigured: false,
+        accountingConfigured: false,
         setupComplete: false,
       });
+      setStores([]);
       setWebhooks([]);
       setWebhookError(null);
       setSettledInvoices([]);
@@ -105,6 +220,65 @@ function App() {
     setLoading(false);
   };
 
+  const claimInitialAppApiKey = async () => {
+    // First visit after install: the server hands out its generated key exactly once
+    try {
+      const response = await axios.get<{ apiKey: string }>('/api/config/api-key/initial');
+      if (response.data?.apiKey) {
+        applyAppApiKey(response.data.apiKey);
+      }
+    } catch (error) {
+      console.error('Initial app API key is not available:', error);
+    }
+  };
+
+  const unlockApp = async () => {
+    if (!appApiKeyInput.trim()) {
+      alert('Please enter your Sovereign Merchant API key');
+      return;
+    }
+    applyAppApiKey(appApiKeyInput.trim());
+    setAppApiKeyInput('');
+    setAppLocked(false);
+    await initializeApp();
+  };
+
+  const rotateAppApiKey = async () => {
+    try {
+      const response = await axios.post<{ apiKey: string }>('/api/config/api-key/rotate');
+      applyAppApiKey(response.data.apiKey);
+      setRotatedAppApiKey(response.data.apiKey);
+    } catch (error) {
+      console.error('Failed to rotate app API key:', error);
+      alert('Failed to rotate app API key. Check console for details.');
+    }
+  };
+
+  const checkSetupState = async () => {
+    try {
+      const response = await axios.get<SetupStatus>('/api/setup/state');
+      setSetupStatus(response.data);
+    } catch (error) {
+      console.error('Failed to check setup state:', error);
+      setSetupStatus(null);
+    }
+  };
+
+  const updateSetupStatus = async (status: SetupStatus) => {
+    setSetupStatus(status);
+    // Setup just finished: load everything the dashboard shows
+    if (status.state === 'READY' || status.state === 'ERROR') {
+      await initializeApp();
+    }
+  };
+
+  const retrySetup = async () => {
+    const status = await sendSetupEvent({ event: 'REFRESH' });
+    if (status) {
+      setSetupStatus(status);
+    }
+  };
+
   const checkBtcpayStatus = async () => {
     try {
       const btcpayResponse = await axios.get('/api/btcpay/status');
@@ -124,6 +298,7 @@ function App() {
       setConfigStatus({
         btcpayConfigured: false,
         quickbooksConfigured: false,
+        accountingConfigured: false,
         setupComplete: false,
       });
     }
@@ -136,12 +311,41 @@ function App() {
       return response.data;
     } catch (error) {
       console.error('Failed to check API key status:', error);
+      if (axios.isAxiosError(error) && error.response?.status === 401) {
+        // Our own API rejected us - ask for the app API key
+        setAppLocked(true);
+      }
       const defaultStatus = { configured: false, key: null };
       setApiKeyStatus(defaultStatus);
       return defaultStatus;
     }
   };
 
+  const fetchStores = async () => {
+    setStoresError(null);
+    try {
+      const response = await axios.get<StoresResponse>('/api/btcpay/stores');
+      setStores(response.data.stores);
+      setSelectedStoreId(response.data.selectedStoreId);
+    } catch (error) {
+      console.error('Failed to fetch stores:', error);
+      setStoresError('Failed to fetch stores from BTCPayServer');
+      setStores([]);
+    }
+  };
+
+  const selectStore = async (storeId: string) => {
+    try {
+      await axios.put('/api/btcpay/stores/selected', { storeId });
+      setSelectedStoreId(storeId);
+      // Webhooks are per store
+      await fetchWebhooks();
+    } catch (error) {
+      console.error('Failed to select store:', error);
+      alert('Failed to select store. Check console for details.');
+    }
+  };
+
   const fetchWebhooks = async () => {
     setWebhookLoading(true);
     setWebhookError(null);
@@ -170,6 +374,49 @@ function App() {
     }
   };
 
+  const setupWebhook = async () => {
+    try {
+      await axios.post('/api/btcpay/webhook/register');
+    } catch (error) {
+      console.error('Failed to set up webhook:', error);
+      alert('Failed to set up webhook. Check console for details.');
+    }
+    await fetchWebhooks();
+  };
+
+  const toggleWebhook = async (webhook: WebhookData) => {
+    try {
+      await axios.put(`/api/btcpay/webhooks/${webhook.id}`, { active: !webhook.active });
+    } catch (error) {
+      console.error('Failed to update webhook:', error);
+      alert('Failed to update webhook. Check console for details.');
+    }
+    await fetchWebhooks();
+  };
+
+  const rotateWebhookSecret = async (webhook: WebhookData) => {
+    try {
+      await axios.post(`/api/btcpay/webhooks/${webhook.id}/rotate-secret`);
+    } catch (error) {
+      console.error('Failed to rotate webhook secret:', error);
+      alert('Failed to rotate webhook secret. Check console for details.');
+    }
+    await fetchWebhooks();
+  };
+
+  const deleteWebhook = async (webhook: WebhookData) => {
+    if (!window.confirm(`Delete the webhook pointing at ${webhook.url}?`)) {
+      return;
+    }
+    try {
+      await axios.delete(`/api/btcpay/webhooks/${webhook.id}`);
+    } catch (error) {
+      console.error('Failed to delete webhook:', error);
+      alert('Failed to delete webhook. Check console for details.');
+    }
+    await fetchWebhooks();
+  };
+
   const fetchSettledInvoices = async () => {
     setSettledInvoicesLoading(true);
     setSettledInvoicesError(null);
@@ -193,6 +440,26 @@ function App() {
     }
   };
 
+  const retryReconciliation = async (reconciliationId: string) => {
+    try {
+      await axios.post(`/api/reconciliations/${reconciliationId}/retry`);
+    } catch (error) {
+      console.error('Failed to retry reconciliation:', error);
+      alert('Failed to retry reconciliation. Check console for details.');
+    }
+    await fetchSettledInvoices();
+  };
+
+  const retryAllFailed = async () => {
+    try {
+      await axios.post('/api/reconciliations/retry-failed');
+    } catch (error) {
+      console.error('Failed to retry failed reconciliations:', error);
+      alert('Failed to retry failed reconciliations. Check console for details.');
+    }
+    await fetchSettledInvoices();
+  };
+
   const saveApiKey = async () => {
     if (!apiKeyInput.trim()) {
       alert('Please enter a valid API key');
@@ -200,7 +467,10 @@ function App() {
     }
 
     try {
-      await axios.post('/api/btcpay/api-key', { apiKey: apiKeyInput.trim() });
+      const response = await axios.post<SaveApiKeyResponse>('/api/btcpay/api-key', {
+        apiKey: apiKeyInput.trim(),
+      });
+      setSavedApiKeyCheck(response.data);
       setApiKeyInput('');
       setShowApiKeyForm(false);
       setShowSuccessModal(true);
@@ -216,7 +486,7 @@ function App() {
     <div className="App">
       <header className="App-header">
         <h1>⚡ Sovereign Merchant</h1>
-        <p>A plug-and-play reconciliation bridge between BTCPayServer and QuickBooks</p>
+        <p>A plug-and-play reconciliation bridge between BTCPayServer and QuickBooks or Xero</p>
 
         {/* Settings gear icon */}
         <div className="settings-header">
@@ -231,7 +501,39 @@ function App() {
         </div>
 
         {/* Main content based on configuration state */}
-        {!apiKeyStatus?.configured ? (
+        {appLocked ? (
+          /* Unlock screen when the stored app API key is missing or was rotated elsewhere */
+          <div className="setup-screen">
+            <div className="setup-card">
+              <h2>Enter your Sovereign Merchant API key</h2>
+              <p>
+                This browser is not signed in. Paste the app API key you saved during setup, or the
+                one shown after the last key rotation.
+              </p>
+              <div className="form-group">
+                <label htmlFor="appApiKey">App API Key:</label>
+                <input
+                  type="password"
+                  id="appApiKey"
+                  value={appApiKeyInput}
+                  onChange={(e) => setAppApiKeyInput(e.target.value)}
+                  placeholder="Enter your Sovereign Merchant API key"
+                  autoComplete="off"
+                  aria-label="Sovereign Merchant API key input"
+                />
+              </div>
+              <button
+                onClick={unlockApp}
+                className="primary-setup-button"
+                aria-label="Unlock Sovereign Merchant with the entered API key"
+              >
+                Unlock
+              </button>
+            </div>
+          </div>
+        ) : setupStatus && setupStatus.state !== 'READY' && setupStatus.state !== 'ERROR' ? (
+          <SetupWizard status={setupStatus} onStatusChange={updateSetupStatus} />
+        ) : !apiKeyStatus?.configured ? (
           /* Setup screen for new users */
           <div className="setup-screen">
             <div className="setup-card">
@@ -268,6 +570,20 @@ function App() {
         ) : (
           /* Dashboard for configured users */
           <div className="dashboard">
+            {setupStatus?.state === 'ERROR' && (
+              <div className="setup-error-banner" role="alert">
+                <strong>⚠️ Sovereign Merchant needs attention</strong>
+                <ul aria-label="Setup problems">
+                  {setupStatus.reasons.map((reason) => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+                <button onClick={retrySetup} aria-label="Check the setup again">
+                  Retry
+                </button>
+              </div>
+            )}
+
             {/* Connection status indicator */}
             <div
               className={`connection-status ${btcpayStatus?.authenticated ? 'connected' : btcpayStatus?.connected ? 'error' : 'disconnected'}`}
@@ -301,17 +617,17 @@ function App() {
                     <div>
                       <p
                         className={
-                          configStatus.setupComplete && configStatus.quickbooksConfigured
+                          configStatus.setupComplete && configStatus.accountingConfigured
                             ? 'status-good'
                             : btcpayStatus?.authenticated
                               ? 'status-warning'
                               : 'status-error'
                         }
                       >
-                        {configStatus.setupComplete && configStatus.quickbooksConfigured
+                        {configStatus.setupComplete && configStatus.accountingConfigured
                           ? '✅ Fully Configured'
                           : btcpayStatus?.authenticated
-                            ? '⚠️ Authenticated with BTCPayServer, connect QuickBooks'
+                            ? '⚠️ Authenticated with BTCPayServer, connect QuickBooks or Xero'
                             : !apiKeyStatus?.configured
                               ? '❌ Set up BTCPayServer connection'
                               : btcpayStatus?.connected
@@ -320,8 +636,8 @@ function App() {
                       </p>
                       <small>
                         BTCPay Server: {btcpayStatus?.connected ? '✅' : '❌'} | API Key:{' '}
-                        {btcpayStatus?.authenticated ? '✅' : '❌'} | QuickBooks:{' '}
-                        {configStatus.quickbooksConfigured ? '✅' : '❌'}
+                        {btcpayStatus?.authenticated ? '✅' : '❌'} | Books:{' '}
+                        {configStatus.accountingConfigured ? '✅' : '❌'}
                       </small>
                     </div>
                   ) : (
@@ -329,6 +645,39 @@ function App() {
                   )}
                 </div>
 
+                <div className="status-card">
+                  <h3>BTCPay Store</h3>
+                  {storesError ? (
+                    <p className="status-error">❌ {storesError}</p>
+                  ) : stores.length === 0 ? (
+                    <p>No stores found.</p>
+                  ) : (
+                    <div className="form-group">
+                      <select
+                        value={selectedStoreId ?? ''}
+                        onChange={(e) => selectStore(e.target.value)}
+                        aria-label="Select BTCPayServer store"
+                      >
+                        {!selectedStoreId && (
+                          <option value="" disabled>
+                            Choose a store...
+                          </option>
+                        )}
+                        {stores.map((store) => (
+                          <option key={store.id} value={store.id}>
+                            {store.name}
+                          </option>
+                        ))}
+                      </select>
+                      {!selectedStoreId && stores.length > 1 && (
+                        <small className="status-warning">
+                          ⚠️ Choose the store whose payments should be reconciled
+                        </small>
+                      )}
+                    </div>
+                  )}
+                </div>
+
                 <div className="status-card">
                   <h3>
                     Webhooks
@@ -349,7 +698,12 @@ function App() {
                       <p className="status-error">❌ {webhookError}</p>
                     </div>
                   ) : webhooks.length === 0 ? (
-                    <p>No webhooks configured yet.</p>
+                    <div>
+                      <p>No webhooks configured yet.</p>
+                      <button onClick={setupWebhook} className="link-button">
+                        Set up webhook
+                      </button>
+                    </div>
                   ) : (
                     <div className="webhook-list">
                       {webhooks.map((webhook) => (
@@ -363,6 +717,43 @@ function App() {
                             <strong>{webhook.url}</strong>
                           </div>
                           <div className="webhook-events">Events: {webhook.events.join(', ')}</div>
+                          {webhook.health && (
+                            <div
+                              className={`webhook-health ${webhook.health.failureCount > 0 ? 'failing' : 'healthy'}`}
+                              aria-label={`Delivery health for ${webhook.url}`}
+                            >
+                              <span>
+                                Last success:{' '}
+                                {webhook.health.lastSuccessAt
+                                  ? new Date(webhook.health.lastSuccessAt).toLocaleString()
+                                  : 'never'}
+                              </span>
+                              <span>Failing deliveries: {webhook.health.failureCount}</span>
+                              {webhook.health.lastError && (
+                                <span>Last error: {webhook.health.lastError}</span>
+                              )}
+                            </div>
+                          )}
+                          <div className="webhook-actions">
+                            <button
+                              onClick={() => toggleWebhook(webhook)}
+                              aria-label={`${webhook.active ? 'Disable' : 'Enable'} webhook ${webhook.url}`}
+                            >
+                              {webhook.active ? 'Disable' : 'Enable'}
+                            </button>
+                            <button
+                              onClick={() => rotateWebhookSecret(webhook)}
+                              aria-label={`Rotate secret for webhook ${webhook.url}`}
+                            >
+                              Rotate secret
+                            </button>
+                            <button
+                              onClick={() => deleteWebhook(webhook)}
+                              aria-label={`Delete webhook ${webhook.url}`}
+                            >
+                              Delete
+                            </button>
+                          </div>
                         </div>
                       ))}
                     </div>
@@ -371,25 +762,37 @@ function App() {
 
                 <div className="status-card">
                   <h3>
-                    Settled Invoices
+                    Invoices
                     <button
                       onClick={fetchSettledInvoices}
                       disabled={settledInvoicesLoading}
                       className="refresh-webhooks-btn"
-                      title="Refresh settled invoices"
-                      aria-label="Refresh settled invoices list"
+                      title="Refresh invoices"
+                      aria-label="Refresh invoices list"
                     >
                       🔄
                     </button>
+                    {settledInvoices.some(
+                      (invoice) => invoice.reconciliation?.status === 'failed'
+                    ) && (
+                      <button
+                        onClick={retryAllFailed}
+                        disabled={settledInvoicesLoading}
+                        className="retry-all-btn"
+                        aria-label="Retry all failed reconciliations"
+                      >
+                        Retry all failed
+                      </button>
+                    )}
                   </h3>
                   {settledInvoicesLoading ? (
-                    <p>Loading settled invoices...</p>
+                    <p>Loading invoices...</p>
                   ) : settledInvoicesError ? (
                     <div className="webhook-error">
                       <p className="status-error">❌ {settledInvoicesError}</p>
                     </div>
                   ) : settledInvoices.length === 0 ? (
-                    <p>No settled invoices yet.</p>
+                    <p>No invoices yet.</p>
                   ) : (
                     <div className="settled-invoices-list">
                       {settledInvoices.map((invoice) => (
@@ -401,6 +804,9 @@ function App() {
                               {invoice.quickbooksStatus === 'sent_to_quickbooks' ? '✅' : '⏳'}
                             </span>
                             <strong>{invoice.invoiceId}</strong>
+                            <span className={`invoice-lifecycle ${invoice.status}`}>
+                              {LIFECYCLE_LABELS[invoice.status] ?? invoice.status}
+                            </span>
                             <span className="invoice-amount">
                               {typeof invoice.amount === 'number'
                                 ? `$${invoice.amount.toFixed(2)}`
@@ -411,8 +817,57 @@ function App() {
                           <div className="invoice-details">
                             <div className="invoice-info">
                               <span>Customer: {invoice.customerInfo}</span>
-                              <span>Settled: {new Date(invoice.settledAt).toLocaleString()}</span>
+                              {invoice.settledAt ? (
+                                <span>Settled: {new Date(invoice.settledAt).toLocaleString()}</span>
+                              ) : (
+                                <span>
+                                  Last update: {new Date(invoice.lastEventAt).toLocaleString()}
+                                </span>
+                              )}
+                              {!!invoice.reconciliation?.refundedFiat && (
+                                <span className="invoice-refund">
+                                  Refunded: {(invoice.reconciliation.refundedFiat / 100).toFixed(2)}{' '}
+                                  {invoice.reconciliation.currency}
+                                </span>
+                              )}
+                              {invoice.reconciliation?.reversal?.status === 'reversed' && (
+                                <span className="reconciliation-reversal">
+                                  {invoice.reconciliation.reversal.method === 'void'
+                                    ? `Voided ${invoice.reconciliation.reversal.transactionType} ${invoice.reconciliation.reversal.transactionId} in the books`
+                                    : `Reversed by ${invoice.reconciliation.reversal.transactionType} ${invoice.reconciliation.reversal.transactionId}`}
+                                </span>
+                              )}
+                              {invoice.reconciliation?.error && (
+                                <span className="status-error">{invoice.reconciliation.error}</span>
+                              )}
+                              {invoice.reconciliation?.retry && (
+                                <span className="reconciliation-retry">
+                                  {invoice.reconciliation.retry.status === 'dead'
+                                    ? `Gave up after ${invoice.reconciliation.retry.attempts} attempt(s)`
+                                    : invoice.reconciliation.retry.nextAttemptAt
+                                      ? `Retrying ${new Date(invoice.reconciliation.retry.nextAttemptAt).toLocaleString()}`
+                                      : 'Retry queued'}
+                                </span>
+                              )}
+                              {invoice.reconciliation &&
+                                (invoice.reconciliation.status === 'failed' ||
+                                  invoice.reconciliation.retry) && (
+                                  <button
+                                    onClick={() => retryReconciliation(invoice.reconciliation!.id)}
+                                    className="retry-reconciliation-btn"
+                                    aria-label={`Retry reconciliation of invoice ${invoice.invoiceId}`}
+                                  >
+                                    Retry now
+                                  </button>
+                                )}
                             </div>
+                            <ol className="invoice-events" aria-label="Invoice events">
+                              {invoice.events.map((event) => (
+                                <li key={event.id}>
+                                  {event.type} · {new Date(event.receivedAt).toLocaleString()}
+                                </li>
+                              ))}
+                            </ol>
                             {invoice.quickbooksData && (
                               <div className="quickbooks-preview">
                                 <h5>📊 QuickBooks Data:</h5>
@@ -420,7 +875,15 @@ function App() {
                                   <span>Amount: ${invoice.quickbooksData.amount.toFixed(2)}</span>
                                   <span>Date: {invoice.quickbooksData.date}</span>
                                   <span>Description: {invoice.quickbooksData.description}</span>
-                                  <span>Customer: {invoice.quickbooksData.customer}</span>
+                                  <span>
+                                    Recorded as:{' '}
+                                    {invoice.quickbooksData.mode === 'invoicing'
+                                      ? 'Invoice payment'
+                                      : 'Deposit'}
+                                  </span>
+                                  {invoice.quickbooksData.billEmail && (
+                                    <span>Bill email: {invoice.quickbooksData.billEmail}</span>
+                                  )}
                                 </div>
                               </div>
                             )}
@@ -499,6 +962,11 @@ function App() {
                     </div>
                   </div>
                 </div>
+
+                <div className="status-card">
+                  <h3>Exports</h3>
+                  <Exports stores={stores} />
+                </div>
               </div>
 
               <div className="actions">
@@ -509,6 +977,12 @@ function App() {
                 >
                   Refresh Status
                 </button>
+                <button
+                  onClick={() => setShowReconciliationSettings(true)}
+                  aria-label="Choose the reconciliation mode and accounts"
+                >
+                  Reconciliation Settings
+                </button>
               </div>
             </div>
           </div>
@@ -536,8 +1010,34 @@ function App() {
                       <strong>btcpay.store.canviewinvoices</strong>
                     </div>
                   </li>
+                  <li>
+                    View your stores
+                    <div className="permission-code">
+                      <strong>btcpay.store.canviewstoresettings</strong>
+                    </div>
+                  </li>
+                  <li>
+                    Create and invalidate invoices (for "Pay in Bitcoin" links)
+                    <div className="permission-code">
+                      <strong>btcpay.store.canmodifyinvoices</strong>
+                    </div>
+                  </li>
+                  <li>
+                    View pull payments (to record refunds)
+                    <div className="permission-code">
+                      <strong>btcpay.store.canviewpullpayments</strong>
+                    </div>
+                  </li>
                 </ul>
 
+                {apiKeyStatus?.authorizeUrl && (
+                  <p>
+                    <a href={apiKeyStatus.authorizeUrl} target="_blank" rel="noopener noreferrer">
+                      Create a key in BTCPayServer with these permissions
+                    </a>
+                  </p>
+                )}
+
                 <div className="instructions">
                   <h4>How to create an API key:</h4>
                   <ol>
@@ -566,11 +1066,31 @@ function App() {
                   </div>
                 </div>
 
+                <div className="app-api-key-section">
+                  <h4>Sovereign Merchant API Key</h4>
+                  <p>
+                    This browser uses a separate key to access Sovereign Merchant itself. Rotating
+                    it signs out every other browser.
+                  </p>
+                  {rotatedAppApiKey && (
+                    <div className="permission-code">
+                      New key (save it somewhere safe): <strong>{rotatedAppApiKey}</strong>
+                    </div>
+                  )}
+                  <button
+                    onClick={rotateAppApiKey}
+                    aria-label="Rotate the Sovereign Merchant API key"
+                  >
+                    Rotate App API Key
+                  </button>
+                </div>
+
                 <div className="modal-actions">
                   <button
                     onClick={() => {
                       setShowApiKeyForm(false);
                       setApiKeyInput('');
+                      setRotatedAppApiKey(null);
                     }}
                     aria-label="Cancel API key configuration and close modal"
                   >
@@ -589,12 +1109,43 @@ function App() {
           </div>
         )}
 
+        {showReconciliationSettings && (
+          <ReconciliationSettings
+            onClose={() => setShowReconciliationSettings(false)}
+            onSaved={fetchSettledInvoices}
+          />
+        )}
+
         {showSuccessModal && (
           <div className="modal-overlay">
             <div className="modal success-modal">
               <h3>✅ Success!</h3>
               <div className="modal-content">
                 <p>BTCPayServer API key saved successfully!</p>
+                {savedApiKeyCheck?.missingPermissions &&
+                  savedApiKeyCheck.missingPermissions.length > 0 && (
+                    <div className="missing-permissions">
+                      <p className="status-warning">
+                        ⚠️ The key is missing permissions Sovereign Merchant needs:
+                      </p>
+                      <ul aria-label="Missing permissions">
+                        {savedApiKeyCheck.missingPermissions.map((permission) => (
+                          <li key={permission} className="permission-code">
+                            {permission}
+                          </li>
+                        ))}
+                      </ul>
+                      {savedApiKeyCheck.authorizeUrl && (
+                        <a
+                          href={savedApiKeyCheck.authorizeUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          Authorize a new key with the right permissions
+                        </a>
+                      )}
+                    </div>
+                  )}
                 <div className="modal-actions">
                   <button onClick={() => setShowSuccessModal(false)} className="primary">
                     OK
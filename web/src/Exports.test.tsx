@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import axios from 'axios';
+import Exports, { buildExportUrl } from './Exports';
+
+// Mock axios
+vi.mock('axios');
+const mockedAxios = vi.mocked(axios);
+
+const stores = [
+  { id: 'store_789', name: 'Main Street Shop' },
+  { id: 'store_790', name: 'Online Shop' },
+];
+
+describe('Exports', () => {
+  let clickedDownloads: string[];
+
+  beforeEach(() => {
+    clickedDownloads = [];
+    mockedAxios.post.mockResolvedValue({ data: { token: 'token_123' } });
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (
+      this: HTMLAnchorElement
+    ) {
+      clickedDownloads.push(`${this.download} ${this.getAttribute('href')}`);
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  it('should download reconciliations through a link with a download token', async () => {
+    render(<Exports stores={stores} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Download CSV' }));
+
+    await waitFor(() =>
+      expect(clickedDownloads).toEqual([
+        'reconciliations.csv /api/export/reconciliations?format=csv&token=token_123',
+      ])
+    );
+    expect(mockedAxios.post).toHaveBeenCalledWith('/api/export/tokens', {
+      path: '/api/export/reconciliations',
+    });
+    expect(mockedAxios.get).not.toHaveBeenCalled();
+  });
+
+  it('should apply the chosen report and filters to the download', async () => {
+    render(<Exports stores={stores} />);
+
+    fireEvent.change(screen.getByLabelText('Report:'), { target: { value: 'payments' } });
+    fireEvent.change(screen.getByLabelText('From:'), { target: { value: '2024-01-01' } });
+    fireEvent.change(screen.getByLabelText('To:'), { target: { value: '2024-01-31' } });
+    fireEvent.change(screen.getByLabelText('Store:'), { target: { value: 'store_790' } });
+    fireEvent.change(screen.getByLabelText('Status:'), { target: { value: 'posted' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Download XLSX' }));
+
+    await waitFor(() =>
+      expect(clickedDownloads).toEqual([
+        'payments.xlsx /api/export/payments?format=xlsx&from=2024-01-01&to=2024-01-31&storeId=store_790&status=posted&token=token_123',
+      ])
+    );
+    expect(mockedAxios.post).toHaveBeenCalledWith('/api/export/tokens', {
+      path: '/api/export/payments',
+    });
+  });
+
+  it('should show an error when the download fails', async () => {
+    mockedAxios.post.mockRejectedValue(new Error('Request failed with status code 401'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    render(<Exports stores={stores} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Download CSV' }));
+
+    expect(await screen.findByText(/Failed to download the report/)).toBeInTheDocument();
+    expect(clickedDownloads).toEqual([]);
+    expect(screen.getByRole('button', { name: 'Download CSV' })).toBeEnabled();
+  });
+
+  it('should offer the statuses of the selected report and reset the choice on switching', () => {
+    render(<Exports stores={stores} />);
+
+    fireEvent.change(screen.getByLabelText('Status:'), { target: { value: 'invalidated' } });
+    fireEvent.change(screen.getByLabelText('Report:'), { target: { value: 'errors' } });
+
+    expect(screen.getByLabelText('Status:')).toHaveValue('');
+    const options = [...screen.getByLabelText('Status:').querySelectorAll('option')];
+    expect(options.map((option) => option.value)).toEqual(['', 'scheduled', 'dead', 'failed']);
+  });
+});
+
+describe('buildExportUrl', () => {
+  it('should leave out empty filters', () => {
+    expect(buildExportUrl('errors', 'csv', { from: '', storeId: 'store_789' })).toBe(
+      '/api/export/errors?format=csv&storeId=store_789'
+    );
+  });
+});
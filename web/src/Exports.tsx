@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import axios from 'axios';
+
+export type ReportType = 'invoices' | 'payments' | 'reconciliations' | 'errors';
+export type ReportFormat = 'csv' | 'xlsx';
+
+interface ExportStore {
+  id: string;
+  name: string;
+}
+
+const REPORTS: { type: ReportType; label: string }[] = [
+  { type: 'invoices', label: 'Invoices' },
+  { type: 'payments', label: 'Payments and refunds' },
+  { type: 'reconciliations', label: 'Reconciliations' },
+  { type: 'errors', label: 'Errors' },
+];
+
+// What the status filter matches in each report (mirrors the backend)
+const REPORT_STATUSES: Record<ReportType, string[]> = {
+  invoices: ['pending', 'paying', 'settled', 'expired', 'invalid', 'refunded'],
+  payments: ['paid', 'partial', 'overpaid', 'posted', 'failed'],
+  reconciliations: [
+    'pending',
+    'processing',
+    'completed',
+    'full',
+    'partial',
+    'overpaid',
+    'expired',
+    'invalidated',
+    'failed',
+  ],
+  errors: ['scheduled', 'dead', 'failed'],
+};
+
+interface ExportsProps {
+  stores: ExportStore[];
+}
+
+/**
+ * Build the download URL of a report with the chosen filters
+ */
+export function buildExportUrl(
+  type: ReportType,
+  format: ReportFormat,
+  filters: { from?: string; to?: string; storeId?: string; status?: string }
+): string {
+  const params = new URLSearchParams({ format });
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) {
+      params.set(key, value);
+    }
+  }
+  return `/api/export/${type}?${params.toString()}`;
+}
+
+/**
+ * Trade the API key for a short-lived token for the report's path and open a plain link, so
+ * the browser streams the file to disk instead of holding it in memory
+ */
+async function downloadReport(url: string, filename: string): Promise<void> {
+  const [path] = url.split('?');
+  const response = await axios.post<{ token: string }>('/api/export/tokens', { path });
+  const link = document.createElement('a');
+  link.href = `${url}&token=${encodeURIComponent(response.data.token)}`;
+  link.download = filename;
+  link.click();
+}
+
+/**
+ * CSV and XLSX downloads of invoices, payments, reconciliations and errors
+ */
+export default function Exports({ stores }: ExportsProps) {
+  const [type, setType] = useState<ReportType>('reconciliations');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [storeId, setStoreId] = useState('');
+  const [status, setStatus] = useState('');
+  const [downloading, setDownloading] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  const selectReport = (next: ReportType) => {
+    setType(next);
+    setStatus(''); // Statuses differ between reports
+  };
+
+  const filters = { from, to, storeId, status };
+
+  const download = async (format: ReportFormat) => {
+    setDownloading(true);
+    setDownloadError(null);
+    try {
+      await downloadReport(buildExportUrl(type, format, filters), `${type}.${format}`);
+    } catch (error) {
+      console.error('Failed to download report:', error);
+      setDownloadError('Failed to download the report. Check console for details.');
+    }
+    setDownloading(false);
+  };
+
+  return (
+    <div className="exports">
+      <div className="form-group">
+        <label htmlFor="export-report">Report:</label>
+        <select
+          id="export-report"
+          value={type}
+          onChange={(e) => selectReport(e.target.value as ReportType)}
+        >
+          {REPORTS.map((report) => (
+            <option key={report.type} value={report.type}>
+              {report.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="export-dates">
+        <div className="form-group">
+          <label htmlFor="export-from">From:</label>
+          <input
+            id="export-from"
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="export-to">To:</label>
+          <input id="export-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+      </div>
+      <div className="form-group">
+        <label htmlFor="export-store">Store:</label>
+        <select id="export-store" value={storeId} onChange={(e) => setStoreId(e.target.value)}>
+          <option value="">All stores</option>
+          {stores.map((store) => (
+            <option key={store.id} value={store.id}>
+              {store.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="form-group">
+        <label htmlFor="export-status">Status:</label>
+        <select id="export-status" value={status} onChange={(e) => setStatus(e.target.value)}>
+          <option value="">Any status</option>
+          {REPORT_STATUSES[type].map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="export-links">
+        <button onClick={() => download('csv')} disabled={downloading}>
+          Download CSV
+        </button>
+        <button onClick={() => download('xlsx')} disabled={downloading}>
+          Download XLSX
+        </button>
+      </div>
+      {downloadError && <p className="status-error">❌ {downloadError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import axios from 'axios';
+import ReconciliationSettings from './ReconciliationSettings';
+
+// Mock axios
+vi.mock('axios');
+const mockedAxios = vi.mocked(axios);
+
+const chart = {
+  provider: 'QuickBooks Online',
+  accounts: [
+    { id: '79', name: 'Sales', type: 'Income' },
+    { id: '35', name: 'Checking', type: 'Bank' },
+  ],
+  customers: [{ id: '58', name: 'Walk-in Customer' }],
+  paymentMethods: [{ id: '4', name: 'Bitcoin' }],
+  taxCodes: [{ id: 'NON', name: 'Out of scope' }],
+};
+
+function mockSettings(settings: object, chartResponse: Promise<unknown>) {
+  mockedAxios.get.mockImplementation((url: string) => {
+    if (url === '/api/config/reconciliation') {
+      return Promise.resolve({ data: settings });
+    }
+    if (url === '/api/config/reconciliation/accounts') {
+      return chartResponse;
+    }
+    return Promise.reject(new Error('Unknown URL'));
+  });
+}
+
+describe('ReconciliationSettings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedAxios.isAxiosError.mockReturnValue(false);
+  });
+
+  it('should populate the dropdowns from the chart of accounts', async () => {
+    mockSettings(
+      { mode: 'invoicing', accounts: { depositAccountId: '35', taxCodeId: 'NON' } },
+      Promise.resolve({ data: chart })
+    );
+
+    render(<ReconciliationSettings onClose={vi.fn()} />);
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Deposit account')).toHaveValue('35');
+    });
+    expect(screen.getByLabelText('Tax code')).toHaveValue('NON');
+    expect(screen.getByLabelText('Default customer')).toHaveValue('');
+    expect(screen.getByLabelText(/Invoice payments/)).toBeChecked();
+
+    // Bank accounts are listed first for deposits, income accounts first for income
+    const depositOptions = screen.getByLabelText('Deposit account').querySelectorAll('option');
+    expect(depositOptions[1]).toHaveTextContent('Checking');
+    const incomeOptions = screen.getByLabelText('Income account').querySelectorAll('option');
+    expect(incomeOptions[1]).toHaveTextContent('Sales');
+  });
+
+  it('should save the mode and mapping', async () => {
+    mockSettings({ mode: null, accounts: {} }, Promise.resolve({ data: chart }));
+    mockedAxios.post.mockResolvedValue({ data: { success: true } });
+    const onClose = vi.fn();
+    const onSaved = vi.fn();
+
+    render(<ReconciliationSettings onClose={onClose} onSaved={onSaved} />);
+
+    await waitFor(() => {
+      expect(screen.getByLabelText('Deposit account')).toBeInTheDocument();
+    });
+    fireEvent.change(screen.getByLabelText('Deposit account'), { target: { value: '35' } });
+    fireEvent.change(screen.getByLabelText('Income account'), { target: { value: '79' } });
+    fireEvent.change(screen.getByLabelText('Default customer'), { target: { value: '58' } });
+    fireEvent.click(screen.getByLabelText('Save reconciliation settings'));
+
+    await waitFor(() => {
+      expect(onClose).toHaveBeenCalled();
+    });
+    expect(mockedAxios.post).toHaveBeenCalledWith('/api/config/reconciliation', {
+      mode: 'deposit',
+      depositAccountId: '35',
+      incomeAccountId: '79',
+      customerId: '58',
+    });
+    expect(onSaved).toHaveBeenCalled();
+  });
+
+  it('should explain why the chart of accounts is unavailable', async () => {
+    mockedAxios.isAxiosError.mockReturnValue(true);
+    mockSettings(
+      { mode: 'deposit', accounts: {} },
+      Promise.reject({
+        response: { status: 400, data: { error: 'No accounting provider is connected' } },
+      })
+    );
+
+    render(<ReconciliationSettings onClose={vi.fn()} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('❌ No accounting provider is connected')).toBeInTheDocument();
+    });
+    expect(screen.queryByLabelText('Deposit account')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,241 @@
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+import { ReconciliationMode } from './SetupWizard';
+
+export interface AccountMapping {
+  depositAccountId?: string;
+  incomeAccountId?: string;
+  itemId?: string;
+  customerId?: string;
+  paymentMethodId?: string;
+  taxCodeId?: string;
+}
+
+interface ReconciliationSettingsResponse {
+  mode: ReconciliationMode | null;
+  accounts: AccountMapping;
+}
+
+interface ListItem {
+  id: string;
+  name: string;
+}
+
+interface ChartOfAccounts {
+  provider: string;
+  accounts: (ListItem & { type: string })[];
+  customers: ListItem[];
+  paymentMethods: ListItem[];
+  taxCodes: ListItem[];
+}
+
+// QuickBooks and Xero account types offered first for each mapping; the rest are listed after
+const DEPOSIT_ACCOUNT_TYPES = ['Bank', 'Other Current Asset', 'BANK'];
+const INCOME_ACCOUNT_TYPES = ['Income', 'Other Income', 'REVENUE', 'SALES', 'OTHERINCOME'];
+
+/**
+ * Accounts of the preferred types first, so the likely choices are at the top of the list
+ */
+function sortByType(accounts: ChartOfAccounts['accounts'], types: string[]) {
+  const preferred = accounts.filter((account) => types.includes(account.type));
+  const others = accounts.filter((account) => !types.includes(account.type));
+  return [...preferred, ...others];
+}
+
+interface MappingSelectProps {
+  id: keyof AccountMapping;
+  label: string;
+  items: ListItem[];
+  value: string | undefined;
+  emptyLabel: string;
+  onChange: (id: keyof AccountMapping, value: string) => void;
+}
+
+function MappingSelect({ id, label, items, value, emptyLabel, onChange }: MappingSelectProps) {
+  return (
+    <div className="form-group">
+      <label htmlFor={`mapping-${id}`}>{label}:</label>
+      <select
+        id={`mapping-${id}`}
+        value={value ?? ''}
+        onChange={(e) => onChange(id, e.target.value)}
+        aria-label={label}
+      >
+        <option value="">{emptyLabel}</option>
+        {items.map((item) => (
+          <option key={item.id} value={item.id}>
+            {item.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+interface ReconciliationSettingsProps {
+  onClose: () => void;
+  onSaved?: () => void;
+}
+
+/**
+ * Reconciliation mode and the accounts payments are posted to, picked from the provider's
+ * chart of accounts
+ */
+function ReconciliationSettings({ onClose, onSaved }: ReconciliationSettingsProps) {
+  const [mode, setMode] = useState<ReconciliationMode>('deposit');
+  const [accounts, setAccounts] = useState<AccountMapping>({});
+  const [chart, setChart] = useState<ChartOfAccounts | null>(null);
+  const [chartError, setChartError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const response = await axios.get<ReconciliationSettingsResponse>(
+        '/api/config/reconciliation'
+      );
+      setMode(response.data.mode ?? 'deposit');
+      setAccounts(response.data.accounts ?? {});
+    } catch (error) {
+      console.error('Failed to load reconciliation settings:', error);
+    }
+
+    try {
+      const response = await axios.get<ChartOfAccounts>('/api/config/reconciliation/accounts');
+      setChart(response.data);
+      setChartError(null);
+    } catch (error) {
+      console.error('Failed to load chart of accounts:', error);
+      setChartError(
+        axios.isAxiosError(error) && typeof error.response?.data?.error === 'string'
+          ? error.response.data.error
+          : 'Failed to load the chart of accounts'
+      );
+    }
+    setLoading(false);
+  };
+
+  const updateAccount = (id: keyof AccountMapping, value: string) => {
+    setAccounts((current) => ({ ...current, [id]: value || undefined }));
+  };
+
+  const saveSettings = async () => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await axios.post('/api/config/reconciliation', { mode, ...accounts });
+      onSaved?.();
+      onClose();
+    } catch (error) {
+      console.error('Failed to save reconciliation settings:', error);
+      setSaveError('Failed to save reconciliation settings. Check console for details.');
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal">
+        <h3>Reconciliation Settings</h3>
+        <div className="modal-content">
+          <fieldset className="mode-choice">
+            <legend>How should payments be recorded?</legend>
+            <label>
+              <input
+                type="radio"
+                name="reconciliationMode"
+                value="deposit"
+                checked={mode === 'deposit'}
+                onChange={() => setMode('deposit')}
+              />
+              Deposits - every payment is recorded as a deposit or sales receipt
+            </label>
+            <label>
+              <input
+                type="radio"
+                name="reconciliationMode"
+                value="invoicing"
+                checked={mode === 'invoicing'}
+                onChange={() => setMode('invoicing')}
+              />
+              Invoice payments - payments are applied to the matching invoice
+            </label>
+          </fieldset>
+
+          {loading ? (
+            <p>Loading chart of accounts...</p>
+          ) : chartError || !chart ? (
+            <p className="status-error">❌ {chartError}</p>
+          ) : (
+            <div className="account-mapping">
+              <h4>{chart.provider} accounts</h4>
+              <MappingSelect
+                id="depositAccountId"
+                label="Deposit account"
+                items={sortByType(chart.accounts, DEPOSIT_ACCOUNT_TYPES)}
+                value={accounts.depositAccountId}
+                emptyLabel="Undeposited Funds"
+                onChange={updateAccount}
+              />
+              <MappingSelect
+                id="incomeAccountId"
+                label="Income account"
+                items={sortByType(chart.accounts, INCOME_ACCOUNT_TYPES)}
+                value={accounts.incomeAccountId}
+                emptyLabel="Use a sales receipt instead"
+                onChange={updateAccount}
+              />
+              <MappingSelect
+                id="customerId"
+                label="Default customer"
+                items={chart.customers}
+                value={accounts.customerId}
+                emptyLabel="None"
+                onChange={updateAccount}
+              />
+              <MappingSelect
+                id="paymentMethodId"
+                label="Payment method"
+                items={chart.paymentMethods}
+                value={accounts.paymentMethodId}
+                emptyLabel="None"
+                onChange={updateAccount}
+              />
+              <MappingSelect
+                id="taxCodeId"
+                label="Tax code"
+                items={chart.taxCodes}
+                value={accounts.taxCodeId}
+                emptyLabel="None"
+                onChange={updateAccount}
+              />
+            </div>
+          )}
+
+          {saveError && <p className="status-error">❌ {saveError}</p>}
+
+          <div className="modal-actions">
+            <button onClick={onClose} aria-label="Close reconciliation settings without saving">
+              Cancel
+            </button>
+            <button
+              onClick={saveSettings}
+              disabled={saving || loading}
+              className="primary"
+              aria-label="Save reconciliation settings"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ReconciliationSettings;
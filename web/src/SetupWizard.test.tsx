@@ -0,0 +1,275 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import axios from 'axios';
+import SetupWizard, { SetupStatus } from './SetupWizard';
+
+// Mock axios
+vi.mock('axios');
+const mockedAxios = vi.mocked(axios);
+
+function setupStatus(overrides: Partial<SetupStatus> = {}): SetupStatus {
+  return {
+    state: 'BTCPAY_PENDING',
+    reasons: ['Enter a BTCPayServer API key'],
+    btcpay: {
+      url: 'http://umbrel.local:3003',
+      connected: true,
+      authenticated: false,
+      storeId: null,
+    },
+    accounting: { provider: 'quickbooks', connected: false },
+    quickbooks: { connected: false, realmId: null },
+    xero: { connected: false, tenantId: null, tenantName: null },
+    mode: null,
+    ...overrides,
+  };
+}
+
+describe('SetupWizard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedAxios.isAxiosError.mockReturnValue(false);
+  });
+
+  it('should search for BTCPayServer when nothing is configured', async () => {
+    const discovered = setupStatus();
+    mockedAxios.post.mockResolvedValue({ data: { status: discovered } });
+    const onStatusChange = vi.fn();
+
+    render(
+      <SetupWizard
+        status={setupStatus({ state: 'INIT', btcpay: { ...discovered.btcpay, url: null } })}
+        onStatusChange={onStatusChange}
+      />
+    );
+
+    expect(screen.getByText('Looking for your BTCPayServer...')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(onStatusChange).toHaveBeenCalledWith(discovered);
+    });
+    expect(mockedAxios.post).toHaveBeenCalledWith('/api/setup/state', { event: 'DISCOVER' });
+  });
+
+  it('should show the reasons and prefill the discovered BTCPayServer URL', () => {
+    render(<SetupWizard status={setupStatus()} onStatusChange={vi.fn()} />);
+
+    expect(screen.getByLabelText('Setup reasons')).toHaveTextContent(
+      'Enter a BTCPayServer API key'
+    );
+    expect(screen.getByLabelText('BTCPayServer URL input')).toHaveValue('http://umbrel.local:3003');
+    expect(screen.getByText('Connect BTCPayServer', { selector: 'li' })).toHaveAttribute(
+      'aria-current',
+      'step'
+    );
+  });
+
+  it('should connect BTCPayServer and move to the next step', async () => {
+    const next = setupStatus({ state: 'QBO_PENDING', reasons: ['Connect QuickBooks Online'] });
+    mockedAxios.post.mockImplementation((url: string) => {
+      if (url === '/api/config/btcpay') {
+        return Promise.resolve({ data: { success: true } });
+      }
+      return Promise.resolve({ data: { status: next } });
+    });
+    const onStatusChange = vi.fn();
+
+    render(<SetupWizard status={setupStatus()} onStatusChange={onStatusChange} />);
+    fireEvent.change(screen.getByLabelText('BTCPayServer API key input'), {
+      target: { value: 'key_123' },
+    });
+    fireEvent.click(screen.getByText('Connect BTCPayServer', { selector: 'button' }));
+
+    await waitFor(() => {
+      expect(onStatusChange).toHaveBeenCalledWith(next);
+    });
+    expect(mockedAxios.post).toHaveBeenCalledWith('/api/config/btcpay', {
+      url: 'http://umbrel.local:3003',
+      apiKey: 'key_123',
+    });
+    expect(mockedAxios.post).toHaveBeenCalledWith('/api/setup/state', { event: 'REFRESH' });
+  });
+
+  it("should show BTCPayServer's error when the connection fails", async () => {
+    mockedAxios.isAxiosError.mockReturnValue(true);
+    mockedAxios.post.mockRejectedValue({
+      response: { status: 400, data: { error: 'BTCPayServer rejected the API key' } },
+    });
+    const onStatusChange = vi.fn();
+
+    render(<SetupWizard status={setupStatus()} onStatusChange={onStatusChange} />);
+    fireEvent.change(screen.getByLabelText('BTCPayServer API key input'), {
+      target: { value: 'bad_key' },
+    });
+    fireEvent.click(screen.getByText('Connect BTCPayServer', { selector: 'button' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('❌ BTCPayServer rejected the API key')).toBeInTheDocument();
+    });
+    expect(onStatusChange).not.toHaveBeenCalled();
+  });
+
+  it('should start QuickBooks authorization and check for the connection', async () => {
+    const openSpy = vi.spyOn(window, 'open').mockImplementation(() => null);
+    mockedAxios.post.mockResolvedValue({ data: { success: true } });
+    mockedAxios.get.mockResolvedValue({ data: { authUrl: 'https://appcenter.intuit.com/auth' } });
+
+    render(
+      <SetupWizard
+        status={setupStatus({ state: 'QBO_PENDING', reasons: ['Connect QuickBooks Online'] })}
+        onStatusChange={vi.fn()}
+      />
+    );
+    fireEvent.change(screen.getByLabelText('QuickBooks client ID input'), {
+      target: { value: 'client-id' },
+    });
+    fireEvent.change(screen.getByLabelText('QuickBooks client secret input'), {
+      target: { value: 'client-secret' },
+    });
+    fireEvent.click(screen.getByText('Connect QuickBooks', { selector: 'button' }));
+
+    await waitFor(() => {
+      expect(screen.getByText("I've authorized QuickBooks")).toBeInTheDocument();
+    });
+    expect(mockedAxios.post).toHaveBeenCalledWith('/api/config/qbo/credentials', {
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      environment: 'production',
+    });
+    expect(openSpy).toHaveBeenCalledWith(
+      'https://appcenter.intuit.com/auth',
+      '_blank',
+      'noopener,noreferrer'
+    );
+    openSpy.mockRestore();
+  });
+
+  it('should let the merchant choose Xero instead of QuickBooks', async () => {
+    const xeroPending = setupStatus({
+      state: 'QBO_PENDING',
+      reasons: ['Connect Xero'],
+      accounting: { provider: 'xero', connected: false },
+    });
+    mockedAxios.post.mockResolvedValue({ data: { status: xeroPending } });
+    const onStatusChange = vi.fn();
+
+    render(
+      <SetupWizard
+        status={setupStatus({ state: 'QBO_PENDING', reasons: ['Connect QuickBooks Online'] })}
+        onStatusChange={onStatusChange}
+      />
+    );
+    fireEvent.click(screen.getByLabelText('Keep the books in Xero'));
+
+    await waitFor(() => {
+      expect(onStatusChange).toHaveBeenCalledWith(xeroPending);
+    });
+    expect(mockedAxios.post).toHaveBeenCalledWith('/api/setup/state', {
+      event: 'SELECT_PROVIDER',
+      provider: 'xero',
+    });
+  });
+
+  it('should start Xero authorization with just a client ID', async () => {
+    const openSpy = vi.spyOn(window, 'open').mockImplementation(() => null);
+    mockedAxios.post.mockResolvedValue({ data: { success: true } });
+    mockedAxios.get.mockResolvedValue({ data: { authUrl: 'https://login.xero.com/authorize' } });
+
+    render(
+      <SetupWizard
+        status={setupStatus({
+          state: 'QBO_PENDING',
+          reasons: ['Connect Xero'],
+          accounting: { provider: 'xero', connected: false },
+        })}
+        onStatusChange={vi.fn()}
+      />
+    );
+    expect(screen.queryByLabelText('QuickBooks client ID input')).not.toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Xero client ID input'), {
+      target: { value: 'xero-client' },
+    });
+    fireEvent.click(screen.getByText('Connect Xero', { selector: 'button' }));
+
+    await waitFor(() => {
+      expect(screen.getByText("I've authorized Xero")).toBeInTheDocument();
+    });
+    expect(mockedAxios.post).toHaveBeenCalledWith('/api/config/xero/credentials', {
+      clientId: 'xero-client',
+    });
+    expect(openSpy).toHaveBeenCalledWith(
+      'https://login.xero.com/authorize',
+      '_blank',
+      'noopener,noreferrer'
+    );
+    openSpy.mockRestore();
+  });
+
+  it('should select the Xero organisation to reconcile', async () => {
+    mockedAxios.get.mockResolvedValue({
+      data: {
+        tenants: [
+          { tenantId: 'tenant_1', tenantName: 'Demo Company (US)' },
+          { tenantId: 'tenant_2', tenantName: 'Second Shop Ltd' },
+        ],
+      },
+    });
+    const modePending = setupStatus({ state: 'MODE_PENDING', reasons: [] });
+    mockedAxios.post.mockImplementation((url: string) =>
+      Promise.resolve({ data: url === '/api/setup/state' ? { status: modePending } : {} })
+    );
+    const onStatusChange = vi.fn();
+
+    render(
+      <SetupWizard
+        status={setupStatus({
+          state: 'QBO_PENDING',
+          reasons: ['Select the Xero organisation to reconcile'],
+          accounting: { provider: 'xero', connected: false },
+          xero: { connected: true, tenantId: null, tenantName: null },
+        })}
+        onStatusChange={onStatusChange}
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Second Shop Ltd')).toBeInTheDocument();
+    });
+    fireEvent.change(screen.getByLabelText('Xero organisation'), {
+      target: { value: 'tenant_2' },
+    });
+    fireEvent.click(screen.getByText('Use this organisation'));
+
+    await waitFor(() => {
+      expect(onStatusChange).toHaveBeenCalledWith(modePending);
+    });
+    expect(mockedAxios.get).toHaveBeenCalledWith('/api/config/xero/tenants');
+    expect(mockedAxios.post).toHaveBeenCalledWith('/api/config/xero/tenant', {
+      tenantId: 'tenant_2',
+    });
+  });
+
+  it('should select the reconciliation mode', async () => {
+    const ready = setupStatus({ state: 'READY', reasons: [], mode: 'invoicing' });
+    mockedAxios.post.mockResolvedValue({ data: { status: ready } });
+    const onStatusChange = vi.fn();
+
+    render(
+      <SetupWizard
+        status={setupStatus({
+          state: 'MODE_PENDING',
+          reasons: ['Choose how payments are recorded: deposit or invoicing'],
+        })}
+        onStatusChange={onStatusChange}
+      />
+    );
+    fireEvent.click(screen.getByLabelText('Record payments as invoice payments'));
+
+    await waitFor(() => {
+      expect(onStatusChange).toHaveBeenCalledWith(ready);
+    });
+    expect(mockedAxios.post).toHaveBeenCalledWith('/api/setup/state', {
+      event: 'SELECT_MODE',
+      mode: 'invoicing',
+    });
+  });
+});
@@ -0,0 +1,509 @@
+import { useState, useEffect } from 'react';
+import axios from 'axios';
+
+export type SetupState =
+  | 'INIT'
+  | 'BTCPAY_PENDING'
+  | 'QBO_PENDING'
+  | 'MODE_PENDING'
+  | 'READY'
+  | 'ERROR';
+
+export type ReconciliationMode = 'deposit' | 'invoicing';
+export type AccountingProviderId = 'quickbooks' | 'xero';
+
+export interface SetupStatus {
+  state: SetupState;
+  reasons: string[];
+  btcpay: {
+    url: string | null;
+    connected: boolean;
+    authenticated: boolean;
+    storeId: string | null;
+  };
+  accounting: {
+    provider: AccountingProviderId;
+    connected: boolean;
+  };
+  quickbooks: {
+    connected: boolean;
+    realmId: string | null;
+  };
+  xero: {
+    connected: boolean;
+    tenantId: string | null;
+    tenantName: string | null;
+  };
+  mode: ReconciliationMode | null;
+}
+
+interface SetupTransitionResponse {
+  status: SetupStatus;
+  error?: string;
+}
+
+interface XeroTenant {
+  tenantId: string;
+  tenantName: string;
+}
+
+type SetupEvent =
+  | { event: 'DISCOVER' | 'REFRESH' }
+  | { event: 'SELECT_PROVIDER'; provider: AccountingProviderId }
+  | { event: 'SELECT_MODE'; mode: string };
+
+const WIZARD_STEPS: { state: SetupState; title: string }[] = [
+  { state: 'BTCPAY_PENDING', title: 'Connect BTCPayServer' },
+  { state: 'QBO_PENDING', title: 'Connect your books' },
+  { state: 'MODE_PENDING', title: 'Choose how payments are recorded' },
+];
+
+const PROVIDER_OPTIONS: { provider: AccountingProviderId; title: string }[] = [
+  { provider: 'quickbooks', title: 'QuickBooks Online' },
+  { provider: 'xero', title: 'Xero' },
+];
+
+const MODE_OPTIONS: { mode: ReconciliationMode; title: string; description: string }[] = [
+  {
+    mode: 'deposit',
+    title: 'Deposits',
+    description: 'Record each settled payment as a bank deposit.',
+  },
+  {
+    mode: 'invoicing',
+    title: 'Invoice payments',
+    description: 'Apply each settled payment to the matching invoice in your books.',
+  },
+];
+
+/**
+ * Message from a failed API call, preferring the server's own error text
+ */
+function errorMessage(error: unknown, fallback: string): string {
+  if (axios.isAxiosError(error) && typeof error.response?.data?.error === 'string') {
+    return error.response.data.error;
+  }
+  return fallback;
+}
+
+/**
+ * Send a setup event; the server answers with the new state even when it refuses the event
+ */
+export async function sendSetupEvent(event: SetupEvent): Promise<SetupStatus | null> {
+  try {
+    const response = await axios.post<SetupTransitionResponse>('/api/setup/state', event);
+    return response.data.status;
+  } catch (error) {
+    console.error(`Setup event ${event.event} failed:`, error);
+    if (axios.isAxiosError(error) && error.response?.data?.status) {
+      return error.response.data.status as SetupStatus;
+    }
+    return null;
+  }
+}
+
+interface SetupWizardProps {
+  status: SetupStatus;
+  onStatusChange: (status: SetupStatus) => void;
+}
+
+/**
+ * First-run wizard driven by the server's setup state: BTCPayServer, QuickBooks or Xero, then mode
+ */
+function SetupWizard({ status, onStatusChange }: SetupWizardProps) {
+  const [btcpayUrl, setBtcpayUrl] = useState(status.btcpay.url ?? '');
+  const [btcpayApiKey, setBtcpayApiKey] = useState('');
+  const [qboClientId, setQboClientId] = useState('');
+  const [qboClientSecret, setQboClientSecret] = useState('');
+  const [qboEnvironment, setQboEnvironment] = useState<'production' | 'sandbox'>('production');
+  const [qboAuthorizationStarted, setQboAuthorizationStarted] = useState(false);
+  const [xeroClientId, setXeroClientId] = useState('');
+  const [xeroAuthorizationStarted, setXeroAuthorizationStarted] = useState(false);
+  const [xeroTenants, setXeroTenants] = useState<XeroTenant[]>([]);
+  const [xeroTenantId, setXeroTenantId] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Nothing configured yet: look for BTCPayServer on the usual Umbrel/Start9 addresses
+    if (status.state === 'INIT') {
+      void applyEvent({ event: 'DISCOVER' });
+    }
+  }, [status.state]);
+
+  useEffect(() => {
+    if (status.btcpay.url) {
+      setBtcpayUrl(status.btcpay.url);
+    }
+  }, [status.btcpay.url]);
+
+  const needsXeroTenant =
+    status.state === 'QBO_PENDING' &&
+    status.accounting.provider === 'xero' &&
+    status.xero.connected &&
+    !status.xero.tenantId;
+
+  useEffect(() => {
+    // Xero was authorized for several organisations: list them to choose from
+    if (needsXeroTenant) {
+      void loadXeroTenants();
+    }
+  }, [needsXeroTenant]);
+
+  const applyEvent = async (event: SetupEvent) => {
+    setBusy(true);
+    const next = await sendSetupEvent(event);
+    setBusy(false);
+    if (next) {
+      onStatusChange(next);
+    } else {
+      setError('Failed to update setup. Check console for details.');
+    }
+  };
+
+  const connectBtcpay = async () => {
+    if (!btcpayUrl.trim() || !btcpayApiKey.trim()) {
+      setError('Enter both the BTCPayServer URL and an API key');
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await axios.post('/api/config/btcpay', {
+        url: btcpayUrl.trim(),
+        apiKey: btcpayApiKey.trim(),
+      });
+      setBtcpayApiKey('');
+      await applyEvent({ event: 'REFRESH' });
+    } catch (error) {
+      console.error('Failed to configure BTCPayServer:', error);
+      setError(errorMessage(error, 'Failed to connect to BTCPayServer'));
+      setBusy(false);
+    }
+  };
+
+  const connectQuickbooks = async () => {
+    if (!qboClientId.trim() || !qboClientSecret.trim()) {
+      setError('Enter both the QuickBooks client ID and client secret');
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await axios.post('/api/config/qbo/credentials', {
+        clientId: qboClientId.trim(),
+        clientSecret: qboClientSecret.trim(),
+        environment: qboEnvironment,
+      });
+      const response = await axios.get<{ authUrl: string }>('/api/config/qbo/url');
+      window.open(response.data.authUrl, '_blank', 'noopener,noreferrer');
+      setQboClientSecret('');
+      setQboAuthorizationStarted(true);
+    } catch (error) {
+      console.error('Failed to start QuickBooks authorization:', error);
+      setError(errorMessage(error, 'Failed to start QuickBooks authorization'));
+    }
+    setBusy(false);
+  };
+
+  const connectXero = async () => {
+    if (!xeroClientId.trim()) {
+      setError('Enter the client ID of your Xero app');
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await axios.post('/api/config/xero/credentials', { clientId: xeroClientId.trim() });
+      const response = await axios.get<{ authUrl: string }>('/api/config/xero/url');
+      window.open(response.data.authUrl, '_blank', 'noopener,noreferrer');
+      setXeroAuthorizationStarted(true);
+    } catch (error) {
+      console.error('Failed to start Xero authorization:', error);
+      setError(errorMessage(error, 'Failed to start Xero authorization'));
+    }
+    setBusy(false);
+  };
+
+  const loadXeroTenants = async () => {
+    try {
+      const response = await axios.get<{ tenants: XeroTenant[] }>('/api/config/xero/tenants');
+      setXeroTenants(response.data.tenants);
+      setXeroTenantId(response.data.tenants[0]?.tenantId ?? '');
+    } catch (error) {
+      console.error('Failed to load Xero organisations:', error);
+      setError(errorMessage(error, 'Failed to load your Xero organisations'));
+    }
+  };
+
+  const selectXeroTenant = async () => {
+    if (!xeroTenantId) {
+      setError('Choose the Xero organisation to reconcile');
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await axios.post('/api/config/xero/tenant', { tenantId: xeroTenantId });
+      await applyEvent({ event: 'REFRESH' });
+    } catch (error) {
+      console.error('Failed to select Xero organisation:', error);
+      setError(errorMessage(error, 'Failed to select the Xero organisation'));
+      setBusy(false);
+    }
+  };
+
+  const currentStep = WIZARD_STEPS.findIndex((step) => step.state === status.state);
+
+  return (
+    <div className="setup-screen">
+      <div className="setup-card setup-wizard">
+        <h2>Welcome to Sovereign Merchant</h2>
+
+        <ol className="wizard-steps" aria-label="Setup progress">
+          {WIZARD_STEPS.map((step, index) => (
+            <li
+              key={step.state}
+              className={
+                index === currentStep ? 'current' : index < currentStep ? 'done' : undefined
+              }
+              aria-current={index === currentStep ? 'step' : undefined}
+            >
+              <span className="step-number">{index + 1}</span>
+              {step.title}
+            </li>
+          ))}
+        </ol>
+
+        {status.reasons.length > 0 && (
+          <ul className="setup-reasons" aria-label="Setup reasons">
+            {status.reasons.map((reason) => (
+              <li key={reason}>{reason}</li>
+            ))}
+          </ul>
+        )}
+
+        {error && <p className="status-error">❌ {error}</p>}
+
+        {status.state === 'INIT' && <p>Looking for your BTCPayServer...</p>}
+
+        {status.state === 'BTCPAY_PENDING' && (
+          <div className="wizard-step-content">
+            <div className="form-group">
+              <label htmlFor="setupBtcpayUrl">BTCPayServer URL:</label>
+              <input
+                type="url"
+                id="setupBtcpayUrl"
+                value={btcpayUrl}
+                onChange={(e) => setBtcpayUrl(e.target.value)}
+                placeholder="https://btcpay.example.com"
+                aria-label="BTCPayServer URL input"
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="setupBtcpayApiKey">API Key:</label>
+              <input
+                type="password"
+                id="setupBtcpayApiKey"
+                value={btcpayApiKey}
+                onChange={(e) => setBtcpayApiKey(e.target.value)}
+                placeholder="Enter your BTCPayServer API key"
+                autoComplete="off"
+                aria-label="BTCPayServer API key input"
+              />
+            </div>
+            <div className="wizard-actions">
+              <button
+                onClick={() => applyEvent({ event: 'DISCOVER' })}
+                disabled={busy}
+                aria-label="Search the network for BTCPayServer again"
+              >
+                Search again
+              </button>
+              <button
+                onClick={connectBtcpay}
+                disabled={busy}
+                className="primary-setup-button"
+                aria-label="Connect to BTCPayServer with the entered URL and API key"
+              >
+                Connect BTCPayServer
+              </button>
+            </div>
+          </div>
+        )}
+
+        {status.state === 'QBO_PENDING' && (
+          <div className="provider-options" role="group" aria-label="Accounting provider">
+            {PROVIDER_OPTIONS.map((option) => (
+              <button
+                key={option.provider}
+                onClick={() => applyEvent({ event: 'SELECT_PROVIDER', provider: option.provider })}
+                disabled={busy}
+                className={
+                  option.provider === status.accounting.provider
+                    ? 'provider-option selected'
+                    : 'provider-option'
+                }
+                aria-pressed={option.provider === status.accounting.provider}
+                aria-label={`Keep the books in ${option.title}`}
+              >
+                {option.title}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {status.state === 'QBO_PENDING' && status.accounting.provider === 'quickbooks' && (
+          <div className="wizard-step-content">
+            <p>
+              Create an app in the Intuit developer portal and paste its client ID and secret below.
+            </p>
+            <div className="form-group">
+              <label htmlFor="setupQboClientId">Client ID:</label>
+              <input
+                type="text"
+                id="setupQboClientId"
+                value={qboClientId}
+                onChange={(e) => setQboClientId(e.target.value)}
+                autoComplete="off"
+                aria-label="QuickBooks client ID input"
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="setupQboClientSecret">Client Secret:</label>
+              <input
+                type="password"
+                id="setupQboClientSecret"
+                value={qboClientSecret}
+                onChange={(e) => setQboClientSecret(e.target.value)}
+                autoComplete="off"
+                aria-label="QuickBooks client secret input"
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="setupQboEnvironment">Environment:</label>
+              <select
+                id="setupQboEnvironment"
+                value={qboEnvironment}
+                onChange={(e) => setQboEnvironment(e.target.value as 'production' | 'sandbox')}
+                aria-label="QuickBooks environment"
+              >
+                <option value="production">Production</option>
+                <option value="sandbox">Sandbox</option>
+              </select>
+            </div>
+            <div className="wizard-actions">
+              {qboAuthorizationStarted && (
+                <button
+                  onClick={() => applyEvent({ event: 'REFRESH' })}
+                  disabled={busy}
+                  aria-label="Check whether QuickBooks is connected"
+                >
+                  I've authorized QuickBooks
+                </button>
+              )}
+              <button
+                onClick={connectQuickbooks}
+                disabled={busy}
+                className="primary-setup-button"
+                aria-label="Authorize Sovereign Merchant in QuickBooks"
+              >
+                Connect QuickBooks
+              </button>
+            </div>
+          </div>
+        )}
+
+        {status.state === 'QBO_PENDING' &&
+          status.accounting.provider === 'xero' &&
+          !status.xero.connected && (
+            <div className="wizard-step-content">
+              <p>
+                Create a PKCE app in the Xero developer portal and paste its client ID below. No
+                client secret is needed.
+              </p>
+              <div className="form-group">
+                <label htmlFor="setupXeroClientId">Client ID:</label>
+                <input
+                  type="text"
+                  id="setupXeroClientId"
+                  value={xeroClientId}
+                  onChange={(e) => setXeroClientId(e.target.value)}
+                  autoComplete="off"
+                  aria-label="Xero client ID input"
+                />
+              </div>
+              <div className="wizard-actions">
+                {xeroAuthorizationStarted && (
+                  <button
+                    onClick={() => applyEvent({ event: 'REFRESH' })}
+                    disabled={busy}
+                    aria-label="Check whether Xero is connected"
+                  >
+                    I've authorized Xero
+                  </button>
+                )}
+                <button
+                  onClick={connectXero}
+                  disabled={busy}
+                  className="primary-setup-button"
+                  aria-label="Authorize Sovereign Merchant in Xero"
+                >
+                  Connect Xero
+                </button>
+              </div>
+            </div>
+          )}
+
+        {needsXeroTenant && (
+          <div className="wizard-step-content">
+            <div className="form-group">
+              <label htmlFor="setupXeroTenant">Organisation:</label>
+              <select
+                id="setupXeroTenant"
+                value={xeroTenantId}
+                onChange={(e) => setXeroTenantId(e.target.value)}
+                aria-label="Xero organisation"
+              >
+                {xeroTenants.map((tenant) => (
+                  <option key={tenant.tenantId} value={tenant.tenantId}>
+                    {tenant.tenantName}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="wizard-actions">
+              <button
+                onClick={selectXeroTenant}
+                disabled={busy || xeroTenants.length === 0}
+                className="primary-setup-button"
+                aria-label="Reconcile payments into the selected Xero organisation"
+              >
+                Use this organisation
+              </button>
+            </div>
+          </div>
+        )}
+
+        {status.state === 'MODE_PENDING' && (
+          <div className="wizard-step-content mode-options">
+            {MODE_OPTIONS.map((option) => (
+              <button
+                key={option.mode}
+                onClick={() => applyEvent({ event: 'SELECT_MODE', mode: option.mode })}
+                disabled={busy}
+                className="mode-option"
+                aria-label={`Record payments as ${option.title.toLowerCase()}`}
+              >
+                <strong>{option.title}</strong>
+                <span>{option.description}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default SetupWizard;